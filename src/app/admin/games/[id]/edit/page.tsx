@@ -9,9 +9,13 @@ import { Card } from '@/components/ui/Card';
 import { Input } from '@/components/ui/Input';
 import { Textarea } from '@/components/ui/Textarea';
 import { Button } from '@/components/ui/Button';
+import { ScoringTemplateEditor } from '@/components/games/ScoringTemplateEditor';
 import { PageLoader } from '@/components/ui/LoadingSpinner';
 import { getGame, updateGame } from '@/lib/firebase/db';
-import type { Game } from '@/types';
+import { parseMapPool } from '@/lib/veto';
+import { toStoredScoringTemplate } from '@/lib/scoring';
+import { DEFAULT_MATCH_DURATION_MINUTES } from '@/lib/conflicts';
+import type { Game, ScoringTemplate } from '@/types';
 
 const EMOJI_SUGGESTIONS = ['🎮', '🎯', '⚽', '🏀', '🎲', '🃏', '🏆', '⚔️', '🔫', '🚗', '🏎️', '🎖️', '🦸', '🧙', '🎪', '🎭'];
 
@@ -26,6 +30,9 @@ export default function EditGamePage() {
   const [name, setName] = useState('');
   const [icon, setIcon] = useState('🎮');
   const [description, setDescription] = useState('');
+  const [mapPool, setMapPool] = useState('');
+  const [matchDuration, setMatchDuration] = useState('');
+  const [scoringTemplate, setScoringTemplate] = useState<ScoringTemplate | undefined>();
   const [isActive, setIsActive] = useState(true);
 
   useEffect(() => {
@@ -41,6 +48,9 @@ export default function EditGamePage() {
         setName(fetchedGame.name);
         setIcon(fetchedGame.icon);
         setDescription(fetchedGame.description || '');
+        setMapPool((fetchedGame.mapPool || []).join('\n'));
+        setMatchDuration(fetchedGame.matchDurationMinutes ? String(fetchedGame.matchDurationMinutes) : '');
+        setScoringTemplate(fetchedGame.scoringTemplate);
         setIsActive(fetchedGame.isActive);
       } catch (error) {
         console.error('Error fetching game:', error);
@@ -64,6 +74,10 @@ export default function EditGamePage() {
       toast.error('Please select or enter an icon');
       return;
     }
+    if (scoringTemplate && scoringTemplate.eventRules.length === 0) {
+      toast.error('Pick at least one scoring event');
+      return;
+    }
 
     setIsSaving(true);
     try {
@@ -71,8 +85,12 @@ export default function EditGamePage() {
         name: name.trim(),
         icon,
         description: description.trim() || undefined,
+        mapPool: parseMapPool(mapPool),
+        // null clears a template that was switched back to default scoring
+        scoringTemplate: scoringTemplate ? toStoredScoringTemplate(scoringTemplate) : null,
+        matchDurationMinutes: parseInt(matchDuration) || null,
         isActive,
-      });
+      } as Partial<Game>);
 
       toast.success('Game updated successfully!');
       router.push('/admin/games');
@@ -157,6 +175,29 @@ export default function EditGamePage() {
               rows={3}
             />
 
+            <Textarea
+              label="Map Pool (optional)"
+              placeholder={'One map per line, e.g.\nAscent\nBind\nHaven'}
+              value={mapPool}
+              onChange={(e) => setMapPool(e.target.value)}
+              rows={5}
+            />
+            <p className="text-xs text-dark-400 -mt-4">
+              Captains ban and pick from these maps before a match.
+            </p>
+
+            <Input
+              label="Match Duration (minutes, optional)"
+              type="number"
+              min={1}
+              placeholder={String(DEFAULT_MATCH_DURATION_MINUTES)}
+              value={matchDuration}
+              onChange={(e) => setMatchDuration(e.target.value)}
+              helperText="How long one game usually takes. Players are warned before booking overlapping matches."
+            />
+
+            <ScoringTemplateEditor value={scoringTemplate} onChange={setScoringTemplate} />
+
             {/* Active Toggle */}
             <div className="flex items-center gap-3">
               <input
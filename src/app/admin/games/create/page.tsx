@@ -9,7 +9,12 @@ import { Card } from '@/components/ui/Card';
 import { Input } from '@/components/ui/Input';
 import { Textarea } from '@/components/ui/Textarea';
 import { Button } from '@/components/ui/Button';
+import { ScoringTemplateEditor } from '@/components/games/ScoringTemplateEditor';
 import { createGame } from '@/lib/firebase/db';
+import { parseMapPool } from '@/lib/veto';
+import { toStoredScoringTemplate } from '@/lib/scoring';
+import { DEFAULT_MATCH_DURATION_MINUTES } from '@/lib/conflicts';
+import type { ScoringTemplate } from '@/types';
 
 const EMOJI_SUGGESTIONS = ['🎮', '🎯', '⚽', '🏀', '🎲', '🃏', '🏆', '⚔️', '🔫', '🚗', '🏎️', '🎖️', '🦸', '🧙', '🎪', '🎭'];
 
@@ -19,6 +24,9 @@ export default function CreateGamePage() {
   const [name, setName] = useState('');
   const [icon, setIcon] = useState('🎮');
   const [description, setDescription] = useState('');
+  const [mapPool, setMapPool] = useState('');
+  const [matchDuration, setMatchDuration] = useState('');
+  const [scoringTemplate, setScoringTemplate] = useState<ScoringTemplate | undefined>();
   const [isActive, setIsActive] = useState(true);
 
   const handleSubmit = async (e: React.FormEvent) => {
@@ -32,6 +40,10 @@ export default function CreateGamePage() {
       toast.error('Please select or enter an icon');
       return;
     }
+    if (scoringTemplate && scoringTemplate.eventRules.length === 0) {
+      toast.error('Pick at least one scoring event');
+      return;
+    }
 
     setIsLoading(true);
     try {
@@ -39,6 +51,9 @@ export default function CreateGamePage() {
         name: name.trim(),
         icon,
         description: description.trim() || undefined,
+        mapPool: parseMapPool(mapPool),
+        scoringTemplate: scoringTemplate && toStoredScoringTemplate(scoringTemplate),
+        matchDurationMinutes: parseInt(matchDuration) || undefined,
         isActive,
       });
 
@@ -121,6 +136,29 @@ export default function CreateGamePage() {
               rows={3}
             />
 
+            <Textarea
+              label="Map Pool (optional)"
+              placeholder={'One map per line, e.g.\nAscent\nBind\nHaven'}
+              value={mapPool}
+              onChange={(e) => setMapPool(e.target.value)}
+              rows={5}
+            />
+            <p className="text-xs text-dark-400 -mt-4">
+              Captains ban and pick from these maps before a match.
+            </p>
+
+            <Input
+              label="Match Duration (minutes, optional)"
+              type="number"
+              min={1}
+              placeholder={String(DEFAULT_MATCH_DURATION_MINUTES)}
+              value={matchDuration}
+              onChange={(e) => setMatchDuration(e.target.value)}
+              helperText="How long one game usually takes. Players are warned before booking overlapping matches."
+            />
+
+            <ScoringTemplateEditor value={scoringTemplate} onChange={setScoringTemplate} />
+
             {/* Active Toggle */}
             <div className="flex items-center gap-3">
               <input
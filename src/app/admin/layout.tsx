@@ -20,6 +20,8 @@ import {
   BuildingOffice2Icon,
   SparklesIcon,
   MegaphoneIcon,
+  ScaleIcon,
+  NewspaperIcon,
 } from '@heroicons/react/24/outline';
 import { useAuthStore } from '@/store/authStore';
 import { PageLoader } from '@/components/ui/LoadingSpinner';
@@ -30,10 +32,12 @@ import toast from 'react-hot-toast';
 const adminNav = [
   { name: 'Dashboard', href: '/admin', icon: HomeIcon, minRole: 'moderator' as const },
   { name: 'Posts', href: '/admin/posts', icon: DocumentTextIcon, minRole: 'moderator' as const },
+  { name: 'Match Recaps', href: '/admin/posts/recaps', icon: NewspaperIcon, minRole: 'moderator' as const },
   { name: 'Feed Stories', href: '/admin/stories', icon: SparklesIcon, minRole: 'admin' as const },
   { name: 'Sponsored', href: '/admin/sponsored', icon: MegaphoneIcon, minRole: 'admin' as const },
   { name: 'Tournaments', href: '/admin/tournaments', icon: TrophyIcon, minRole: 'admin' as const },
   { name: 'Matches', href: '/admin/matches', icon: PlayIcon, minRole: 'admin' as const },
+  { name: 'Disputes', href: '/admin/matches/disputes', icon: ScaleIcon, minRole: 'admin' as const },
   { name: 'Games', href: '/admin/games', icon: PuzzlePieceIcon, minRole: 'admin' as const },
   { name: 'Schools', href: '/admin/schools', icon: AcademicCapIcon, minRole: 'admin' as const },
   { name: 'Users', href: '/admin/users', icon: UserGroupIcon, minRole: 'admin' as const },
@@ -6,7 +6,15 @@ import Image from 'next/image';
 import { motion } from 'framer-motion';
 import { format } from 'date-fns';
 import toast from 'react-hot-toast';
-import { ArrowLeftIcon, PhotoIcon, XMarkIcon, PlusIcon, TrashIcon } from '@heroicons/react/24/outline';
+import {
+  ArrowLeftIcon,
+  PhotoIcon,
+  XMarkIcon,
+  PlusIcon,
+  TrashIcon,
+  PencilIcon,
+  ArrowUturnLeftIcon,
+} from '@heroicons/react/24/outline';
 import { Card } from '@/components/ui/Card';
 import { Input } from '@/components/ui/Input';
 import { Textarea } from '@/components/ui/Textarea';
@@ -14,21 +22,32 @@ import { Select } from '@/components/ui/Select';
 import { Button } from '@/components/ui/Button';
 import { Badge } from '@/components/ui/Badge';
 import { PageLoader } from '@/components/ui/LoadingSpinner';
-import { getMatch, updateMatch, getGames, updateMatchScores, addMatchEvent, updateMatchGameState, clearMatchEvents } from '@/lib/firebase/db';
+import {
+  getMatch,
+  updateMatch,
+  getGames,
+  updateMatchScores,
+  addMatchEvent,
+  updateMatchEvent,
+  deleteMatchEvent,
+  restoreMatchEvent,
+  migrateLegacyMatchEvents,
+  subscribeToMatchEvents,
+  updateMatchGameState,
+  clearMatchEvents,
+  updateUpcomingOccurrences,
+} from '@/lib/firebase/db';
 import { uploadMatchBanner } from '@/lib/firebase/storage';
-import { GAMES, type Match, type MatchType, type MatchStatus, type Game, type MatchParticipant, type MatchEvent, type MatchEventType } from '@/types';
-
-// Event type options for the dropdown
-const EVENT_TYPE_OPTIONS = [
-  { value: 'goal', label: '⚽ Goal' },
-  { value: 'assist', label: '🎯 Assist' },
-  { value: 'kill', label: '💀 Kill' },
-  { value: 'round_win', label: '🏆 Round Win' },
-  { value: 'point', label: '📍 Point' },
-  { value: 'save', label: '🧤 Save' },
-  { value: 'penalty', label: '🔴 Penalty' },
-  { value: 'other', label: '📌 Other' },
-];
+import { useAuthStore } from '@/store/authStore';
+import { getScoresFromEvents } from '@/lib/matchEvents';
+import { BEST_OF_OPTIONS, getWinsRequired } from '@/lib/series';
+import { getLineupPlayers } from '@/lib/lineups';
+import { DEFAULT_RECAP_MODE, RECAP_MODES } from '@/lib/recap';
+import { isUpcomingOccurrence } from '@/lib/recurrence';
+import { MatchSeriesCard } from '@/components/matches/MatchSeriesCard';
+import { HostSchoolSelect } from '@/components/schools/HostSchoolSelect';
+import { describeWinCondition, getEventRule, getEventTypeInfo, getScoringTemplate, isEventScored } from '@/lib/scoring';
+import { GAMES, type Match, type MatchType, type MatchStatus, type Game, type MatchParticipant, type MatchEvent, type MatchEventType, type RecapMode } from '@/types';
 import { Timestamp } from 'firebase/firestore';
 
 const formatDateForInput = (date: Date): string => {
@@ -47,8 +66,15 @@ const toDate = (value: Date | Timestamp | unknown): Date => {
   return new Date(value as string | number);
 };
 
+// Event log changes made from this page, most recent last, so they can be undone
+interface EventChange {
+  kind: 'add' | 'edit' | 'delete';
+  event: MatchEvent; // the event as it was before the change
+}
+
 export default function EditMatchPage() {
   const router = useRouter();
+  const { user } = useAuthStore();
   const params = useParams();
   const matchId = params.id as string;
   const fileInputRef = useRef<HTMLInputElement>(null);
@@ -63,6 +89,8 @@ export default function EditMatchPage() {
   const [description, setDescription] = useState('');
   const [game, setGame] = useState('');
   const [matchType, setMatchType] = useState<MatchType>('friendly');
+  const [bestOf, setBestOf] = useState('1');
+  const [schoolId, setSchoolId] = useState('');
   const [status, setStatus] = useState<MatchStatus>('open');
   const [isTeamMatch, setIsTeamMatch] = useState(false);
   const [maxParticipants, setMaxParticipants] = useState('2');
@@ -72,6 +100,9 @@ export default function EditMatchPage() {
   const [streamUrl, setStreamUrl] = useState('');
   const [isPublic, setIsPublic] = useState(true);
   const [isFeatured, setIsFeatured] = useState(false);
+  const [recapMode, setRecapMode] = useState<RecapMode>(DEFAULT_RECAP_MODE);
+  // Recurring scrimmages: save this occurrence only, or the upcoming ones too
+  const [editScope, setEditScope] = useState<'single' | 'series'>('single');
   
   // New fields
   const [rules, setRules] = useState('');
@@ -84,14 +115,18 @@ export default function EditMatchPage() {
   const [scores, setScores] = useState<Record<string, string>>({});
   const [winnerId, setWinnerId] = useState('');
   
-  // Match events / scoring log
+  // Match events / scoring log (deleted events included, for undo)
   const [events, setEvents] = useState<MatchEvent[]>([]);
+  const [undoStack, setUndoStack] = useState<EventChange[]>([]);
+  const [editingEvent, setEditingEvent] = useState<MatchEvent | null>(null);
+  const [isSavingEvent, setIsSavingEvent] = useState(false);
   const [currentRound, setCurrentRound] = useState('');
   const [currentMap, setCurrentMap] = useState('');
   
   // New event form
   const [newEventType, setNewEventType] = useState<MatchEventType>('goal');
   const [newEventParticipant, setNewEventParticipant] = useState('');
+  const [newEventPlayer, setNewEventPlayer] = useState('');
   const [newEventDescription, setNewEventDescription] = useState('');
   const [newEventValue, setNewEventValue] = useState('1');
   const [isAddingEvent, setIsAddingEvent] = useState(false);
@@ -118,6 +153,8 @@ export default function EditMatchPage() {
         setDescription(fetchedMatch.description || '');
         setGame(fetchedMatch.game);
         setMatchType(fetchedMatch.type);
+        setBestOf((fetchedMatch.bestOf || 1).toString());
+        setSchoolId(fetchedMatch.schoolId || '');
         setStatus(fetchedMatch.status);
         setIsTeamMatch(fetchedMatch.isTeamMatch);
         
@@ -139,6 +176,7 @@ export default function EditMatchPage() {
         setStreamUrl(fetchedMatch.streamUrl || '');
         setIsPublic(fetchedMatch.isPublic);
         setIsFeatured(fetchedMatch.isFeatured || false);
+        setRecapMode(fetchedMatch.recapMode || DEFAULT_RECAP_MODE);
         setRules(fetchedMatch.rules || '');
         setPrizeDescription(fetchedMatch.prizeDescription || '');
         setWinnerId(fetchedMatch.winnerId || '');
@@ -148,8 +186,7 @@ export default function EditMatchPage() {
           setBannerPreview(fetchedMatch.bannerImage);
         }
         
-        // Load events and game state
-        setEvents(fetchedMatch.events || []);
+        // Load game state
         setCurrentRound(fetchedMatch.currentRound?.toString() || '');
         setCurrentMap(fetchedMatch.currentMap || '');
         
@@ -179,6 +216,42 @@ export default function EditMatchPage() {
     fetchData();
   }, [matchId, router]);
 
+  // Whether the scores follow the event log, read from the event listener
+  const isEventScoredRef = useRef(false);
+  useEffect(() => {
+    isEventScoredRef.current = isEventScored(dynamicGames.find((g) => g.id === game));
+  }, [dynamicGames, game]);
+
+  // Event log, kept live from the events subcollection. In event-scored
+  // games the scores follow the events once there are any.
+  useEffect(() => {
+    let unsubscribe: (() => void) | undefined;
+    let cancelled = false;
+
+    migrateLegacyMatchEvents(matchId)
+      .catch((error) => console.error('Error migrating match events:', error))
+      .finally(() => {
+        if (cancelled) return;
+        unsubscribe = subscribeToMatchEvents(matchId, (fetchedEvents) => {
+          setEvents(fetchedEvents);
+          if (!isEventScoredRef.current || !fetchedEvents.some((event) => !event.deletedAt)) return;
+          setScores((prev) =>
+            Object.fromEntries(
+              Object.entries(getScoresFromEvents(fetchedEvents, Object.keys(prev))).map(([id, score]) => [
+                id,
+                score.toString(),
+              ])
+            )
+          );
+        });
+      });
+
+    return () => {
+      cancelled = true;
+      unsubscribe?.();
+    };
+  }, [matchId]);
+
   const gameOptions = dynamicGames.length > 0
     ? dynamicGames.map((g) => ({ value: g.id, label: `${g.icon} ${g.name}` }))
     : GAMES.map((g) => ({ value: g.id, label: `${g.icon} ${g.name}` }));
@@ -238,8 +311,11 @@ export default function EditMatchPage() {
         status,
         isTeamMatch,
         maxParticipants: participantCount,
+        bestOf: parseInt(bestOf),
+        schoolId: schoolId || null,
         isPublic,
         isFeatured,
+        recapMode,
       };
 
       if (description.trim()) {
@@ -272,8 +348,21 @@ export default function EditMatchPage() {
 
       await updateMatch(matchId, updateData as Partial<Match>);
 
-      // Update scores if in progress or completed
-      if ((status === 'in_progress' || status === 'completed') && Object.keys(scores).length > 0) {
+      if (match?.recurrenceId && editScope === 'series') {
+        const timeShift =
+          scheduledTime && match.scheduledTime ? new Date(scheduledTime).getTime() - match.scheduledTime.getTime() : 0;
+        const updated = await updateUpcomingOccurrences(
+          match.recurrenceId,
+          matchId,
+          updateData as Partial<Match>,
+          timeShift
+        );
+        toast.success(`Applied to ${updated} upcoming ${updated === 1 ? 'match' : 'matches'} in the series`);
+      }
+
+      // Update scores if in progress or completed (series scores follow from their games)
+      const hasSeriesGames = !!match?.series?.length;
+      if ((status === 'in_progress' || status === 'completed') && Object.keys(scores).length > 0 && !hasSeriesGames) {
         const numericScores: Record<string, number> = {};
         Object.entries(scores).forEach(([key, value]) => {
           numericScores[key] = parseInt(value) || 0;
@@ -293,6 +382,16 @@ export default function EditMatchPage() {
 
   const getParticipantId = (p: MatchParticipant) => p.oduserId || p.teamId || '';
 
+  // Team events can be credited to a player from the team's lineup
+  const getPlayerOptions = (participantId: string) => {
+    const players = getLineupPlayers(match?.lineups?.[participantId]);
+    return players.length > 0
+      ? [{ value: '', label: 'Whole team' }, ...players.map((p) => ({ value: p.userId, label: p.name }))]
+      : [];
+  };
+  const getPlayerName = (participantId: string, playerId: string) =>
+    getLineupPlayers(match?.lineups?.[participantId]).find((p) => p.userId === playerId)?.name;
+
   // Add a new scoring event
   const handleAddEvent = async () => {
     if (!newEventParticipant || !match) return;
@@ -304,45 +403,100 @@ export default function EditMatchPage() {
     
     setIsAddingEvent(true);
     try {
-      await addMatchEvent(matchId, {
-        type: newEventType,
-        participantId: newEventParticipant,
-        participantName: participant.name,
-        description: newEventDescription.trim() || undefined,
-        value: parseInt(newEventValue) || 1,
-      });
-      
-      // Update local state
-      const newEvent: MatchEvent = {
-        id: `event-${Date.now()}`,
-        type: newEventType,
+      const eventData = {
+        type: activeEventType,
         participantId: newEventParticipant,
         participantName: participant.name,
+        playerId: newEventPlayer || undefined,
+        playerName: newEventPlayer ? getPlayerName(newEventParticipant, newEventPlayer) : undefined,
         description: newEventDescription.trim() || undefined,
         value: parseInt(newEventValue) || 1,
-        timestamp: new Date(),
       };
-      setEvents(prev => [...prev, newEvent]);
-      
-      // Auto-update score based on event value
-      const currentScore = parseInt(scores[newEventParticipant] || '0');
-      setScores(prev => ({
-        ...prev,
-        [newEventParticipant]: (currentScore + (parseInt(newEventValue) || 1)).toString(),
-      }));
+      const eventId = await addMatchEvent(matchId, eventData, user?.id);
+      setUndoStack((prev) => [...prev, { kind: 'add', event: { id: eventId, ...eventData, timestamp: new Date() } }]);
       
       // Reset form
       setNewEventDescription('');
       setNewEventValue('1');
       toast.success('Event added!');
     } catch (error) {
-      toast.error('Failed to add event');
+      toast.error(error instanceof Error ? error.message : 'Failed to add event');
       console.error(error);
     } finally {
       setIsAddingEvent(false);
     }
   };
 
+  // Save changes to an event from the log
+  const handleSaveEvent = async () => {
+    if (!editingEvent || !match) return;
+    const original = events.find((event) => event.id === editingEvent.id);
+    const participant = match.participants.find((p) => getParticipantId(p) === editingEvent.participantId);
+    if (!original || !participant) return;
+
+    setIsSavingEvent(true);
+    try {
+      await updateMatchEvent(matchId, editingEvent.id, {
+        type: editingEvent.type,
+        participantId: editingEvent.participantId,
+        participantName: participant.name,
+        playerId: editingEvent.playerId || '',
+        playerName: editingEvent.playerId ? getPlayerName(editingEvent.participantId, editingEvent.playerId) : undefined,
+        description: editingEvent.description?.trim() || '',
+        value: editingEvent.value || 1,
+      });
+      setUndoStack((prev) => [...prev, { kind: 'edit', event: original }]);
+      setEditingEvent(null);
+      toast.success('Event updated');
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : 'Failed to update event');
+      console.error(error);
+    } finally {
+      setIsSavingEvent(false);
+    }
+  };
+
+  const handleDeleteEvent = async (event: MatchEvent) => {
+    try {
+      await deleteMatchEvent(matchId, event.id);
+      setUndoStack((prev) => [...prev, { kind: 'delete', event }]);
+      toast.success('Event deleted');
+    } catch (error) {
+      toast.error('Failed to delete event');
+      console.error(error);
+    }
+  };
+
+  // Reverse the most recent change made from this page
+  const handleUndo = async () => {
+    const change = undoStack[undoStack.length - 1];
+    if (!change) return;
+
+    try {
+      if (change.kind === 'add') {
+        await deleteMatchEvent(matchId, change.event.id);
+      } else if (change.kind === 'delete') {
+        await restoreMatchEvent(matchId, change.event.id);
+      } else {
+        const { type, participantId, participantName, playerId, playerName, description, value } = change.event;
+        await updateMatchEvent(matchId, change.event.id, {
+          type,
+          participantId,
+          participantName,
+          playerId: playerId || '',
+          playerName,
+          description: description || '',
+          value,
+        });
+      }
+      setUndoStack((prev) => prev.slice(0, -1));
+      toast.success(`Undid ${change.kind === 'add' ? 'new event' : change.kind}`);
+    } catch (error) {
+      toast.error('Failed to undo');
+      console.error(error);
+    }
+  };
+
   // Update game state (round/map)
   const handleUpdateGameState = async () => {
     try {
@@ -363,7 +517,7 @@ export default function EditMatchPage() {
     
     try {
       await clearMatchEvents(matchId);
-      setEvents([]);
+      setUndoStack([]);
       toast.success('Events cleared!');
     } catch (error) {
       toast.error('Failed to clear events');
@@ -371,6 +525,22 @@ export default function EditMatchPage() {
     }
   };
 
+  const liveEvents = events.filter((event) => !event.deletedAt);
+
+  // The game's scoring template decides which events can be logged and what they're worth
+  const scoringTemplate = getScoringTemplate(dynamicGames.find((g) => g.id === game));
+  const eventTypeOptions = scoringTemplate.eventRules.map((rule) => {
+    const info = getEventTypeInfo(rule.type);
+    return {
+      value: rule.type,
+      label: `${info.icon} ${info.label}${rule.points !== undefined ? ` (${rule.points} pt${rule.points === 1 ? '' : 's'})` : ''}`,
+    };
+  });
+  const activeEventType = getEventRule(scoringTemplate, newEventType)
+    ? newEventType
+    : scoringTemplate.eventRules[0]?.type || 'other';
+  const hasFixedPoints = (type: MatchEventType) => getEventRule(scoringTemplate, type)?.points !== undefined;
+
   if (isLoading) {
     return <PageLoader />;
   }
@@ -479,6 +649,19 @@ export default function EditMatchPage() {
                 />
               </div>
 
+              <Select
+                label="Series"
+                options={BEST_OF_OPTIONS.map((n) => ({
+                  value: n.toString(),
+                  label: n === 1 ? 'Single game' : `Best of ${n} (first to ${getWinsRequired(n)})`,
+                }))}
+                value={bestOf}
+                onChange={(e) => setBestOf(e.target.value)}
+                disabled={!!match?.series?.length}
+              />
+
+              <HostSchoolSelect value={schoolId} onChange={setSchoolId} />
+
               <Select
                 label="Status"
                 options={[
@@ -611,6 +794,7 @@ export default function EditMatchPage() {
                 <h3 className="text-lg font-semibold text-white border-b border-dark-700 pb-2 flex items-center gap-2">
                   🎮 Live Scoring Events
                   <Badge variant="danger" size="sm">LIVE</Badge>
+                  <Badge variant="info" size="sm">{describeWinCondition(scoringTemplate)}</Badge>
                 </h3>
 
                 {/* Game State (Round/Map) */}
@@ -618,7 +802,7 @@ export default function EditMatchPage() {
                   <h4 className="font-medium text-white text-sm">Current Game State</h4>
                   <div className="grid gap-4 md:grid-cols-3">
                     <Input
-                      label="Current Round"
+                      label={`Current ${scoringTemplate.periodLabel || 'Round'}`}
                       type="number"
                       placeholder="1"
                       value={currentRound}
@@ -649,11 +833,16 @@ export default function EditMatchPage() {
                     <PlusIcon className="w-4 h-4" />
                     Add Scoring Event
                   </h4>
+                  {!isEventScored(dynamicGames.find((g) => g.id === game)) && (
+                    <p className="text-xs text-dark-400">
+                      This game has no scoring template, so events are a play-by-play only. Enter the scores above.
+                    </p>
+                  )}
                   <div className="grid gap-4 md:grid-cols-2">
                     <Select
                       label="Event Type"
-                      options={EVENT_TYPE_OPTIONS}
-                      value={newEventType}
+                      options={eventTypeOptions}
+                      value={activeEventType}
                       onChange={(e) => setNewEventType(e.target.value as MatchEventType)}
                     />
                     <Select
@@ -666,18 +855,31 @@ export default function EditMatchPage() {
                         })),
                       ]}
                       value={newEventParticipant}
-                      onChange={(e) => setNewEventParticipant(e.target.value)}
+                      onChange={(e) => {
+                        setNewEventParticipant(e.target.value);
+                        setNewEventPlayer('');
+                      }}
                     />
                   </div>
-                  <div className="grid gap-4 md:grid-cols-3">
-                    <Input
-                      label="Points/Value"
-                      type="number"
-                      placeholder="1"
-                      value={newEventValue}
-                      onChange={(e) => setNewEventValue(e.target.value)}
+                  {getPlayerOptions(newEventParticipant).length > 0 && (
+                    <Select
+                      label="Player"
+                      options={getPlayerOptions(newEventParticipant)}
+                      value={newEventPlayer}
+                      onChange={(e) => setNewEventPlayer(e.target.value)}
                     />
-                    <div className="md:col-span-2">
+                  )}
+                  <div className="grid gap-4 md:grid-cols-3">
+                    {!hasFixedPoints(activeEventType) && (
+                      <Input
+                        label="Points/Value"
+                        type="number"
+                        placeholder="1"
+                        value={newEventValue}
+                        onChange={(e) => setNewEventValue(e.target.value)}
+                      />
+                    )}
+                    <div className={hasFixedPoints(activeEventType) ? 'md:col-span-3' : 'md:col-span-2'}>
                       <Input
                         label="Description (optional)"
                         placeholder="e.g., Header from corner, Ace clutch"
@@ -698,45 +900,130 @@ export default function EditMatchPage() {
                 </div>
 
                 {/* Event History */}
-                {events.length > 0 && (
+                {(liveEvents.length > 0 || undoStack.length > 0) && (
                   <div className="p-4 bg-dark-700/50 rounded-lg space-y-3">
                     <div className="flex items-center justify-between">
-                      <h4 className="font-medium text-white text-sm">Event History ({events.length})</h4>
-                      <Button
-                        type="button"
-                        variant="ghost"
-                        size="sm"
-                        onClick={handleClearEvents}
-                        className="text-red-400 hover:text-red-300"
-                      >
-                        <TrashIcon className="w-4 h-4 mr-1" />
-                        Clear All
-                      </Button>
+                      <h4 className="font-medium text-white text-sm">Event History ({liveEvents.length})</h4>
+                      <div className="flex items-center gap-1">
+                        {undoStack.length > 0 && (
+                          <Button type="button" variant="ghost" size="sm" onClick={handleUndo}>
+                            <ArrowUturnLeftIcon className="w-4 h-4 mr-1" />
+                            Undo {undoStack[undoStack.length - 1].kind}
+                          </Button>
+                        )}
+                        {liveEvents.length > 0 && (
+                          <Button
+                            type="button"
+                            variant="ghost"
+                            size="sm"
+                            onClick={handleClearEvents}
+                            className="text-red-400 hover:text-red-300"
+                          >
+                            <TrashIcon className="w-4 h-4 mr-1" />
+                            Clear All
+                          </Button>
+                        )}
+                      </div>
                     </div>
-                    <div className="space-y-2 max-h-60 overflow-y-auto">
-                      {[...events].reverse().map((event, idx) => (
-                        <div
-                          key={event.id || idx}
-                          className="flex items-center gap-3 p-2 bg-dark-600/50 rounded-lg text-sm"
-                        >
-                          <span className="text-lg">
-                            {EVENT_TYPE_OPTIONS.find(o => o.value === event.type)?.label.split(' ')[0] || '📌'}
-                          </span>
-                          <div className="flex-1">
-                            <span className="text-cyan-400 font-medium">{event.participantName}</span>
-                            <span className="text-dark-400 mx-2">•</span>
-                            <span className="text-white">{event.description || event.type}</span>
-                            {event.value && event.value > 1 && (
-                              <span className="text-green-400 ml-2">(+{event.value})</span>
+                    <div className="space-y-2 max-h-80 overflow-y-auto">
+                      {[...liveEvents].reverse().map((event) =>
+                        editingEvent?.id === event.id ? (
+                          <div key={event.id} className="p-3 bg-dark-600/50 rounded-lg space-y-3">
+                            <div className="grid gap-3 md:grid-cols-2">
+                              <Select
+                                label="Event Type"
+                                options={eventTypeOptions}
+                                value={editingEvent.type}
+                                onChange={(e) =>
+                                  setEditingEvent({ ...editingEvent, type: e.target.value as MatchEventType })
+                                }
+                              />
+                              <Select
+                                label="Player/Team"
+                                options={match.participants.map((p) => ({
+                                  value: getParticipantId(p),
+                                  label: p.name,
+                                }))}
+                                value={editingEvent.participantId}
+                                onChange={(e) =>
+                                  setEditingEvent({ ...editingEvent, participantId: e.target.value, playerId: undefined })
+                                }
+                              />
+                            </div>
+                            {getPlayerOptions(editingEvent.participantId).length > 0 && (
+                              <Select
+                                label="Player"
+                                options={getPlayerOptions(editingEvent.participantId)}
+                                value={editingEvent.playerId || ''}
+                                onChange={(e) => setEditingEvent({ ...editingEvent, playerId: e.target.value || undefined })}
+                              />
                             )}
+                            <div className="grid gap-3 md:grid-cols-3">
+                              {!hasFixedPoints(editingEvent.type) && (
+                                <Input
+                                  label="Points/Value"
+                                  type="number"
+                                  value={editingEvent.value?.toString() || ''}
+                                  onChange={(e) =>
+                                    setEditingEvent({ ...editingEvent, value: parseInt(e.target.value) || undefined })
+                                  }
+                                />
+                              )}
+                              <div className={hasFixedPoints(editingEvent.type) ? 'md:col-span-3' : 'md:col-span-2'}>
+                                <Input
+                                  label="Description"
+                                  value={editingEvent.description || ''}
+                                  onChange={(e) => setEditingEvent({ ...editingEvent, description: e.target.value })}
+                                />
+                              </div>
+                            </div>
+                            <div className="flex justify-end gap-2">
+                              <Button type="button" variant="ghost" size="sm" onClick={() => setEditingEvent(null)}>
+                                Cancel
+                              </Button>
+                              <Button type="button" size="sm" onClick={handleSaveEvent} isLoading={isSavingEvent}>
+                                Save
+                              </Button>
+                            </div>
                           </div>
-                          <span className="text-xs text-dark-500">
-                            {event.timestamp instanceof Date 
-                              ? format(event.timestamp, 'h:mm a')
-                              : 'Just now'}
-                          </span>
-                        </div>
-                      ))}
+                        ) : (
+                          <div
+                            key={event.id}
+                            className="flex items-center gap-3 p-2 bg-dark-600/50 rounded-lg text-sm"
+                          >
+                            <span className="text-lg">
+                              {getEventTypeInfo(event.type).icon}
+                            </span>
+                            <div className="flex-1">
+                              <span className="text-cyan-400 font-medium">{event.participantName}</span>
+                              {event.playerName && <span className="text-dark-300"> ({event.playerName})</span>}
+                              <span className="text-dark-400 mx-2">•</span>
+                              <span className="text-white">{event.description || event.type}</span>
+                              {event.value && event.value > 1 && (
+                                <span className="text-green-400 ml-2">(+{event.value})</span>
+                              )}
+                              {event.editedAt && <span className="text-dark-500 text-xs ml-2">(edited)</span>}
+                            </div>
+                            <span className="text-xs text-dark-500">{format(event.timestamp, 'h:mm a')}</span>
+                            <button
+                              type="button"
+                              onClick={() => setEditingEvent(event)}
+                              className="p-1 rounded text-dark-400 hover:text-white hover:bg-dark-500 transition-colors"
+                              title="Edit event"
+                            >
+                              <PencilIcon className="w-4 h-4" />
+                            </button>
+                            <button
+                              type="button"
+                              onClick={() => handleDeleteEvent(event)}
+                              className="p-1 rounded text-dark-400 hover:text-red-400 hover:bg-red-500/10 transition-colors"
+                              title="Delete event"
+                            >
+                              <TrashIcon className="w-4 h-4" />
+                            </button>
+                          </div>
+                        )
+                      )}
                     </div>
                   </div>
                 )}
@@ -823,6 +1110,39 @@ export default function EditMatchPage() {
               </div>
             </div>
 
+            <div>
+              <Select
+                label="Recap Post"
+                options={RECAP_MODES}
+                value={recapMode}
+                onChange={(e) => setRecapMode(e.target.value as RecapMode)}
+                disabled={!!match?.recap}
+              />
+              <p className="mt-1.5 text-sm text-dark-400">
+                {match?.recap
+                  ? `A recap was already written for this match (${match.recap.status})`
+                  : 'Written when the match completes: final score, winner and top performers'}
+              </p>
+            </div>
+
+            {match?.recurrenceId && isUpcomingOccurrence(match) && (
+              <div>
+                <Select
+                  label="Apply Changes To"
+                  options={[
+                    { value: 'single', label: 'This match only' },
+                    { value: 'series', label: 'This and every upcoming match in the series' },
+                  ]}
+                  value={editScope}
+                  onChange={(e) => setEditScope(e.target.value as 'single' | 'series')}
+                />
+                <p className="mt-1.5 text-sm text-dark-400">
+                  Series edits copy the title, description, rules, stream and visibility settings, and move the
+                  other matches by the same amount if the time changes. Status and scores stay per match.
+                </p>
+              </div>
+            )}
+
             <div className="flex justify-end gap-3 pt-4 border-t border-dark-700">
               <Button variant="ghost" onClick={() => router.back()}>
                 Cancel
@@ -833,6 +1153,16 @@ export default function EditMatchPage() {
             </div>
           </form>
         </Card>
+
+        {match && (
+          <MatchSeriesCard
+            match={match}
+            onUpdate={(changes) => {
+              setMatch((prev) => prev && { ...prev, ...changes });
+              if (changes.status) setStatus(changes.status);
+            }}
+          />
+        )}
       </motion.div>
     </div>
   );
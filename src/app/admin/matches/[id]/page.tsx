@@ -23,6 +23,10 @@ import {
   CalendarDaysIcon,
   PlusIcon,
   MinusIcon,
+  MapIcon,
+  TvIcon,
+  ClipboardDocumentIcon,
+  EyeIcon,
 } from '@heroicons/react/24/outline';
 import { Card } from '@/components/ui/Card';
 import { Button } from '@/components/ui/Button';
@@ -32,8 +36,36 @@ import { Modal } from '@/components/ui/Modal';
 import { Input } from '@/components/ui/Input';
 import { Select } from '@/components/ui/Select';
 import { PageLoader } from '@/components/ui/LoadingSpinner';
-import { subscribeToMatch, updateMatch, deleteMatch, getUsersByIds, getGames, updateMatchScores } from '@/lib/firebase/db';
-import { GAMES, type Match, type MatchStatus, type Game, type User, type MatchParticipant } from '@/types';
+import { SeriesBreakdown } from '@/components/matches/SeriesBreakdown';
+import {
+  subscribeToMatch,
+  updateMatch,
+  deleteMatch,
+  getUsersByIds,
+  getGames,
+  updateMatchScores,
+  updateMatchSeries,
+  startMapVeto,
+  resetMapVeto,
+  addMatchEvent,
+  updateMatchGameState,
+} from '@/lib/firebase/db';
+import { useAuthStore } from '@/store/authStore';
+import { getWinnerFromScores } from '@/lib/results';
+import { isSeries } from '@/lib/series';
+import { getMapForGame } from '@/lib/veto';
+import { OVERLAY_ROUTES, OVERLAY_THEMES, getOverlayUrl, type OverlayThemeId } from '@/lib/overlay';
+import { getAverageViewers, getLiveViewerCount } from '@/lib/presence';
+import { describeWinCondition, getEventTypeInfo, getScoringTemplate, getTemplateWinner, isEventScored } from '@/lib/scoring';
+import {
+  GAMES,
+  type Match,
+  type MatchStatus,
+  type Game,
+  type User,
+  type MatchParticipant,
+  type MatchEventType,
+} from '@/types';
 import { Timestamp } from 'firebase/firestore';
 
 const statusColors: Record<MatchStatus, 'success' | 'warning' | 'info' | 'danger' | 'default'> = {
@@ -74,6 +106,7 @@ export default function MatchDetailPage() {
   const router = useRouter();
   const params = useParams();
   const matchId = params.id as string;
+  const { user } = useAuthStore();
 
   const [match, setMatch] = useState<Match | null>(null);
   const [participantUsers, setParticipantUsers] = useState<Record<string, User>>({});
@@ -91,11 +124,20 @@ export default function MatchDetailPage() {
   const [isUpdatingStatus, setIsUpdatingStatus] = useState(false);
   const [isSavingScores, setIsSavingScores] = useState(false);
   const [updatingScoreFor, setUpdatingScoreFor] = useState<string | null>(null);
+  const [isSavingSeries, setIsSavingSeries] = useState(false);
+  const [isUpdatingVeto, setIsUpdatingVeto] = useState(false);
   
   // Scores
   const [scores, setScores] = useState<Record<string, string>>({});
   const [winnerId, setWinnerId] = useState('');
 
+  // Next game of a series
+  const [gameMap, setGameMap] = useState('');
+  const [gameScores, setGameScores] = useState<Record<string, string>>({});
+
+  // Broadcast overlay links
+  const [overlayTheme, setOverlayTheme] = useState<OverlayThemeId>('dark');
+
   // Subscribe to real-time match updates
   useEffect(() => {
     const fetchGames = async () => {
@@ -265,13 +307,66 @@ export default function MatchDetailPage() {
       toast.success('Scores updated');
       setScoresModalOpen(false);
     } catch (error) {
-      toast.error('Failed to update scores');
+      toast.error(error instanceof Error ? error.message : 'Failed to update scores');
       console.error(error);
     } finally {
       setIsSavingScores(false);
     }
   };
 
+  // Games with a scoring template are scored by logging events
+  const handleLogEvent = async (participant: MatchParticipant, type: MatchEventType) => {
+    if (!match) return;
+    const participantId = getParticipantId(participant);
+    setUpdatingScoreFor(participantId);
+    try {
+      await addMatchEvent(
+        match.id,
+        { type, participantId, participantName: participant.name },
+        user?.id
+      );
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : 'Failed to log event');
+      console.error(error);
+    } finally {
+      setUpdatingScoreFor(null);
+    }
+  };
+
+  // Move on to the next round/half, or finish after the last one
+  const handleNextPeriod = async () => {
+    if (!match) return;
+    const template = getScoringTemplate(games.find((g) => g.id === match.game));
+    const period = match.currentRound || 1;
+    try {
+      if (template.periods && period >= template.periods) {
+        const finalWinnerId = getTemplateWinner(template, match.scores || {}, true);
+        if (!finalWinnerId) {
+          toast.error('Scores are level. Declare a winner to finish the match.');
+          return;
+        }
+        await updateMatchScores(match.id, match.scores || {}, finalWinnerId);
+        toast.success('Match completed!');
+      } else {
+        await updateMatchGameState(match.id, { currentRound: period + 1 });
+      }
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : 'Failed to update match');
+      console.error(error);
+    }
+  };
+
+  const handleCopyOverlayUrl = async (route: string) => {
+    if (!match) return;
+    try {
+      await navigator.clipboard.writeText(`${window.location.origin}${getOverlayUrl(match.id, route, overlayTheme)}`);
+      toast.success('Overlay URL copied');
+    } catch (error) {
+      toast.error('Failed to copy URL');
+      console.error(error);
+    }
+  };
+
   const handleSetWinner = async (participantId: string) => {
     if (!match) return;
     try {
@@ -285,11 +380,71 @@ export default function MatchDetailPage() {
       setWinnerId(participantId);
       toast.success('Winner declared and match completed!');
     } catch (error) {
-      toast.error('Failed to set winner');
+      toast.error(error instanceof Error ? error.message : 'Failed to set winner');
       console.error(error);
     }
   };
 
+  const saveSeries = async (series: NonNullable<Match['series']>, successMessage: string) => {
+    if (!match) return;
+    setIsSavingSeries(true);
+    try {
+      await updateMatchSeries(match, series);
+      toast.success(successMessage);
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : 'Failed to update series');
+      console.error(error);
+    } finally {
+      setIsSavingSeries(false);
+    }
+  };
+
+  const handleRecordGame = async () => {
+    if (!match) return;
+    const series = match.series || [];
+    const numericScores: Record<string, number> = {};
+    match.participants.forEach((p) => {
+      const id = getParticipantId(p);
+      numericScores[id] = parseInt(gameScores[id] || '0') || 0;
+    });
+    const gameWinnerId = getWinnerFromScores(numericScores);
+
+    await saveSeries(
+      [
+        ...series,
+        {
+          number: series.length + 1,
+          map: gameMap.trim() || getMapForGame(match.mapVeto, series.length),
+          scores: numericScores,
+          winnerId: gameWinnerId,
+          completedAt: new Date(),
+        },
+      ],
+      `Game ${series.length + 1} recorded`
+    );
+    setGameMap('');
+    setGameScores({});
+  };
+
+  const handleRemoveLastGame = async () => {
+    if (!match?.series?.length) return;
+    await saveSeries(match.series.slice(0, -1), `Game ${match.series.length} removed`);
+  };
+
+  const handleVeto = async (reset: boolean) => {
+    if (!match) return;
+    setIsUpdatingVeto(true);
+    try {
+      await (reset ? resetMapVeto(match.id) : startMapVeto(match.id));
+      toast.success(reset ? 'Map veto reset' : 'Map veto started');
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : 'Failed to update map veto');
+      console.error(error);
+    } finally {
+      setIsUpdatingVeto(false);
+    }
+  };
+
   if (isLoading) {
     return <PageLoader />;
   }
@@ -302,6 +457,11 @@ export default function MatchDetailPage() {
   const participantCount = match.participants?.length || 0;
   const isFull = participantCount >= match.maxParticipants;
   const isLive = match.status === 'in_progress';
+  const seriesMatch = isSeries(match);
+  const game = games.find((g) => g.id === match.game);
+  const scoringTemplate = getScoringTemplate(game);
+  const periodLabel = scoringTemplate.periodLabel || 'Round';
+  const isFinalPeriod = !!scoringTemplate.periods && (match.currentRound || 1) >= scoringTemplate.periods;
 
   return (
     <div className="p-6">
@@ -320,14 +480,16 @@ export default function MatchDetailPage() {
               </span>
               <span className="text-lg font-bold text-red-400">MATCH IS LIVE</span>
             </div>
-            <Button
-              variant="primary"
-              size="sm"
-              leftIcon={<CheckCircleIcon className="w-4 h-4" />}
-              onClick={() => setScoresModalOpen(true)}
-            >
-              Declare Winner
-            </Button>
+            {!seriesMatch && (
+              <Button
+                variant="primary"
+                size="sm"
+                leftIcon={<CheckCircleIcon className="w-4 h-4" />}
+                onClick={() => setScoresModalOpen(true)}
+              >
+                Declare Winner
+              </Button>
+            )}
           </div>
         </motion.div>
       )}
@@ -374,8 +536,80 @@ export default function MatchDetailPage() {
       <div className="grid gap-6 lg:grid-cols-3">
         {/* Main Content */}
         <div className="lg:col-span-2 space-y-6">
+          {/* Series - recorded game by game, the winner follows from game wins */}
+          {seriesMatch && (
+            <Card
+              variant="glass"
+              className={isLive ? 'border-2 border-red-500/30 bg-gradient-to-br from-red-500/10 to-orange-500/10' : ''}
+            >
+              <div className="flex items-center justify-between mb-4">
+                <h2 className="text-xl font-bold text-white flex items-center gap-2">
+                  <TrophyIcon className="w-6 h-6 text-red-400" />
+                  Series
+                  {isLive && (
+                    <span className="ml-2 text-xs px-2 py-1 rounded-full bg-red-500 text-white animate-pulse">
+                      LIVE
+                    </span>
+                  )}
+                </h2>
+                {!!match.series?.length && match.status !== 'completed' && (
+                  <Button
+                    variant="ghost"
+                    size="sm"
+                    onClick={handleRemoveLastGame}
+                    disabled={isSavingSeries}
+                    className="text-red-400 hover:text-red-300 hover:bg-red-500/10"
+                  >
+                    Remove Game {match.series.length}
+                  </Button>
+                )}
+              </div>
+
+              <SeriesBreakdown
+                bestOf={match.bestOf || 1}
+                series={match.series || []}
+                participants={match.participants || []}
+                winnerId={match.winnerId}
+              />
+
+              {isLive && match.participants.length >= 2 && (
+                <div className="mt-6 pt-4 border-t border-dark-700 space-y-4">
+                  <h3 className="font-semibold text-white">Record Game {(match.series?.length || 0) + 1}</h3>
+                  <Input
+                    label="Map (optional)"
+                    placeholder={getMapForGame(match.mapVeto, match.series?.length || 0) || 'e.g. Haven'}
+                    value={gameMap}
+                    onChange={(e) => setGameMap(e.target.value)}
+                  />
+                  <div className="grid gap-4 sm:grid-cols-2">
+                    {match.participants.map((p) => {
+                      const id = getParticipantId(p);
+                      return (
+                        <Input
+                          key={id}
+                          label={participantUsers[id]?.displayName || p.name}
+                          type="number"
+                          min="0"
+                          placeholder="0"
+                          value={gameScores[id] || ''}
+                          onChange={(e) => setGameScores((prev) => ({ ...prev, [id]: e.target.value }))}
+                        />
+                      );
+                    })}
+                  </div>
+                  <p className="text-xs text-dark-400">
+                    The highest score takes the game. The match completes once someone wins the series.
+                  </p>
+                  <Button onClick={handleRecordGame} isLoading={isSavingSeries} leftIcon={<PlusIcon className="w-4 h-4" />}>
+                    Record Game
+                  </Button>
+                </div>
+              )}
+            </Card>
+          )}
+
           {/* Live Scoring Panel - Show prominently when match is in progress */}
-          {isLive && match.participants && match.participants.length > 0 && (
+          {isLive && !seriesMatch && match.participants && match.participants.length > 0 && (
             <Card variant="glass" className="border-2 border-red-500/30 bg-gradient-to-br from-red-500/10 to-orange-500/10">
               <div className="flex items-center justify-between mb-4">
                 <h2 className="text-xl font-bold text-white flex items-center gap-2">
@@ -385,6 +619,18 @@ export default function MatchDetailPage() {
                     LIVE
                   </span>
                 </h2>
+                {isEventScored(game) && (
+                  <div className="flex items-center gap-2">
+                    <Badge variant="info" size="sm">{describeWinCondition(scoringTemplate)}</Badge>
+                    <span className="text-sm text-dark-300">
+                      {periodLabel} {match.currentRound || 1}
+                      {scoringTemplate.periods && ` of ${scoringTemplate.periods}`}
+                    </span>
+                    <Button variant="secondary" size="sm" onClick={handleNextPeriod}>
+                      {isFinalPeriod ? 'Finish Match' : `Next ${periodLabel}`}
+                    </Button>
+                  </div>
+                )}
               </div>
               
               <div className="grid gap-4 sm:grid-cols-2">
@@ -437,28 +683,50 @@ export default function MatchDetailPage() {
                         </div>
                       </div>
                       
-                      {/* Score Controls */}
-                      <div className="flex items-center justify-center gap-4">
-                        <button
-                          onClick={() => handleQuickScore(participantId, -1)}
-                          disabled={isUpdating || currentScore <= 0}
-                          className="w-12 h-12 rounded-full bg-red-500/20 hover:bg-red-500/40 disabled:opacity-50 disabled:cursor-not-allowed flex items-center justify-center transition-colors"
-                        >
-                          <MinusIcon className="w-6 h-6 text-red-400" />
-                        </button>
-                        
-                        <div className="text-5xl font-bold text-white min-w-[80px] text-center">
-                          {currentScore}
+                      {/* Score Controls - event buttons when the game is scored from its events */}
+                      {isEventScored(game) ? (
+                        <div>
+                          <div className="text-5xl font-bold text-white text-center mb-4">{currentScore}</div>
+                          <div className="flex flex-wrap justify-center gap-2">
+                            {scoringTemplate.eventRules.map((rule) => {
+                              const info = getEventTypeInfo(rule.type);
+                              return (
+                                <button
+                                  key={rule.type}
+                                  onClick={() => handleLogEvent(participant, rule.type)}
+                                  disabled={isUpdating}
+                                  className="px-3 py-1.5 rounded-lg bg-dark-700 hover:bg-dark-600 disabled:opacity-50 disabled:cursor-not-allowed text-sm text-white transition-colors"
+                                >
+                                  {info.icon} {info.label}
+                                  {!!rule.points && <span className="ml-1 text-green-400">+{rule.points}</span>}
+                                </button>
+                              );
+                            })}
+                          </div>
                         </div>
+                      ) : (
+                        <div className="flex items-center justify-center gap-4">
+                          <button
+                            onClick={() => handleQuickScore(participantId, -1)}
+                            disabled={isUpdating || currentScore <= 0}
+                            className="w-12 h-12 rounded-full bg-red-500/20 hover:bg-red-500/40 disabled:opacity-50 disabled:cursor-not-allowed flex items-center justify-center transition-colors"
+                          >
+                            <MinusIcon className="w-6 h-6 text-red-400" />
+                          </button>
                         
-                        <button
-                          onClick={() => handleQuickScore(participantId, 1)}
-                          disabled={isUpdating}
-                          className="w-12 h-12 rounded-full bg-green-500/20 hover:bg-green-500/40 disabled:opacity-50 disabled:cursor-not-allowed flex items-center justify-center transition-colors"
-                        >
-                          <PlusIcon className="w-6 h-6 text-green-400" />
-                        </button>
-                      </div>
+                          <div className="text-5xl font-bold text-white min-w-[80px] text-center">
+                            {currentScore}
+                          </div>
+                        
+                          <button
+                            onClick={() => handleQuickScore(participantId, 1)}
+                            disabled={isUpdating}
+                            className="w-12 h-12 rounded-full bg-green-500/20 hover:bg-green-500/40 disabled:opacity-50 disabled:cursor-not-allowed flex items-center justify-center transition-colors"
+                          >
+                            <PlusIcon className="w-6 h-6 text-green-400" />
+                          </button>
+                        </div>
+                      )}
                       
                       {/* Declare Winner Button */}
                       <Button
@@ -646,14 +914,16 @@ export default function MatchDetailPage() {
               
               {match.status === 'in_progress' && (
                 <>
-                  <Button
-                    fullWidth
-                    variant="secondary"
-                    leftIcon={<TrophyIcon className="w-4 h-4" />}
-                    onClick={() => setScoresModalOpen(true)}
-                  >
-                    Update Scores
-                  </Button>
+                  {!seriesMatch && (
+                    <Button
+                      fullWidth
+                      variant="secondary"
+                      leftIcon={<TrophyIcon className="w-4 h-4" />}
+                      onClick={() => setScoresModalOpen(true)}
+                    >
+                      Update Scores
+                    </Button>
+                  )}
                   <Button
                     fullWidth
                     variant="primary"
@@ -666,7 +936,7 @@ export default function MatchDetailPage() {
                 </>
               )}
               
-              {match.status === 'completed' && (
+              {match.status === 'completed' && !seriesMatch && (
                 <Button
                   fullWidth
                   variant="secondary"
@@ -677,6 +947,18 @@ export default function MatchDetailPage() {
                 </Button>
               )}
               
+              {(match.status === 'open' || match.status === 'scheduled') && participantCount === 2 && (
+                <Button
+                  fullWidth
+                  variant="secondary"
+                  leftIcon={<MapIcon className="w-4 h-4" />}
+                  onClick={() => handleVeto(!!match.mapVeto)}
+                  isLoading={isUpdatingVeto}
+                >
+                  {match.mapVeto ? 'Reset Map Veto' : 'Start Map Veto'}
+                </Button>
+              )}
+
               {(match.status === 'open' || match.status === 'scheduled') && (
                 <Button
                   fullWidth
@@ -728,10 +1010,27 @@ export default function MatchDetailPage() {
                   <p className="text-xs text-dark-400">Format</p>
                   <p className="font-medium text-white">
                     {match.isTeamMatch ? 'Team' : 'Solo'} ({match.maxParticipants} max)
+                    {seriesMatch && ` • Bo${match.bestOf}`}
                   </p>
                 </div>
               </div>
 
+              {match.mapVeto && (
+                <div className="flex items-center gap-3">
+                  <div className="w-10 h-10 rounded-lg bg-dark-700 flex items-center justify-center">
+                    <MapIcon className="w-5 h-5 text-cyan-400" />
+                  </div>
+                  <div>
+                    <p className="text-xs text-dark-400">Map Veto</p>
+                    <p className="font-medium text-white">
+                      {match.mapVeto.status === 'completed'
+                        ? match.mapVeto.mapOrder.join(', ')
+                        : `In progress (${match.mapVeto.steps.filter((step) => step.map).length}/${match.mapVeto.steps.length})`}
+                    </p>
+                  </div>
+                </div>
+              )}
+
               {match.scheduledTime && (
                 <div className="flex items-center gap-3">
                   <div className="w-10 h-10 rounded-lg bg-dark-700 flex items-center justify-center">
@@ -800,6 +1099,79 @@ export default function MatchDetailPage() {
             </div>
           </Card>
 
+          {/* Spectators */}
+          {match.viewerStats && (
+            <Card variant="default">
+              <h3 className="font-semibold text-white mb-1 flex items-center gap-2">
+                <EyeIcon className="w-5 h-5 text-cyan-400" />
+                Spectators
+              </h3>
+              <p className="text-xs text-dark-400 mb-4">
+                Concurrent viewers on the match page, sampled about once a minute since{' '}
+                {format(match.viewerStats.firstSampledAt, 'h:mm a')}.
+                {match.sponsors && match.sponsors.length > 0 && ' Share these with the match sponsors.'}
+              </p>
+              <div className="space-y-3 text-sm">
+                {match.status === 'in_progress' && (
+                  <div className="flex justify-between">
+                    <span className="text-dark-400">Watching now</span>
+                    <span className="text-red-400">{getLiveViewerCount(match)}</span>
+                  </div>
+                )}
+                <div className="flex justify-between">
+                  <span className="text-dark-400">Peak</span>
+                  <span className="text-white">
+                    {match.viewerStats.peak}
+                    <span className="text-dark-400"> at {format(match.viewerStats.peakAt, 'h:mm a')}</span>
+                  </span>
+                </div>
+                <div className="flex justify-between">
+                  <span className="text-dark-400">Average</span>
+                  <span className="text-white">{getAverageViewers(match.viewerStats)}</span>
+                </div>
+              </div>
+            </Card>
+          )}
+
+          {/* Broadcast Overlays */}
+          <Card variant="default">
+            <h3 className="font-semibold text-white mb-1 flex items-center gap-2">
+              <TvIcon className="w-5 h-5 text-cyan-400" />
+              Broadcast Overlays
+            </h3>
+            <p className="text-xs text-dark-400 mb-4">Add these as browser sources in OBS. They update live.</p>
+            <Select
+              label="Theme"
+              options={Object.keys(OVERLAY_THEMES).map((themeId) => ({
+                value: themeId,
+                label: themeId.charAt(0).toUpperCase() + themeId.slice(1),
+              }))}
+              value={overlayTheme}
+              onChange={(e) => setOverlayTheme(e.target.value as OverlayThemeId)}
+            />
+            <div className="space-y-2 mt-4">
+              {OVERLAY_ROUTES.map((route) => (
+                <div key={route.id} className="flex items-center justify-between gap-2 p-2 rounded-lg bg-dark-700/50">
+                  <a
+                    href={getOverlayUrl(match.id, route.id, overlayTheme)}
+                    target="_blank"
+                    rel="noopener noreferrer"
+                    className="text-sm text-cyan-400 hover:text-cyan-300"
+                  >
+                    {route.name}
+                  </a>
+                  <button
+                    onClick={() => handleCopyOverlayUrl(route.id)}
+                    className="p-1.5 rounded-lg text-dark-400 hover:text-white hover:bg-dark-600 transition-colors"
+                    title="Copy URL"
+                  >
+                    <ClipboardDocumentIcon className="w-4 h-4" />
+                  </button>
+                </div>
+              ))}
+            </div>
+          </Card>
+
           {/* View Public Page */}
           <Link href={`/matches/${match.id}`}>
             <Button variant="ghost" fullWidth>
@@ -12,9 +12,14 @@ import { Textarea } from '@/components/ui/Textarea';
 import { Select } from '@/components/ui/Select';
 import { Button } from '@/components/ui/Button';
 import { useAuthStore } from '@/store/authStore';
-import { createMatch, getGames } from '@/lib/firebase/db';
+import { createMatch, createMatchRecurrence, getGames } from '@/lib/firebase/db';
 import { uploadMatchBanner } from '@/lib/firebase/storage';
-import { GAMES, type MatchType, type Game } from '@/types';
+import { BEST_OF_OPTIONS, getWinsRequired } from '@/lib/series';
+import { DEFAULT_RECAP_MODE, RECAP_MODES } from '@/lib/recap';
+import { RECURRING_MATCH_TYPES, getRecurrenceError } from '@/lib/recurrence';
+import { RecurrenceFields, toRecurrenceRule, type RecurrenceFormValue } from '@/components/matches/RecurrenceFields';
+import { HostSchoolSelect } from '@/components/schools/HostSchoolSelect';
+import { GAMES, type MatchType, type Game, type RecapMode } from '@/types';
 
 export default function CreateMatchPage() {
   const router = useRouter();
@@ -29,6 +34,8 @@ export default function CreateMatchPage() {
   const [description, setDescription] = useState('');
   const [game, setGame] = useState('');
   const [matchType, setMatchType] = useState<MatchType>('friendly');
+  const [bestOf, setBestOf] = useState('1');
+  const [schoolId, setSchoolId] = useState('');
   const [isTeamMatch, setIsTeamMatch] = useState(false);
   const [maxParticipants, setMaxParticipants] = useState('2');
   const [customMaxParticipants, setCustomMaxParticipants] = useState('');
@@ -37,6 +44,9 @@ export default function CreateMatchPage() {
   const [streamUrl, setStreamUrl] = useState('');
   const [isPublic, setIsPublic] = useState(true);
   const [isFeatured, setIsFeatured] = useState(false);
+  const [recapMode, setRecapMode] = useState<RecapMode>(DEFAULT_RECAP_MODE);
+  const [repeats, setRepeats] = useState(false);
+  const [recurrence, setRecurrence] = useState<RecurrenceFormValue>({ daysOfWeek: [], until: '' });
   
   // New tournament-like fields
   const [rules, setRules] = useState('');
@@ -109,6 +119,17 @@ export default function CreateMatchPage() {
       return;
     }
 
+    const isRecurring = repeats && RECURRING_MATCH_TYPES.includes(matchType);
+    if (isRecurring) {
+      const recurrenceError = recurrence.until
+        ? getRecurrenceError(scheduledTime ? new Date(scheduledTime) : undefined, toRecurrenceRule(recurrence))
+        : 'Pick the date the series repeats until';
+      if (recurrenceError) {
+        toast.error(recurrenceError);
+        return;
+      }
+    }
+
     setIsLoading(true);
     try {
       // Create match first to get ID
@@ -121,6 +142,8 @@ export default function CreateMatchPage() {
         isTeamMatch,
         maxParticipants: participantCount,
         participants: [],
+        bestOf: parseInt(bestOf) > 1 ? parseInt(bestOf) : undefined,
+        schoolId: schoolId || undefined,
         rules: rules.trim() || undefined,
         prizeDescription: prizeDescription.trim() || undefined,
         scheduledTime: scheduledTime ? new Date(scheduledTime) : undefined,
@@ -128,6 +151,7 @@ export default function CreateMatchPage() {
         streamUrl: streamUrl.trim() || undefined,
         isPublic,
         isFeatured,
+        recapMode,
         createdBy: user.id,
       });
 
@@ -139,7 +163,12 @@ export default function CreateMatchPage() {
         await updateMatch(matchId, { bannerImage: bannerUrl });
       }
 
-      toast.success('Match created! Participants can now join.');
+      if (isRecurring) {
+        const occurrenceIds = await createMatchRecurrence(matchId, toRecurrenceRule(recurrence));
+        toast.success(`Series created: ${occurrenceIds.length + 1} matches. Participants can now join.`);
+      } else {
+        toast.success('Match created! Participants can now join.');
+      }
       router.push('/admin/matches');
     } catch (error) {
       toast.error('Failed to create match');
@@ -255,6 +284,18 @@ export default function CreateMatchPage() {
                   onChange={(e) => setMatchType(e.target.value as MatchType)}
                 />
               </div>
+
+              <Select
+                label="Series"
+                options={BEST_OF_OPTIONS.map((n) => ({
+                  value: n.toString(),
+                  label: n === 1 ? 'Single game' : `Best of ${n} (first to ${getWinsRequired(n)})`,
+                }))}
+                value={bestOf}
+                onChange={(e) => setBestOf(e.target.value)}
+              />
+
+              <HostSchoolSelect value={schoolId} onChange={setSchoolId} />
             </div>
 
             {/* Participants Settings */}
@@ -361,6 +402,30 @@ export default function CreateMatchPage() {
                 />
               </div>
 
+              {RECURRING_MATCH_TYPES.includes(matchType) && (
+                <div className="space-y-4">
+                  <div className="flex items-center gap-3">
+                    <input
+                      type="checkbox"
+                      id="repeats"
+                      checked={repeats}
+                      onChange={(e) => {
+                        setRepeats(e.target.checked);
+                        // Start from the first match's weekday
+                        if (e.target.checked && scheduledTime && recurrence.daysOfWeek.length === 0) {
+                          setRecurrence((prev) => ({ ...prev, daysOfWeek: [new Date(scheduledTime).getDay()] }));
+                        }
+                      }}
+                      className="w-5 h-5 rounded border-dark-600 bg-dark-700 text-cyan-500 focus:ring-cyan-500"
+                    />
+                    <label htmlFor="repeats" className="text-dark-200">
+                      🔁 Repeat weekly (creates a match for every date in the series)
+                    </label>
+                  </div>
+                  {repeats && <RecurrenceFields value={recurrence} onChange={setRecurrence} />}
+                </div>
+              )}
+
               <Input
                 label="Stream URL (optional)"
                 placeholder="https://twitch.tv/... or https://youtube.com/..."
@@ -401,6 +466,18 @@ export default function CreateMatchPage() {
                   </label>
                 </div>
               </div>
+
+              <div>
+                <Select
+                  label="Recap Post"
+                  options={RECAP_MODES}
+                  value={recapMode}
+                  onChange={(e) => setRecapMode(e.target.value as RecapMode)}
+                />
+                <p className="mt-1.5 text-sm text-dark-400">
+                  Written when the match completes: final score, winner and top performers
+                </p>
+              </div>
             </div>
 
             {/* Submit */}
@@ -0,0 +1,206 @@
+'use client';
+
+import { useState, useEffect } from 'react';
+import Link from 'next/link';
+import Image from 'next/image';
+import { formatDistanceToNow } from 'date-fns';
+import toast from 'react-hot-toast';
+import { ScaleIcon, ExclamationTriangleIcon, EyeIcon } from '@heroicons/react/24/outline';
+import { Card } from '@/components/ui/Card';
+import { Button } from '@/components/ui/Button';
+import { Badge } from '@/components/ui/Badge';
+import { PageLoader } from '@/components/ui/LoadingSpinner';
+import { useAuthStore } from '@/store/authStore';
+import { getDisputedMatches, resolveMatchDispute, dismissMatchResultReport } from '@/lib/firebase/db';
+import { getWinnerFromScores } from '@/lib/results';
+import { type Match } from '@/types';
+
+export default function AdminMatchDisputesPage() {
+  const { user } = useAuthStore();
+  const [matches, setMatches] = useState<Match[]>([]);
+  // Scores being decided, per match, seeded from the reported result
+  const [scores, setScores] = useState<Record<string, Record<string, string>>>({});
+  const [isLoading, setIsLoading] = useState(true);
+  const [workingOn, setWorkingOn] = useState<string | null>(null);
+
+  useEffect(() => {
+    const fetchDisputes = async () => {
+      try {
+        const disputed = await getDisputedMatches();
+        setMatches(disputed);
+        setScores(
+          Object.fromEntries(
+            disputed.map((match) => [
+              match.id,
+              Object.fromEntries(
+                Object.entries(match.resultReport?.scores || {}).map(([id, score]) => [id, String(score)])
+              ),
+            ])
+          )
+        );
+      } catch (error) {
+        console.error('Error fetching disputes:', error);
+        toast.error('Failed to load disputes');
+      } finally {
+        setIsLoading(false);
+      }
+    };
+
+    fetchDisputes();
+  }, []);
+
+  const getName = (match: Match, participantId: string) =>
+    match.participants?.find((p) => (p.oduserId || p.teamId) === participantId)?.name || 'Unknown';
+
+  const handleResolve = async (match: Match) => {
+    if (!user) return;
+    const finalScores = Object.fromEntries(
+      Object.entries(scores[match.id] || {}).map(([id, score]) => [id, Number(score) || 0])
+    );
+    setWorkingOn(match.id);
+    try {
+      await resolveMatchDispute(match.id, user.id, finalScores);
+      setMatches((prev) => prev.filter((m) => m.id !== match.id));
+      toast.success('Dispute resolved');
+    } catch (error) {
+      console.error('Error resolving dispute:', error);
+      toast.error(error instanceof Error ? error.message : 'Failed to resolve dispute');
+    } finally {
+      setWorkingOn(null);
+    }
+  };
+
+  const handleDismiss = async (match: Match) => {
+    if (!confirm('Clear this report? The participants will need to report the result again.')) return;
+    setWorkingOn(match.id);
+    try {
+      await dismissMatchResultReport(match.id);
+      setMatches((prev) => prev.filter((m) => m.id !== match.id));
+      toast.success('Report cleared');
+    } catch (error) {
+      console.error('Error clearing report:', error);
+      toast.error('Failed to clear report');
+    } finally {
+      setWorkingOn(null);
+    }
+  };
+
+  if (isLoading) {
+    return <PageLoader />;
+  }
+
+  return (
+    <div className="p-6">
+      <div className="mb-6">
+        <h1 className="text-2xl font-bold text-white flex items-center gap-2">
+          <ScaleIcon className="w-7 h-7 text-orange-400" />
+          Result Disputes
+        </h1>
+        <p className="text-dark-400">Self-reported results an opponent has disputed, oldest first</p>
+      </div>
+
+      {matches.length === 0 ? (
+        <Card variant="glass" className="text-center py-12">
+          <ScaleIcon className="w-12 h-12 mx-auto mb-3 text-dark-500" />
+          <p className="text-dark-400">No open disputes</p>
+        </Card>
+      ) : (
+        <div className="space-y-4">
+          {matches.map((match) => {
+            const report = match.resultReport;
+            if (!report?.dispute) return null;
+            const decided = Object.fromEntries(
+              Object.entries(scores[match.id] || {}).map(([id, score]) => [id, Number(score) || 0])
+            );
+            const decidedWinner = getWinnerFromScores(decided);
+
+            return (
+              <Card key={match.id} variant="default">
+                <div className="flex items-start justify-between gap-4 mb-4">
+                  <div>
+                    <h2 className="font-semibold text-white">{match.title}</h2>
+                    <p className="text-xs text-dark-400">
+                      Reported by {getName(match, report.reportedFor)}{' '}
+                      {formatDistanceToNow(report.reportedAt, { addSuffix: true })} · disputed{' '}
+                      {formatDistanceToNow(report.dispute.openedAt, { addSuffix: true })}
+                    </p>
+                  </div>
+                  <Link href={`/matches/${match.id}`} target="_blank">
+                    <Button variant="ghost" size="sm" leftIcon={<EyeIcon className="w-4 h-4" />}>
+                      View
+                    </Button>
+                  </Link>
+                </div>
+
+                <div className="grid gap-4 md:grid-cols-2">
+                  <div className="p-3 rounded-lg bg-red-500/10 border border-red-500/30">
+                    <p className="text-sm text-red-400 font-medium flex items-center gap-1 mb-1">
+                      <ExclamationTriangleIcon className="w-4 h-4" />
+                      {getName(match, report.dispute.openedFor)} says
+                    </p>
+                    <p className="text-sm text-dark-200 whitespace-pre-wrap">{report.dispute.reason}</p>
+                    {report.dispute.evidenceUrls.length > 0 && (
+                      <div className="flex flex-wrap gap-2 mt-3">
+                        {report.dispute.evidenceUrls.map((url, index) => (
+                          <a key={url} href={url} target="_blank" rel="noopener noreferrer">
+                            <Image
+                              src={url}
+                              alt={`Evidence ${index + 1}`}
+                              width={96}
+                              height={64}
+                              className="w-24 h-16 rounded object-cover border border-dark-600 hover:border-cyan-500"
+                            />
+                          </a>
+                        ))}
+                      </div>
+                    )}
+                  </div>
+
+                  <div className="space-y-2">
+                    <p className="text-sm text-dark-400">Final score (starts from the reported one)</p>
+                    {Object.keys(report.scores).map((participantId) => (
+                      <div key={participantId} className="flex items-center gap-3">
+                        <span className="flex-1 truncate text-white">
+                          {getName(match, participantId)}
+                          {decidedWinner === participantId && ' 🏆'}
+                        </span>
+                        <span className="text-xs text-dark-500 tabular-nums">reported {report.scores[participantId]}</span>
+                        <input
+                          type="number"
+                          min={0}
+                          value={scores[match.id]?.[participantId] ?? ''}
+                          onChange={(e) =>
+                            setScores((prev) => ({
+                              ...prev,
+                              [match.id]: { ...prev[match.id], [participantId]: e.target.value },
+                            }))
+                          }
+                          className="w-20 px-2 py-1.5 rounded-lg bg-dark-800 border border-dark-600 text-white text-center focus:outline-none focus:border-cyan-500"
+                        />
+                      </div>
+                    ))}
+                    {!decidedWinner && <Badge variant="default" size="sm">Draw</Badge>}
+                  </div>
+                </div>
+
+                <div className="flex justify-end gap-2 mt-4 pt-4 border-t border-dark-700">
+                  <Button
+                    variant="ghost"
+                    size="sm"
+                    onClick={() => handleDismiss(match)}
+                    disabled={workingOn === match.id}
+                  >
+                    Clear Report
+                  </Button>
+                  <Button size="sm" onClick={() => handleResolve(match)} isLoading={workingOn === match.id}>
+                    Confirm Final Score
+                  </Button>
+                </div>
+              </Card>
+            );
+          })}
+        </div>
+      )}
+    </div>
+  );
+}
@@ -9,8 +9,12 @@ import {
   TrophyIcon,
   AcademicCapIcon,
   CommandLineIcon,
+  ChartBarIcon,
 } from '@heroicons/react/24/outline';
+import toast from 'react-hot-toast';
 import { Card } from '@/components/ui/Card';
+import { Button } from '@/components/ui/Button';
+import { rebuildLeaderboards } from '@/lib/firebase/db';
 import { isFirebaseConfigured, db } from '@/lib/firebase/config';
 import { useAuthStore } from '@/store/authStore';
 import { hasPermission } from '@/types';
@@ -31,6 +35,7 @@ export default function AdminDashboard() {
     schools: 0,
   });
   const [isLoading, setIsLoading] = useState(true);
+  const [isRebuilding, setIsRebuilding] = useState(false);
 
   useEffect(() => {
     const fetchStats = async () => {
@@ -65,6 +70,20 @@ export default function AdminDashboard() {
     fetchStats();
   }, []);
 
+  const handleRebuildLeaderboards = async () => {
+    if (!confirm('Recount all leaderboards from completed matches? This can take a while.')) return;
+    setIsRebuilding(true);
+    try {
+      const entryCount = await rebuildLeaderboards();
+      toast.success(`Leaderboards rebuilt (${entryCount} entries)`);
+    } catch (error) {
+      console.error('Error rebuilding leaderboards:', error);
+      toast.error('Failed to rebuild leaderboards');
+    } finally {
+      setIsRebuilding(false);
+    }
+  };
+
   const statCards = [
     {
       name: 'Total Users',
@@ -219,6 +238,19 @@ export default function AdminDashboard() {
             </Link>
           </Card>
         )}
+
+        {hasPermission(user?.role || 'player', 'admin') && (
+          <Card className="text-center bg-gray-900 border-gray-800 hover:border-cyan-500/50 transition-colors">
+            <ChartBarIcon className="w-12 h-12 mx-auto mb-3 text-cyan-400" />
+            <h3 className="font-semibold text-white mb-2">Rebuild Leaderboards</h3>
+            <p className="text-sm text-gray-500 mb-4">
+              Recount leaderboard totals from every completed match
+            </p>
+            <Button variant="secondary" onClick={handleRebuildLeaderboards} isLoading={isRebuilding}>
+              Rebuild
+            </Button>
+          </Card>
+        )}
       </div>
     </div>
   );
@@ -10,6 +10,7 @@ import {
   PencilIcon,
   TrashIcon,
   EyeIcon,
+  NewspaperIcon,
 } from '@heroicons/react/24/outline';
 import { Card } from '@/components/ui/Card';
 import { Button } from '@/components/ui/Button';
@@ -86,11 +87,18 @@ export default function AdminPostsPage() {
           <h1 className="text-2xl font-bold text-white">Posts</h1>
           <p className="text-dark-400">Manage platform content</p>
         </div>
-        <Link href="/admin/posts/create">
-          <Button leftIcon={<PlusIcon className="w-5 h-5" />}>
-            Create Post
-          </Button>
-        </Link>
+        <div className="flex gap-2">
+          <Link href="/admin/posts/recaps">
+            <Button variant="secondary" leftIcon={<NewspaperIcon className="w-5 h-5" />}>
+              Match Recaps
+            </Button>
+          </Link>
+          <Link href="/admin/posts/create">
+            <Button leftIcon={<PlusIcon className="w-5 h-5" />}>
+              Create Post
+            </Button>
+          </Link>
+        </div>
       </div>
 
       {posts.length === 0 ? (
@@ -150,6 +158,11 @@ export default function AdminPostsPage() {
                       {post.isPinned && (
                         <Badge variant="warning" size="sm">Pinned</Badge>
                       )}
+                      {post.matchId && (
+                        <Link href={`/matches/${post.matchId}`}>
+                          <Badge variant="success" size="sm">Match Recap</Badge>
+                        </Link>
+                      )}
                     </div>
                     <div className="flex items-center gap-4 mt-2 text-sm text-dark-500">
                       <span>{post.reactions.length} reactions</span>
@@ -0,0 +1,182 @@
+'use client';
+
+import { useState, useEffect } from 'react';
+import Link from 'next/link';
+import { formatDistanceToNow } from 'date-fns';
+import toast from 'react-hot-toast';
+import { NewspaperIcon, EyeIcon, ArrowPathIcon } from '@heroicons/react/24/outline';
+import { Card } from '@/components/ui/Card';
+import { Button } from '@/components/ui/Button';
+import { Badge } from '@/components/ui/Badge';
+import { Textarea } from '@/components/ui/Textarea';
+import { PageLoader } from '@/components/ui/LoadingSpinner';
+import { useAuthStore } from '@/store/authStore';
+import { useGames } from '@/hooks/useGames';
+import {
+  getPendingMatchRecaps,
+  regenerateMatchRecap,
+  publishMatchRecap,
+  discardMatchRecap,
+} from '@/lib/firebase/db';
+import { type Match } from '@/types';
+
+export default function AdminMatchRecapsPage() {
+  const { user } = useAuthStore();
+  const { getGameInfo } = useGames();
+  const [matches, setMatches] = useState<Match[]>([]);
+  // Recap text being reviewed, per match, seeded from the generated one
+  const [contents, setContents] = useState<Record<string, string>>({});
+  const [isLoading, setIsLoading] = useState(true);
+  const [workingOn, setWorkingOn] = useState<string | null>(null);
+
+  useEffect(() => {
+    const fetchRecaps = async () => {
+      try {
+        const pending = await getPendingMatchRecaps();
+        setMatches(pending);
+        setContents(Object.fromEntries(pending.map((match) => [match.id, match.recap?.content || ''])));
+      } catch (error) {
+        console.error('Error fetching recaps:', error);
+        toast.error('Failed to load recaps');
+      } finally {
+        setIsLoading(false);
+      }
+    };
+
+    fetchRecaps();
+  }, []);
+
+  const removeMatch = (matchId: string) => setMatches((prev) => prev.filter((m) => m.id !== matchId));
+
+  const handlePublish = async (match: Match) => {
+    if (!user) return;
+    setWorkingOn(match.id);
+    try {
+      await publishMatchRecap(match.id, user.id, contents[match.id] || '');
+      removeMatch(match.id);
+      toast.success('Recap published to the feed');
+    } catch (error) {
+      console.error('Error publishing recap:', error);
+      toast.error(error instanceof Error ? error.message : 'Failed to publish recap');
+    } finally {
+      setWorkingOn(null);
+    }
+  };
+
+  const handleRegenerate = async (match: Match) => {
+    if (!confirm('Rebuild this recap from the match as it stands now? Your edits will be lost.')) return;
+    setWorkingOn(match.id);
+    try {
+      const content = await regenerateMatchRecap(match.id);
+      setContents((prev) => ({ ...prev, [match.id]: content }));
+      toast.success('Recap rebuilt');
+    } catch (error) {
+      console.error('Error rebuilding recap:', error);
+      toast.error(error instanceof Error ? error.message : 'Failed to rebuild recap');
+    } finally {
+      setWorkingOn(null);
+    }
+  };
+
+  const handleDiscard = async (match: Match) => {
+    if (!user) return;
+    if (!confirm('Discard this recap? The match will not get another one.')) return;
+    setWorkingOn(match.id);
+    try {
+      await discardMatchRecap(match.id, user.id);
+      removeMatch(match.id);
+      toast.success('Recap discarded');
+    } catch (error) {
+      console.error('Error discarding recap:', error);
+      toast.error(error instanceof Error ? error.message : 'Failed to discard recap');
+    } finally {
+      setWorkingOn(null);
+    }
+  };
+
+  if (isLoading) {
+    return <PageLoader />;
+  }
+
+  return (
+    <div className="p-6">
+      <div className="mb-6">
+        <h1 className="text-2xl font-bold text-white flex items-center gap-2">
+          <NewspaperIcon className="w-7 h-7 text-cyan-400" />
+          Match Recaps
+        </h1>
+        <p className="text-dark-400">Recap posts for finished matches, waiting for review before they go live</p>
+      </div>
+
+      {matches.length === 0 ? (
+        <Card variant="glass" className="text-center py-12">
+          <NewspaperIcon className="w-12 h-12 mx-auto mb-3 text-dark-500" />
+          <p className="text-dark-400">No recaps to review</p>
+        </Card>
+      ) : (
+        <div className="space-y-4">
+          {matches.map((match) => {
+            const recap = match.recap;
+            if (!recap) return null;
+            const game = getGameInfo(match.game);
+
+            return (
+              <Card key={match.id} variant="default">
+                <div className="flex items-start justify-between gap-4 mb-4">
+                  <div>
+                    <h2 className="font-semibold text-white">{match.title}</h2>
+                    <div className="flex flex-wrap items-center gap-2 mt-1 text-xs text-dark-400">
+                      <Badge variant="info" size="sm">
+                        {game.icon} {game.name}
+                      </Badge>
+                      {!recap.schoolId && <Badge variant="default" size="sm">No school</Badge>}
+                      <span>Written {formatDistanceToNow(recap.generatedAt, { addSuffix: true })}</span>
+                    </div>
+                  </div>
+                  <Link href={`/matches/${match.id}`} target="_blank">
+                    <Button variant="ghost" size="sm" leftIcon={<EyeIcon className="w-4 h-4" />}>
+                      View
+                    </Button>
+                  </Link>
+                </div>
+
+                <Textarea
+                  value={contents[match.id] ?? ''}
+                  onChange={(e) => setContents((prev) => ({ ...prev, [match.id]: e.target.value }))}
+                  rows={8}
+                />
+                <p className="mt-1.5 text-xs text-dark-500">
+                  The post links back to the match and is filed under its game
+                  {recap.schoolId ? ' and school' : ''}.
+                </p>
+
+                <div className="flex justify-end gap-2 mt-4 pt-4 border-t border-dark-700">
+                  <Button
+                    variant="ghost"
+                    size="sm"
+                    onClick={() => handleDiscard(match)}
+                    disabled={workingOn === match.id}
+                  >
+                    Discard
+                  </Button>
+                  <Button
+                    variant="ghost"
+                    size="sm"
+                    onClick={() => handleRegenerate(match)}
+                    disabled={workingOn === match.id}
+                    leftIcon={<ArrowPathIcon className="w-4 h-4" />}
+                  >
+                    Rebuild
+                  </Button>
+                  <Button size="sm" onClick={() => handlePublish(match)} isLoading={workingOn === match.id}>
+                    Publish
+                  </Button>
+                </div>
+              </Card>
+            );
+          })}
+        </div>
+      )}
+    </div>
+  );
+}
@@ -3,18 +3,54 @@
 import { useState, useEffect } from 'react';
 import { useRouter, useParams } from 'next/navigation';
 import { motion } from 'framer-motion';
+import { format as formatDate } from 'date-fns';
 import toast from 'react-hot-toast';
-import { ArrowLeftIcon, PhotoIcon } from '@heroicons/react/24/outline';
+import {
+  ArrowLeftIcon,
+  PhotoIcon,
+  RectangleGroupIcon,
+  UserGroupIcon,
+  CheckCircleIcon,
+} from '@heroicons/react/24/outline';
 import { Card } from '@/components/ui/Card';
 import { Input } from '@/components/ui/Input';
 import { Textarea } from '@/components/ui/Textarea';
 import { Select } from '@/components/ui/Select';
 import { Button } from '@/components/ui/Button';
+import { Badge } from '@/components/ui/Badge';
 import { PageLoader } from '@/components/ui/LoadingSpinner';
-import { getTournament, updateTournament } from '@/lib/firebase/db';
+import { HostSchoolSelect } from '@/components/schools/HostSchoolSelect';
+import {
+  getTournament,
+  updateTournament,
+  getBracket,
+  createBracket,
+  updateBracket,
+  getUsersByIds,
+  getTeamsByIds,
+  createBracketMatches,
+  cancelDetachedBracketMatches,
+  setParticipantCheckIn,
+  dropNoShows,
+} from '@/lib/firebase/db';
 import { uploadTournamentBanner } from '@/lib/firebase/storage';
-import { type Tournament, type TournamentType, type TournamentStatus } from '@/types';
+import {
+  TOURNAMENT_FORMAT_LABELS,
+  generateBracket,
+  generateNextSwissRound,
+  generatePlayoffs,
+  getDefaultSwissRounds,
+  getPlayableMatches,
+  isRoundComplete,
+  shuffleSeeds,
+  type BracketStructure,
+} from '@/lib/brackets';
+import { getGroupStandings } from '@/lib/standings';
+import { getCheckInWindow, getNoShows } from '@/lib/registration';
+import { type Tournament, type TournamentType, type TournamentFormat, type TournamentStatus, type Bracket } from '@/types';
 import { useGames } from '@/hooks/useGames';
+import { useAuthStore } from '@/store/authStore';
+import { TournamentBracket } from '@/components/tournaments/TournamentBracket';
 
 const formatDateForInput = (date: Date): string => {
   const pad = (n: number) => n.toString().padStart(2, '0');
@@ -24,6 +60,7 @@ const formatDateForInput = (date: Date): string => {
 export default function EditTournamentPage() {
   const router = useRouter();
   const params = useParams();
+  const { user } = useAuthStore();
   const tournamentId = params.id as string;
   const { gameOptions } = useGames();
 
@@ -36,16 +73,30 @@ export default function EditTournamentPage() {
   const [description, setDescription] = useState('');
   const [game, setGame] = useState('');
   const [type, setType] = useState<TournamentType>('solo');
+  const [schoolId, setSchoolId] = useState('');
+  const [format, setFormat] = useState<TournamentFormat>('single_elimination');
+  const [groupCount, setGroupCount] = useState('1');
+  const [advancePerGroup, setAdvancePerGroup] = useState('2');
+  const [swissRounds, setSwissRounds] = useState('');
   const [status, setStatus] = useState<TournamentStatus>('draft');
   const [rules, setRules] = useState('');
   const [prizeDescription, setPrizeDescription] = useState('');
   const [maxParticipants, setMaxParticipants] = useState('');
+  const [minTeamSize, setMinTeamSize] = useState('');
+  const [maxTeamSize, setMaxTeamSize] = useState('');
+  const [checkInMinutes, setCheckInMinutes] = useState('');
   const [dateStart, setDateStart] = useState('');
   const [dateEnd, setDateEnd] = useState('');
   const [registrationDeadline, setRegistrationDeadline] = useState('');
   const [bannerFile, setBannerFile] = useState<File | null>(null);
   const [bannerPreview, setBannerPreview] = useState<string | null>(null);
 
+  // Bracket
+  const [bracket, setBracket] = useState<Bracket | null>(null);
+  const [participantNames, setParticipantNames] = useState<Record<string, string>>({});
+  const [randomizeSeeds, setRandomizeSeeds] = useState(false);
+  const [isGeneratingBracket, setIsGeneratingBracket] = useState(false);
+
   useEffect(() => {
     const fetchTournament = async () => {
       try {
@@ -60,16 +111,38 @@ export default function EditTournamentPage() {
         setDescription(fetchedTournament.description || '');
         setGame(fetchedTournament.game);
         setType(fetchedTournament.type);
+        setSchoolId(fetchedTournament.schoolId || '');
+        setFormat(fetchedTournament.format || 'single_elimination');
+        setGroupCount(fetchedTournament.groupCount?.toString() || '1');
+        setAdvancePerGroup(fetchedTournament.advancePerGroup?.toString() || '2');
+        setSwissRounds(fetchedTournament.swissRounds?.toString() || '');
         setStatus(fetchedTournament.status);
         setRules(fetchedTournament.rules || '');
         setPrizeDescription(fetchedTournament.prizeDescription || '');
         setMaxParticipants(fetchedTournament.maxParticipants?.toString() || '');
+        setMinTeamSize(fetchedTournament.minTeamSize?.toString() || '');
+        setMaxTeamSize(fetchedTournament.maxTeamSize?.toString() || '');
+        setCheckInMinutes(fetchedTournament.checkInMinutes?.toString() || '');
         setDateStart(formatDateForInput(fetchedTournament.dateStart));
         setDateEnd(formatDateForInput(fetchedTournament.dateEnd));
         setRegistrationDeadline(formatDateForInput(fetchedTournament.registrationDeadline));
         if (fetchedTournament.bannerImage) {
           setBannerPreview(fetchedTournament.bannerImage);
         }
+
+        if (fetchedTournament.bracketId) {
+          setBracket(await getBracket(fetchedTournament.bracketId));
+        }
+        const entrantIds = [...fetchedTournament.participants, ...(fetchedTournament.waitlist || [])];
+        if (entrantIds.length > 0 && fetchedTournament.type === 'team') {
+          const teams = await getTeamsByIds(entrantIds);
+          setParticipantNames(Object.fromEntries(Object.values(teams).map((t) => [t.id, t.name])));
+        } else if (entrantIds.length > 0) {
+          const users = await getUsersByIds(entrantIds);
+          setParticipantNames(
+            Object.fromEntries(Object.values(users).map((u) => [u.id, u.displayName]))
+          );
+        }
       } catch (error) {
         console.error('Error fetching tournament:', error);
         toast.error('Failed to load tournament');
@@ -123,10 +196,19 @@ export default function EditTournamentPage() {
         description: description.trim(),
         game,
         type,
+        schoolId: schoolId || null,
+        format,
+        groupCount: format === 'round_robin' ? parseInt(groupCount) || 1 : undefined,
+        advancePerGroup: format === 'round_robin' ? parseInt(advancePerGroup) || 0 : undefined,
+        swissRounds: format === 'swiss' && swissRounds ? parseInt(swissRounds) : undefined,
         status,
         rules: rules.trim(),
         prizeDescription: prizeDescription.trim(),
         maxParticipants: maxParticipants ? parseInt(maxParticipants) : undefined,
+        minTeamSize: type === 'team' && minTeamSize ? parseInt(minTeamSize) : undefined,
+        maxTeamSize: type === 'team' && maxTeamSize ? parseInt(maxTeamSize) : undefined,
+        // 0 turns check-in off again
+        checkInMinutes: checkInMinutes ? parseInt(checkInMinutes) : 0,
         dateStart: new Date(dateStart),
         dateEnd: new Date(dateEnd),
         registrationDeadline: new Date(registrationDeadline),
@@ -143,6 +225,157 @@ export default function EditTournamentPage() {
     }
   };
 
+  // Persist a new bracket structure, creating the bracket doc on first use
+  const saveBracketStructure = async (structure: BracketStructure) => {
+    if (!tournament) return;
+    const data = {
+      format: structure.format,
+      rounds: structure.rounds,
+      losersRounds: structure.losersRounds,
+      grandFinal: structure.grandFinal,
+      groups: structure.groups,
+    };
+
+    if (bracket) {
+      await updateBracket(bracket.id, data);
+      setBracket({ ...bracket, ...data, updatedAt: new Date() });
+      const cancelled = await cancelDetachedBracketMatches(tournamentId, data);
+      if (cancelled > 0) toast.success(`Cancelled ${cancelled} match${cancelled === 1 ? '' : 'es'} from the old bracket`);
+    } else {
+      const bracketId = await createBracket({ tournamentId, ...data });
+      setBracket({ id: bracketId, tournamentId, ...data, createdAt: new Date(), updatedAt: new Date() });
+      setTournament({ ...tournament, bracketId });
+    }
+  };
+
+  // Seed participants in registration order (or randomly) and build the bracket
+  const handleGenerateBracket = async () => {
+    if (!tournament) return;
+    if (tournament.participants.length < 2) {
+      toast.error('At least 2 participants are needed to generate a bracket');
+      return;
+    }
+    if (bracket && !confirm('Regenerate the bracket? All recorded results will be lost.')) return;
+
+    const noShows = getNoShows(tournament);
+    if (
+      noShows.length > 0 &&
+      !confirm(`${noShows.length} participant(s) haven't checked in and will be dropped. Continue?`)
+    ) {
+      return;
+    }
+
+    setIsGeneratingBracket(true);
+    try {
+      let field = tournament.participants;
+      if (noShows.length > 0) {
+        field = await dropNoShows(tournamentId);
+        setTournament({ ...tournament, participants: field });
+        if (field.length < 2) {
+          toast.error('Fewer than 2 participants checked in');
+          return;
+        }
+      }
+
+      const seeds = randomizeSeeds ? shuffleSeeds(field) : field;
+      await saveBracketStructure(generateBracket(format, seeds, { groupCount: parseInt(groupCount) || 1 }));
+      toast.success('Bracket generated!');
+    } catch (error) {
+      toast.error('Failed to generate bracket');
+      console.error(error);
+    } finally {
+      setIsGeneratingBracket(false);
+    }
+  };
+
+  // Round robin: seed the playoff bracket from the final group tables
+  const handleGeneratePlayoffs = async () => {
+    if (!bracket?.groups) return;
+    if (bracket.rounds.length > 0 && !confirm('Regenerate the playoffs? Playoff results will be lost.')) return;
+
+    setIsGeneratingBracket(true);
+    try {
+      const rankedGroups = bracket.groups.map((group) =>
+        getGroupStandings(group.participants, group.rounds).map((row) => row.participantId)
+      );
+      await saveBracketStructure(generatePlayoffs(bracket, rankedGroups, parseInt(advancePerGroup) || 2));
+      toast.success('Playoffs generated!');
+    } catch (error) {
+      toast.error('Failed to generate playoffs');
+      console.error(error);
+    } finally {
+      setIsGeneratingBracket(false);
+    }
+  };
+
+  // Swiss: pair the next round from the current standings
+  const handlePairNextRound = async () => {
+    if (!bracket || !tournament) return;
+
+    setIsGeneratingBracket(true);
+    try {
+      await saveBracketStructure(generateNextSwissRound(bracket, tournament.participants));
+      toast.success(`Round ${bracket.rounds.length + 1} paired!`);
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : 'Failed to pair next round');
+      console.error(error);
+    } finally {
+      setIsGeneratingBracket(false);
+    }
+  };
+
+  // Create Match documents for every bracket slot that has both participants
+  const handleCreateMatches = async () => {
+    if (!bracket || !tournament || !user) return;
+
+    setIsGeneratingBracket(true);
+    try {
+      const { bracket: updated, created } = await createBracketMatches(
+        tournament,
+        bracket,
+        participantNames,
+        user.id
+      );
+      setBracket(updated);
+      toast.success(`${created} match${created === 1 ? '' : 'es'} created`);
+    } catch (error) {
+      toast.error('Failed to create matches');
+      console.error(error);
+    } finally {
+      setIsGeneratingBracket(false);
+    }
+  };
+
+  // Admin check-in override from the roster
+  const handleToggleCheckIn = async (participantId: string) => {
+    if (!tournament) return;
+    const isCheckedIn = !!tournament.checkedIn?.includes(participantId);
+    try {
+      await setParticipantCheckIn(tournamentId, participantId, !isCheckedIn);
+      setTournament({
+        ...tournament,
+        checkedIn: isCheckedIn
+          ? (tournament.checkedIn || []).filter((id) => id !== participantId)
+          : [...(tournament.checkedIn || []), participantId],
+      });
+    } catch (error) {
+      toast.error('Failed to update check-in');
+      console.error(error);
+    }
+  };
+
+  const bracketFormat = bracket?.format || 'single_elimination';
+  const groupsComplete =
+    !!bracket?.groups && bracket.groups.every((group) => group.rounds.every(isRoundComplete));
+  const swissRoundLimit = parseInt(swissRounds) || getDefaultSwissRounds(tournament?.participants.length || 0);
+  const canPairNextRound =
+    bracketFormat === 'swiss' &&
+    !!bracket &&
+    bracket.rounds.length < swissRoundLimit &&
+    isRoundComplete(bracket.rounds[bracket.rounds.length - 1] || []);
+  const playableCount = bracket ? getPlayableMatches(bracket).length : 0;
+  const checkInWindow = tournament ? getCheckInWindow(tournament) : null;
+
   if (isLoading) {
     return <PageLoader />;
   }
@@ -221,7 +454,7 @@ export default function EditTournamentPage() {
               />
 
               <Select
-                label="Format"
+                label="Entry Type"
                 options={[
                   { value: 'solo', label: 'Solo (Individual)' },
                   { value: 'team', label: 'Team' },
@@ -231,6 +464,47 @@ export default function EditTournamentPage() {
               />
             </div>
 
+            <HostSchoolSelect value={schoolId} onChange={setSchoolId} />
+
+            <div className="grid gap-4 md:grid-cols-3">
+              <Select
+                label="Competition Format"
+                options={Object.entries(TOURNAMENT_FORMAT_LABELS).map(([value, label]) => ({ value, label }))}
+                value={format}
+                onChange={(e) => setFormat(e.target.value as TournamentFormat)}
+              />
+
+              {format === 'round_robin' && (
+                <>
+                  <Input
+                    label="Groups"
+                    type="number"
+                    min="1"
+                    value={groupCount}
+                    onChange={(e) => setGroupCount(e.target.value)}
+                  />
+                  <Input
+                    label="Advance per Group"
+                    type="number"
+                    min="1"
+                    value={advancePerGroup}
+                    onChange={(e) => setAdvancePerGroup(e.target.value)}
+                  />
+                </>
+              )}
+
+              {format === 'swiss' && (
+                <Input
+                  label="Swiss Rounds (optional)"
+                  type="number"
+                  min="1"
+                  placeholder="Based on field size"
+                  value={swissRounds}
+                  onChange={(e) => setSwissRounds(e.target.value)}
+                />
+              )}
+            </div>
+
             <Select
               label="Status"
               options={[
@@ -244,13 +518,42 @@ export default function EditTournamentPage() {
               onChange={(e) => setStatus(e.target.value as TournamentStatus)}
             />
 
-            <Input
-              label="Max Participants (optional)"
-              type="number"
-              placeholder="Leave empty for unlimited"
-              value={maxParticipants}
-              onChange={(e) => setMaxParticipants(e.target.value)}
-            />
+            <div className="grid gap-4 md:grid-cols-2">
+              <Input
+                label="Max Participants (optional)"
+                type="number"
+                placeholder="Leave empty for unlimited"
+                value={maxParticipants}
+                onChange={(e) => setMaxParticipants(e.target.value)}
+              />
+              <Input
+                label="Check-in Window (minutes, optional)"
+                type="number"
+                min="1"
+                placeholder="No check-in"
+                value={checkInMinutes}
+                onChange={(e) => setCheckInMinutes(e.target.value)}
+              />
+            </div>
+
+            {type === 'team' && (
+              <div className="grid gap-4 md:grid-cols-2">
+                <Input
+                  label="Min Roster Size (optional)"
+                  type="number"
+                  min="1"
+                  value={minTeamSize}
+                  onChange={(e) => setMinTeamSize(e.target.value)}
+                />
+                <Input
+                  label="Max Roster Size (optional)"
+                  type="number"
+                  min="1"
+                  value={maxTeamSize}
+                  onChange={(e) => setMaxTeamSize(e.target.value)}
+                />
+              </div>
+            )}
 
             <Textarea
               label="Rules"
@@ -312,6 +615,165 @@ export default function EditTournamentPage() {
             </div>
           </form>
         </Card>
+
+        {/* Roster */}
+        {tournament && (
+          <Card variant="glass" padding="lg" className="mt-6">
+            <div className="flex items-center justify-between mb-4">
+              <h2 className="text-xl font-bold text-white flex items-center gap-2">
+                <UserGroupIcon className="w-6 h-6 text-cyan-400" />
+                Roster
+              </h2>
+              <span className="text-sm text-dark-400">
+                {tournament.participants.length} registered
+                {checkInWindow && ` · ${tournament.checkedIn?.length || 0} checked in`}
+                {!!tournament.waitlist?.length && ` · ${tournament.waitlist.length} waitlisted`}
+              </span>
+            </div>
+
+            {checkInWindow ? (
+              <p className="text-sm text-dark-400 mb-4">
+                Check-in runs {formatDate(checkInWindow.opensAt, 'MMM d, h:mm a')} –{' '}
+                {formatDate(checkInWindow.closesAt, 'h:mm a')}. Anyone not checked in is dropped when the
+                bracket is generated.
+              </p>
+            ) : (
+              <p className="text-sm text-dark-400 mb-4">
+                Check-in is off. Set a check-in window above to drop no-shows before the bracket.
+              </p>
+            )}
+
+            {tournament.participants.length === 0 ? (
+              <p className="text-center text-dark-500 py-6">No participants yet</p>
+            ) : (
+              <div className="divide-y divide-dark-700">
+                {tournament.participants.map((participantId, index) => {
+                  const isCheckedIn = !!tournament.checkedIn?.includes(participantId);
+                  return (
+                    <div key={participantId} className="flex items-center justify-between gap-3 py-2">
+                      <div className="flex items-center gap-3 min-w-0">
+                        <span className="w-6 text-sm text-dark-500 tabular-nums">{index + 1}</span>
+                        <span className="text-white truncate">
+                          {participantNames[participantId] || 'Unknown'}
+                        </span>
+                      </div>
+                      {checkInWindow && (
+                        <div className="flex items-center gap-2 shrink-0">
+                          {isCheckedIn ? (
+                            <Badge variant="success">
+                              <CheckCircleIcon className="w-3 h-3 mr-1 inline" />
+                              Checked in
+                            </Badge>
+                          ) : (
+                            <Badge variant="danger">Not checked in</Badge>
+                          )}
+                          <Button size="sm" variant="ghost" onClick={() => handleToggleCheckIn(participantId)}>
+                            {isCheckedIn ? 'Undo' : 'Check in'}
+                          </Button>
+                        </div>
+                      )}
+                    </div>
+                  );
+                })}
+              </div>
+            )}
+
+            {!!tournament.waitlist?.length && (
+              <div className="mt-6">
+                <h3 className="text-sm font-semibold text-dark-300 mb-2">Waitlist</h3>
+                <ol className="space-y-1 text-sm text-dark-400">
+                  {tournament.waitlist.map((participantId, index) => (
+                    <li key={participantId}>
+                      {index + 1}. {participantNames[participantId] || 'Unknown'}
+                    </li>
+                  ))}
+                </ol>
+              </div>
+            )}
+          </Card>
+        )}
+
+        {/* Bracket */}
+        <Card variant="glass" padding="lg" className="mt-6">
+          <div className="flex items-center justify-between mb-4">
+            <h2 className="text-xl font-bold text-white flex items-center gap-2">
+              <RectangleGroupIcon className="w-6 h-6 text-cyan-400" />
+              Bracket
+            </h2>
+            <span className="text-sm text-dark-400">
+              {TOURNAMENT_FORMAT_LABELS[bracket ? bracketFormat : format]}
+            </span>
+          </div>
+
+          <p className="text-sm text-dark-400 mb-4">
+            Seeds follow registration order unless randomized. Elimination fields that aren&apos;t a
+            power of two give byes to the top seeds. The bracket uses the competition format selected
+            above.
+          </p>
+
+          <div className="flex flex-wrap items-center justify-between gap-3 mb-6">
+            <label className="flex items-center gap-3 text-dark-200">
+              <input
+                type="checkbox"
+                checked={randomizeSeeds}
+                onChange={(e) => setRandomizeSeeds(e.target.checked)}
+                className="w-5 h-5 rounded border-dark-600 bg-dark-700 text-cyan-500 focus:ring-cyan-500"
+              />
+              Randomize seeding
+            </label>
+            <Button
+              variant={bracket ? 'secondary' : 'primary'}
+              onClick={handleGenerateBracket}
+              isLoading={isGeneratingBracket}
+              disabled={!tournament || tournament.participants.length < 2}
+            >
+              {bracket ? 'Regenerate Bracket' : 'Generate Bracket'}
+            </Button>
+          </div>
+
+          {playableCount > 0 && (
+            <div className="flex items-center justify-between gap-3 mb-6 p-3 rounded-lg bg-dark-800/60">
+              <p className="text-sm text-dark-300">
+                {playableCount} bracket match{playableCount === 1 ? ' is' : 'es are'} ready to play.
+                Results entered on the match pages advance the bracket.
+              </p>
+              <Button size="sm" onClick={handleCreateMatches} isLoading={isGeneratingBracket}>
+                Create Matches
+              </Button>
+            </div>
+          )}
+
+          {bracketFormat === 'round_robin' && groupsComplete && (
+            <div className="flex items-center justify-between gap-3 mb-6 p-3 rounded-lg bg-dark-800/60">
+              <p className="text-sm text-dark-300">All group matches are complete.</p>
+              <Button size="sm" onClick={handleGeneratePlayoffs} isLoading={isGeneratingBracket}>
+                {bracket?.rounds.length ? 'Regenerate Playoffs' : 'Generate Playoffs'}
+              </Button>
+            </div>
+          )}
+
+          {canPairNextRound && (
+            <div className="flex items-center justify-between gap-3 mb-6 p-3 rounded-lg bg-dark-800/60">
+              <p className="text-sm text-dark-300">
+                Round {bracket?.rounds.length} of {swissRoundLimit} is complete.
+              </p>
+              <Button size="sm" onClick={handlePairNextRound} isLoading={isGeneratingBracket}>
+                Pair Next Round
+              </Button>
+            </div>
+          )}
+
+          {bracket ? (
+            <TournamentBracket
+              bracket={bracket}
+              participants={tournament?.participants || []}
+              participantNames={participantNames}
+              advancePerGroup={parseInt(advancePerGroup) || 2}
+            />
+          ) : (
+            <p className="text-center text-dark-500 py-6">No bracket generated yet</p>
+          )}
+        </Card>
       </motion.div>
     </div>
   );
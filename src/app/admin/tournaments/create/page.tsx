@@ -10,10 +10,12 @@ import { Input } from '@/components/ui/Input';
 import { Textarea } from '@/components/ui/Textarea';
 import { Select } from '@/components/ui/Select';
 import { Button } from '@/components/ui/Button';
+import { HostSchoolSelect } from '@/components/schools/HostSchoolSelect';
 import { useAuthStore } from '@/store/authStore';
 import { createTournament } from '@/lib/firebase/db';
 import { uploadTournamentBanner } from '@/lib/firebase/storage';
-import { type TournamentType } from '@/types';
+import { TOURNAMENT_FORMAT_LABELS } from '@/lib/brackets';
+import { type TournamentType, type TournamentFormat } from '@/types';
 import { useGames } from '@/hooks/useGames';
 
 export default function CreateTournamentPage() {
@@ -27,9 +29,17 @@ export default function CreateTournamentPage() {
   const [description, setDescription] = useState('');
   const [game, setGame] = useState('');
   const [type, setType] = useState<TournamentType>('solo');
+  const [schoolId, setSchoolId] = useState('');
+  const [format, setFormat] = useState<TournamentFormat>('single_elimination');
+  const [groupCount, setGroupCount] = useState('1');
+  const [advancePerGroup, setAdvancePerGroup] = useState('2');
+  const [swissRounds, setSwissRounds] = useState('');
   const [rules, setRules] = useState('');
   const [prizeDescription, setPrizeDescription] = useState('');
   const [maxParticipants, setMaxParticipants] = useState('');
+  const [minTeamSize, setMinTeamSize] = useState('');
+  const [maxTeamSize, setMaxTeamSize] = useState('');
+  const [checkInMinutes, setCheckInMinutes] = useState('');
   const [dateStart, setDateStart] = useState('');
   const [dateEnd, setDateEnd] = useState('');
   const [registrationDeadline, setRegistrationDeadline] = useState('');
@@ -72,9 +82,17 @@ export default function CreateTournamentPage() {
         description: description.trim(),
         game,
         type,
+        schoolId: schoolId || undefined,
+        format,
+        groupCount: format === 'round_robin' ? parseInt(groupCount) || 1 : undefined,
+        advancePerGroup: format === 'round_robin' ? parseInt(advancePerGroup) || 0 : undefined,
+        swissRounds: format === 'swiss' && swissRounds ? parseInt(swissRounds) : undefined,
         rules: rules.trim(),
         prizeDescription: prizeDescription.trim(),
         maxParticipants: maxParticipants ? parseInt(maxParticipants) : undefined,
+        minTeamSize: type === 'team' && minTeamSize ? parseInt(minTeamSize) : undefined,
+        maxTeamSize: type === 'team' && maxTeamSize ? parseInt(maxTeamSize) : undefined,
+        checkInMinutes: checkInMinutes ? parseInt(checkInMinutes) : undefined,
         dateStart: new Date(dateStart),
         dateEnd: new Date(dateEnd),
         registrationDeadline: new Date(registrationDeadline),
@@ -172,7 +190,7 @@ export default function CreateTournamentPage() {
               />
 
               <Select
-                label="Format"
+                label="Entry Type"
                 options={[
                   { value: 'solo', label: 'Solo (Individual)' },
                   { value: 'team', label: 'Team' },
@@ -182,13 +200,83 @@ export default function CreateTournamentPage() {
               />
             </div>
 
-            <Input
-              label="Max Participants (optional)"
-              type="number"
-              placeholder="Leave empty for unlimited"
-              value={maxParticipants}
-              onChange={(e) => setMaxParticipants(e.target.value)}
-            />
+            <HostSchoolSelect value={schoolId} onChange={setSchoolId} />
+
+            <div className="grid gap-4 md:grid-cols-3">
+              <Select
+                label="Competition Format"
+                options={Object.entries(TOURNAMENT_FORMAT_LABELS).map(([value, label]) => ({ value, label }))}
+                value={format}
+                onChange={(e) => setFormat(e.target.value as TournamentFormat)}
+              />
+
+              {format === 'round_robin' && (
+                <>
+                  <Input
+                    label="Groups"
+                    type="number"
+                    min="1"
+                    value={groupCount}
+                    onChange={(e) => setGroupCount(e.target.value)}
+                  />
+                  <Input
+                    label="Advance per Group"
+                    type="number"
+                    min="1"
+                    value={advancePerGroup}
+                    onChange={(e) => setAdvancePerGroup(e.target.value)}
+                  />
+                </>
+              )}
+
+              {format === 'swiss' && (
+                <Input
+                  label="Swiss Rounds (optional)"
+                  type="number"
+                  min="1"
+                  placeholder="Based on field size"
+                  value={swissRounds}
+                  onChange={(e) => setSwissRounds(e.target.value)}
+                />
+              )}
+            </div>
+
+            <div className="grid gap-4 md:grid-cols-2">
+              <Input
+                label="Max Participants (optional)"
+                type="number"
+                placeholder="Leave empty for unlimited"
+                value={maxParticipants}
+                onChange={(e) => setMaxParticipants(e.target.value)}
+              />
+              <Input
+                label="Check-in Window (minutes, optional)"
+                type="number"
+                min="1"
+                placeholder="No check-in"
+                value={checkInMinutes}
+                onChange={(e) => setCheckInMinutes(e.target.value)}
+              />
+            </div>
+
+            {type === 'team' && (
+              <div className="grid gap-4 md:grid-cols-2">
+                <Input
+                  label="Min Roster Size (optional)"
+                  type="number"
+                  min="1"
+                  value={minTeamSize}
+                  onChange={(e) => setMinTeamSize(e.target.value)}
+                />
+                <Input
+                  label="Max Roster Size (optional)"
+                  type="number"
+                  min="1"
+                  value={maxTeamSize}
+                  onChange={(e) => setMaxTeamSize(e.target.value)}
+                />
+              </div>
+            )}
 
             <Textarea
               label="Rules"
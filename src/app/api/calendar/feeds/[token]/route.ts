@@ -0,0 +1,64 @@
+import { NextResponse } from 'next/server';
+import {
+  getCalendarFeed,
+  getGames,
+  getSchool,
+  getSchoolCommitments,
+  getScheduleCommitments,
+  getUser,
+} from '@/lib/firebase/db';
+import { buildCalendar, toCalendarResponse } from '@/lib/calendar';
+import { getScheduleHorizon, mergeCommitments, type Commitment } from '@/lib/conflicts';
+import type { CalendarFeed } from '@/types';
+
+// Always run against live data, never a cached response
+export const dynamic = 'force-dynamic';
+
+// A user's feed covers what they're booked into plus their school's
+// calendar; a school's covers what it hosts and its teams are in
+const getFeedContents = async (
+  feed: CalendarFeed,
+  from: Date,
+  to: Date
+): Promise<{ name: string; commitments: Commitment[] } | null> => {
+  if (feed.ownerType === 'school') {
+    const school = await getSchool(feed.ownerId);
+    return school ? { name: school.name, commitments: await getSchoolCommitments(school, from, to) } : null;
+  }
+
+  const user = await getUser(feed.ownerId);
+  if (!user) return null;
+  const school = user.schoolId ? await getSchool(user.schoolId) : null;
+  const [schedule, schoolCommitments] = await Promise.all([
+    getScheduleCommitments({ oduserId: user.id }, from, to),
+    school ? getSchoolCommitments(school, from, to) : Promise.resolve([]),
+  ]);
+  return { name: user.displayName, commitments: mergeCommitments(schedule, schoolCommitments) };
+};
+
+// Subscribable feed for a user or school, looked up by its secret token
+export async function GET(request: Request, { params }: { params: Promise<{ token: string }> }) {
+  const { token } = await params;
+
+  try {
+    const feed = await getCalendarFeed(token);
+    const now = new Date();
+    const contents = feed ? await getFeedContents(feed, now, getScheduleHorizon(now)) : null;
+    if (!contents) {
+      return NextResponse.json({ error: 'Calendar not found' }, { status: 404 });
+    }
+
+    const games = await getGames(false);
+    const gameNames = Object.fromEntries(games.map((game) => [game.id, game.name]));
+    const calendar = buildCalendar(
+      `${contents.name} · Esports`,
+      contents.commitments,
+      new URL(request.url).origin,
+      gameNames
+    );
+    return toCalendarResponse(calendar, contents.name);
+  } catch (error) {
+    console.error('Error building calendar feed:', error);
+    return NextResponse.json({ error: 'Failed to build calendar' }, { status: 500 });
+  }
+}
@@ -0,0 +1,37 @@
+import { NextResponse } from 'next/server';
+import { getGame, getMatch } from '@/lib/firebase/db';
+import { buildCalendar, toCalendarResponse } from '@/lib/calendar';
+import { getMatchWindow, toMatchCommitment } from '@/lib/conflicts';
+
+// Always run against live data, never a cached response
+export const dynamic = 'force-dynamic';
+
+// A single match as an .ics file, for "Add to calendar"
+export async function GET(request: Request, { params }: { params: Promise<{ matchId: string }> }) {
+  const { matchId } = await params;
+
+  try {
+    const match = await getMatch(matchId);
+    // Private matches stay out of calendar links, like they do for spectators
+    if (!match || !match.isPublic) {
+      return NextResponse.json({ error: 'Match not found' }, { status: 404 });
+    }
+
+    const game = await getGame(match.game);
+    const window = getMatchWindow(match, game);
+    if (!window) {
+      return NextResponse.json({ error: 'This match has no scheduled time yet' }, { status: 404 });
+    }
+
+    const calendar = buildCalendar(
+      match.title,
+      [toMatchCommitment(match, window)],
+      new URL(request.url).origin,
+      game ? { [game.id]: game.name } : {}
+    );
+    return toCalendarResponse(calendar, match.title);
+  } catch (error) {
+    console.error('Error building match calendar:', error);
+    return NextResponse.json({ error: 'Failed to build calendar' }, { status: 500 });
+  }
+}
@@ -0,0 +1,31 @@
+import { NextResponse } from 'next/server';
+import { getGame, getTournament } from '@/lib/firebase/db';
+import { buildCalendar, toCalendarResponse } from '@/lib/calendar';
+import { toTournamentCommitment } from '@/lib/conflicts';
+
+// Always run against live data, never a cached response
+export const dynamic = 'force-dynamic';
+
+// A single tournament as an .ics file, for "Add to calendar"
+export async function GET(request: Request, { params }: { params: Promise<{ tournamentId: string }> }) {
+  const { tournamentId } = await params;
+
+  try {
+    const tournament = await getTournament(tournamentId);
+    if (!tournament) {
+      return NextResponse.json({ error: 'Tournament not found' }, { status: 404 });
+    }
+
+    const game = await getGame(tournament.game);
+    const calendar = buildCalendar(
+      tournament.title,
+      [toTournamentCommitment(tournament)],
+      new URL(request.url).origin,
+      game ? { [game.id]: game.name } : {}
+    );
+    return toCalendarResponse(calendar, tournament.title);
+  } catch (error) {
+    console.error('Error building tournament calendar:', error);
+    return NextResponse.json({ error: 'Failed to build calendar' }, { status: 500 });
+  }
+}
@@ -0,0 +1,37 @@
+import { NextResponse } from 'next/server';
+import { signInWithEmail } from '@/lib/firebase/auth';
+import { runMatchAutomation } from '@/lib/firebase/db';
+
+// Always run against live data, never a cached response
+export const dynamic = 'force-dynamic';
+
+// Hit by cron every few minutes: match reminders, auto-start and expiry.
+// In production the caller must send `Authorization: Bearer $CRON_SECRET`.
+// The job signs in as the CRON_ACCOUNT_EMAIL user, an admin account, since
+// the Firestore rules only let admins run matches.
+export async function GET(request: Request) {
+  const secret = process.env.CRON_SECRET;
+  const accountEmail = process.env.CRON_ACCOUNT_EMAIL;
+  const accountPassword = process.env.CRON_ACCOUNT_PASSWORD;
+  if (process.env.NODE_ENV === 'production' && !secret) {
+    return NextResponse.json({ error: 'CRON_SECRET is not configured' }, { status: 500 });
+  }
+  if (process.env.NODE_ENV === 'production' && (!accountEmail || !accountPassword)) {
+    return NextResponse.json({ error: 'CRON_ACCOUNT_EMAIL and CRON_ACCOUNT_PASSWORD are not configured' }, { status: 500 });
+  }
+  if (secret && request.headers.get('authorization') !== `Bearer ${secret}`) {
+    return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+  }
+
+  try {
+    if (accountEmail && accountPassword) await signInWithEmail(accountEmail, accountPassword);
+    const summary = await runMatchAutomation();
+    return NextResponse.json(summary);
+  } catch (error) {
+    console.error('Error running match automation:', error);
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : 'Match automation failed' },
+      { status: 500 }
+    );
+  }
+}
@@ -604,6 +604,14 @@ function PostCard({
       {/* Post Content */}
       <div className="px-4 pb-4">
         <p className="text-dark-200 whitespace-pre-wrap">{post.content}</p>
+        {post.matchId && (
+          <Link
+            href={`/matches/${post.matchId}`}
+            className="inline-block mt-3 text-sm font-medium text-cyan-400 hover:underline"
+          >
+            View full match →
+          </Link>
+        )}
       </div>
 
       {/* Post Images */}
@@ -0,0 +1,281 @@
+'use client';
+
+import { useState, useEffect, useMemo } from 'react';
+import Link from 'next/link';
+import { motion } from 'framer-motion';
+import { TrophyIcon, UserIcon, UserGroupIcon, ChartBarIcon } from '@heroicons/react/24/outline';
+import { Card } from '@/components/ui/Card';
+import { Avatar } from '@/components/ui/Avatar';
+import { LoadingSpinner } from '@/components/ui/LoadingSpinner';
+import { getLeaderboard, getSchools, getUsersByIds, getTeamsByIds } from '@/lib/firebase/db';
+import { ALL_GAMES, MIN_MATCHES_FOR_WIN_RATE, getPeriodKey, getRecentSeasons } from '@/lib/leaderboards';
+import { useAuthStore } from '@/store/authStore';
+import { useGames } from '@/hooks/useGames';
+import {
+  type LeaderboardEntry,
+  type LeaderboardSort,
+  type LeaderboardWindow,
+  type RatingSubjectType,
+  type School,
+} from '@/types';
+
+const windowLabels: Record<LeaderboardWindow, string> = {
+  all: 'All Time',
+  season: 'Season',
+  month: 'This Month',
+  week: 'This Week',
+};
+
+const sortLabels: Record<LeaderboardSort, string> = {
+  wins: 'Wins',
+  winRate: 'Win Rate',
+  rating: 'Rating',
+};
+
+const filterClassName =
+  'bg-dark-800 border border-dark-700 rounded-lg px-3 py-1.5 text-sm text-white focus:outline-none focus:border-cyan-500';
+
+interface Entrant {
+  name: string;
+  image?: string | null;
+  href: string;
+}
+
+export default function LeaderboardsPage() {
+  const { gameOptions } = useGames();
+  const { user } = useAuthStore();
+  const seasons = useMemo(() => getRecentSeasons(4), []);
+
+  const [subjectType, setSubjectType] = useState<RatingSubjectType>('user');
+  const [game, setGame] = useState(ALL_GAMES);
+  const [schoolId, setSchoolId] = useState('');
+  const [timeWindow, setTimeWindow] = useState<LeaderboardWindow>('all');
+  const [seasonId, setSeasonId] = useState(seasons[0].id);
+  const [sortBy, setSortBy] = useState<LeaderboardSort>('wins');
+  const [schools, setSchools] = useState<School[]>([]);
+  const [entries, setEntries] = useState<LeaderboardEntry[]>([]);
+  const [entrants, setEntrants] = useState<Record<string, Entrant>>({});
+  const [isLoading, setIsLoading] = useState(true);
+
+  // Ratings aren't windowed and only exist per game
+  const canSortByRating = game !== ALL_GAMES && timeWindow === 'all';
+  const activeSort = sortBy === 'rating' && !canSortByRating ? 'wins' : sortBy;
+
+  useEffect(() => {
+    getSchools()
+      .then(setSchools)
+      .catch((error) => console.error('Error fetching schools:', error));
+  }, []);
+
+  useEffect(() => {
+    const fetchLeaderboard = async () => {
+      setIsLoading(true);
+      try {
+        const fetchedEntries = await getLeaderboard({
+          subjectType,
+          game,
+          period: getPeriodKey(timeWindow, new Date(), seasonId),
+          schoolId: schoolId || undefined,
+          sortBy: activeSort,
+        });
+        const ids = fetchedEntries.map((entry) => entry.subjectId);
+
+        if (subjectType === 'team') {
+          const teams = await getTeamsByIds(ids);
+          setEntrants(
+            Object.fromEntries(
+              Object.values(teams).map((team) => [team.id, { name: team.name, image: team.logo, href: `/teams/${team.id}` }])
+            )
+          );
+        } else {
+          const users = await getUsersByIds(ids);
+          setEntrants(
+            Object.fromEntries(
+              Object.values(users).map((u) => [u.id, { name: u.displayName, image: u.avatar, href: `/users/${u.id}` }])
+            )
+          );
+        }
+        setEntries(fetchedEntries);
+      } catch (error) {
+        console.error('Error fetching leaderboard:', error);
+        setEntries([]);
+      } finally {
+        setIsLoading(false);
+      }
+    };
+
+    fetchLeaderboard();
+  }, [subjectType, game, schoolId, timeWindow, seasonId, activeSort]);
+
+  return (
+    <div className="max-w-5xl mx-auto p-4 lg:p-6">
+      {/* Header */}
+      <div className="flex flex-col sm:flex-row sm:items-center sm:justify-between gap-4 mb-6">
+        <div>
+          <h1 className="text-2xl font-bold text-white flex items-center gap-2">
+            <TrophyIcon className="w-7 h-7 text-yellow-400" />
+            Leaderboards
+          </h1>
+          <p className="text-dark-400 mt-1">The top players and teams across Gamzic</p>
+        </div>
+        <Link
+          href="/leaderboards/ranked"
+          className="inline-flex items-center gap-1 text-sm text-cyan-400 hover:underline"
+        >
+          <ChartBarIcon className="w-4 h-4" />
+          Ranked ratings
+        </Link>
+      </div>
+
+      {/* Filters */}
+      <div className="flex flex-wrap gap-2 mb-4">
+        <div className="flex rounded-lg border border-dark-700 overflow-hidden">
+          {([
+            { value: 'user', label: 'Players', icon: UserIcon },
+            { value: 'team', label: 'Teams', icon: UserGroupIcon },
+          ] as const).map(({ value, label, icon: Icon }) => (
+            <button
+              key={value}
+              onClick={() => setSubjectType(value)}
+              className={`flex items-center gap-1 px-3 py-1.5 text-sm transition-colors ${
+                subjectType === value ? 'bg-cyan-500/20 text-cyan-400' : 'bg-dark-800 text-dark-300 hover:text-white'
+              }`}
+            >
+              <Icon className="w-4 h-4" />
+              {label}
+            </button>
+          ))}
+        </div>
+
+        <select value={game} onChange={(e) => setGame(e.target.value)} className={filterClassName}>
+          <option value={ALL_GAMES}>All Games</option>
+          {gameOptions.map((option) => (
+            <option key={option.value} value={option.value}>
+              {option.label}
+            </option>
+          ))}
+        </select>
+
+        <select value={schoolId} onChange={(e) => setSchoolId(e.target.value)} className={filterClassName}>
+          <option value="">All Schools</option>
+          {schools.map((school) => (
+            <option key={school.id} value={school.id}>
+              {school.name}
+            </option>
+          ))}
+        </select>
+
+        <select
+          value={timeWindow}
+          onChange={(e) => setTimeWindow(e.target.value as LeaderboardWindow)}
+          className={filterClassName}
+        >
+          {(Object.keys(windowLabels) as LeaderboardWindow[]).map((value) => (
+            <option key={value} value={value}>
+              {windowLabels[value]}
+            </option>
+          ))}
+        </select>
+
+        {timeWindow === 'season' && (
+          <select value={seasonId} onChange={(e) => setSeasonId(e.target.value)} className={filterClassName}>
+            {seasons.map((season) => (
+              <option key={season.id} value={season.id}>
+                {season.name}
+              </option>
+            ))}
+          </select>
+        )}
+
+        <select
+          value={activeSort}
+          onChange={(e) => setSortBy(e.target.value as LeaderboardSort)}
+          className={filterClassName}
+        >
+          {(Object.keys(sortLabels) as LeaderboardSort[]).map((value) => (
+            <option key={value} value={value} disabled={value === 'rating' && !canSortByRating}>
+              Sort by {sortLabels[value]}
+            </option>
+          ))}
+        </select>
+      </div>
+
+      <Card variant="default">
+        {isLoading ? (
+          <div className="flex justify-center py-8">
+            <LoadingSpinner />
+          </div>
+        ) : entries.length === 0 ? (
+          <div className="text-center py-8">
+            <TrophyIcon className="w-12 h-12 mx-auto mb-3 text-dark-500" />
+            <p className="text-dark-400">No results for these filters yet</p>
+            {activeSort === 'winRate' && (
+              <p className="text-sm text-dark-500 mt-1">
+                Win rate rankings need at least {MIN_MATCHES_FOR_WIN_RATE} matches.
+              </p>
+            )}
+          </div>
+        ) : (
+          <div className="overflow-x-auto">
+            <table className="w-full text-sm">
+              <thead>
+                <tr className="text-xs uppercase tracking-wide text-dark-400 border-b border-dark-700">
+                  <th className="py-2 pr-2 text-left w-12">#</th>
+                  <th className="py-2 pr-2 text-left">{subjectType === 'team' ? 'Team' : 'Player'}</th>
+                  <th className="py-2 px-2 text-center">Played</th>
+                  <th className="py-2 px-2 text-center">W</th>
+                  <th className="py-2 px-2 text-center">L</th>
+                  <th className="py-2 px-2 text-center">Win %</th>
+                  {canSortByRating && <th className="py-2 pl-2 text-right">Rating</th>}
+                </tr>
+              </thead>
+              <tbody>
+                {entries.map((entry, index) => {
+                  const entrant = entrants[entry.subjectId];
+                  return (
+                    <motion.tr
+                      key={entry.id}
+                      initial={{ opacity: 0 }}
+                      animate={{ opacity: 1 }}
+                      transition={{ delay: index * 0.02 }}
+                      className={`border-b border-dark-700/50 text-white ${
+                        entry.subjectId === user?.id ? 'bg-cyan-500/10' : ''
+                      }`}
+                    >
+                      <td className={`py-2 pr-2 font-semibold ${index < 3 ? 'text-cyber-yellow' : 'text-dark-400'}`}>
+                        {index + 1}
+                      </td>
+                      <td className="py-2 pr-2">
+                        <Link href={entrant?.href || '#'} className="flex items-center gap-2 hover:text-cyan-400">
+                          <Avatar src={entrant?.image} alt={entrant?.name || 'Unknown'} size="xs" />
+                          <span className="truncate max-w-[12rem]">{entrant?.name || 'Unknown'}</span>
+                        </Link>
+                      </td>
+                      <td className="py-2 px-2 text-center tabular-nums text-dark-300">{entry.matches}</td>
+                      <td
+                        className={`py-2 px-2 text-center tabular-nums ${activeSort === 'wins' ? 'font-bold' : ''}`}
+                      >
+                        {entry.wins}
+                      </td>
+                      <td className="py-2 px-2 text-center tabular-nums">{entry.losses}</td>
+                      <td
+                        className={`py-2 px-2 text-center tabular-nums ${activeSort === 'winRate' ? 'font-bold' : ''}`}
+                      >
+                        {entry.winRate !== undefined ? `${entry.winRate}%` : '–'}
+                      </td>
+                      {canSortByRating && (
+                        <td className="py-2 pl-2 text-right font-bold tabular-nums text-cyan-400">
+                          {entry.rating ?? '–'}
+                        </td>
+                      )}
+                    </motion.tr>
+                  );
+                })}
+              </tbody>
+            </table>
+          </div>
+        )}
+      </Card>
+    </div>
+  );
+}
@@ -0,0 +1,180 @@
+'use client';
+
+import { useState, useEffect } from 'react';
+import Link from 'next/link';
+import { motion } from 'framer-motion';
+import { ChartBarIcon, UserIcon, UserGroupIcon } from '@heroicons/react/24/outline';
+import { Card } from '@/components/ui/Card';
+import { Badge } from '@/components/ui/Badge';
+import { Avatar } from '@/components/ui/Avatar';
+import { LoadingSpinner } from '@/components/ui/LoadingSpinner';
+import { getRatingLeaderboard, getUsersByIds, getTeamsByIds } from '@/lib/firebase/db';
+import { isProvisional } from '@/lib/ratings';
+import { useAuthStore } from '@/store/authStore';
+import { useGames } from '@/hooks/useGames';
+import { type Rating, type RatingSubjectType } from '@/types';
+
+interface Entrant {
+  name: string;
+  image?: string | null;
+  href: string;
+}
+
+export default function RankedLeaderboardPage() {
+  const { gameOptions, getGameInfo } = useGames();
+  const { user } = useAuthStore();
+  const [game, setGame] = useState('');
+  const [subjectType, setSubjectType] = useState<RatingSubjectType>('user');
+  const [ratings, setRatings] = useState<Rating[]>([]);
+  const [entrants, setEntrants] = useState<Record<string, Entrant>>({});
+  const [isLoading, setIsLoading] = useState(true);
+
+  const selectedGame = game || gameOptions[0]?.value || '';
+
+  useEffect(() => {
+    if (!selectedGame) return;
+
+    const fetchLeaderboard = async () => {
+      setIsLoading(true);
+      try {
+        const fetchedRatings = await getRatingLeaderboard(selectedGame, subjectType);
+        const ids = fetchedRatings.map((rating) => rating.subjectId);
+
+        if (subjectType === 'team') {
+          const teams = await getTeamsByIds(ids);
+          setEntrants(
+            Object.fromEntries(
+              Object.values(teams).map((team) => [team.id, { name: team.name, image: team.logo, href: `/teams/${team.id}` }])
+            )
+          );
+        } else {
+          const users = await getUsersByIds(ids);
+          setEntrants(
+            Object.fromEntries(
+              Object.values(users).map((u) => [u.id, { name: u.displayName, image: u.avatar, href: `/users/${u.id}` }])
+            )
+          );
+        }
+        setRatings(fetchedRatings);
+      } catch (error) {
+        console.error('Error fetching leaderboard:', error);
+      } finally {
+        setIsLoading(false);
+      }
+    };
+
+    fetchLeaderboard();
+  }, [selectedGame, subjectType]);
+
+  const gameInfo = getGameInfo(selectedGame);
+
+  return (
+    <div className="max-w-4xl mx-auto p-4 lg:p-6">
+      {/* Header */}
+      <div className="flex flex-col sm:flex-row sm:items-center sm:justify-between gap-4 mb-6">
+        <div>
+          <h1 className="text-2xl font-bold text-white flex items-center gap-2">
+            <ChartBarIcon className="w-7 h-7 text-cyan-400" />
+            Ranked Leaderboard
+          </h1>
+          <p className="text-dark-400 mt-1">Ratings earned in ranked matches</p>
+        </div>
+
+        {/* Filters */}
+        <div className="flex flex-wrap gap-2">
+          <select
+            value={selectedGame}
+            onChange={(e) => setGame(e.target.value)}
+            className="bg-dark-800 border border-dark-700 rounded-lg px-3 py-1.5 text-sm text-white focus:outline-none focus:border-cyan-500"
+          >
+            {gameOptions.map((option) => (
+              <option key={option.value} value={option.value}>
+                {option.label}
+              </option>
+            ))}
+          </select>
+
+          <div className="flex rounded-lg border border-dark-700 overflow-hidden">
+            {([
+              { value: 'user', label: 'Players', icon: UserIcon },
+              { value: 'team', label: 'Teams', icon: UserGroupIcon },
+            ] as const).map(({ value, label, icon: Icon }) => (
+              <button
+                key={value}
+                onClick={() => setSubjectType(value)}
+                className={`flex items-center gap-1 px-3 py-1.5 text-sm transition-colors ${
+                  subjectType === value ? 'bg-cyan-500/20 text-cyan-400' : 'bg-dark-800 text-dark-300 hover:text-white'
+                }`}
+              >
+                <Icon className="w-4 h-4" />
+                {label}
+              </button>
+            ))}
+          </div>
+        </div>
+      </div>
+
+      <Card variant="default">
+        {isLoading ? (
+          <div className="flex justify-center py-8">
+            <LoadingSpinner />
+          </div>
+        ) : ratings.length === 0 ? (
+          <div className="text-center py-8">
+            <span className="text-4xl">{gameInfo.icon}</span>
+            <p className="text-dark-400 mt-3">No ranked {subjectType === 'team' ? 'teams' : 'players'} in {gameInfo.name} yet</p>
+            <p className="text-sm text-dark-500 mt-1">Play a ranked match to get on the board.</p>
+          </div>
+        ) : (
+          <div className="overflow-x-auto">
+            <table className="w-full text-sm">
+              <thead>
+                <tr className="text-xs uppercase tracking-wide text-dark-400 border-b border-dark-700">
+                  <th className="py-2 pr-2 text-left w-12">#</th>
+                  <th className="py-2 pr-2 text-left">{subjectType === 'team' ? 'Team' : 'Player'}</th>
+                  <th className="py-2 px-2 text-center">W</th>
+                  <th className="py-2 px-2 text-center">L</th>
+                  <th className="py-2 px-2 text-center">Peak</th>
+                  <th className="py-2 pl-2 text-right">Rating</th>
+                </tr>
+              </thead>
+              <tbody>
+                {ratings.map((rating, index) => {
+                  const entrant = entrants[rating.subjectId];
+                  return (
+                    <motion.tr
+                      key={rating.id}
+                      initial={{ opacity: 0 }}
+                      animate={{ opacity: 1 }}
+                      transition={{ delay: index * 0.02 }}
+                      className={`border-b border-dark-700/50 text-white ${
+                        rating.subjectId === user?.id ? 'bg-cyan-500/10' : ''
+                      }`}
+                    >
+                      <td className={`py-2 pr-2 font-semibold ${index < 3 ? 'text-cyber-yellow' : 'text-dark-400'}`}>
+                        {index + 1}
+                      </td>
+                      <td className="py-2 pr-2">
+                        <Link href={entrant?.href || '#'} className="flex items-center gap-2 hover:text-cyan-400">
+                          <Avatar src={entrant?.image} alt={entrant?.name || 'Unknown'} size="xs" />
+                          <span className="truncate max-w-[12rem]">{entrant?.name || 'Unknown'}</span>
+                          {isProvisional(rating.gamesPlayed) && (
+                            <Badge variant="default" size="sm">Provisional</Badge>
+                          )}
+                        </Link>
+                      </td>
+                      <td className="py-2 px-2 text-center tabular-nums">{rating.wins}</td>
+                      <td className="py-2 px-2 text-center tabular-nums">{rating.losses}</td>
+                      <td className="py-2 px-2 text-center tabular-nums text-dark-300">{rating.peakRating}</td>
+                      <td className="py-2 pl-2 text-right font-bold tabular-nums text-cyan-400">{rating.rating}</td>
+                    </motion.tr>
+                  );
+                })}
+              </tbody>
+            </table>
+          </div>
+        )}
+      </Card>
+    </div>
+  );
+}
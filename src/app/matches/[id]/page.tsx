@@ -18,6 +18,7 @@ import {
   VideoCameraIcon,
   DocumentTextIcon,
   GiftIcon,
+  EyeIcon,
 } from '@heroicons/react/24/outline';
 import { Card } from '@/components/ui/Card';
 import { Badge } from '@/components/ui/Badge';
@@ -25,10 +26,28 @@ import { Button } from '@/components/ui/Button';
 import { Avatar } from '@/components/ui/Avatar';
 import { PageLoader } from '@/components/ui/LoadingSpinner';
 import { useAuthStore } from '@/store/authStore';
-import { subscribeToMatch, getUsersByIds, joinMatch, leaveMatch, getSponsoredContentByPlacement } from '@/lib/firebase/db';
+import {
+  subscribeToMatch,
+  getUsersByIds,
+  joinMatch,
+  leaveMatch,
+  getMatchConflicts,
+  getSponsoredContentByPlacement,
+} from '@/lib/firebase/db';
 import { type Match, type User, type MatchStatus, type MatchType, type SponsoredContent as SponsoredContentType, type AdDisplaySize } from '@/types';
 import { useGames } from '@/hooks/useGames';
+import { useMatchPresence } from '@/hooks/useMatchPresence';
 import { SponsoredContent } from '@/components/feed/SponsoredContent';
+import { ResultReportCard } from '@/components/matches/ResultReportCard';
+import { SeriesBreakdown } from '@/components/matches/SeriesBreakdown';
+import { MapVetoCard } from '@/components/matches/MapVetoCard';
+import { LineupCard } from '@/components/matches/LineupCard';
+import { MatchChat } from '@/components/matches/MatchChat';
+import { isSeries } from '@/lib/series';
+import { describeRecurrence } from '@/lib/recurrence';
+import { describeConflicts } from '@/lib/conflicts';
+import { getMatchCalendarUrl } from '@/lib/calendar';
+import { getLiveViewerCount } from '@/lib/presence';
 import { Timestamp } from 'firebase/firestore';
 
 // Helper to convert Firestore Timestamp or Date to Date
@@ -69,7 +88,7 @@ export default function MatchDetailPage() {
   const params = useParams();
   const router = useRouter();
   const { user } = useAuthStore();
-  const { getGameInfo } = useGames();
+  const { getGameInfo, games } = useGames();
   const [match, setMatch] = useState<Match | null>(null);
   const [participantUsers, setParticipantUsers] = useState<Record<string, User>>({});
   const [isLoading, setIsLoading] = useState(true);
@@ -82,6 +101,9 @@ export default function MatchDetailPage() {
   const isFull = match ? participantCount >= match.maxParticipants : false;
   const isJoined = user && match?.participants?.some(p => p.oduserId === user.id);
   const canJoin = match?.status === 'open' && !isFull && !isJoined && user;
+  const viewerCount = match ? getLiveViewerCount(match) : 0;
+
+  useMatchPresence(match, user?.id);
 
   // Subscribe to real-time match updates
   useEffect(() => {
@@ -131,11 +153,15 @@ export default function MatchDetailPage() {
 
     setIsJoining(true);
     try {
-      await joinMatch(match.id, {
+      const participant = {
         oduserId: user.id,
         name: user.displayName,
         joinedAt: new Date(),
-      });
+      };
+      const conflicts = await getMatchConflicts(match, participant);
+      if (conflicts.length > 0 && !confirm(`${describeConflicts(conflicts)}. Join anyway?`)) return;
+
+      await joinMatch(match.id, participant, true);
       toast.success('Successfully joined the match!');
     } catch (error: unknown) {
       const errorMessage = error instanceof Error ? error.message : 'Failed to join match';
@@ -193,6 +219,12 @@ export default function MatchDetailPage() {
             <span className="relative inline-flex rounded-full h-3 w-3 bg-red-500"></span>
           </span>
           <span className="text-red-400 font-medium">This match is LIVE! Scores update in real-time.</span>
+          {viewerCount > 0 && (
+            <span className="ml-auto flex items-center gap-1.5 text-sm text-dark-300">
+              <EyeIcon className="w-4 h-4" />
+              {viewerCount} watching
+            </span>
+          )}
         </motion.div>
       )}
 
@@ -225,6 +257,9 @@ export default function MatchDetailPage() {
             <Badge variant="default">
               {matchTypeLabels[match.type]}
             </Badge>
+            {isSeries(match) && (
+              <Badge variant="info">Best of {match.bestOf}</Badge>
+            )}
             {match.prizeDescription && (
               <Badge variant="warning">
                 <GiftIcon className="w-3 h-3 mr-1" />
@@ -319,6 +354,25 @@ export default function MatchDetailPage() {
             </Card>
           )}
 
+          {/* Series breakdown */}
+          {isSeries(match) && match.status !== 'open' && match.status !== 'cancelled' && (
+            <Card variant="default">
+              <h2 className="text-lg font-semibold text-white mb-4">Series</h2>
+              <SeriesBreakdown
+                bestOf={match.bestOf || 1}
+                series={match.series || []}
+                participants={match.participants || []}
+                winnerId={match.winnerId}
+              />
+            </Card>
+          )}
+
+          {/* Map veto */}
+          <MapVetoCard match={match} mapPool={games.find((g) => g.id === match.game)?.mapPool || []} />
+
+          {/* Self-reported result */}
+          <ResultReportCard match={match} />
+
           {/* Description */}
           {match.description && (
             <Card variant="default">
@@ -436,6 +490,12 @@ export default function MatchDetailPage() {
               </div>
             )}
           </Card>
+
+          {/* Team lineups */}
+          {match.isTeamMatch && <LineupCard match={match} />}
+
+          {/* Lobby & spectator chat */}
+          <MatchChat match={match} />
         </div>
 
         {/* Sidebar */}
@@ -489,6 +549,12 @@ export default function MatchDetailPage() {
                     <p className="font-medium text-white">
                       {format(match.scheduledTime, 'MMM d, yyyy h:mm a')}
                     </p>
+                    {match.recurrence && (
+                      <p className="text-xs text-dark-400">🔁 {describeRecurrence(match.recurrence)}</p>
+                    )}
+                    <a href={getMatchCalendarUrl(match.id)} className="text-xs text-cyan-400 hover:underline">
+                      Add to calendar
+                    </a>
                   </div>
                 </div>
               )}
@@ -0,0 +1,24 @@
+'use client';
+
+import { Suspense, useEffect } from 'react';
+
+// Chrome-less pages for OBS browser sources: no navigation, and a
+// transparent page so only the overlay itself is composited
+export default function OverlayLayout({
+  children,
+}: {
+  children: React.ReactNode;
+}) {
+  useEffect(() => {
+    document.documentElement.dataset.overlay = 'true';
+    return () => {
+      delete document.documentElement.dataset.overlay;
+    };
+  }, []);
+
+  return (
+    <div className="fixed inset-0 overflow-hidden">
+      <Suspense>{children}</Suspense>
+    </div>
+  );
+}
@@ -0,0 +1,13 @@
+'use client';
+
+import { LowerThird } from '@/components/overlay/LowerThird';
+import { useOverlayMatch } from '@/hooks/useOverlayMatch';
+
+export default function OverlayLowerThirdPage() {
+  const { match, theme } = useOverlayMatch();
+
+  // Render nothing until there's a match, so the source stays transparent
+  if (!match) return null;
+
+  return <LowerThird match={match} theme={theme} />;
+}
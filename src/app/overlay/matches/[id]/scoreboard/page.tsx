@@ -0,0 +1,13 @@
+'use client';
+
+import { Scoreboard } from '@/components/overlay/Scoreboard';
+import { useOverlayMatch } from '@/hooks/useOverlayMatch';
+
+export default function OverlayScoreboardPage() {
+  const { match, theme } = useOverlayMatch();
+
+  // Render nothing until there's a match, so the source stays transparent
+  if (!match) return null;
+
+  return <Scoreboard match={match} theme={theme} />;
+}
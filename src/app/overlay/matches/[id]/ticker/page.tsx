@@ -0,0 +1,13 @@
+'use client';
+
+import { Ticker } from '@/components/overlay/Ticker';
+import { useOverlayMatch } from '@/hooks/useOverlayMatch';
+
+export default function OverlayTickerPage() {
+  const { match, theme } = useOverlayMatch();
+
+  // Render nothing until there's a match, so the source stays transparent
+  if (!match) return null;
+
+  return <Ticker match={match} theme={theme} />;
+}
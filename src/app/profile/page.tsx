@@ -17,6 +17,8 @@ import { Badge } from '@/components/ui/Badge';
 import { Avatar } from '@/components/ui/Avatar';
 import { Button } from '@/components/ui/Button';
 import { PageLoader } from '@/components/ui/LoadingSpinner';
+import { ChallengesCard } from '@/components/matches/ChallengesCard';
+import { ScheduleCard } from '@/components/matches/ScheduleCard';
 import { useAuthStore } from '@/store/authStore';
 import { signOut } from '@/lib/firebase/auth';
 import { getSchool, getTeam, getTournament, getGames } from '@/lib/firebase/db';
@@ -242,6 +244,12 @@ export default function ProfilePage() {
           )}
         </Card>
 
+        {/* Schedule */}
+        <ScheduleCard userId={user.id} />
+
+        {/* Challenges */}
+        <ChallengesCard userId={user.id} />
+
         {/* Tournaments */}
         <Card variant="default" className="md:col-span-2">
           <h2 className="text-lg font-semibold text-white mb-4 flex items-center gap-2">
@@ -9,6 +9,7 @@ import {
   UserGroupIcon,
   TrophyIcon,
   ArrowLeftIcon,
+  CalendarDaysIcon,
 } from '@heroicons/react/24/outline';
 import { Card } from '@/components/ui/Card';
 import { Badge } from '@/components/ui/Badge';
@@ -16,7 +17,8 @@ import { Avatar } from '@/components/ui/Avatar';
 import { Button } from '@/components/ui/Button';
 import { PageLoader } from '@/components/ui/LoadingSpinner';
 import { useAuthStore } from '@/store/authStore';
-import { getSchool, getUser, getTeams, joinSchool } from '@/lib/firebase/db';
+import { getCalendarFeedToken, getSchool, getUser, getTeams, joinSchool } from '@/lib/firebase/db';
+import { getCalendarFeedUrl } from '@/lib/calendar';
 import type { School, User, Team } from '@/types';
 import toast from 'react-hot-toast';
 
@@ -86,6 +88,19 @@ export default function SchoolDetailPage() {
     }
   };
 
+  // Members share this with parents and coaches, who paste it into their
+  // calendar app to follow the school
+  const handleCopyCalendarUrl = async () => {
+    try {
+      const token = await getCalendarFeedToken('school', schoolId);
+      await navigator.clipboard.writeText(`${window.location.origin}${getCalendarFeedUrl(token)}`);
+      toast.success('Calendar link copied. Add it to your calendar app as a subscription.');
+    } catch (error) {
+      toast.error('Failed to copy calendar link');
+      console.error(error);
+    }
+  };
+
   if (isLoading) {
     return <PageLoader />;
   }
@@ -165,7 +180,17 @@ export default function SchoolDetailPage() {
                 </Button>
               )}
               {isMember && (
-                <Badge variant="success">Member</Badge>
+                <>
+                  <Badge variant="success">Member</Badge>
+                  <Button
+                    variant="ghost"
+                    size="sm"
+                    onClick={handleCopyCalendarUrl}
+                    leftIcon={<CalendarDaysIcon className="w-4 h-4" />}
+                  >
+                    Subscribe to Calendar
+                  </Button>
+                </>
               )}
             </div>
           </div>
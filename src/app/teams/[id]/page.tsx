@@ -0,0 +1,202 @@
+'use client';
+
+import { useState, useEffect } from 'react';
+import { useParams, useRouter } from 'next/navigation';
+import Link from 'next/link';
+import Image from 'next/image';
+import { motion } from 'framer-motion';
+import {
+  UserGroupIcon,
+  ArrowLeftIcon,
+  AcademicCapIcon,
+  BoltIcon,
+} from '@heroicons/react/24/outline';
+import { Card } from '@/components/ui/Card';
+import { Badge } from '@/components/ui/Badge';
+import { Avatar } from '@/components/ui/Avatar';
+import { Button } from '@/components/ui/Button';
+import { PageLoader } from '@/components/ui/LoadingSpinner';
+import { ChallengeModal } from '@/components/matches/ChallengeModal';
+import { useAuthStore } from '@/store/authStore';
+import { useGames } from '@/hooks/useGames';
+import { getTeam, getSchool, getUsersByIds } from '@/lib/firebase/db';
+import type { Team, School, User } from '@/types';
+
+export default function TeamDetailPage() {
+  const params = useParams();
+  const router = useRouter();
+  const { user } = useAuthStore();
+  const { getGameInfo } = useGames();
+  const [team, setTeam] = useState<Team | null>(null);
+  const [school, setSchool] = useState<School | null>(null);
+  const [members, setMembers] = useState<User[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [challengeModalOpen, setChallengeModalOpen] = useState(false);
+
+  const teamId = params.id as string;
+  const isMember = !!user && !!team?.members.includes(user.id);
+
+  useEffect(() => {
+    const fetchTeamData = async () => {
+      try {
+        const fetchedTeam = await getTeam(teamId);
+        if (!fetchedTeam) {
+          router.push('/teams');
+          return;
+        }
+        setTeam(fetchedTeam);
+
+        const [fetchedSchool, fetchedMembers] = await Promise.all([
+          fetchedTeam.schoolId ? getSchool(fetchedTeam.schoolId) : Promise.resolve(null),
+          getUsersByIds(fetchedTeam.members),
+        ]);
+        setSchool(fetchedSchool);
+        setMembers(fetchedTeam.members.flatMap((id) => (fetchedMembers[id] ? [fetchedMembers[id]] : [])));
+      } catch (error) {
+        console.error('Error fetching team:', error);
+      } finally {
+        setIsLoading(false);
+      }
+    };
+
+    fetchTeamData();
+  }, [teamId, router]);
+
+  if (isLoading) {
+    return <PageLoader />;
+  }
+
+  if (!team) {
+    return null;
+  }
+
+  const game = getGameInfo(team.game);
+
+  return (
+    <div className="max-w-4xl mx-auto p-4 lg:p-6">
+      {/* Back Button */}
+      <button
+        onClick={() => router.back()}
+        className="flex items-center gap-2 text-dark-400 hover:text-white mb-6 transition-colors"
+      >
+        <ArrowLeftIcon className="w-5 h-5" />
+        <span>Back to Teams</span>
+      </button>
+
+      {/* Header */}
+      <motion.div
+        initial={{ opacity: 0, y: 20 }}
+        animate={{ opacity: 1, y: 0 }}
+      >
+        <Card variant="glass" className="mb-6">
+          <div className="flex flex-col sm:flex-row items-center gap-6">
+            {/* Logo */}
+            {team.logo ? (
+              <Image
+                src={team.logo}
+                alt={team.name}
+                width={96}
+                height={96}
+                className="w-24 h-24 rounded-2xl object-cover"
+              />
+            ) : (
+              <div className="w-24 h-24 rounded-2xl bg-gradient-to-br from-purple-500 to-pink-600 flex items-center justify-center">
+                <span className="text-4xl font-bold text-white">
+                  {team.name.charAt(0)}
+                </span>
+              </div>
+            )}
+
+            {/* Info */}
+            <div className="flex-1 text-center sm:text-left">
+              <div className="flex items-center justify-center sm:justify-start gap-2 mb-2 flex-wrap">
+                <h1 className="text-2xl font-bold text-white">{team.name}</h1>
+                <Badge variant="info" size="sm">
+                  {game.icon} {game.name}
+                </Badge>
+              </div>
+              {school && (
+                <Link href={`/schools/${school.id}`} className="inline-flex items-center gap-1 text-cyan-400 hover:underline mb-2">
+                  <AcademicCapIcon className="w-4 h-4" />
+                  {school.name}
+                </Link>
+              )}
+              {team.description && (
+                <p className="text-dark-300">{team.description}</p>
+              )}
+            </div>
+
+            {/* Stats & Action */}
+            <div className="flex flex-col items-center gap-4">
+              <div className="flex gap-6">
+                <div className="text-center">
+                  <p className="text-2xl font-bold text-green-400">{team.stats.wins}</p>
+                  <p className="text-sm text-dark-500">Wins</p>
+                </div>
+                <div className="text-center">
+                  <p className="text-2xl font-bold text-red-400">{team.stats.losses}</p>
+                  <p className="text-sm text-dark-500">Losses</p>
+                </div>
+                <div className="text-center">
+                  <p className="text-2xl font-bold text-cyber-yellow">{team.stats.tournamentWins}</p>
+                  <p className="text-sm text-dark-500">🏆</p>
+                </div>
+              </div>
+
+              {user && !isMember && (
+                <Button onClick={() => setChallengeModalOpen(true)} leftIcon={<BoltIcon className="w-4 h-4" />}>
+                  Challenge
+                </Button>
+              )}
+              {isMember && (
+                <Badge variant="success">Member</Badge>
+              )}
+            </div>
+          </div>
+        </Card>
+      </motion.div>
+
+      {/* Members */}
+      <Card variant="default">
+        <h2 className="text-lg font-semibold text-white mb-4 flex items-center gap-2">
+          <UserGroupIcon className="w-5 h-5 text-purple-400" />
+          Members
+        </h2>
+
+        {members.length === 0 ? (
+          <p className="text-dark-400 text-center py-4">No members yet</p>
+        ) : (
+          <div className="grid gap-3 sm:grid-cols-2">
+            {members.map((member) => (
+              <Link
+                key={member.id}
+                href={`/users/${member.id}`}
+                className="flex items-center gap-3 p-3 rounded-lg bg-dark-700/50 hover:bg-dark-700 transition-colors"
+              >
+                <Avatar src={member.avatar} alt={member.displayName} size="sm" />
+                <div className="flex-1 min-w-0">
+                  <p className="font-medium text-white truncate">{member.displayName}</p>
+                  <p className="text-sm text-dark-400">
+                    {member.stats.wins}W - {member.stats.losses}L
+                  </p>
+                </div>
+                {member.id === team.captainId && (
+                  <Badge variant="warning" size="sm">Captain</Badge>
+                )}
+              </Link>
+            ))}
+          </div>
+        )}
+      </Card>
+
+      {user && !isMember && (
+        <ChallengeModal
+          isOpen={challengeModalOpen}
+          onClose={() => setChallengeModalOpen(false)}
+          opponent={{ teamId: team.id, name: team.name }}
+          defaultGame={team.game}
+        />
+      )}
+    </div>
+  );
+}
@@ -14,17 +14,44 @@ import {
   DocumentTextIcon,
   ArrowLeftIcon,
   GiftIcon,
+  RectangleGroupIcon,
+  PlayIcon,
+  CheckCircleIcon,
 } from '@heroicons/react/24/outline';
 import { Card } from '@/components/ui/Card';
 import { Badge } from '@/components/ui/Badge';
 import { Button } from '@/components/ui/Button';
 import { Avatar } from '@/components/ui/Avatar';
+import { Select } from '@/components/ui/Select';
 import { PageLoader } from '@/components/ui/LoadingSpinner';
 import { useAuthStore } from '@/store/authStore';
-import { getTournament, getUsersByIds, registerForTournament, unregisterFromTournament, getSponsoredContentByPlacement } from '@/lib/firebase/db';
-import { type Tournament, type User, type TournamentStatus, type SponsoredContent as SponsoredContentType } from '@/types';
+import {
+  getTournament,
+  getBracket,
+  getUsersByIds,
+  getTeamsByIds,
+  registerForTournament,
+  unregisterFromTournament,
+  registerTeamForTournament,
+  unregisterTeamFromTournament,
+  checkInForTournament,
+  getTournamentConflicts,
+  getSponsoredContentByPlacement,
+} from '@/lib/firebase/db';
+import { type Tournament, type Bracket, type User, type Team, type TournamentStatus, type SponsoredContent as SponsoredContentType } from '@/types';
 import { useGames } from '@/hooks/useGames';
 import { SponsoredContent } from '@/components/feed/SponsoredContent';
+import { TournamentBracket } from '@/components/tournaments/TournamentBracket';
+import { TournamentMatches } from '@/components/tournaments/TournamentMatches';
+import { TOURNAMENT_FORMAT_LABELS } from '@/lib/brackets';
+import {
+  getCheckInWindow,
+  getRegistrationClosedReason,
+  isCheckInOpen,
+  isTournamentFull,
+} from '@/lib/registration';
+import { describeConflicts } from '@/lib/conflicts';
+import { getTournamentCalendarUrl } from '@/lib/calendar';
 
 const statusColors: Record<TournamentStatus, 'success' | 'warning' | 'info' | 'danger' | 'default'> = {
   draft: 'default',
@@ -42,19 +69,52 @@ const statusLabels: Record<TournamentStatus, string> = {
   cancelled: 'Cancelled',
 };
 
+// Entrant profiles: players for solo events, teams and their rosters for team events
+const fetchEntrants = async (tournament: Tournament) => {
+  if (tournament.participants.length === 0) {
+    return { users: {}, teams: {}, members: {} };
+  }
+  if (tournament.type === 'team') {
+    const teams = await getTeamsByIds(tournament.participants);
+    const memberIds = [...new Set(Object.values(teams).flatMap((team) => team.members))];
+    return { users: {}, teams, members: await getUsersByIds(memberIds) };
+  }
+  return { users: await getUsersByIds(tournament.participants), teams: {}, members: {} };
+};
+
 export default function TournamentDetailPage() {
   const params = useParams();
   const router = useRouter();
   const { user } = useAuthStore();
   const { getGameInfo } = useGames();
   const [tournament, setTournament] = useState<Tournament | null>(null);
+  const [bracket, setBracket] = useState<Bracket | null>(null);
   const [participantUsers, setParticipantUsers] = useState<Record<string, User>>({});
+  const [participantTeams, setParticipantTeams] = useState<Record<string, Team>>({});
+  const [teamMembers, setTeamMembers] = useState<Record<string, User>>({});
+  // Team events: teams the signed-in user captains for this game
+  const [captainTeams, setCaptainTeams] = useState<Team[]>([]);
+  const [selectedTeamId, setSelectedTeamId] = useState('');
   const [isLoading, setIsLoading] = useState(true);
   const [isRegistering, setIsRegistering] = useState(false);
   const [sponsoredAds, setSponsoredAds] = useState<SponsoredContentType[]>([]);
+  const [activeTab, setActiveTab] = useState<'overview' | 'matches'>('overview');
 
   const tournamentId = params.id as string;
-  const isRegistered = user && tournament?.participants.includes(user.id);
+  const isTeamTournament = tournament?.type === 'team';
+  const tournamentGame = tournament?.game;
+  // The captain's team (or the player) that's entered, whether in the field or on the waitlist
+  const registeredTeam = captainTeams.find(
+    (team) => tournament?.participants.includes(team.id) || tournament?.waitlist?.includes(team.id)
+  );
+  const entrantId = isTeamTournament ? registeredTeam?.id : user?.id;
+  const waitlistPosition = entrantId ? (tournament?.waitlist?.indexOf(entrantId) ?? -1) + 1 : 0;
+  const isWaitlisted = waitlistPosition > 0;
+  const isRegistered = !!entrantId && (isWaitlisted || !!tournament?.participants.includes(entrantId));
+  // The entrant to highlight in the bracket: the user, or their registered team
+  const highlightId = isTeamTournament
+    ? user?.teamsJoined?.find((teamId) => tournament?.participants.includes(teamId))
+    : user?.id;
   const game = tournament ? getGameInfo(tournament.game) : null;
 
   // Fetch ads for tournament pages
@@ -80,11 +140,15 @@ export default function TournamentDetailPage() {
         }
         setTournament(fetchedTournament);
 
-        // Fetch participants (for solo tournaments)
-        if (fetchedTournament.type === 'solo' && fetchedTournament.participants.length > 0) {
-          const users = await getUsersByIds(fetchedTournament.participants);
-          setParticipantUsers(users);
+        if (fetchedTournament.bracketId) {
+          const fetchedBracket = await getBracket(fetchedTournament.bracketId);
+          setBracket(fetchedBracket);
         }
+
+        const entrants = await fetchEntrants(fetchedTournament);
+        setParticipantUsers(entrants.users);
+        setParticipantTeams(entrants.teams);
+        setTeamMembers(entrants.members);
       } catch (error) {
         console.error('Error fetching tournament:', error);
       } finally {
@@ -95,19 +159,58 @@ export default function TournamentDetailPage() {
     fetchTournament();
   }, [tournamentId, router]);
 
+  useEffect(() => {
+    if (!user || !isTeamTournament) return;
+
+    const fetchCaptainTeams = async () => {
+      try {
+        const teams = await getTeamsByIds(user.teamsJoined || []);
+        const captained = Object.values(teams).filter(
+          (team) => team.captainId === user.id && team.game === tournamentGame
+        );
+        setCaptainTeams(captained);
+        setSelectedTeamId((prev) => prev || captained[0]?.id || '');
+      } catch (error) {
+        console.error('Error fetching teams:', error);
+      }
+    };
+    fetchCaptainTeams();
+  }, [user, isTeamTournament, tournamentGame]);
+
+  // Reload the field after a withdrawal, which may have promoted someone off the waitlist
+  const refreshEntrants = async () => {
+    const updatedTournament = await getTournament(tournamentId);
+    if (!updatedTournament) return;
+    setTournament(updatedTournament);
+    const entrants = await fetchEntrants(updatedTournament);
+    setParticipantUsers(entrants.users);
+    setParticipantTeams(entrants.teams);
+    setTeamMembers(entrants.members);
+  };
+
   const handleRegister = async () => {
     if (!user || !tournament) return;
 
     setIsRegistering(true);
     try {
-      await registerForTournament(tournament.id, user.id, user.id);
-      setTournament((prev) =>
-        prev ? { ...prev, participants: [...prev.participants, user.id] } : null
-      );
-      setParticipantUsers((prev) => ({ ...prev, [user.id]: user }));
-      toast.success('Successfully registered for tournament!');
+      const conflicts = await getTournamentConflicts(tournament, { oduserId: user.id });
+      if (conflicts.length > 0 && !confirm(`${describeConflicts(conflicts)}. Register anyway?`)) return;
+
+      const result = await registerForTournament(tournament.id, user.id, user.id, true);
+      if (result === 'waitlisted') {
+        setTournament((prev) =>
+          prev ? { ...prev, waitlist: [...(prev.waitlist || []), user.id] } : null
+        );
+        toast.success('The tournament is full — you\'re on the waitlist');
+      } else {
+        setTournament((prev) =>
+          prev ? { ...prev, participants: [...prev.participants, user.id] } : null
+        );
+        setParticipantUsers((prev) => ({ ...prev, [user.id]: user }));
+        toast.success('Successfully registered for tournament!');
+      }
     } catch (error) {
-      toast.error('Failed to register');
+      toast.error(error instanceof Error ? error.message : 'Failed to register');
       console.error(error);
     } finally {
       setIsRegistering(false);
@@ -120,17 +223,79 @@ export default function TournamentDetailPage() {
     setIsRegistering(true);
     try {
       await unregisterFromTournament(tournament.id, user.id, user.id);
+      await refreshEntrants();
+      toast.success(
+        isWaitlisted ? 'You left the waitlist' : 'Successfully unregistered from tournament'
+      );
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : 'Failed to unregister');
+      console.error(error);
+    } finally {
+      setIsRegistering(false);
+    }
+  };
+
+  const handleRegisterTeam = async () => {
+    if (!user || !tournament || !selectedTeamId) return;
+    const team = captainTeams.find((t) => t.id === selectedTeamId);
+    if (!team) return;
+
+    setIsRegistering(true);
+    try {
+      const conflicts = await getTournamentConflicts(tournament, { teamId: team.id });
+      if (conflicts.length > 0 && !confirm(`${describeConflicts(conflicts)}. Register ${team.name} anyway?`)) return;
+
+      const result = await registerTeamForTournament(tournament.id, team.id, user.id, true);
+      if (result === 'waitlisted') {
+        setTournament((prev) =>
+          prev ? { ...prev, waitlist: [...(prev.waitlist || []), team.id] } : null
+        );
+        toast.success(`The tournament is full — ${team.name} is on the waitlist`);
+      } else {
+        setTournament((prev) =>
+          prev ? { ...prev, participants: [...prev.participants, team.id] } : null
+        );
+        setParticipantTeams((prev) => ({ ...prev, [team.id]: team }));
+        const members = await getUsersByIds(team.members);
+        setTeamMembers((prev) => ({ ...prev, ...members }));
+        toast.success(`${team.name} is registered!`);
+      }
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : 'Failed to register team');
+      console.error(error);
+    } finally {
+      setIsRegistering(false);
+    }
+  };
+
+  const handleUnregisterTeam = async () => {
+    if (!user || !tournament || !registeredTeam) return;
+
+    setIsRegistering(true);
+    try {
+      await unregisterTeamFromTournament(tournament.id, registeredTeam.id, user.id);
+      await refreshEntrants();
+      toast.success(`${registeredTeam.name} withdrawn from tournament`);
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : 'Failed to withdraw team');
+      console.error(error);
+    } finally {
+      setIsRegistering(false);
+    }
+  };
+
+  const handleCheckIn = async () => {
+    if (!user || !tournament || !entrantId) return;
+
+    setIsRegistering(true);
+    try {
+      await checkInForTournament(tournament.id, entrantId, user.id);
       setTournament((prev) =>
-        prev ? { ...prev, participants: prev.participants.filter((id) => id !== user.id) } : null
+        prev ? { ...prev, checkedIn: [...(prev.checkedIn || []), entrantId] } : null
       );
-      setParticipantUsers((prev) => {
-        const newUsers = { ...prev };
-        delete newUsers[user.id];
-        return newUsers;
-      });
-      toast.success('Successfully unregistered from tournament');
+      toast.success('Checked in — good luck!');
     } catch (error) {
-      toast.error('Failed to unregister');
+      toast.error(error instanceof Error ? error.message : 'Failed to check in');
       console.error(error);
     } finally {
       setIsRegistering(false);
@@ -138,6 +303,15 @@ export default function TournamentDetailPage() {
   };
 
   const participants = Object.values(participantUsers);
+  const teams = Object.values(participantTeams);
+  const participantNames = isTeamTournament
+    ? Object.fromEntries(teams.map((team) => [team.id, team.name]))
+    : Object.fromEntries(participants.map((participant) => [participant.id, participant.displayName]));
+  const isFull = tournament ? isTournamentFull(tournament) : false;
+  const closedReason = tournament ? getRegistrationClosedReason(tournament) : null;
+  const checkInWindow = tournament ? getCheckInWindow(tournament) : null;
+  const isInField = !!entrantId && !!tournament?.participants.includes(entrantId);
+  const isCheckedIn = !!entrantId && !!tournament?.checkedIn?.includes(entrantId);
 
   if (isLoading) {
     return <PageLoader />;
@@ -187,65 +361,171 @@ export default function TournamentDetailPage() {
       <div className="grid gap-6 md:grid-cols-3">
         {/* Main Content */}
         <div className="md:col-span-2 space-y-6">
-          {/* Description */}
-          {tournament.description && (
-            <Card variant="default">
-              <h2 className="text-lg font-semibold text-white mb-3">About</h2>
-              <p className="text-dark-300 whitespace-pre-wrap">{tournament.description}</p>
-            </Card>
-          )}
+          {/* Tabs */}
+          <div className="flex gap-2">
+            {([
+              { value: 'overview', label: 'Overview', icon: TrophyIcon },
+              { value: 'matches', label: 'Tournament matches', icon: PlayIcon },
+            ] as const).map(({ value, label, icon: Icon }) => (
+              <button
+                key={value}
+                onClick={() => setActiveTab(value)}
+                className={`flex items-center gap-2 px-4 py-2 rounded-lg text-sm font-medium transition-colors ${
+                  activeTab === value
+                    ? 'bg-cyan-500/20 text-cyan-400 border border-cyan-500/30'
+                    : 'bg-dark-800 text-dark-400 hover:text-white'
+                }`}
+              >
+                <Icon className="w-4 h-4" />
+                {label}
+              </button>
+            ))}
+          </div>
 
-          {/* Rules */}
-          {tournament.rules && (
+          {activeTab === 'matches' ? (
             <Card variant="default">
-              <h2 className="text-lg font-semibold text-white mb-3 flex items-center gap-2">
-                <DocumentTextIcon className="w-5 h-5 text-cyan-400" />
-                Rules
+              <h2 className="text-lg font-semibold text-white mb-4 flex items-center gap-2">
+                <PlayIcon className="w-5 h-5 text-cyan-400" />
+                Tournament matches
               </h2>
-              <p className="text-dark-300 whitespace-pre-wrap">{tournament.rules}</p>
+              <TournamentMatches tournamentId={tournament.id} highlightId={highlightId} />
             </Card>
-          )}
+          ) : (
+            <>
+              {/* Description */}
+              {tournament.description && (
+                <Card variant="default">
+                  <h2 className="text-lg font-semibold text-white mb-3">About</h2>
+                  <p className="text-dark-300 whitespace-pre-wrap">{tournament.description}</p>
+                </Card>
+              )}
 
-          {/* Participants */}
-          <Card variant="default">
-            <h2 className="text-lg font-semibold text-white mb-4 flex items-center gap-2">
-              <UserGroupIcon className="w-5 h-5 text-cyan-400" />
-              Participants ({tournament.participants.length}
-              {tournament.maxParticipants && ` / ${tournament.maxParticipants}`})
-            </h2>
-
-            {participants.length === 0 ? (
-              <div className="text-center py-8">
-                <UserGroupIcon className="w-12 h-12 mx-auto mb-3 text-dark-500" />
-                <p className="text-dark-400">No participants yet</p>
-                <p className="text-sm text-dark-500 mt-1">Be the first to register!</p>
-              </div>
-            ) : (
-              <div className="grid grid-cols-1 sm:grid-cols-2 gap-3">
-                {participants.map((participant) => (
-                  <Link
-                    key={participant.id}
-                    href={`/users/${participant.id}`}
-                    className="flex items-center gap-3 p-3 rounded-lg bg-dark-700/50 hover:bg-dark-700 transition-colors"
-                  >
-                    <Avatar 
-                      src={participant.avatar} 
-                      alt={participant.displayName} 
-                      size="md"
-                    />
-                    <div className="flex-1 min-w-0">
-                      <p className="font-medium text-white truncate hover:text-cyan-400 transition-colors">
-                        {participant.displayName}
-                      </p>
-                      <p className="text-xs text-dark-400">
-                        {participant.stats?.wins || 0} wins • {participant.stats?.matches || 0} matches
-                      </p>
+              {/* Rules */}
+              {tournament.rules && (
+                <Card variant="default">
+                  <h2 className="text-lg font-semibold text-white mb-3 flex items-center gap-2">
+                    <DocumentTextIcon className="w-5 h-5 text-cyan-400" />
+                    Rules
+                  </h2>
+                  <p className="text-dark-300 whitespace-pre-wrap">{tournament.rules}</p>
+                </Card>
+              )}
+
+              {/* Bracket */}
+              {bracket && (bracket.rounds.length > 0 || (bracket.groups || []).length > 0) && (
+                <Card variant="default">
+                  <h2 className="text-lg font-semibold text-white mb-4 flex items-center gap-2">
+                    <RectangleGroupIcon className="w-5 h-5 text-cyan-400" />
+                    Bracket
+                  </h2>
+                  <TournamentBracket
+                    bracket={bracket}
+                    participants={tournament.participants}
+                    participantNames={participantNames}
+                    highlightId={highlightId}
+                    advancePerGroup={tournament.advancePerGroup}
+                  />
+                </Card>
+              )}
+
+              {/* Participants */}
+              <Card variant="default">
+                <h2 className="text-lg font-semibold text-white mb-4 flex items-center gap-2">
+                  <UserGroupIcon className="w-5 h-5 text-cyan-400" />
+                  Participants ({tournament.participants.length}
+                  {tournament.maxParticipants && ` / ${tournament.maxParticipants}`})
+                  {!!tournament.waitlist?.length && (
+                    <span className="text-sm font-normal text-dark-400">
+                      · {tournament.waitlist.length} waitlisted
+                    </span>
+                  )}
+                </h2>
+
+                {isTeamTournament ? (
+                  teams.length === 0 ? (
+                    <div className="text-center py-8">
+                      <UserGroupIcon className="w-12 h-12 mx-auto mb-3 text-dark-500" />
+                      <p className="text-dark-400">No teams registered yet</p>
+                      <p className="text-sm text-dark-500 mt-1">Team captains can register below.</p>
                     </div>
-                  </Link>
-                ))}
-              </div>
-            )}
-          </Card>
+                  ) : (
+                    <div className="space-y-3">
+                      {teams.map((team) => (
+                        <div key={team.id} className="p-3 rounded-lg bg-dark-700/50">
+                          <div className="flex items-center gap-3 mb-3">
+                            <Avatar src={team.logo} alt={team.name} size="md" />
+                            <div className="flex-1 min-w-0">
+                              <p className="font-medium text-white truncate flex items-center gap-1">
+                                {team.name}
+                                {checkInWindow && tournament.checkedIn?.includes(team.id) && (
+                                  <CheckCircleIcon className="w-4 h-4 text-green-400 shrink-0" title="Checked in" />
+                                )}
+                              </p>
+                              <p className="text-xs text-dark-400">
+                                {team.members.length} members • {team.stats?.wins || 0} wins
+                              </p>
+                            </div>
+                          </div>
+                          <div className="flex flex-wrap gap-2">
+                            {team.members.map((memberId) => {
+                              const member = teamMembers[memberId];
+                              if (!member) return null;
+                              return (
+                                <Link
+                                  key={memberId}
+                                  href={`/users/${memberId}`}
+                                  className="flex items-center gap-2 px-2 py-1 rounded-full bg-dark-800 hover:bg-dark-600 transition-colors"
+                                >
+                                  <Avatar src={member.avatar} alt={member.displayName} size="xs" />
+                                  <span className="text-xs text-dark-200">
+                                    {member.displayName}
+                                    {memberId === team.captainId && ' (C)'}
+                                  </span>
+                                </Link>
+                              );
+                            })}
+                          </div>
+                        </div>
+                      ))}
+                    </div>
+                  )
+                ) : participants.length === 0 ? (
+                  <div className="text-center py-8">
+                    <UserGroupIcon className="w-12 h-12 mx-auto mb-3 text-dark-500" />
+                    <p className="text-dark-400">No participants yet</p>
+                    <p className="text-sm text-dark-500 mt-1">Be the first to register!</p>
+                  </div>
+                ) : (
+                  <div className="grid grid-cols-1 sm:grid-cols-2 gap-3">
+                    {participants.map((participant) => (
+                      <Link
+                        key={participant.id}
+                        href={`/users/${participant.id}`}
+                        className="flex items-center gap-3 p-3 rounded-lg bg-dark-700/50 hover:bg-dark-700 transition-colors"
+                      >
+                        <Avatar 
+                          src={participant.avatar} 
+                          alt={participant.displayName} 
+                          size="md"
+                        />
+                        <div className="flex-1 min-w-0">
+                          <p className="font-medium text-white truncate hover:text-cyan-400 transition-colors flex items-center gap-1">
+                            {participant.displayName}
+                            {checkInWindow && tournament.checkedIn?.includes(participant.id) && (
+                              <CheckCircleIcon className="w-4 h-4 text-green-400 shrink-0" title="Checked in" />
+                            )}
+                          </p>
+                          <p className="text-xs text-dark-400">
+                            {participant.stats?.wins || 0} wins • {participant.stats?.matches || 0} matches
+                          </p>
+                        </div>
+                      </Link>
+                    ))}
+                  </div>
+                )}
+              </Card>
+            </>
+          )}
         </div>
 
         {/* Sidebar */}
@@ -269,7 +549,10 @@ export default function TournamentDetailPage() {
                 </div>
                 <div>
                   <p className="text-sm text-dark-400">Format</p>
-                  <p className="font-medium text-white">{tournament.type === 'solo' ? 'Solo' : 'Team'}</p>
+                  <p className="font-medium text-white">
+                    {TOURNAMENT_FORMAT_LABELS[tournament.format || 'single_elimination']} ·{' '}
+                    {tournament.type === 'solo' ? 'Solo' : 'Team'}
+                  </p>
                 </div>
               </div>
 
@@ -282,6 +565,9 @@ export default function TournamentDetailPage() {
                   <p className="font-medium text-white">
                     {format(tournament.dateStart, 'MMM d, yyyy h:mm a')}
                   </p>
+                  <a href={getTournamentCalendarUrl(tournament.id)} className="text-xs text-cyan-400 hover:underline">
+                    Add to calendar
+                  </a>
                 </div>
               </div>
 
@@ -297,6 +583,20 @@ export default function TournamentDetailPage() {
                 </div>
               </div>
 
+              {checkInWindow && (
+                <div className="flex items-center gap-3">
+                  <div className="w-10 h-10 rounded-lg bg-dark-700 flex items-center justify-center">
+                    <CheckCircleIcon className="w-5 h-5 text-green-400" />
+                  </div>
+                  <div>
+                    <p className="text-sm text-dark-400">Check-in</p>
+                    <p className="font-medium text-white">
+                      {format(checkInWindow.opensAt, 'h:mm a')} – {format(checkInWindow.closesAt, 'h:mm a')}
+                    </p>
+                  </div>
+                </div>
+              )}
+
               {tournament.prizeDescription && (
                 <div className="pt-4 border-t border-dark-700">
                   <p className="text-sm text-dark-400 mb-1">Prize</p>
@@ -305,8 +605,39 @@ export default function TournamentDetailPage() {
               )}
             </div>
 
+            {/* Check-in */}
+            {checkInWindow && isInField && (
+              <div className="mt-6">
+                {isCheckedIn ? (
+                  <div className="flex items-center justify-center gap-2 p-3 rounded-lg bg-green-500/10 border border-green-500/30 text-sm text-green-400">
+                    <CheckCircleIcon className="w-5 h-5" />
+                    {isTeamTournament ? `${registeredTeam?.name} is checked in` : 'You\'re checked in'}
+                  </div>
+                ) : isCheckInOpen(tournament) ? (
+                  <Button variant="neon" fullWidth onClick={handleCheckIn} isLoading={isRegistering}>
+                    Check In
+                  </Button>
+                ) : new Date() < checkInWindow.opensAt ? (
+                  <p className="text-sm text-center text-dark-400">
+                    Check-in opens {format(checkInWindow.opensAt, 'MMM d, h:mm a')}. You must check in
+                    before the start or you&apos;ll be dropped.
+                  </p>
+                ) : (
+                  <p className="text-sm text-center text-red-400">Check-in has closed</p>
+                )}
+              </div>
+            )}
+
+            {/* Waitlist status */}
+            {isWaitlisted && (
+              <div className="mt-6 p-3 rounded-lg bg-yellow-500/10 border border-yellow-500/30 text-sm text-yellow-400">
+                {isTeamTournament ? `${registeredTeam?.name} is` : 'You are'} #{waitlistPosition} on the
+                waitlist. We&apos;ll notify you if a spot opens up.
+              </div>
+            )}
+
             {/* Registration Button */}
-            {tournament.status === 'registration' && user && (
+            {tournament.status === 'registration' && user && !isTeamTournament && (
               <div className="mt-6">
                 {isRegistered ? (
                   <Button
@@ -315,28 +646,76 @@ export default function TournamentDetailPage() {
                     onClick={handleUnregister}
                     isLoading={isRegistering}
                   >
-                    Unregister
+                    {isWaitlisted ? 'Leave Waitlist' : 'Unregister'}
                   </Button>
                 ) : (
                   <Button
                     fullWidth
                     onClick={handleRegister}
                     isLoading={isRegistering}
-                    disabled={
-                      tournament.maxParticipants
-                        ? tournament.participants.length >= tournament.maxParticipants
-                        : false
-                    }
+                    disabled={!!closedReason}
                   >
-                    {tournament.maxParticipants &&
-                    tournament.participants.length >= tournament.maxParticipants
-                      ? 'Tournament Full'
-                      : 'Register Now'}
+                    {closedReason ? 'Registration Closed' : isFull ? 'Join Waitlist' : 'Register Now'}
                   </Button>
                 )}
               </div>
             )}
 
+            {/* Team registration (captains only) */}
+            {tournament.status === 'registration' && user && isTeamTournament && (
+              <div className="mt-6 space-y-3">
+                {registeredTeam ? (
+                  <Button
+                    variant="danger"
+                    fullWidth
+                    onClick={handleUnregisterTeam}
+                    isLoading={isRegistering}
+                  >
+                    {isWaitlisted ? 'Leave Waitlist' : `Withdraw ${registeredTeam.name}`}
+                  </Button>
+                ) : captainTeams.length === 0 ? (
+                  <p className="text-sm text-center text-dark-400">
+                    Only team captains can register.{' '}
+                    <Link href="/teams/create" className="text-cyan-400 hover:underline">
+                      Create a {game?.name || tournament.game} team
+                    </Link>
+                  </p>
+                ) : (
+                  <>
+                    {captainTeams.length > 1 && (
+                      <Select
+                        label="Team"
+                        options={captainTeams.map((team) => ({ value: team.id, label: team.name }))}
+                        value={selectedTeamId}
+                        onChange={(e) => setSelectedTeamId(e.target.value)}
+                      />
+                    )}
+                    <Button
+                      fullWidth
+                      onClick={handleRegisterTeam}
+                      isLoading={isRegistering}
+                      disabled={!!closedReason || !selectedTeamId}
+                    >
+                      {closedReason
+                        ? 'Registration Closed'
+                        : isFull
+                          ? 'Join Waitlist'
+                          : captainTeams.length === 1
+                          ? `Register ${captainTeams[0].name}`
+                          : 'Register Team'}
+                    </Button>
+                    {(tournament.minTeamSize || tournament.maxTeamSize) && (
+                      <p className="text-xs text-center text-dark-500">
+                        Rosters of {tournament.minTeamSize || 1}
+                        {tournament.maxTeamSize ? `–${tournament.maxTeamSize}` : '+'} players. Every
+                        member needs an in-game ID for {game?.name || tournament.game}.
+                      </p>
+                    )}
+                  </>
+                )}
+              </div>
+            )}
+
             {!user && tournament.status === 'registration' && (
               <p className="mt-4 text-sm text-center text-dark-400">
                 Sign in to register for this tournament
@@ -12,15 +12,19 @@ import {
   CalendarDaysIcon,
   PlayIcon,
   ArrowLeftIcon,
+  ChartBarIcon,
+  BoltIcon,
 } from '@heroicons/react/24/outline';
 import { Card } from '@/components/ui/Card';
 import { Badge } from '@/components/ui/Badge';
 import { Avatar } from '@/components/ui/Avatar';
 import { Button } from '@/components/ui/Button';
 import { PageLoader } from '@/components/ui/LoadingSpinner';
+import { ChallengeModal } from '@/components/matches/ChallengeModal';
 import { useAuthStore } from '@/store/authStore';
-import { getUser, getSchool, getTeam, getTournament, getMatches, getGames, getPostsByAuthor } from '@/lib/firebase/db';
-import { type User, type School, type Team, type Tournament, type Match, type Game, type Post, REACTION_EMOJIS, type ReactionType } from '@/types';
+import { getUser, getSchool, getTeam, getTournament, getMatches, getGames, getPostsByAuthor, getRatingsForSubject, getRatingHistory } from '@/lib/firebase/db';
+import { isProvisional } from '@/lib/ratings';
+import { type User, type School, type Team, type Tournament, type Match, type Game, type Post, type Rating, type RatingChange, REACTION_EMOJIS, type ReactionType } from '@/types';
 import { formatDistanceToNow } from 'date-fns';
 
 const ROLE_LABELS: Record<string, string> = {
@@ -64,7 +68,10 @@ export default function UserProfilePage() {
   const [recentMatches, setRecentMatches] = useState<Match[]>([]);
   const [posts, setPosts] = useState<Post[]>([]);
   const [games, setGames] = useState<Game[]>([]);
+  const [ratings, setRatings] = useState<Rating[]>([]);
+  const [ratingHistory, setRatingHistory] = useState<Record<string, RatingChange[]>>({});
   const [isLoading, setIsLoading] = useState(true);
+  const [challengeModalOpen, setChallengeModalOpen] = useState(false);
 
   const isOwnProfile = currentUser?.id === userId;
 
@@ -104,6 +111,12 @@ export default function UserProfilePage() {
           setTournaments(tournamentResults.filter((t): t is Tournament => t !== null));
         }
 
+        // Fetch ranked ratings, with the last few changes for each game
+        const fetchedRatings = await getRatingsForSubject('user', userId);
+        setRatings(fetchedRatings);
+        const histories = await Promise.all(fetchedRatings.map((rating) => getRatingHistory(rating.id, 5)));
+        setRatingHistory(Object.fromEntries(fetchedRatings.map((rating, i) => [rating.id, histories[i]])));
+
         // Fetch recent matches where user participated
         const { matches } = await getMatches(undefined, undefined, 50);
         const userMatches = matches.filter((m) => 
@@ -252,6 +265,17 @@ export default function UserProfilePage() {
                 </Link>
               </div>
             )}
+            {currentUser && !isOwnProfile && (
+              <div className="flex flex-col gap-2">
+                <Button
+                  size="sm"
+                  onClick={() => setChallengeModalOpen(true)}
+                  leftIcon={<BoltIcon className="w-4 h-4" />}
+                >
+                  Challenge
+                </Button>
+              </div>
+            )}
           </div>
 
           {/* Win Rate Bar */}
@@ -297,6 +321,68 @@ export default function UserProfilePage() {
           )}
         </Card>
 
+        {/* Ranked Ratings */}
+        <Card variant="default">
+          <div className="flex items-center justify-between mb-4">
+            <h2 className="text-lg font-semibold text-white flex items-center gap-2">
+              <ChartBarIcon className="w-5 h-5 text-cyan-400" />
+              Ratings
+            </h2>
+            <Link href="/leaderboards/ranked" className="text-sm text-cyan-400 hover:underline">
+              Leaderboard
+            </Link>
+          </div>
+
+          {ratings.length === 0 ? (
+            <p className="text-dark-400 text-center py-4">No ranked matches played</p>
+          ) : (
+            <div className="space-y-3">
+              {ratings.map((rating) => {
+                const game = getGameInfo(rating.game);
+                return (
+                  <div key={rating.id} className="p-3 rounded-lg bg-dark-700/50">
+                    <div className="flex items-center gap-3">
+                      <span className="text-xl">{game.icon}</span>
+                      <div className="flex-1 min-w-0">
+                        <p className="text-white truncate">{game.name}</p>
+                        <p className="text-xs text-dark-400">
+                          {rating.wins}W - {rating.losses}L · Peak {rating.peakRating}
+                        </p>
+                      </div>
+                      <div className="text-right">
+                        <p className="text-xl font-bold text-cyan-400 tabular-nums">{rating.rating}</p>
+                        {isProvisional(rating.gamesPlayed) && (
+                          <Badge variant="default" size="sm">Provisional</Badge>
+                        )}
+                      </div>
+                    </div>
+                    {(ratingHistory[rating.id] || []).length > 0 && (
+                      <div className="flex items-center gap-1 mt-2 flex-wrap">
+                        {ratingHistory[rating.id].map((change) => (
+                          <Link
+                            key={change.id}
+                            href={`/matches/${change.matchId}`}
+                            title={format(change.createdAt, 'MMM d, yyyy')}
+                            className={`px-1.5 py-0.5 rounded text-xs font-medium tabular-nums ${
+                              change.delta > 0
+                                ? 'bg-green-500/10 text-green-400'
+                                : change.delta < 0
+                                  ? 'bg-red-500/10 text-red-400'
+                                  : 'bg-dark-600 text-dark-300'
+                            }`}
+                          >
+                            {change.delta > 0 ? `+${change.delta}` : change.delta}
+                          </Link>
+                        ))}
+                      </div>
+                    )}
+                  </div>
+                );
+              })}
+            </div>
+          )}
+        </Card>
+
         {/* Teams */}
         <Card variant="default">
           <h2 className="text-lg font-semibold text-white mb-4 flex items-center gap-2">
@@ -490,6 +576,14 @@ export default function UserProfilePage() {
                   {/* Post Content */}
                   <div className="px-4 pb-4">
                     <p className="text-dark-200 whitespace-pre-wrap">{post.content}</p>
+                    {post.matchId && (
+                      <Link
+                        href={`/matches/${post.matchId}`}
+                        className="inline-block mt-3 text-sm font-medium text-cyan-400 hover:underline"
+                      >
+                        View full match →
+                      </Link>
+                    )}
                   </div>
 
                   {/* Post Image */}
@@ -559,6 +653,14 @@ export default function UserProfilePage() {
           </Card>
         )}
       </motion.div>
+
+      {currentUser && !isOwnProfile && (
+        <ChallengeModal
+          isOpen={challengeModalOpen}
+          onClose={() => setChallengeModalOpen(false)}
+          opponent={{ oduserId: user.id, name: user.displayName }}
+        />
+      )}
     </div>
   );
 }
@@ -2,11 +2,13 @@
 
 import Link from 'next/link';
 import { motion } from 'framer-motion';
-import { PlayIcon, SignalIcon, UserGroupIcon, ClockIcon, BoltIcon, FireIcon, TvIcon } from '@heroicons/react/24/solid';
+import { PlayIcon, SignalIcon, UserGroupIcon, ClockIcon, BoltIcon, FireIcon, TvIcon, EyeIcon } from '@heroicons/react/24/solid';
 import { Badge } from '@/components/ui/Badge';
 import { Card } from '@/components/ui/Card';
-import { type Match, type MatchEvent } from '@/types';
+import { type Match, type MatchEvent, type SeriesGame } from '@/types';
 import { formatDistanceToNow } from 'date-fns';
+import { isSeries } from '@/lib/series';
+import { getLiveViewerCount } from '@/lib/presence';
 
 interface LiveMatchCardProps {
   match: Match;
@@ -26,6 +28,25 @@ const EVENT_ICONS: Record<string, string> = {
   other: '📌',
 };
 
+// Per-game results of a series, e.g. "G1 Haven 13-9"
+function SeriesGames({ series, player1Id, player2Id }: { series: SeriesGame[]; player1Id: string; player2Id: string }) {
+  return (
+    <div className="flex flex-wrap justify-center gap-1.5 mt-2">
+      {series.map((game) => (
+        <span
+          key={game.number}
+          className={`px-2 py-0.5 rounded text-[10px] bg-dark-800 ${
+            game.winnerId === player1Id ? 'text-cyan-400' : game.winnerId === player2Id ? 'text-purple-400' : 'text-dark-400'
+          }`}
+        >
+          G{game.number}
+          {game.map && ` ${game.map}`} {game.scores[player1Id] ?? 0}-{game.scores[player2Id] ?? 0}
+        </span>
+      ))}
+    </div>
+  );
+}
+
 export function LiveMatchCard({ match, getGameInfo, variant = 'default' }: LiveMatchCardProps) {
   const game = getGameInfo(match.game);
   const isLive = match.status === 'in_progress';
@@ -48,6 +69,11 @@ export function LiveMatchCard({ match, getGameInfo, variant = 'default' }: LiveM
   const player1Events = events.filter(e => e.participantId === player1Id);
   const player2Events = events.filter(e => e.participantId === player2Id);
 
+  // Best-of-N: scores above are game wins
+  const seriesMatch = isSeries(match);
+  const series = match.series || [];
+  const viewerCount = getLiveViewerCount(match);
+
   if (variant === 'compact') {
     return (
       <Link href={`/matches/${match.id}`}>
@@ -66,7 +92,11 @@ export function LiveMatchCard({ match, getGameInfo, variant = 'default' }: LiveM
             <span className="text-2xl">{game.icon}</span>
             <div className="flex-1 min-w-0">
               <p className="font-semibold text-white text-sm truncate">{match.title}</p>
-              <p className="text-xs text-dark-400">{game.name}</p>
+              <p className="text-xs text-dark-400">
+                {game.name}
+                {seriesMatch && ` • Bo${match.bestOf}`}
+                {viewerCount > 0 && ` • ${viewerCount} watching`}
+              </p>
             </div>
             {isLive && participants.length >= 2 && (
               <div className="flex items-center gap-2 text-lg font-bold">
@@ -118,6 +148,17 @@ export function LiveMatchCard({ match, getGameInfo, variant = 'default' }: LiveM
                   <SignalIcon className="w-3 h-3" />
                   <span>LIVE NOW</span>
                 </span>
+                {viewerCount > 0 && (
+                  <span className="flex items-center gap-1 px-2 py-1 rounded-full bg-dark-700 text-dark-300 text-xs">
+                    <EyeIcon className="w-3 h-3" />
+                    {viewerCount}
+                  </span>
+                )}
+                {seriesMatch && (
+                  <span className="px-2 py-1 rounded-full bg-dark-700 text-dark-300 text-xs">
+                    Bo{match.bestOf}
+                  </span>
+                )}
                 {match.currentRound && (
                   <span className="px-2 py-1 rounded-full bg-dark-700 text-dark-300 text-xs">
                     Round {match.currentRound}
@@ -190,6 +231,11 @@ export function LiveMatchCard({ match, getGameInfo, variant = 'default' }: LiveM
                 </div>
               </div>
             )}
+            {seriesMatch && series.length > 0 && (
+              <div className="-mt-1 mb-3">
+                <SeriesGames series={series} player1Id={player1Id} player2Id={player2Id} />
+              </div>
+            )}
 
             {/* Recent Events Feed */}
             {recentEvents.length > 0 && (
@@ -208,7 +254,7 @@ export function LiveMatchCard({ match, getGameInfo, variant = 'default' }: LiveM
                       className="flex items-center gap-2 text-xs"
                     >
                       <span>{EVENT_ICONS[event.type] || '📌'}</span>
-                      <span className="text-cyan-400 font-medium">{event.participantName}</span>
+                      <span className="text-cyan-400 font-medium">{event.playerName || event.participantName}</span>
                       <span className="text-dark-400">{event.description || event.type}</span>
                     </motion.div>
                   ))}
@@ -256,6 +302,7 @@ export function LiveMatchCard({ match, getGameInfo, variant = 'default' }: LiveM
             <div className="flex items-center gap-2">
               <span className="text-xl">{game.icon}</span>
               <span className="text-sm text-dark-400">{game.name}</span>
+              {seriesMatch && <span className="text-xs text-dark-500">• Bo{match.bestOf}</span>}
               {match.currentMap && (
                 <span className="text-xs text-dark-500">• {match.currentMap}</span>
               )}
@@ -327,6 +374,10 @@ export function LiveMatchCard({ match, getGameInfo, variant = 'default' }: LiveM
             </div>
           )}
 
+          {seriesMatch && participants.length >= 2 && series.length > 0 && (
+            <SeriesGames series={series} player1Id={player1Id} player2Id={player2Id} />
+          )}
+
           {/* Latest event for live matches */}
           {isLive && recentEvents.length > 0 && (
             <motion.div
@@ -335,7 +386,7 @@ export function LiveMatchCard({ match, getGameInfo, variant = 'default' }: LiveM
               className="mt-3 flex items-center gap-2 text-xs text-dark-400 p-2 bg-dark-800/30 rounded"
             >
               <FireIcon className="w-3 h-3 text-orange-400" />
-              <span className="text-cyan-400">{recentEvents[0].participantName}</span>
+              <span className="text-cyan-400">{recentEvents[0].playerName || recentEvents[0].participantName}</span>
               <span>{recentEvents[0].description || recentEvents[0].type}</span>
             </motion.div>
           )}
@@ -348,6 +399,14 @@ export function LiveMatchCard({ match, getGameInfo, variant = 'default' }: LiveM
             </div>
           )}
 
+          {/* Viewer count */}
+          {viewerCount > 0 && (
+            <div className="flex items-center gap-2 mt-3 text-xs text-dark-400">
+              <EyeIcon className="w-3 h-3" />
+              <span>{viewerCount} watching</span>
+            </div>
+          )}
+
           {/* Stream link indicator */}
           {isLive && match.streamUrl && (
             <div className="flex items-center gap-2 mt-2 text-xs text-purple-400">
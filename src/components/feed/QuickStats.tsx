@@ -52,6 +52,9 @@ export function QuickStats({ variant, topPlayers = [], games = [], stats }: Quic
             <TrophyIcon className="w-4 h-4 text-yellow-400" />
             Top Players
           </h4>
+          <Link href="/leaderboards" className="text-xs text-cyan-400 hover:underline">
+            View all
+          </Link>
         </div>
         <div className="space-y-2">
           {topPlayers.slice(0, 5).map((user, index) => (
@@ -0,0 +1,140 @@
+'use client';
+
+import { Input } from '@/components/ui/Input';
+import { Select } from '@/components/ui/Select';
+import { EVENT_TYPES, SCORING_PRESETS } from '@/lib/scoring';
+import { type MatchEventType, type ScoringTemplate } from '@/types';
+
+interface ScoringTemplateEditorProps {
+  // Undefined means the game uses the default (free-form) scoring
+  value?: ScoringTemplate;
+  onChange: (template: ScoringTemplate | undefined) => void;
+}
+
+// Edits a game's scoring template: events and their points, periods and
+// the win condition
+export function ScoringTemplateEditor({ value, onChange }: ScoringTemplateEditorProps) {
+  const handlePreset = (presetId: string) => {
+    const preset = SCORING_PRESETS.find((p) => p.id === presetId);
+    if (presetId === '') onChange(undefined);
+    else if (preset) onChange(structuredClone(preset.template));
+    else if (value) onChange(value);
+  };
+
+  const toggleEvent = (type: MatchEventType, enabled: boolean) => {
+    if (!value) return;
+    const eventRules = enabled
+      ? [...value.eventRules, { type, points: 1 }]
+      : value.eventRules.filter((rule) => rule.type !== type);
+    onChange({ ...value, eventRules });
+  };
+
+  const setPoints = (type: MatchEventType, points: string) => {
+    if (!value) return;
+    onChange({
+      ...value,
+      eventRules: value.eventRules.map((rule) =>
+        rule.type === type ? { type, points: points === '' ? undefined : parseInt(points) || 0 } : rule
+      ),
+    });
+  };
+
+  return (
+    <div className="space-y-4">
+      <Select
+        label="Scoring"
+        options={[
+          { value: '', label: 'Default (any event, highest score wins)' },
+          ...SCORING_PRESETS.map((preset) => ({ value: preset.id, label: preset.name })),
+          ...(value ? [{ value: 'custom', label: 'Custom' }] : []),
+        ]}
+        value={value ? 'custom' : ''}
+        onChange={(e) => handlePreset(e.target.value)}
+      />
+
+      {value && (
+        <div className="p-4 bg-dark-700/50 rounded-lg space-y-4">
+          <div>
+            <p className="text-sm font-medium text-dark-200 mb-2">Events</p>
+            <div className="space-y-2">
+              {EVENT_TYPES.map((eventType) => {
+                const rule = value.eventRules.find((r) => r.type === eventType.value);
+                return (
+                  <div key={eventType.value} className="flex items-center gap-3">
+                    <input
+                      type="checkbox"
+                      id={`event-${eventType.value}`}
+                      checked={!!rule}
+                      onChange={(e) => toggleEvent(eventType.value, e.target.checked)}
+                      className="w-4 h-4 rounded border-dark-600 bg-dark-700 text-cyan-500 focus:ring-cyan-500"
+                    />
+                    <label htmlFor={`event-${eventType.value}`} className="flex-1 text-sm text-dark-200">
+                      {eventType.icon} {eventType.label}
+                    </label>
+                    {rule && (
+                      <div className="w-28">
+                        <Input
+                          type="number"
+                          placeholder="Scorer sets"
+                          value={rule.points?.toString() ?? ''}
+                          onChange={(e) => setPoints(eventType.value, e.target.value)}
+                        />
+                      </div>
+                    )}
+                  </div>
+                );
+              })}
+            </div>
+            <p className="text-xs text-dark-400 mt-2">Points per event. Leave blank to let the scorer enter a value.</p>
+          </div>
+
+          <div className="grid gap-4 md:grid-cols-2">
+            <Input
+              label="Period Name"
+              placeholder="e.g. Round, Half"
+              value={value.periodLabel || ''}
+              onChange={(e) => onChange({ ...value, periodLabel: e.target.value || undefined })}
+            />
+            <Input
+              label="Number of Periods"
+              type="number"
+              min="1"
+              placeholder="Open-ended"
+              value={value.periods?.toString() || ''}
+              onChange={(e) => onChange({ ...value, periods: parseInt(e.target.value) || undefined })}
+            />
+          </div>
+
+          <div className="grid gap-4 md:grid-cols-2">
+            <Select
+              label="Win Condition"
+              options={[
+                { value: 'first_to', label: 'First to a target score' },
+                { value: 'highest_score', label: 'Highest score at the end' },
+              ]}
+              value={value.winCondition.type}
+              onChange={(e) =>
+                onChange({
+                  ...value,
+                  winCondition:
+                    e.target.value === 'first_to' ? { type: 'first_to', target: 13 } : { type: 'highest_score' },
+                })
+              }
+            />
+            {value.winCondition.type === 'first_to' && (
+              <Input
+                label="Target Score"
+                type="number"
+                min="1"
+                value={value.winCondition.target.toString()}
+                onChange={(e) =>
+                  onChange({ ...value, winCondition: { type: 'first_to', target: parseInt(e.target.value) || 1 } })
+                }
+              />
+            )}
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
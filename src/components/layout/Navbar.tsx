@@ -17,8 +17,9 @@ export function Navbar() {
   const { toggleMobileMenu } = useUIStore();
 
   const isAuthPage = pathname?.startsWith('/auth');
+  const isOverlayPage = pathname?.startsWith('/overlay');
 
-  if (isAuthPage) return null;
+  if (isAuthPage || isOverlayPage) return null;
 
   return (
     <nav className="fixed top-0 left-0 right-0 z-40 h-16 bg-dark-900/80 backdrop-blur-lg border-b border-dark-800">
@@ -12,6 +12,8 @@ import {
   UserPlusIcon,
   CalendarIcon,
   AtSymbolIcon,
+  ClipboardDocumentCheckIcon,
+  BoltIcon,
 } from '@heroicons/react/24/outline';
 import { BellIcon as BellSolidIcon } from '@heroicons/react/24/solid';
 import { useAuthStore } from '@/store/authStore';
@@ -27,6 +29,8 @@ const notificationIcons: Record<NotificationType, React.ReactNode> = {
   mention: <AtSymbolIcon className="w-5 h-5 text-pink-400" />,
   tournament_registration: <TrophyIcon className="w-5 h-5 text-green-400" />,
   tournament_result: <TrophyIcon className="w-5 h-5 text-emerald-400" />,
+  match_result: <ClipboardDocumentCheckIcon className="w-5 h-5 text-green-400" />,
+  match_challenge: <BoltIcon className="w-5 h-5 text-red-400" />,
 };
 
 export function NotificationDropdown() {
@@ -14,6 +14,7 @@ import {
   XMarkIcon,
   ShieldCheckIcon,
   PlayIcon,
+  ChartBarIcon,
 } from '@heroicons/react/24/outline';
 import {
   HomeIcon as HomeIconSolid,
@@ -24,6 +25,7 @@ import {
   Cog6ToothIcon as Cog6ToothIconSolid,
   ShieldCheckIcon as ShieldCheckIconSolid,
   PlayIcon as PlayIconSolid,
+  ChartBarIcon as ChartBarIconSolid,
 } from '@heroicons/react/24/solid';
 import { useAuthStore } from '@/store/authStore';
 import { useUIStore } from '@/store/uiStore';
@@ -33,6 +35,7 @@ const navigation = [
   { name: 'Feed', href: '/feed', icon: HomeIcon, iconSolid: HomeIconSolid },
   { name: 'Matches', href: '/matches', icon: PlayIcon, iconSolid: PlayIconSolid },
   { name: 'Tournaments', href: '/tournaments', icon: TrophyIcon, iconSolid: TrophyIconSolid },
+  { name: 'Leaderboards', href: '/leaderboards', icon: ChartBarIcon, iconSolid: ChartBarIconSolid },
   { name: 'Schools', href: '/schools', icon: AcademicCapIcon, iconSolid: AcademicCapIconSolid },
   { name: 'Teams', href: '/teams', icon: UserGroupIcon, iconSolid: UserGroupIconSolid },
 ];
@@ -52,7 +55,8 @@ export function Sidebar() {
   const { mobileMenuOpen, setMobileMenuOpen } = useUIStore();
 
   const isAuthPage = pathname?.startsWith('/auth');
-  if (isAuthPage) return null;
+  const isOverlayPage = pathname?.startsWith('/overlay');
+  if (isAuthPage || isOverlayPage) return null;
 
   const NavContent = () => (
     <div className="flex flex-col h-full py-4">
@@ -0,0 +1,231 @@
+'use client';
+
+import { useState, useEffect } from 'react';
+import Link from 'next/link';
+import toast from 'react-hot-toast';
+import { Modal } from '@/components/ui/Modal';
+import { Input } from '@/components/ui/Input';
+import { Select } from '@/components/ui/Select';
+import { Textarea } from '@/components/ui/Textarea';
+import { Button } from '@/components/ui/Button';
+import { useAuthStore } from '@/store/authStore';
+import { useGames } from '@/hooks/useGames';
+import { createChallenge, getMatchConflicts, getTeamsByIds } from '@/lib/firebase/db';
+import { BEST_OF_OPTIONS, getWinsRequired } from '@/lib/series';
+import { RECURRING_MATCH_TYPES } from '@/lib/recurrence';
+import { describeConflicts } from '@/lib/conflicts';
+import { RecurrenceFields, toRecurrenceRule, type RecurrenceFormValue } from '@/components/matches/RecurrenceFields';
+import { type ChallengeSide, type MatchType, type Team } from '@/types';
+
+interface ChallengeModalProps {
+  isOpen: boolean;
+  onClose: () => void;
+  // The player or team being challenged
+  opponent: ChallengeSide;
+  defaultGame?: string;
+}
+
+// Propose a match to another player, or (as a captain) to another team
+export function ChallengeModal({ isOpen, onClose, opponent, defaultGame }: ChallengeModalProps) {
+  const { user } = useAuthStore();
+  const { gameOptions } = useGames();
+  const [captainedTeams, setCaptainedTeams] = useState<Team[]>([]);
+  const [isSubmitting, setIsSubmitting] = useState(false);
+
+  const [teamId, setTeamId] = useState('');
+  const [game, setGame] = useState(defaultGame || '');
+  const [matchType, setMatchType] = useState<MatchType>('friendly');
+  const [bestOf, setBestOf] = useState('1');
+  const [scheduledTime, setScheduledTime] = useState('');
+  const [rules, setRules] = useState('');
+  const [message, setMessage] = useState('');
+  const [repeats, setRepeats] = useState(false);
+  const [recurrence, setRecurrence] = useState<RecurrenceFormValue>({ daysOfWeek: [], until: '' });
+
+  const isTeamChallenge = !!opponent.teamId;
+  const teamIdsKey = isOpen && isTeamChallenge ? (user?.teamsJoined || []).join(',') : '';
+
+  // Teams challenge as one of the user's captained teams
+  useEffect(() => {
+    if (!teamIdsKey || !user) return;
+    getTeamsByIds(teamIdsKey.split(','))
+      .then((teams) => {
+        const captained = Object.values(teams).filter(
+          (team) => team.captainId === user.id && team.id !== opponent.teamId
+        );
+        setCaptainedTeams(captained);
+        setTeamId((current) => current || captained[0]?.id || '');
+      })
+      .catch((error) => console.error('Error fetching teams:', error));
+  }, [teamIdsKey, user, opponent.teamId]);
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!user) return;
+
+    const challengerTeam = captainedTeams.find((team) => team.id === teamId);
+    if (isTeamChallenge && !challengerTeam) {
+      toast.error('Choose the team you are challenging with');
+      return;
+    }
+    if (!game) {
+      toast.error('Please select a game');
+      return;
+    }
+    if (!scheduledTime) {
+      toast.error('Propose a time for the match');
+      return;
+    }
+    const isRecurring = repeats && RECURRING_MATCH_TYPES.includes(matchType);
+    if (isRecurring && !recurrence.until) {
+      toast.error('Pick the date the scrims repeat until');
+      return;
+    }
+
+    setIsSubmitting(true);
+    try {
+      const challenger: ChallengeSide = challengerTeam
+        ? { teamId: challengerTeam.id, name: challengerTeam.name }
+        : { oduserId: user.id, name: user.displayName };
+      const matchTime = {
+        game,
+        scheduledTime: new Date(scheduledTime),
+        bestOf: parseInt(bestOf) > 1 ? parseInt(bestOf) : undefined,
+      };
+      const conflicts = await getMatchConflicts(matchTime, challenger);
+      if (conflicts.length > 0 && !confirm(`${describeConflicts(conflicts)}. Send the challenge anyway?`)) return;
+
+      await createChallenge(
+        {
+          challenger,
+          opponent,
+          ...matchTime,
+          type: matchType,
+          rules: rules.trim() || undefined,
+          message: message.trim() || undefined,
+          recurrence: isRecurring ? toRecurrenceRule(recurrence) : undefined,
+          createdBy: user.id,
+        },
+        true
+      );
+      toast.success(`Challenge sent to ${opponent.name}!`);
+      onClose();
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : 'Failed to send challenge');
+      console.error(error);
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  return (
+    <Modal isOpen={isOpen} onClose={onClose} title={`Challenge ${opponent.name}`} size="lg">
+      {isTeamChallenge && captainedTeams.length === 0 ? (
+        <div className="p-6 text-center">
+          <p className="text-dark-300 mb-4">Only team captains can challenge other teams.</p>
+          <Link href="/teams/create">
+            <Button size="sm">Create a Team</Button>
+          </Link>
+        </div>
+      ) : (
+        <form onSubmit={handleSubmit} className="p-6 space-y-4">
+          {isTeamChallenge && (
+            <Select
+              label="Your Team"
+              options={captainedTeams.map((team) => ({ value: team.id, label: team.name }))}
+              value={teamId}
+              onChange={(e) => setTeamId(e.target.value)}
+            />
+          )}
+
+          <div className="grid gap-4 md:grid-cols-2">
+            <Select
+              label="Game"
+              options={gameOptions}
+              placeholder="Select a game"
+              value={game}
+              onChange={(e) => setGame(e.target.value)}
+            />
+            <Select
+              label="Match Type"
+              options={[
+                { value: 'friendly', label: '🤝 Friendly' },
+                { value: 'casual', label: '🎮 Casual' },
+                { value: 'scrimmage', label: '⚔️ Scrimmage' },
+                { value: 'ranked', label: '🏆 Ranked' },
+              ]}
+              value={matchType}
+              onChange={(e) => setMatchType(e.target.value as MatchType)}
+            />
+          </div>
+
+          <div className="grid gap-4 md:grid-cols-2">
+            <Input
+              label="Proposed Time"
+              type="datetime-local"
+              value={scheduledTime}
+              onChange={(e) => setScheduledTime(e.target.value)}
+            />
+            <Select
+              label="Series"
+              options={BEST_OF_OPTIONS.map((n) => ({
+                value: n.toString(),
+                label: n === 1 ? 'Single game' : `Best of ${n} (first to ${getWinsRequired(n)})`,
+              }))}
+              value={bestOf}
+              onChange={(e) => setBestOf(e.target.value)}
+            />
+          </div>
+
+          {RECURRING_MATCH_TYPES.includes(matchType) && (
+            <div className="space-y-4">
+              <div className="flex items-center gap-3">
+                <input
+                  type="checkbox"
+                  id="challengeRepeats"
+                  checked={repeats}
+                  onChange={(e) => {
+                    setRepeats(e.target.checked);
+                    // Start from the proposed match's weekday
+                    if (e.target.checked && scheduledTime && recurrence.daysOfWeek.length === 0) {
+                      setRecurrence((prev) => ({ ...prev, daysOfWeek: [new Date(scheduledTime).getDay()] }));
+                    }
+                  }}
+                  className="w-5 h-5 rounded border-dark-600 bg-dark-700 text-cyan-500 focus:ring-cyan-500"
+                />
+                <label htmlFor="challengeRepeats" className="text-dark-200">
+                  🔁 Repeat weekly
+                </label>
+              </div>
+              {repeats && <RecurrenceFields value={recurrence} onChange={setRecurrence} />}
+            </div>
+          )}
+
+          <Textarea
+            label="Rules (optional)"
+            placeholder="Maps, settings, anything both sides should agree on"
+            value={rules}
+            onChange={(e) => setRules(e.target.value)}
+            rows={3}
+          />
+          <Textarea
+            label="Message (optional)"
+            placeholder="Say something to your opponent"
+            value={message}
+            onChange={(e) => setMessage(e.target.value)}
+            rows={2}
+          />
+
+          <div className="flex justify-end gap-3">
+            <Button type="button" variant="ghost" onClick={onClose}>
+              Cancel
+            </Button>
+            <Button type="submit" isLoading={isSubmitting}>
+              Send Challenge
+            </Button>
+          </div>
+        </form>
+      )}
+    </Modal>
+  );
+}
@@ -0,0 +1,211 @@
+'use client';
+
+import { useState, useEffect, useCallback } from 'react';
+import Link from 'next/link';
+import { format } from 'date-fns';
+import toast from 'react-hot-toast';
+import { BoltIcon } from '@heroicons/react/24/outline';
+import { Card } from '@/components/ui/Card';
+import { Badge } from '@/components/ui/Badge';
+import { Button } from '@/components/ui/Button';
+import { useGames } from '@/hooks/useGames';
+import {
+  getChallengesForUser,
+  respondToChallenge,
+  cancelChallenge,
+  getMatchConflicts,
+  getRecurrenceConflicts,
+} from '@/lib/firebase/db';
+import { describeRecurrence } from '@/lib/recurrence';
+import { describeConflicts } from '@/lib/conflicts';
+import { type ChallengeStatus, type MatchChallenge } from '@/types';
+
+interface ChallengesCardProps {
+  userId: string;
+}
+
+const statusVariants: Record<ChallengeStatus, 'warning' | 'success' | 'danger' | 'default'> = {
+  pending: 'warning',
+  accepted: 'success',
+  declined: 'danger',
+  cancelled: 'default',
+};
+
+// How many sent challenges to show, newest first
+const RECENT_SENT_LIMIT = 5;
+
+// Challenges the user received (to accept or decline) and sent (to withdraw)
+export function ChallengesCard({ userId }: ChallengesCardProps) {
+  const { getGameInfo } = useGames();
+  const [incoming, setIncoming] = useState<MatchChallenge[]>([]);
+  const [outgoing, setOutgoing] = useState<MatchChallenge[]>([]);
+  const [actingOn, setActingOn] = useState<string | null>(null);
+
+  const fetchChallenges = useCallback(async () => {
+    try {
+      const challenges = await getChallengesForUser(userId);
+      setIncoming(challenges.incoming.filter((c) => c.status === 'pending'));
+      setOutgoing(challenges.outgoing.slice(0, RECENT_SENT_LIMIT));
+    } catch (error) {
+      console.error('Error fetching challenges:', error);
+    }
+  }, [userId]);
+
+  useEffect(() => {
+    fetchChallenges();
+  }, [fetchChallenges]);
+
+  const handleRespond = async (challenge: MatchChallenge, accept: boolean) => {
+    setActingOn(challenge.id);
+    try {
+      if (accept) {
+        const { game, scheduledTime, bestOf, recurrence } = challenge;
+        const sides = [challenge.challenger, challenge.opponent];
+        const conflicts = (
+          await Promise.all([
+            ...sides.map((side) => getMatchConflicts({ game, scheduledTime, bestOf }, side)),
+            recurrence ? getRecurrenceConflicts({ game, scheduledTime, bestOf }, recurrence, sides) : [],
+          ])
+        ).flat();
+        if (conflicts.length > 0 && !confirm(`${describeConflicts(conflicts)}. Accept anyway?`)) return;
+      }
+
+      await respondToChallenge(challenge.id, userId, accept, true);
+      toast.success(accept ? 'Challenge accepted! The match is scheduled.' : 'Challenge declined');
+      await fetchChallenges();
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : 'Failed to answer challenge');
+      console.error(error);
+    } finally {
+      setActingOn(null);
+    }
+  };
+
+  const handleCancel = async (challenge: MatchChallenge) => {
+    setActingOn(challenge.id);
+    try {
+      await cancelChallenge(challenge.id, userId);
+      toast.success('Challenge withdrawn');
+      await fetchChallenges();
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : 'Failed to withdraw challenge');
+      console.error(error);
+    } finally {
+      setActingOn(null);
+    }
+  };
+
+  const renderDetails = (challenge: MatchChallenge) => {
+    const game = getGameInfo(challenge.game);
+    return (
+      <p className="text-sm text-dark-400">
+        {game.icon} {game.name} • {challenge.type}
+        {challenge.bestOf && ` • Bo${challenge.bestOf}`} • {format(challenge.scheduledTime, 'MMM d, h:mm a')}
+        {challenge.recurrence && ` • ${describeRecurrence(challenge.recurrence)}`}
+      </p>
+    );
+  };
+
+  return (
+    <Card variant="default" className="md:col-span-2">
+      <h2 className="text-lg font-semibold text-white mb-4 flex items-center gap-2">
+        <BoltIcon className="w-5 h-5 text-red-400" />
+        Challenges
+      </h2>
+
+      {incoming.length === 0 && outgoing.length === 0 ? (
+        <p className="text-dark-400 text-center py-4">
+          No challenges yet. Challenge a player or team from their page.
+        </p>
+      ) : (
+        <div className="space-y-4">
+          {incoming.length > 0 && (
+            <div className="space-y-3">
+              <p className="text-xs font-semibold uppercase tracking-wide text-dark-400">Received</p>
+              {incoming.map((challenge) => (
+                <div key={challenge.id} className="p-3 rounded-lg bg-dark-700/50">
+                  <div className="flex flex-col sm:flex-row sm:items-center justify-between gap-3">
+                    <div className="min-w-0">
+                      <p className="font-medium text-white">
+                        {challenge.challenger.name}
+                        {challenge.opponent.teamId && (
+                          <span className="text-dark-400 font-normal"> vs {challenge.opponent.name}</span>
+                        )}
+                      </p>
+                      {renderDetails(challenge)}
+                    </div>
+                    <div className="flex gap-2 shrink-0">
+                      <Button
+                        size="sm"
+                        onClick={() => handleRespond(challenge, true)}
+                        isLoading={actingOn === challenge.id}
+                        disabled={!!actingOn}
+                      >
+                        Accept
+                      </Button>
+                      <Button
+                        size="sm"
+                        variant="ghost"
+                        onClick={() => handleRespond(challenge, false)}
+                        disabled={!!actingOn}
+                      >
+                        Decline
+                      </Button>
+                    </div>
+                  </div>
+                  {challenge.message && <p className="text-sm text-dark-300 mt-2">&ldquo;{challenge.message}&rdquo;</p>}
+                  {challenge.rules && (
+                    <p className="text-xs text-dark-400 mt-2 whitespace-pre-wrap">Rules: {challenge.rules}</p>
+                  )}
+                </div>
+              ))}
+            </div>
+          )}
+
+          {outgoing.length > 0 && (
+            <div className="space-y-3">
+              <p className="text-xs font-semibold uppercase tracking-wide text-dark-400">Sent</p>
+              {outgoing.map((challenge) => (
+                <div
+                  key={challenge.id}
+                  className="flex flex-col sm:flex-row sm:items-center justify-between gap-3 p-3 rounded-lg bg-dark-700/50"
+                >
+                  <div className="min-w-0">
+                    <p className="font-medium text-white">
+                      {challenge.challenger.teamId && (
+                        <span className="text-dark-400 font-normal">{challenge.challenger.name} vs </span>
+                      )}
+                      {challenge.opponent.name}
+                    </p>
+                    {renderDetails(challenge)}
+                  </div>
+                  <div className="flex items-center gap-2 shrink-0">
+                    <Badge variant={statusVariants[challenge.status]} size="sm">
+                      {challenge.status}
+                    </Badge>
+                    {challenge.status === 'pending' && (
+                      <Button
+                        size="sm"
+                        variant="ghost"
+                        onClick={() => handleCancel(challenge)}
+                        isLoading={actingOn === challenge.id}
+                        disabled={!!actingOn}
+                      >
+                        Withdraw
+                      </Button>
+                    )}
+                    {challenge.matchId && (
+                      <Link href={`/matches/${challenge.matchId}`} className="text-sm text-cyan-400 hover:underline">
+                        View Match
+                      </Link>
+                    )}
+                  </div>
+                </div>
+              ))}
+            </div>
+          )}
+        </div>
+      )}
+    </Card>
+  );
+}
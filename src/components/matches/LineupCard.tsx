@@ -0,0 +1,218 @@
+'use client';
+
+import { useState, useEffect } from 'react';
+import Link from 'next/link';
+import toast from 'react-hot-toast';
+import { ClipboardDocumentListIcon, LockClosedIcon, PencilIcon } from '@heroicons/react/24/outline';
+import { Card } from '@/components/ui/Card';
+import { Badge } from '@/components/ui/Badge';
+import { Button } from '@/components/ui/Button';
+import { useAuthStore } from '@/store/authStore';
+import { getTeamsByIds, getUsersByIds, setMatchLineup } from '@/lib/firebase/db';
+import { isLineupLocked } from '@/lib/lineups';
+import { type LineupPlayer, type Match, type Team, type User } from '@/types';
+
+interface LineupCardProps {
+  match: Match;
+}
+
+type LineupRole = 'starter' | 'substitute' | 'out';
+
+const ROLE_LABELS: Record<LineupRole, string> = {
+  starter: 'Starter',
+  substitute: 'Sub',
+  out: 'Out',
+};
+
+// Each team's starters and substitutes. Captains edit theirs until the
+// match starts; updates arrive through the page's match subscription.
+export function LineupCard({ match }: LineupCardProps) {
+  const { user } = useAuthStore();
+  const [teams, setTeams] = useState<Record<string, Team>>({});
+  const [members, setMembers] = useState<Record<string, User>>({});
+  const [editingTeamId, setEditingTeamId] = useState<string | null>(null);
+  const [roles, setRoles] = useState<Record<string, LineupRole>>({});
+  const [isSaving, setIsSaving] = useState(false);
+
+  const teamParticipants = (match.participants || []).filter((p) => !p.oduserId && p.teamId);
+  const teamIdsKey = teamParticipants.map((p) => p.teamId).join(',');
+  const isLocked = isLineupLocked(match);
+
+  useEffect(() => {
+    if (!teamIdsKey) return;
+    getTeamsByIds(teamIdsKey.split(','))
+      .then(setTeams)
+      .catch((error) => console.error('Error fetching teams:', error));
+  }, [teamIdsKey]);
+
+  // Member names are only needed for the captain's own team
+  const captainedTeam = Object.values(teams).find((team) => team.captainId === user?.id);
+  const captainedMembersKey = captainedTeam?.members.join(',') || '';
+  useEffect(() => {
+    if (!captainedMembersKey) return;
+    getUsersByIds(captainedMembersKey.split(','))
+      .then(setMembers)
+      .catch((error) => console.error('Error fetching team members:', error));
+  }, [captainedMembersKey]);
+
+  if (teamParticipants.length === 0) return null;
+
+  const startEditing = (team: Team) => {
+    const lineup = match.lineups?.[team.id];
+    setRoles(
+      Object.fromEntries(
+        team.members.map((memberId) => [
+          memberId,
+          lineup?.starters.some((p) => p.userId === memberId)
+            ? 'starter'
+            : lineup?.substitutes.some((p) => p.userId === memberId)
+              ? 'substitute'
+              : lineup
+                ? 'out'
+                : 'starter',
+        ])
+      )
+    );
+    setEditingTeamId(team.id);
+  };
+
+  const handleSave = async (team: Team) => {
+    if (!user) return;
+    const playersWithRole = (role: LineupRole): LineupPlayer[] =>
+      team.members
+        .filter((memberId) => roles[memberId] === role)
+        .map((memberId) => ({ userId: memberId, name: members[memberId]?.displayName || 'Unknown' }));
+
+    setIsSaving(true);
+    try {
+      await setMatchLineup(match.id, team.id, user.id, {
+        starters: playersWithRole('starter'),
+        substitutes: playersWithRole('substitute'),
+      });
+      toast.success('Lineup saved');
+      setEditingTeamId(null);
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : 'Failed to save lineup');
+      console.error(error);
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const renderPlayers = (players: LineupPlayer[]) =>
+    players.length === 0 ? (
+      <span className="text-sm text-dark-500">None</span>
+    ) : (
+      <div className="flex flex-wrap gap-1.5">
+        {players.map((player) => (
+          <Link
+            key={player.userId}
+            href={`/users/${player.userId}`}
+            className="px-2 py-1 rounded-md bg-dark-700/70 text-sm text-white hover:text-cyan-400 transition-colors"
+          >
+            {player.name}
+          </Link>
+        ))}
+      </div>
+    );
+
+  return (
+    <Card variant="default">
+      <div className="flex items-center justify-between mb-4">
+        <h2 className="text-lg font-semibold text-white flex items-center gap-2">
+          <ClipboardDocumentListIcon className="w-5 h-5 text-cyan-400" />
+          Lineups
+        </h2>
+        {isLocked && (
+          <Badge variant="default" size="sm">
+            <LockClosedIcon className="w-3 h-3 mr-1" />
+            Locked
+          </Badge>
+        )}
+      </div>
+
+      <div className="space-y-4">
+        {teamParticipants.map((participant) => {
+          const teamId = participant.teamId as string;
+          const team = teams[teamId];
+          const lineup = match.lineups?.[teamId];
+          const canEdit = !isLocked && !!team && team.captainId === user?.id;
+
+          return (
+            <div key={teamId} className="p-3 rounded-lg bg-dark-700/30">
+              <div className="flex items-center justify-between gap-2 mb-3">
+                <Link href={`/teams/${teamId}`} className="font-medium text-white hover:text-cyan-400 transition-colors">
+                  {participant.name}
+                </Link>
+                {canEdit && editingTeamId !== teamId && (
+                  <Button
+                    size="sm"
+                    variant="ghost"
+                    onClick={() => startEditing(team)}
+                    leftIcon={<PencilIcon className="w-4 h-4" />}
+                  >
+                    {lineup ? 'Edit Lineup' : 'Set Lineup'}
+                  </Button>
+                )}
+              </div>
+
+              {editingTeamId === teamId && team ? (
+                <div className="space-y-3">
+                  <div className="space-y-1.5">
+                    {team.members.map((memberId) => (
+                      <div key={memberId} className="flex items-center justify-between gap-3 px-3 py-2 rounded-lg bg-dark-700/50">
+                        <span className="text-sm text-white truncate">
+                          {members[memberId]?.displayName || 'Loading…'}
+                          {memberId === team.captainId && <span className="text-dark-400"> (C)</span>}
+                        </span>
+                        <div className="flex rounded-lg overflow-hidden border border-dark-600 shrink-0">
+                          {(Object.keys(ROLE_LABELS) as LineupRole[]).map((role) => (
+                            <button
+                              key={role}
+                              type="button"
+                              onClick={() => setRoles((prev) => ({ ...prev, [memberId]: role }))}
+                              className={`px-2.5 py-1 text-xs font-medium transition-colors ${
+                                roles[memberId] === role
+                                  ? 'bg-cyan-500/20 text-cyan-300'
+                                  : 'text-dark-400 hover:text-white'
+                              }`}
+                            >
+                              {ROLE_LABELS[role]}
+                            </button>
+                          ))}
+                        </div>
+                      </div>
+                    ))}
+                  </div>
+                  <div className="flex justify-end gap-2">
+                    <Button size="sm" variant="ghost" onClick={() => setEditingTeamId(null)}>
+                      Cancel
+                    </Button>
+                    <Button size="sm" onClick={() => handleSave(team)} isLoading={isSaving}>
+                      Save Lineup
+                    </Button>
+                  </div>
+                </div>
+              ) : lineup ? (
+                <div className="space-y-3">
+                  <div>
+                    <p className="text-xs font-semibold uppercase tracking-wide text-dark-400 mb-1.5">Starters</p>
+                    {renderPlayers(lineup.starters)}
+                  </div>
+                  <div>
+                    <p className="text-xs font-semibold uppercase tracking-wide text-dark-400 mb-1.5">Substitutes</p>
+                    {renderPlayers(lineup.substitutes)}
+                  </div>
+                </div>
+              ) : (
+                <p className="text-sm text-dark-500">
+                  {isLocked ? 'No lineup was submitted' : 'Lineup not set yet'}
+                </p>
+              )}
+            </div>
+          );
+        })}
+      </div>
+    </Card>
+  );
+}
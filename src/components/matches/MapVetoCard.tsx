@@ -0,0 +1,192 @@
+'use client';
+
+import { useState, useEffect } from 'react';
+import toast from 'react-hot-toast';
+import { MapIcon, NoSymbolIcon, CheckCircleIcon } from '@heroicons/react/24/outline';
+import { Card } from '@/components/ui/Card';
+import { Badge } from '@/components/ui/Badge';
+import { Button } from '@/components/ui/Button';
+import { useAuthStore } from '@/store/authStore';
+import { startMapVeto, submitVetoAction, getTeamsByIds } from '@/lib/firebase/db';
+import { getNextVetoStep, getRemainingMaps } from '@/lib/veto';
+import { type Match, type Team } from '@/types';
+
+interface MapVetoCardProps {
+  match: Match;
+  // The game's map pool; empty when the game has no veto
+  mapPool: string[];
+}
+
+// Captains alternately ban and pick maps; updates arrive through the
+// page's match subscription
+export function MapVetoCard({ match, mapPool }: MapVetoCardProps) {
+  const { user } = useAuthStore();
+  const [teams, setTeams] = useState<Record<string, Team>>({});
+  const [actingOn, setActingOn] = useState<string | null>(null);
+  const [isStarting, setIsStarting] = useState(false);
+
+  const veto = match.mapVeto;
+  const participants = match.participants || [];
+  const teamIdsKey = participants.flatMap((p) => (!p.oduserId && p.teamId ? [p.teamId] : [])).join(',');
+
+  // Team matches are vetoed by captains
+  useEffect(() => {
+    if (!teamIdsKey) return;
+    getTeamsByIds(teamIdsKey.split(','))
+      .then(setTeams)
+      .catch((error) => console.error('Error fetching teams:', error));
+  }, [teamIdsKey]);
+
+  const getParticipantId = (participant: Match['participants'][number]) =>
+    participant.oduserId || participant.teamId || '';
+  const getName = (participantId: string) =>
+    participants.find((p) => getParticipantId(p) === participantId)?.name || 'Unknown';
+
+  // The participant the signed-in user speaks for, if any
+  const myParticipantId = user
+    ? participants
+        .map(getParticipantId)
+        .find((id) => id === user.id || teams[id]?.captainId === user.id)
+    : undefined;
+
+  const canStart =
+    !veto &&
+    !!myParticipantId &&
+    mapPool.length >= (match.bestOf || 1) &&
+    participants.length === 2 &&
+    (match.status === 'open' || match.status === 'scheduled');
+  if (!veto && !canStart) return null;
+
+  const handleStart = async () => {
+    setIsStarting(true);
+    try {
+      await startMapVeto(match.id);
+      toast.success('Map veto started');
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : 'Failed to start map veto');
+      console.error(error);
+    } finally {
+      setIsStarting(false);
+    }
+  };
+
+  const handleAction = async (map: string) => {
+    if (!user) return;
+    setActingOn(map);
+    try {
+      await submitVetoAction(match.id, user.id, map);
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : 'Failed to submit veto');
+      console.error(error);
+    } finally {
+      setActingOn(null);
+    }
+  };
+
+  const nextStep = veto && getNextVetoStep(veto);
+  const remaining = veto ? getRemainingMaps(veto) : [];
+  const isMyTurn = !!nextStep && nextStep.participantId === myParticipantId;
+
+  return (
+    <Card variant="default">
+      <div className="flex items-center justify-between mb-4">
+        <h2 className="text-lg font-semibold text-white flex items-center gap-2">
+          <MapIcon className="w-5 h-5 text-cyan-400" />
+          Map Veto
+        </h2>
+        {veto && (
+          <Badge variant={veto.status === 'completed' ? 'success' : 'warning'} size="sm">
+            {veto.status === 'completed' ? 'Complete' : 'In progress'}
+          </Badge>
+        )}
+      </div>
+
+      {!veto ? (
+        <div className="text-center py-4">
+          <p className="text-dark-400 mb-4">
+            Ban and pick from {mapPool.length} maps, taking turns with your opponent.
+          </p>
+          <Button onClick={handleStart} isLoading={isStarting}>
+            Start Map Veto
+          </Button>
+        </div>
+      ) : (
+        <div className="space-y-4">
+          {/* Sequence so far */}
+          <div className="space-y-1.5">
+            {veto.steps.map((step, index) => (
+              <div
+                key={index}
+                className={`flex items-center justify-between gap-2 px-3 py-2 rounded-lg text-sm ${
+                  step === nextStep ? 'bg-cyan-500/10 ring-1 ring-inset ring-cyan-500/40' : 'bg-dark-700/50'
+                }`}
+              >
+                <span className="flex items-center gap-2 min-w-0">
+                  <Badge variant={step.action === 'ban' ? 'danger' : 'success'} size="sm">
+                    {step.action === 'ban' ? 'Ban' : 'Pick'}
+                  </Badge>
+                  <span className="text-dark-300 truncate">{getName(step.participantId)}</span>
+                </span>
+                <span className={step.map ? (step.action === 'ban' ? 'text-dark-500 line-through' : 'text-white font-medium') : 'text-dark-500 italic'}>
+                  {step.map || (step === nextStep ? 'Choosing…' : '—')}
+                </span>
+              </div>
+            ))}
+          </div>
+
+          {nextStep ? (
+            <div>
+              <p className="text-sm text-dark-300 mb-3">
+                {isMyTurn
+                  ? `Your turn: ${nextStep.action} a map`
+                  : `Waiting for ${getName(nextStep.participantId)} to ${nextStep.action} a map`}
+              </p>
+              <div className="grid grid-cols-2 sm:grid-cols-3 gap-2">
+                {remaining.map((map) => (
+                  <button
+                    key={map}
+                    onClick={() => handleAction(map)}
+                    disabled={!isMyTurn || !!actingOn}
+                    className={`flex items-center justify-center gap-1.5 px-3 py-2.5 rounded-lg text-sm font-medium transition-colors disabled:cursor-not-allowed ${
+                      isMyTurn
+                        ? nextStep.action === 'ban'
+                          ? 'bg-red-500/10 text-red-300 hover:bg-red-500/20'
+                          : 'bg-green-500/10 text-green-300 hover:bg-green-500/20'
+                        : 'bg-dark-700/50 text-dark-300'
+                    } ${actingOn === map ? 'opacity-60' : ''}`}
+                  >
+                    {isMyTurn &&
+                      (nextStep.action === 'ban' ? (
+                        <NoSymbolIcon className="w-4 h-4" />
+                      ) : (
+                        <CheckCircleIcon className="w-4 h-4" />
+                      ))}
+                    {map}
+                  </button>
+                ))}
+              </div>
+            </div>
+          ) : (
+            <div>
+              <p className="text-xs font-semibold uppercase tracking-wide text-dark-400 mb-2">Map Order</p>
+              <ol className="space-y-1.5">
+                {veto.mapOrder.map((map, index) => (
+                  <li key={map} className="flex items-center justify-between px-3 py-2 rounded-lg bg-dark-700/50 text-sm">
+                    <span className="text-white">
+                      Game {index + 1}: <span className="font-medium">{map}</span>
+                    </span>
+                    <span className="text-xs text-dark-400">
+                      {index === veto.mapOrder.length - 1 && !veto.steps.some((step) => step.map === map)
+                        ? 'Decider'
+                        : `${getName(veto.steps.find((step) => step.map === map)?.participantId || '')} pick`}
+                    </span>
+                  </li>
+                ))}
+              </ol>
+            </div>
+          )}
+        </div>
+      )}
+    </Card>
+  );
+}
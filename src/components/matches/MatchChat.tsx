@@ -0,0 +1,290 @@
+'use client';
+
+import { useState, useEffect, useRef } from 'react';
+import Link from 'next/link';
+import { format } from 'date-fns';
+import toast from 'react-hot-toast';
+import {
+  ChatBubbleLeftRightIcon,
+  PaperAirplaneIcon,
+  FlagIcon,
+  TrashIcon,
+  LockClosedIcon,
+  ClockIcon,
+} from '@heroicons/react/24/outline';
+import { Card } from '@/components/ui/Card';
+import { Avatar } from '@/components/ui/Avatar';
+import { Badge } from '@/components/ui/Badge';
+import { Button } from '@/components/ui/Button';
+import { useAuthStore } from '@/store/authStore';
+import {
+  subscribeToMatchMessages,
+  sendMatchMessage,
+  deleteMatchMessage,
+  reportMatchMessage,
+  setMatchChatSlowMode,
+  getUsersByIds,
+} from '@/lib/firebase/db';
+import {
+  MATCH_CHAT_CHANNELS,
+  MAX_MESSAGE_LENGTH,
+  SLOW_MODE_OPTIONS,
+  getSlowModeSeconds,
+  isMatchParticipant,
+} from '@/lib/matchChat';
+import { hasPermission, type Match, type MatchChatChannel, type MatchMessage, type User } from '@/types';
+
+interface MatchChatProps {
+  match: Match;
+}
+
+// Real-time chat for a match: a lobby for participants to share lobby codes
+// and server info, and a spectator channel anyone signed in can post in
+export function MatchChat({ match }: MatchChatProps) {
+  const { user } = useAuthStore();
+  const isModerator = !!user && hasPermission(user.role, 'moderator');
+  const isParticipant = !!user && isMatchParticipant(match, user);
+  const canReadLobby = isParticipant || isModerator;
+  const [channel, setChannel] = useState<MatchChatChannel>(isParticipant ? 'lobby' : 'spectators');
+  const [messages, setMessages] = useState<MatchMessage[]>([]);
+  const [authors, setAuthors] = useState<Record<string, User>>({});
+  const [newMessage, setNewMessage] = useState('');
+  const [isSending, setIsSending] = useState(false);
+  const [isCoolingDown, setIsCoolingDown] = useState(false);
+  const listRef = useRef<HTMLDivElement>(null);
+
+  const canRead = channel === 'spectators' || canReadLobby;
+  const slowModeSeconds = getSlowModeSeconds(match, channel);
+
+  useEffect(() => {
+    if (!canRead) return;
+    const unsubscribe = subscribeToMatchMessages(match.id, channel, setMessages);
+    return () => unsubscribe();
+  }, [match.id, channel, canRead]);
+
+  const authorIdsKey = [...new Set(messages.map((m) => m.userId))].sort().join(',');
+  useEffect(() => {
+    if (!authorIdsKey) return;
+    getUsersByIds(authorIdsKey.split(','))
+      .then(setAuthors)
+      .catch((error) => console.error('Error fetching chat authors:', error));
+  }, [authorIdsKey]);
+
+  // Keep the newest message in view
+  useEffect(() => {
+    if (listRef.current) listRef.current.scrollTop = listRef.current.scrollHeight;
+  }, [messages]);
+
+  const switchChannel = (next: MatchChatChannel) => {
+    if (next === channel) return;
+    setMessages([]);
+    setChannel(next);
+  };
+
+  const handleSend = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!user || !newMessage.trim()) return;
+
+    setIsSending(true);
+    try {
+      await sendMatchMessage(match.id, channel, user, newMessage);
+      setNewMessage('');
+      if (slowModeSeconds > 0 && !isModerator) {
+        setIsCoolingDown(true);
+        setTimeout(() => setIsCoolingDown(false), slowModeSeconds * 1000);
+      }
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : 'Failed to send message');
+      console.error(error);
+    } finally {
+      setIsSending(false);
+    }
+  };
+
+  const handleReport = async (messageId: string) => {
+    try {
+      await reportMatchMessage(match.id, messageId);
+      toast.success('Message reported');
+    } catch (error) {
+      toast.error('Failed to report message');
+      console.error(error);
+    }
+  };
+
+  const handleDelete = async (messageId: string) => {
+    try {
+      await deleteMatchMessage(match.id, messageId);
+      toast.success('Message deleted');
+    } catch (error) {
+      toast.error('Failed to delete message');
+      console.error(error);
+    }
+  };
+
+  const handleSlowModeChange = async (seconds: number) => {
+    try {
+      await setMatchChatSlowMode(match.id, channel, seconds);
+      toast.success(seconds > 0 ? `Slow mode set to ${seconds}s` : 'Slow mode off');
+    } catch (error) {
+      toast.error('Failed to update slow mode');
+      console.error(error);
+    }
+  };
+
+  const channelInfo = MATCH_CHAT_CHANNELS.find((c) => c.value === channel);
+
+  return (
+    <Card variant="default">
+      <div className="flex items-center justify-between gap-2 mb-4">
+        <h2 className="text-lg font-semibold text-white flex items-center gap-2">
+          <ChatBubbleLeftRightIcon className="w-5 h-5 text-cyan-400" />
+          Match Chat
+        </h2>
+        {slowModeSeconds > 0 && (
+          <Badge variant="warning" size="sm">
+            <ClockIcon className="w-3 h-3 mr-1" />
+            Slow mode {slowModeSeconds}s
+          </Badge>
+        )}
+      </div>
+
+      {/* Channels */}
+      <div className="flex rounded-lg overflow-hidden border border-dark-600 mb-2">
+        {MATCH_CHAT_CHANNELS.map((option) => (
+          <button
+            key={option.value}
+            type="button"
+            onClick={() => switchChannel(option.value)}
+            className={`flex-1 flex items-center justify-center gap-1.5 px-3 py-2 text-sm font-medium transition-colors ${
+              channel === option.value ? 'bg-cyan-500/20 text-cyan-300' : 'text-dark-400 hover:text-white'
+            }`}
+          >
+            {option.value === 'lobby' && !canReadLobby && <LockClosedIcon className="w-3.5 h-3.5" />}
+            {option.label}
+          </button>
+        ))}
+      </div>
+      <p className="text-xs text-dark-500 mb-3">{channelInfo?.description}</p>
+
+      {!canRead ? (
+        <div className="text-center py-8">
+          <LockClosedIcon className="w-8 h-8 mx-auto mb-2 text-dark-500" />
+          <p className="text-sm text-dark-400">The lobby is only open to participants</p>
+        </div>
+      ) : (
+        <>
+          {/* Messages */}
+          <div ref={listRef} className="h-80 overflow-y-auto space-y-3 pr-1 mb-4">
+            {messages.length === 0 ? (
+              <p className="text-sm text-dark-400 text-center py-8">No messages yet. Say hi!</p>
+            ) : (
+              messages.map((message) => {
+                const author = authors[message.userId];
+
+                return (
+                  <div key={message.id} className="flex items-start gap-3 group">
+                    {author ? (
+                      <Link href={`/users/${author.id}`} className="shrink-0">
+                        <Avatar src={author.avatar} alt={author.displayName} size="sm" className="cursor-pointer" />
+                      </Link>
+                    ) : (
+                      <Avatar src={undefined} alt="User" size="sm" />
+                    )}
+                    <div className="flex-1 min-w-0 bg-dark-700/50 rounded-lg px-3 py-2">
+                      <div className="flex items-center justify-between gap-2 mb-0.5">
+                        <div className="flex items-center gap-2 min-w-0">
+                          {author ? (
+                            <Link
+                              href={`/users/${author.id}`}
+                              className="text-sm font-medium text-white hover:text-cyan-400 transition-colors truncate"
+                            >
+                              {author.displayName}
+                            </Link>
+                          ) : (
+                            <span className="text-sm font-medium text-white">User</span>
+                          )}
+                          {isModerator && message.isReported && (
+                            <Badge variant="danger" size="sm">Reported</Badge>
+                          )}
+                        </div>
+                        <div className="flex items-center gap-1 shrink-0">
+                          <span className="text-xs text-dark-500">{format(message.createdAt, 'h:mm a')}</span>
+                          {user && user.id !== message.userId && !message.isReported && (
+                            <button
+                              onClick={() => handleReport(message.id)}
+                              className="opacity-0 group-hover:opacity-100 p-1 text-dark-500 hover:text-red-400 transition-all"
+                              title="Report message"
+                            >
+                              <FlagIcon className="w-3 h-3" />
+                            </button>
+                          )}
+                          {isModerator && (
+                            <button
+                              onClick={() => handleDelete(message.id)}
+                              className="opacity-0 group-hover:opacity-100 p-1 text-dark-500 hover:text-red-400 transition-all"
+                              title="Delete message"
+                            >
+                              <TrashIcon className="w-3 h-3" />
+                            </button>
+                          )}
+                        </div>
+                      </div>
+                      <p className="text-sm text-dark-200 whitespace-pre-wrap break-words">{message.content}</p>
+                    </div>
+                  </div>
+                );
+              })
+            )}
+          </div>
+
+          {/* Composer */}
+          {user ? (
+            <form onSubmit={handleSend} className="flex items-center gap-2">
+              <Avatar src={user.avatar} alt={user.displayName} size="sm" />
+              <input
+                type="text"
+                value={newMessage}
+                onChange={(e) => setNewMessage(e.target.value)}
+                maxLength={MAX_MESSAGE_LENGTH}
+                disabled={isCoolingDown}
+                placeholder={isCoolingDown ? 'Slow mode is on…' : `Message ${channelInfo?.label.toLowerCase()}...`}
+                className="flex-1 min-w-0 bg-dark-700 border border-dark-600 rounded-lg px-3 py-2 text-sm text-white placeholder-dark-400 focus:outline-none focus:border-cyan-500 disabled:opacity-50"
+              />
+              <Button
+                type="submit"
+                size="sm"
+                isLoading={isSending}
+                disabled={!newMessage.trim() || isCoolingDown}
+              >
+                <PaperAirplaneIcon className="w-4 h-4" />
+              </Button>
+            </form>
+          ) : (
+            <p className="text-sm text-dark-400 text-center py-2">Sign in to chat</p>
+          )}
+
+          {/* Moderation */}
+          {isModerator && (
+            <div className="flex items-center justify-end gap-2 mt-3 pt-3 border-t border-dark-700">
+              <label htmlFor="chatSlowMode" className="text-xs text-dark-400">
+                Slow mode
+              </label>
+              <select
+                id="chatSlowMode"
+                value={slowModeSeconds}
+                onChange={(e) => handleSlowModeChange(Number(e.target.value))}
+                className="px-2 py-1 rounded-lg bg-dark-800 border border-dark-600 text-xs text-white focus:outline-none focus:border-cyan-500"
+              >
+                {SLOW_MODE_OPTIONS.map((seconds) => (
+                  <option key={seconds} value={seconds}>
+                    {seconds > 0 ? `${seconds}s` : 'Off'}
+                  </option>
+                ))}
+              </select>
+            </div>
+          )}
+        </>
+      )}
+    </Card>
+  );
+}
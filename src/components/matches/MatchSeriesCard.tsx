@@ -0,0 +1,172 @@
+'use client';
+
+import { useState, useEffect, useCallback } from 'react';
+import Link from 'next/link';
+import { format } from 'date-fns';
+import toast from 'react-hot-toast';
+import { ArrowPathRoundedSquareIcon, XCircleIcon } from '@heroicons/react/24/outline';
+import { Card } from '@/components/ui/Card';
+import { Badge } from '@/components/ui/Badge';
+import { Button } from '@/components/ui/Button';
+import { RecurrenceFields, toRecurrenceRule, type RecurrenceFormValue } from '@/components/matches/RecurrenceFields';
+import {
+  createMatchRecurrence,
+  getMatchOccurrences,
+  getRecurrenceConflicts,
+  cancelUpcomingOccurrences,
+} from '@/lib/firebase/db';
+import { RECURRING_MATCH_TYPES, describeRecurrence, isUpcomingOccurrence } from '@/lib/recurrence';
+import { describeConflicts } from '@/lib/conflicts';
+import { type Match, type MatchStatus } from '@/types';
+
+interface MatchSeriesCardProps {
+  match: Match;
+  // Changes to the match being edited (joining or cancelling the series)
+  onUpdate: (changes: Partial<Match>) => void;
+}
+
+const statusVariants: Record<MatchStatus, 'success' | 'warning' | 'info' | 'danger' | 'default'> = {
+  open: 'success',
+  scheduled: 'info',
+  in_progress: 'warning',
+  completed: 'default',
+  cancelled: 'danger',
+};
+
+// Admin view of a recurring scrimmage: every occurrence, cancelling the
+// upcoming ones, or turning a one-off scrimmage into a weekly series
+export function MatchSeriesCard({ match, onUpdate }: MatchSeriesCardProps) {
+  const [occurrences, setOccurrences] = useState<Match[]>([]);
+  const [recurrence, setRecurrence] = useState<RecurrenceFormValue>({
+    daysOfWeek: match.scheduledTime ? [match.scheduledTime.getDay()] : [],
+    until: '',
+  });
+  const [isWorking, setIsWorking] = useState(false);
+
+  const fetchOccurrences = useCallback(async () => {
+    if (!match.recurrenceId) return;
+    try {
+      setOccurrences(await getMatchOccurrences(match.recurrenceId));
+    } catch (error) {
+      console.error('Error fetching series:', error);
+    }
+  }, [match.recurrenceId]);
+
+  useEffect(() => {
+    fetchOccurrences();
+  }, [fetchOccurrences]);
+
+  if (!match.recurrenceId && !RECURRING_MATCH_TYPES.includes(match.type)) return null;
+
+  const handleCreate = async () => {
+    if (!recurrence.until) {
+      toast.error('Pick the date the series repeats until');
+      return;
+    }
+    const rule = toRecurrenceRule(recurrence);
+    setIsWorking(true);
+    try {
+      const conflicts = await getRecurrenceConflicts(match, rule, match.participants);
+      if (conflicts.length > 0 && !confirm(`${describeConflicts(conflicts)}. Repeat anyway?`)) return;
+
+      const occurrenceIds = await createMatchRecurrence(match.id, rule, true);
+      toast.success(`Added ${occurrenceIds.length} more matches to the series`);
+      onUpdate({ recurrenceId: match.id, recurrence: rule });
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : 'Failed to create series');
+      console.error(error);
+    } finally {
+      setIsWorking(false);
+    }
+  };
+
+  const handleCancelSeries = async () => {
+    if (!match.recurrenceId) return;
+    if (!confirm('Cancel every match in this series that has not started yet?')) return;
+    setIsWorking(true);
+    try {
+      const cancelled = await cancelUpcomingOccurrences(match.recurrenceId);
+      toast.success(`Cancelled ${cancelled} upcoming ${cancelled === 1 ? 'match' : 'matches'}`);
+      if (isUpcomingOccurrence(match)) onUpdate({ status: 'cancelled' });
+      await fetchOccurrences();
+    } catch (error) {
+      toast.error('Failed to cancel series');
+      console.error(error);
+    } finally {
+      setIsWorking(false);
+    }
+  };
+
+  const upcomingCount = occurrences.filter(isUpcomingOccurrence).length;
+
+  return (
+    <Card variant="glass" padding="lg" className="mt-6">
+      <h2 className="text-lg font-semibold text-white mb-4 flex items-center gap-2">
+        <ArrowPathRoundedSquareIcon className="w-5 h-5 text-cyan-400" />
+        Recurring Series
+      </h2>
+
+      {match.recurrenceId && match.recurrence ? (
+        <div className="space-y-4">
+          <p className="text-dark-300">{describeRecurrence(match.recurrence)}</p>
+
+          <div className="space-y-2 max-h-72 overflow-y-auto">
+            {occurrences.map((occurrence) => (
+              <div
+                key={occurrence.id}
+                className={`flex items-center justify-between gap-3 px-3 py-2 rounded-lg ${
+                  occurrence.id === match.id ? 'bg-cyan-500/10 border border-cyan-500/30' : 'bg-dark-700/50'
+                }`}
+              >
+                <span className="text-sm text-white">
+                  {occurrence.scheduledTime ? format(occurrence.scheduledTime, 'EEE, MMM d · h:mm a') : 'No time set'}
+                  {occurrence.id === match.id && <span className="text-dark-400"> (this match)</span>}
+                </span>
+                <div className="flex items-center gap-3">
+                  <Badge variant={statusVariants[occurrence.status]} size="sm">
+                    {occurrence.status.replace('_', ' ')}
+                  </Badge>
+                  {occurrence.id !== match.id && (
+                    <Link
+                      href={`/admin/matches/${occurrence.id}/edit`}
+                      className="text-sm text-cyan-400 hover:underline"
+                    >
+                      Edit
+                    </Link>
+                  )}
+                </div>
+              </div>
+            ))}
+          </div>
+
+          {upcomingCount > 0 && (
+            <div className="flex justify-end">
+              <Button
+                variant="danger"
+                size="sm"
+                onClick={handleCancelSeries}
+                isLoading={isWorking}
+                leftIcon={<XCircleIcon className="w-4 h-4" />}
+              >
+                Cancel {upcomingCount} Upcoming
+              </Button>
+            </div>
+          )}
+        </div>
+      ) : (
+        <div className="space-y-4">
+          <p className="text-sm text-dark-400">
+            Repeat this scrimmage weekly. Every date gets its own match with the same participants, rules and
+            stream settings.
+          </p>
+          <RecurrenceFields value={recurrence} onChange={setRecurrence} />
+          <div className="flex justify-end">
+            <Button size="sm" onClick={handleCreate} isLoading={isWorking} disabled={!match.scheduledTime}>
+              Create Series
+            </Button>
+          </div>
+        </div>
+      )}
+    </Card>
+  );
+}
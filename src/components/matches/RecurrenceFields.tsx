@@ -0,0 +1,62 @@
+'use client';
+
+import { Input } from '@/components/ui/Input';
+import { WEEKDAYS } from '@/lib/recurrence';
+import type { RecurrenceRule } from '@/types';
+
+// Form state for a recurrence rule; until is the date input's yyyy-mm-dd
+export interface RecurrenceFormValue {
+  daysOfWeek: number[];
+  until: string;
+}
+
+export const toRecurrenceRule = (value: RecurrenceFormValue): RecurrenceRule => ({
+  daysOfWeek: value.daysOfWeek,
+  until: new Date(`${value.until}T00:00`),
+});
+
+interface RecurrenceFieldsProps {
+  value: RecurrenceFormValue;
+  onChange: (value: RecurrenceFormValue) => void;
+}
+
+// Weekdays to repeat on and the last date to repeat until
+export function RecurrenceFields({ value, onChange }: RecurrenceFieldsProps) {
+  const toggleDay = (day: number) =>
+    onChange({
+      ...value,
+      daysOfWeek: value.daysOfWeek.includes(day)
+        ? value.daysOfWeek.filter((d) => d !== day)
+        : [...value.daysOfWeek, day],
+    });
+
+  return (
+    <div className="grid gap-4 md:grid-cols-2">
+      <div>
+        <p className="block text-sm font-medium text-dark-200 mb-1.5">Repeat On</p>
+        <div className="flex rounded-lg overflow-hidden border border-dark-600">
+          {WEEKDAYS.map((day) => (
+            <button
+              key={day.value}
+              type="button"
+              onClick={() => toggleDay(day.value)}
+              className={`flex-1 px-1 py-2.5 text-xs font-medium transition-colors ${
+                value.daysOfWeek.includes(day.value)
+                  ? 'bg-cyan-500/20 text-cyan-300'
+                  : 'text-dark-400 hover:text-white'
+              }`}
+            >
+              {day.label}
+            </button>
+          ))}
+        </div>
+      </div>
+      <Input
+        label="Repeat Until"
+        type="date"
+        value={value.until}
+        onChange={(e) => onChange({ ...value, until: e.target.value })}
+      />
+    </div>
+  );
+}
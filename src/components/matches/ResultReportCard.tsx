@@ -0,0 +1,285 @@
+'use client';
+
+import { useState, useEffect } from 'react';
+import { formatDistanceToNow } from 'date-fns';
+import toast from 'react-hot-toast';
+import {
+  ClipboardDocumentCheckIcon,
+  ExclamationTriangleIcon,
+  PhotoIcon,
+  XMarkIcon,
+} from '@heroicons/react/24/outline';
+import { Card } from '@/components/ui/Card';
+import { Badge } from '@/components/ui/Badge';
+import { Button } from '@/components/ui/Button';
+import { Modal } from '@/components/ui/Modal';
+import { Textarea } from '@/components/ui/Textarea';
+import { useAuthStore } from '@/store/authStore';
+import { submitMatchResult, confirmMatchResult, disputeMatchResult, getTeamsByIds } from '@/lib/firebase/db';
+import { uploadMatchEvidence } from '@/lib/firebase/storage';
+import { MAX_DISPUTE_EVIDENCE, canSelfReport } from '@/lib/results';
+import { type Match, type Team } from '@/types';
+
+interface ResultReportCardProps {
+  match: Match;
+}
+
+// Lets participants report a casual match's result, and opponents confirm
+// or dispute it
+export function ResultReportCard({ match }: ResultReportCardProps) {
+  const { user } = useAuthStore();
+  const [teams, setTeams] = useState<Record<string, Team>>({});
+  const [scores, setScores] = useState<Record<string, string>>({});
+  const [isEditing, setIsEditing] = useState(false);
+  const [isSubmitting, setIsSubmitting] = useState(false);
+  const [disputeOpen, setDisputeOpen] = useState(false);
+  const [disputeReason, setDisputeReason] = useState('');
+  const [evidence, setEvidence] = useState<File[]>([]);
+
+  const report = match.resultReport;
+  const participants = match.participants || [];
+  const teamIdsKey = participants.flatMap((p) => (!p.oduserId && p.teamId ? [p.teamId] : [])).join(',');
+
+  // Team matches are reported by captains
+  useEffect(() => {
+    if (!teamIdsKey) return;
+    getTeamsByIds(teamIdsKey.split(','))
+      .then(setTeams)
+      .catch((error) => console.error('Error fetching teams:', error));
+  }, [teamIdsKey]);
+
+  const getParticipantId = (participant: Match['participants'][number]) =>
+    participant.oduserId || participant.teamId || '';
+  const getName = (participantId: string) =>
+    participants.find((p) => getParticipantId(p) === participantId)?.name || 'Unknown';
+
+  // The participant the signed-in user speaks for, if any
+  const myParticipantId = user
+    ? participants
+        .map(getParticipantId)
+        .find((id) => id === user.id || teams[id]?.captainId === user.id)
+    : undefined;
+
+  const isOpen = canSelfReport(match);
+  if (!report && !isOpen) return null;
+  if (report && (report.status === 'confirmed' || report.status === 'resolved')) return null;
+
+  const isReporter = !!myParticipantId && report?.reportedFor === myParticipantId;
+  const isOpponent = !!myParticipantId && !!report && report.reportedFor !== myParticipantId;
+  const showForm = isOpen && !!myParticipantId && (!report || (isReporter && isEditing && report.status === 'pending'));
+
+  const startEditing = () => {
+    setScores(Object.fromEntries(Object.entries(report?.scores || {}).map(([id, score]) => [id, String(score)])));
+    setIsEditing(true);
+  };
+
+  const handleSubmit = async () => {
+    if (!user) return;
+    setIsSubmitting(true);
+    try {
+      await submitMatchResult(
+        match.id,
+        user.id,
+        Object.fromEntries(participants.map((p) => [getParticipantId(p), Number(scores[getParticipantId(p)] ?? '')]))
+      );
+      toast.success('Result submitted. Waiting for your opponent to confirm.');
+      setIsEditing(false);
+    } catch (error) {
+      console.error('Error submitting result:', error);
+      toast.error(error instanceof Error ? error.message : 'Failed to submit result');
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  const handleConfirm = async () => {
+    if (!user) return;
+    setIsSubmitting(true);
+    try {
+      await confirmMatchResult(match.id, user.id);
+      toast.success('Result confirmed');
+    } catch (error) {
+      console.error('Error confirming result:', error);
+      toast.error(error instanceof Error ? error.message : 'Failed to confirm result');
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  const handleDispute = async () => {
+    if (!user) return;
+    setIsSubmitting(true);
+    try {
+      const evidenceUrls = await Promise.all(evidence.map((file) => uploadMatchEvidence(match.id, user.id, file)));
+      await disputeMatchResult(match.id, user.id, disputeReason, evidenceUrls);
+      toast.success('Dispute sent to the admins');
+      setDisputeOpen(false);
+      setDisputeReason('');
+      setEvidence([]);
+    } catch (error) {
+      console.error('Error disputing result:', error);
+      toast.error(error instanceof Error ? error.message : 'Failed to open dispute');
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  const handleEvidenceChange = (e: React.ChangeEvent<HTMLInputElement>) => {
+    const files = Array.from(e.target.files || []).filter((file) => file.type.startsWith('image/'));
+    setEvidence((prev) => [...prev, ...files].slice(0, MAX_DISPUTE_EVIDENCE));
+    e.target.value = '';
+  };
+
+  return (
+    <Card variant="default">
+      <div className="flex items-center justify-between gap-2 mb-4">
+        <h2 className="text-lg font-semibold text-white flex items-center gap-2">
+          <ClipboardDocumentCheckIcon className="w-5 h-5 text-green-400" />
+          Match Result
+        </h2>
+        {report?.status === 'pending' && <Badge variant="info">Awaiting confirmation</Badge>}
+        {report?.status === 'disputed' && <Badge variant="danger">Disputed</Badge>}
+      </div>
+
+      {showForm ? (
+        <div className="space-y-3">
+          <p className="text-sm text-dark-400">
+            Enter the final score. Your opponent will be asked to confirm it.
+          </p>
+          {participants.map((participant) => {
+            const participantId = getParticipantId(participant);
+            return (
+              <div key={participantId} className="flex items-center gap-3">
+                <span className="flex-1 truncate text-white">{participant.name}</span>
+                <input
+                  type="number"
+                  min={0}
+                  value={scores[participantId] ?? ''}
+                  onChange={(e) => setScores((prev) => ({ ...prev, [participantId]: e.target.value }))}
+                  className="w-24 px-3 py-2 rounded-lg bg-dark-800 border border-dark-600 text-white text-center focus:outline-none focus:border-cyan-500"
+                />
+              </div>
+            );
+          })}
+          <div className="flex gap-2 pt-1">
+            <Button onClick={handleSubmit} isLoading={isSubmitting}>
+              Submit Result
+            </Button>
+            {isEditing && (
+              <Button variant="ghost" onClick={() => setIsEditing(false)}>
+                Cancel
+              </Button>
+            )}
+          </div>
+        </div>
+      ) : report ? (
+        <div className="space-y-4">
+          <div className="space-y-2">
+            {Object.entries(report.scores)
+              .sort(([, a], [, b]) => b - a)
+              .map(([participantId, score]) => (
+                <div
+                  key={participantId}
+                  className={`flex items-center justify-between p-3 rounded-lg ${
+                    report.winnerId === participantId ? 'bg-yellow-500/10 text-yellow-400' : 'bg-dark-700/50 text-white'
+                  }`}
+                >
+                  <span className="truncate">
+                    {getName(participantId)}
+                    {report.winnerId === participantId && ' 🏆'}
+                  </span>
+                  <span className="font-bold tabular-nums">{score}</span>
+                </div>
+              ))}
+          </div>
+          <p className="text-xs text-dark-500">
+            Reported by {getName(report.reportedFor)} {formatDistanceToNow(report.reportedAt, { addSuffix: true })}
+            {!report.winnerId && ' · Draw'}
+          </p>
+
+          {report.status === 'disputed' && report.dispute && (
+            <div className="p-3 rounded-lg bg-red-500/10 border border-red-500/30">
+              <p className="text-sm text-red-400 font-medium flex items-center gap-1">
+                <ExclamationTriangleIcon className="w-4 h-4" />
+                Disputed by {getName(report.dispute.openedFor)}
+              </p>
+              <p className="text-sm text-dark-300 mt-1 whitespace-pre-wrap">{report.dispute.reason}</p>
+              <p className="text-xs text-dark-500 mt-2">An admin will review the result.</p>
+            </div>
+          )}
+
+          {report.status === 'pending' && isOpponent && (
+            <div className="flex flex-wrap gap-2">
+              <Button onClick={handleConfirm} isLoading={isSubmitting}>
+                Confirm Result
+              </Button>
+              <Button variant="danger" onClick={() => setDisputeOpen(true)} disabled={isSubmitting}>
+                Dispute
+              </Button>
+            </div>
+          )}
+          {report.status === 'pending' && isReporter && (
+            <div className="flex items-center justify-between gap-2">
+              <p className="text-sm text-dark-400">Waiting for your opponent to confirm.</p>
+              <Button variant="ghost" size="sm" onClick={startEditing}>
+                Edit
+              </Button>
+            </div>
+          )}
+        </div>
+      ) : (
+        <p className="text-sm text-dark-400">
+          Once the match is played, a participant can report the result here.
+        </p>
+      )}
+
+      <Modal isOpen={disputeOpen} onClose={() => setDisputeOpen(false)} title="Dispute Result">
+        <div className="space-y-4">
+          <Textarea
+            label="What's wrong with this result?"
+            value={disputeReason}
+            onChange={(e) => setDisputeReason(e.target.value)}
+            rows={4}
+            placeholder="e.g. We won the second map 13-9, not 9-13"
+          />
+          <div>
+            <p className="block text-sm font-medium text-dark-200 mb-1.5">
+              Screenshots ({evidence.length}/{MAX_DISPUTE_EVIDENCE})
+            </p>
+            <div className="flex flex-wrap gap-2">
+              {evidence.map((file, index) => (
+                <div
+                  key={`${file.name}-${index}`}
+                  className="flex items-center gap-1 px-2 py-1 rounded bg-dark-700 text-xs text-dark-200"
+                >
+                  <span className="truncate max-w-[10rem]">{file.name}</span>
+                  <button
+                    onClick={() => setEvidence((prev) => prev.filter((_, i) => i !== index))}
+                    className="text-dark-400 hover:text-white"
+                  >
+                    <XMarkIcon className="w-3 h-3" />
+                  </button>
+                </div>
+              ))}
+              {evidence.length < MAX_DISPUTE_EVIDENCE && (
+                <label className="flex items-center gap-1 px-2 py-1 rounded border border-dashed border-dark-600 text-xs text-dark-300 hover:text-white hover:border-cyan-500 cursor-pointer">
+                  <PhotoIcon className="w-4 h-4" />
+                  Add screenshot
+                  <input type="file" accept="image/*" multiple className="hidden" onChange={handleEvidenceChange} />
+                </label>
+              )}
+            </div>
+          </div>
+          <div className="flex justify-end gap-2">
+            <Button variant="ghost" onClick={() => setDisputeOpen(false)}>
+              Cancel
+            </Button>
+            <Button variant="danger" onClick={handleDispute} isLoading={isSubmitting}>
+              Open Dispute
+            </Button>
+          </div>
+        </div>
+      </Modal>
+    </Card>
+  );
+}
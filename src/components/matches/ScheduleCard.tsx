@@ -0,0 +1,101 @@
+'use client';
+
+import { useState, useEffect } from 'react';
+import Link from 'next/link';
+import { format, isSameDay } from 'date-fns';
+import toast from 'react-hot-toast';
+import { CalendarDaysIcon } from '@heroicons/react/24/outline';
+import { Card } from '@/components/ui/Card';
+import { Badge } from '@/components/ui/Badge';
+import { Button } from '@/components/ui/Button';
+import { useGames } from '@/hooks/useGames';
+import { getCalendarFeedToken, getScheduleCommitments } from '@/lib/firebase/db';
+import { findConflicts, getScheduleHorizon, type Commitment } from '@/lib/conflicts';
+import { getCalendarFeedUrl } from '@/lib/calendar';
+
+interface ScheduleCardProps {
+  userId: string;
+}
+
+// Upcoming matches and tournaments the user is booked into, directly or
+// through their teams, with overlapping ones flagged
+export function ScheduleCard({ userId }: ScheduleCardProps) {
+  const { getGameInfo } = useGames();
+  const [commitments, setCommitments] = useState<Commitment[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+
+  useEffect(() => {
+    const now = new Date();
+    getScheduleCommitments({ oduserId: userId }, now, getScheduleHorizon(now))
+      .then(setCommitments)
+      .catch((error) => console.error('Error fetching schedule:', error))
+      .finally(() => setIsLoading(false));
+  }, [userId]);
+
+  const handleCopyCalendarUrl = async () => {
+    try {
+      const token = await getCalendarFeedToken('user', userId);
+      await navigator.clipboard.writeText(`${window.location.origin}${getCalendarFeedUrl(token)}`);
+      toast.success('Calendar link copied. Add it to your calendar app as a subscription.');
+    } catch (error) {
+      toast.error('Failed to copy calendar link');
+      console.error(error);
+    }
+  };
+
+  const formatWindow = (commitment: Commitment) =>
+    isSameDay(commitment.start, commitment.end)
+      ? `${format(commitment.start, 'EEE, MMM d · h:mm a')} – ${format(commitment.end, 'h:mm a')}`
+      : `${format(commitment.start, 'MMM d')} – ${format(commitment.end, 'MMM d, yyyy')}`;
+
+  return (
+    <Card variant="default" className="md:col-span-2">
+      <div className="flex items-center justify-between gap-2 mb-4">
+        <h2 className="text-lg font-semibold text-white flex items-center gap-2">
+          <CalendarDaysIcon className="w-5 h-5 text-cyan-400" />
+          My Schedule
+        </h2>
+        <Button variant="ghost" size="sm" onClick={handleCopyCalendarUrl}>
+          Subscribe to Calendar
+        </Button>
+      </div>
+
+      {isLoading ? (
+        <p className="text-dark-400 text-center py-4">Loading schedule...</p>
+      ) : commitments.length === 0 ? (
+        <p className="text-dark-400 text-center py-4">
+          Nothing scheduled. Join a match or tournament to see it here.
+        </p>
+      ) : (
+        <div className="space-y-3">
+          {commitments.map((commitment) => {
+            const game = getGameInfo(commitment.game);
+            const hasConflict = findConflicts(commitment, commitments, commitment.id).length > 0;
+
+            return (
+              <Link
+                key={`${commitment.type}_${commitment.id}`}
+                href={commitment.href}
+                className="flex items-center gap-3 p-3 rounded-lg bg-dark-700/50 hover:bg-dark-700 transition-colors"
+              >
+                <span className="text-2xl">{game.icon}</span>
+                <div className="flex-1 min-w-0">
+                  <p className="font-medium text-white line-clamp-1">{commitment.title}</p>
+                  <p className="text-sm text-dark-400">{formatWindow(commitment)}</p>
+                </div>
+                <div className="flex items-center gap-2 shrink-0">
+                  {hasConflict && (
+                    <Badge variant="danger" size="sm">Overlaps</Badge>
+                  )}
+                  <Badge variant={commitment.type === 'tournament' ? 'warning' : 'info'} size="sm">
+                    {commitment.type}
+                  </Badge>
+                </div>
+              </Link>
+            );
+          })}
+        </div>
+      )}
+    </Card>
+  );
+}
@@ -0,0 +1,81 @@
+'use client';
+
+import { motion } from 'framer-motion';
+import { TrophyIcon } from '@heroicons/react/24/outline';
+import { Badge } from '@/components/ui/Badge';
+import { getSeriesScore, getWinsRequired } from '@/lib/series';
+import { type MatchParticipant, type SeriesGame } from '@/types';
+
+interface SeriesBreakdownProps {
+  bestOf: number;
+  series: SeriesGame[];
+  participants: MatchParticipant[];
+  winnerId?: string;
+}
+
+// Game-by-game results of a best-of-N series, with the running series score
+export function SeriesBreakdown({ bestOf, series, participants, winnerId }: SeriesBreakdownProps) {
+  const participantIds = participants.map((p) => p.oduserId || p.teamId || '');
+  const seriesScore = getSeriesScore(series, participantIds);
+  const getName = (participantId?: string) =>
+    participants.find((p) => (p.oduserId || p.teamId) === participantId)?.name || 'Unknown';
+
+  return (
+    <div className="space-y-4">
+      <div className="flex items-center justify-between gap-3">
+        <p className="text-sm text-dark-400">
+          Best of {bestOf} • first to {getWinsRequired(bestOf)}
+        </p>
+        <div className="flex items-center gap-2 text-sm">
+          {participantIds.map((id, index) => (
+            <span key={id} className="flex items-center gap-2">
+              {index > 0 && <span className="text-dark-500">-</span>}
+              <span className={`font-bold tabular-nums ${winnerId === id ? 'text-yellow-400' : 'text-white'}`}>
+                {seriesScore[id] || 0}
+              </span>
+            </span>
+          ))}
+        </div>
+      </div>
+
+      {series.length === 0 ? (
+        <p className="text-sm text-dark-500 text-center py-4">No games played yet</p>
+      ) : (
+        <div className="space-y-2">
+          {series.map((game, index) => (
+            <motion.div
+              key={game.number}
+              initial={{ opacity: 0, x: -10 }}
+              animate={{ opacity: 1, x: 0 }}
+              transition={{ delay: index * 0.05 }}
+              className="p-3 rounded-lg bg-dark-700/50"
+            >
+              <div className="flex items-center justify-between gap-2 mb-2">
+                <span className="text-xs font-semibold uppercase tracking-wide text-dark-400">
+                  Game {game.number}
+                  {game.map && <span className="normal-case font-normal text-dark-300"> • {game.map}</span>}
+                </span>
+                {game.winnerId ? (
+                  <Badge variant="warning" size="sm">
+                    <TrophyIcon className="w-3 h-3 mr-1" />
+                    {getName(game.winnerId)}
+                  </Badge>
+                ) : (
+                  <Badge variant="default" size="sm">Draw</Badge>
+                )}
+              </div>
+              <div className="flex flex-wrap gap-x-4 gap-y-1 text-sm">
+                {participantIds.map((id) => (
+                  <span key={id} className="flex items-center gap-2">
+                    <span className={game.winnerId === id ? 'text-yellow-400' : 'text-dark-300'}>{getName(id)}</span>
+                    <span className="font-bold tabular-nums text-white">{game.scores[id] ?? 0}</span>
+                  </span>
+                ))}
+              </div>
+            </motion.div>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+}
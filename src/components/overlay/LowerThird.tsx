@@ -0,0 +1,64 @@
+'use client';
+
+import { useState, useEffect } from 'react';
+import { motion, AnimatePresence } from 'framer-motion';
+import { getEventTypeInfo } from '@/lib/scoring';
+import { LOWER_THIRD_DURATION_MS, type OverlayTheme } from '@/lib/overlay';
+import { type Match } from '@/types';
+
+interface LowerThirdProps {
+  match: Match;
+  theme: OverlayTheme;
+}
+
+// Slides in for each new match event, then hides again. Events that were
+// already logged when the overlay loaded aren't shown.
+export function LowerThird({ match, theme }: LowerThirdProps) {
+  const latestEvent = match.events?.[match.events.length - 1];
+  const latestEventId = latestEvent?.id;
+  // Starts out as whatever was already logged, so that isn't shown
+  const [expiredEventId, setExpiredEventId] = useState(latestEventId);
+
+  useEffect(() => {
+    if (!latestEventId || latestEventId === expiredEventId) return;
+    const timeout = setTimeout(() => setExpiredEventId(latestEventId), LOWER_THIRD_DURATION_MS);
+    return () => clearTimeout(timeout);
+  }, [latestEventId, expiredEventId]);
+
+  const event = latestEvent && latestEvent.id !== expiredEventId ? latestEvent : undefined;
+  const participantIndex = event
+    ? (match.participants || []).findIndex((p) => (p.oduserId || p.teamId) === event.participantId)
+    : -1;
+  const eventInfo = event && getEventTypeInfo(event.type);
+
+  return (
+    <div className="absolute left-12 bottom-24">
+      <AnimatePresence>
+        {event && eventInfo && (
+          <motion.div
+            key={event.id}
+            initial={{ x: -40, opacity: 0 }}
+            animate={{ x: 0, opacity: 1 }}
+            exit={{ x: -40, opacity: 0 }}
+            className={`flex items-stretch rounded-lg overflow-hidden min-w-[24rem] ${theme.panel}`}
+          >
+            <div className={`w-2 ${participantIndex === 1 ? theme.away : theme.home}`} />
+            <div className="flex items-center px-4 text-4xl">{eventInfo.icon}</div>
+            <div className="py-3 pr-6">
+              <p className={`text-xs font-semibold uppercase tracking-widest ${theme.highlight}`}>
+                {eventInfo.label}
+                {event.value !== undefined && event.value !== 1 && ` +${event.value}`}
+              </p>
+              <p className={`text-2xl font-bold ${theme.text}`}>{event.playerName || event.participantName}</p>
+              {(event.playerName || event.description) && (
+                <p className={`text-sm ${theme.muted}`}>
+                  {[event.playerName && event.participantName, event.description].filter(Boolean).join(' • ')}
+                </p>
+              )}
+            </div>
+          </motion.div>
+        )}
+      </AnimatePresence>
+    </div>
+  );
+}
@@ -0,0 +1,80 @@
+'use client';
+
+import { motion, AnimatePresence } from 'framer-motion';
+import { isSeries } from '@/lib/series';
+import { type OverlayTheme } from '@/lib/overlay';
+import { type Match } from '@/types';
+
+interface ScoreboardProps {
+  match: Match;
+  theme: OverlayTheme;
+}
+
+// Animates each change of score
+function ScoreBox({ score, theme }: { score: number; theme: OverlayTheme }) {
+  return (
+    <div className="w-14 flex items-center justify-center overflow-hidden">
+      <AnimatePresence mode="popLayout" initial={false}>
+        <motion.span
+          key={score}
+          initial={{ y: -24, opacity: 0 }}
+          animate={{ y: 0, opacity: 1 }}
+          exit={{ y: 24, opacity: 0 }}
+          className={`text-3xl font-bold tabular-nums ${theme.text}`}
+        >
+          {score}
+        </motion.span>
+      </AnimatePresence>
+    </div>
+  );
+}
+
+// Score bug for the top of the stream: names, live scores and the current
+// round/map. For a series the scores are game wins.
+export function Scoreboard({ match, theme }: ScoreboardProps) {
+  const participants = match.participants || [];
+  const [home, away] = participants;
+  const getScore = (participant?: Match['participants'][number]) =>
+    participant ? match.scores?.[participant.oduserId || participant.teamId || ''] ?? 0 : 0;
+
+  const details = [
+    isSeries(match) && `Best of ${match.bestOf}`,
+    isSeries(match) && match.status !== 'completed' && `Game ${(match.series?.length || 0) + 1}`,
+    !isSeries(match) && match.currentRound && `Round ${match.currentRound}`,
+    match.currentMap,
+    match.status === 'completed' && 'Final',
+  ].filter(Boolean);
+
+  return (
+    <div className="flex flex-col items-center pt-6">
+      <div className={`flex items-stretch rounded-lg overflow-hidden ${theme.panel}`}>
+        <div className={`w-1.5 ${theme.home}`} />
+        <div className="w-56 px-4 py-3 flex items-center justify-end">
+          <span className={`text-lg font-semibold truncate ${theme.text}`}>{home?.name || 'TBD'}</span>
+        </div>
+        <ScoreBox score={getScore(home)} theme={theme} />
+        <div className={`flex items-center text-xl font-bold ${theme.muted}`}>:</div>
+        <ScoreBox score={getScore(away)} theme={theme} />
+        <div className="w-56 px-4 py-3 flex items-center">
+          <span className={`text-lg font-semibold truncate ${theme.text}`}>{away?.name || 'TBD'}</span>
+        </div>
+        <div className={`w-1.5 ${theme.away}`} />
+      </div>
+      {details.length > 0 && (
+        <div className={`mt-1 px-4 py-1 rounded-md text-sm font-medium uppercase tracking-wide ${theme.panel} ${theme.muted}`}>
+          {details.join(' • ')}
+        </div>
+      )}
+      {participants.length > 2 && (
+        <div className={`mt-2 rounded-lg px-4 py-2 space-y-1 ${theme.panel}`}>
+          {participants.slice(2).map((participant) => (
+            <div key={participant.oduserId || participant.teamId} className="flex items-center justify-between gap-6">
+              <span className={`text-sm truncate ${theme.text}`}>{participant.name}</span>
+              <span className={`text-sm font-bold tabular-nums ${theme.text}`}>{getScore(participant)}</span>
+            </div>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+}
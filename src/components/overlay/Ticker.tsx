@@ -0,0 +1,59 @@
+'use client';
+
+import { motion } from 'framer-motion';
+import { getEventTypeInfo } from '@/lib/scoring';
+import { type OverlayTheme } from '@/lib/overlay';
+import { type Match } from '@/types';
+
+interface TickerProps {
+  match: Match;
+  theme: OverlayTheme;
+}
+
+// Seconds for the ticker to scroll one full pass
+const TICKER_DURATION = 30;
+
+// Crawl along the bottom of the stream: match status and score on the left,
+// recent events scrolling to the right of it
+export function Ticker({ match, theme }: TickerProps) {
+  const participants = match.participants || [];
+  const scoreLine = participants
+    .map((p) => `${p.name} ${match.scores?.[p.oduserId || p.teamId || ''] ?? 0}`)
+    .join('  -  ');
+  const items = [
+    match.title,
+    ...[...(match.events || [])]
+      .reverse()
+      .map((event) => `${getEventTypeInfo(event.type).icon} ${event.playerName || event.participantName}${event.description ? `: ${event.description}` : ''}`),
+  ];
+
+  return (
+    <div className="absolute inset-x-0 bottom-0">
+      <div className={`flex items-stretch h-12 ${theme.panel}`}>
+        <div className={`flex items-center gap-2 px-4 shrink-0 font-bold uppercase text-sm text-white ${theme.home}`}>
+          {match.status === 'in_progress' && <span className="w-2 h-2 rounded-full bg-white animate-pulse" />}
+          {match.status === 'in_progress' ? 'Live' : match.status === 'completed' ? 'Final' : 'Up Next'}
+        </div>
+        <div className={`flex items-center px-4 shrink-0 font-semibold tabular-nums ${theme.text}`}>{scoreLine}</div>
+        <div className="relative flex-1 overflow-hidden">
+          {/* Two copies side by side so the loop is seamless */}
+          <motion.div
+            key={items.join('|')}
+            className="absolute inset-y-0 flex items-center whitespace-nowrap"
+            animate={{ x: ['0%', '-50%'] }}
+            transition={{ duration: TICKER_DURATION, ease: 'linear', repeat: Infinity }}
+          >
+            {[0, 1].map((copy) =>
+              items.map((item, index) => (
+                <span key={`${copy}-${index}`} className={`px-6 ${index === 0 ? theme.highlight : theme.text}`}>
+                  {item}
+                  <span className={`pl-12 ${theme.muted}`}>•</span>
+                </span>
+              ))
+            )}
+          </motion.div>
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,35 @@
+'use client';
+
+import { useEffect, useState } from 'react';
+import { Select } from '@/components/ui/Select';
+import { getSchools } from '@/lib/firebase/db';
+import type { School } from '@/types';
+
+interface HostSchoolSelectProps {
+  value: string;
+  onChange: (schoolId: string) => void;
+}
+
+// The school hosting a match or tournament, which puts it on that school's
+// calendar; empty for none
+export function HostSchoolSelect({ value, onChange }: HostSchoolSelectProps) {
+  const [schools, setSchools] = useState<School[]>([]);
+
+  useEffect(() => {
+    getSchools()
+      .then(setSchools)
+      .catch((error) => console.error('Error fetching schools:', error));
+  }, []);
+
+  return (
+    <Select
+      label="Host School (optional)"
+      options={[
+        { value: '', label: 'No host school' },
+        ...schools.map((school) => ({ value: school.id, label: school.name })),
+      ]}
+      value={value}
+      onChange={(e) => onChange(e.target.value)}
+    />
+  );
+}
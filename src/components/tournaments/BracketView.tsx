@@ -0,0 +1,121 @@
+'use client';
+
+import { motion } from 'framer-motion';
+import { TrophyIcon } from '@heroicons/react/24/solid';
+import { type BracketMatch } from '@/types';
+import { getRoundName } from '@/lib/brackets';
+
+interface BracketViewProps {
+  rounds: BracketMatch[][];
+  // Display names keyed by participant ID (userId or teamId)
+  participantNames: Record<string, string>;
+  // Highlight the signed-in user's path through the bracket
+  highlightId?: string;
+  // Round headings (defaults to Final / Semifinals / ...)
+  getRoundLabel?: (roundIndex: number, totalRounds: number) => string;
+  // Show the winner of the last round as champion
+  showChampion?: boolean;
+}
+
+interface SlotProps {
+  participantId?: string;
+  score?: number;
+  isWinner: boolean;
+  isDecided: boolean;
+  isHighlighted: boolean;
+  name: string;
+}
+
+function BracketSlot({ participantId, score, isWinner, isDecided, isHighlighted, name }: SlotProps) {
+  return (
+    <div
+      className={`flex items-center justify-between gap-2 px-3 py-2 text-sm ${
+        isWinner
+          ? 'bg-yellow-500/10 text-yellow-400 font-semibold'
+          : isDecided && participantId
+            ? 'text-dark-500'
+            : 'text-white'
+      } ${isHighlighted ? 'ring-1 ring-inset ring-cyan-500/60' : ''}`}
+    >
+      <span className={`truncate ${participantId ? '' : 'italic text-dark-500'}`}>
+        {name}
+        {isWinner && ' 🏆'}
+      </span>
+      {score !== undefined && <span className="font-bold tabular-nums">{score}</span>}
+    </div>
+  );
+}
+
+export function BracketView({
+  rounds,
+  participantNames,
+  highlightId,
+  getRoundLabel = getRoundName,
+  showChampion = true,
+}: BracketViewProps) {
+  const getName = (participantId?: string) =>
+    participantId ? participantNames[participantId] || 'Unknown' : 'TBD';
+
+  const finalMatch = rounds[rounds.length - 1]?.[0];
+  const champion = showChampion ? finalMatch?.winnerId : undefined;
+
+  return (
+    <div className="space-y-4">
+      {champion && (
+        <div className="flex items-center gap-3 p-3 rounded-lg bg-gradient-to-r from-yellow-500/20 to-orange-500/20 border border-yellow-500/30">
+          <TrophyIcon className="w-6 h-6 text-yellow-400" />
+          <div>
+            <p className="text-xs text-dark-300">Champion</p>
+            <p className="font-bold text-yellow-400">{getName(champion)}</p>
+          </div>
+        </div>
+      )}
+
+      <div className="overflow-x-auto pb-2">
+        <div className="flex gap-6 min-w-max">
+          {rounds.map((round, roundIndex) => (
+            <div key={roundIndex} className="flex flex-col w-52">
+              <h3 className="text-xs font-semibold uppercase tracking-wide text-dark-400 mb-3 text-center">
+                {getRoundLabel(roundIndex, rounds.length)}
+              </h3>
+              <div className="flex flex-col justify-around flex-1 gap-4">
+                {round.map((match, matchIndex) => {
+                  const bye = !!match.isBye;
+                  const isDecided = !!match.winnerId;
+                  return (
+                    <motion.div
+                      key={match.id}
+                      initial={{ opacity: 0, x: -10 }}
+                      animate={{ opacity: 1, x: 0 }}
+                      transition={{ delay: roundIndex * 0.1 + matchIndex * 0.03 }}
+                      className={`rounded-lg border overflow-hidden divide-y divide-dark-700 ${
+                        bye ? 'border-dark-700/50 bg-dark-800/40 opacity-60' : 'border-dark-700 bg-dark-800'
+                      }`}
+                    >
+                      <BracketSlot
+                        participantId={match.participant1}
+                        score={match.score1}
+                        name={bye && !match.participant1 && match.participant2 ? 'Bye' : getName(match.participant1)}
+                        isWinner={isDecided && match.winnerId === match.participant1}
+                        isDecided={isDecided}
+                        isHighlighted={!!highlightId && match.participant1 === highlightId}
+                      />
+                      <BracketSlot
+                        participantId={match.participant2}
+                        score={match.score2}
+                        name={bye && !match.participant2 && match.participant1 ? 'Bye' : getName(match.participant2)}
+                        isWinner={isDecided && match.winnerId === match.participant2}
+                        isDecided={isDecided}
+                        isHighlighted={!!highlightId && match.participant2 === highlightId}
+                      />
+                    </motion.div>
+                  );
+                })}
+              </div>
+            </div>
+          ))}
+        </div>
+      </div>
+    </div>
+  );
+}
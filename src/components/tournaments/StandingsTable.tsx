@@ -0,0 +1,92 @@
+'use client';
+
+import { type StandingRow } from '@/lib/standings';
+
+interface StandingsTableProps {
+  rows: StandingRow[];
+  participantNames: Record<string, string>;
+  // 'table' for league-style formats, 'placements' for elimination formats
+  variant?: 'table' | 'placements';
+  showBuchholz?: boolean;
+  // Number of rows at the top that qualify (e.g. advance to playoffs)
+  qualifyCount?: number;
+  highlightId?: string;
+}
+
+const ordinal = (n: number): string => {
+  const suffix = ['th', 'st', 'nd', 'rd'];
+  const v = n % 100;
+  return `${n}${suffix[(v - 20) % 10] || suffix[v] || suffix[0]}`;
+};
+
+export function StandingsTable({
+  rows,
+  participantNames,
+  variant = 'table',
+  showBuchholz = false,
+  qualifyCount = 0,
+  highlightId,
+}: StandingsTableProps) {
+  const getName = (participantId: string) => participantNames[participantId] || 'Unknown';
+
+  return (
+    <div className="overflow-x-auto">
+      <table className="w-full text-sm">
+        <thead>
+          <tr className="text-xs uppercase tracking-wide text-dark-400 border-b border-dark-700">
+            <th className="py-2 pr-2 text-left w-12">#</th>
+            <th className="py-2 pr-2 text-left">Participant</th>
+            <th className="py-2 px-2 text-center">W</th>
+            {variant === 'table' && <th className="py-2 px-2 text-center">D</th>}
+            <th className="py-2 px-2 text-center">L</th>
+            {variant === 'table' && (
+              <>
+                <th className="py-2 px-2 text-center">+/-</th>
+                {showBuchholz && <th className="py-2 px-2 text-center" title="Opponents' wins">BH</th>}
+                <th className="py-2 pl-2 text-right">Pts</th>
+              </>
+            )}
+          </tr>
+        </thead>
+        <tbody>
+          {rows.map((row, index) => {
+            const qualifies = index < qualifyCount;
+            const diff = row.scoreFor - row.scoreAgainst;
+            return (
+              <tr
+                key={row.participantId}
+                className={`border-b border-dark-700/50 ${
+                  row.participantId === highlightId ? 'bg-cyan-500/10' : ''
+                } ${row.isEliminated ? 'text-dark-500' : 'text-white'}`}
+              >
+                <td className={`py-2 pr-2 font-semibold ${qualifies ? 'text-green-400' : 'text-dark-400'}`}>
+                  {variant === 'placements'
+                    ? row.placement
+                      ? ordinal(row.placement)
+                      : '–'
+                    : index + 1}
+                </td>
+                <td className="py-2 pr-2 truncate max-w-[12rem]">
+                  {getName(row.participantId)}
+                  {variant === 'placements' && row.placement === 1 && ' 🏆'}
+                </td>
+                <td className="py-2 px-2 text-center tabular-nums">{row.wins}</td>
+                {variant === 'table' && <td className="py-2 px-2 text-center tabular-nums">{row.draws}</td>}
+                <td className="py-2 px-2 text-center tabular-nums">{row.losses}</td>
+                {variant === 'table' && (
+                  <>
+                    <td className="py-2 px-2 text-center tabular-nums">{diff > 0 ? `+${diff}` : diff}</td>
+                    {showBuchholz && (
+                      <td className="py-2 px-2 text-center tabular-nums text-dark-300">{row.buchholz ?? 0}</td>
+                    )}
+                    <td className="py-2 pl-2 text-right font-bold tabular-nums">{row.points}</td>
+                  </>
+                )}
+              </tr>
+            );
+          })}
+        </tbody>
+      </table>
+    </div>
+  );
+}
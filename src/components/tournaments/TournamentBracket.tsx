@@ -0,0 +1,214 @@
+'use client';
+
+import { type Bracket, type BracketMatch } from '@/types';
+import { BracketView } from './BracketView';
+import { StandingsTable } from './StandingsTable';
+import { getRoundName } from '@/lib/brackets';
+import {
+  getDoubleEliminationStandings,
+  getGroupStandings,
+  getSingleEliminationStandings,
+  getSwissStandings,
+} from '@/lib/standings';
+
+interface TournamentBracketProps {
+  bracket: Bracket;
+  // Registered participant IDs (userId or teamId), in seed order
+  participants: string[];
+  participantNames: Record<string, string>;
+  highlightId?: string;
+  // Round robin: how many per group go through to the playoffs
+  advancePerGroup?: number;
+}
+
+interface RoundResultsProps {
+  rounds: BracketMatch[][];
+  participantNames: Record<string, string>;
+  highlightId?: string;
+}
+
+// Compact list of fixtures per round, used where a tree doesn't make sense
+function RoundResults({ rounds, participantNames, highlightId }: RoundResultsProps) {
+  const getName = (participantId?: string) =>
+    participantId ? participantNames[participantId] || 'Unknown' : 'TBD';
+
+  return (
+    <div className="grid sm:grid-cols-2 gap-4">
+      {rounds.map((round, roundIndex) => (
+        <div key={roundIndex}>
+          <h4 className="text-xs font-semibold uppercase tracking-wide text-dark-400 mb-2">
+            Round {roundIndex + 1}
+          </h4>
+          <div className="space-y-1">
+            {round.map((match) => {
+              const involved =
+                !!highlightId && (match.participant1 === highlightId || match.participant2 === highlightId);
+              if (match.isBye) {
+                return (
+                  <div key={match.id} className="px-3 py-1.5 rounded bg-dark-800/40 text-sm text-dark-400">
+                    {getName(match.participant1 || match.participant2)} — bye
+                  </div>
+                );
+              }
+              return (
+                <div
+                  key={match.id}
+                  className={`flex items-center justify-between gap-2 px-3 py-1.5 rounded bg-dark-800 text-sm ${
+                    involved ? 'ring-1 ring-inset ring-cyan-500/60' : ''
+                  }`}
+                >
+                  <span
+                    className={`truncate ${
+                      match.winnerId === match.participant1 ? 'text-yellow-400 font-semibold' : 'text-white'
+                    }`}
+                  >
+                    {getName(match.participant1)}
+                  </span>
+                  <span className="text-dark-400 tabular-nums shrink-0">
+                    {match.winnerId || match.completedAt ? `${match.score1 ?? 0} - ${match.score2 ?? 0}` : 'vs'}
+                  </span>
+                  <span
+                    className={`truncate text-right ${
+                      match.winnerId === match.participant2 ? 'text-yellow-400 font-semibold' : 'text-white'
+                    }`}
+                  >
+                    {getName(match.participant2)}
+                  </span>
+                </div>
+              );
+            })}
+          </div>
+        </div>
+      ))}
+    </div>
+  );
+}
+
+function SectionHeading({ children }: { children: React.ReactNode }) {
+  return <h3 className="text-sm font-semibold text-white mb-3">{children}</h3>;
+}
+
+// Renders a bracket according to its competition format
+export function TournamentBracket({
+  bracket,
+  participants,
+  participantNames,
+  highlightId,
+  advancePerGroup = 2,
+}: TournamentBracketProps) {
+  const format = bracket.format || 'single_elimination';
+
+  if (format === 'double_elimination') {
+    const grandFinal = (bracket.grandFinal || []).filter((match, index) => index === 0 || match.participant1);
+    return (
+      <div className="space-y-6">
+        <div>
+          <SectionHeading>Winners Bracket</SectionHeading>
+          <BracketView
+            rounds={bracket.rounds}
+            participantNames={participantNames}
+            highlightId={highlightId}
+            getRoundLabel={(index, total) => (index === total - 1 ? 'Winners Final' : `Round ${index + 1}`)}
+            showChampion={false}
+          />
+        </div>
+        {(bracket.losersRounds || []).length > 0 && (
+          <div>
+            <SectionHeading>Losers Bracket</SectionHeading>
+            <BracketView
+              rounds={bracket.losersRounds || []}
+              participantNames={participantNames}
+              highlightId={highlightId}
+              getRoundLabel={(index, total) => (index === total - 1 ? 'Losers Final' : `Losers Round ${index + 1}`)}
+              showChampion={false}
+            />
+          </div>
+        )}
+        {grandFinal.length > 0 && (
+          <div>
+            <SectionHeading>Grand Final</SectionHeading>
+            <BracketView
+              rounds={grandFinal.map((match) => [match])}
+              participantNames={participantNames}
+              highlightId={highlightId}
+              getRoundLabel={(index) => (index === 0 ? 'Grand Final' : 'Bracket Reset')}
+            />
+          </div>
+        )}
+        <div>
+          <SectionHeading>Standings</SectionHeading>
+          <StandingsTable
+            rows={getDoubleEliminationStandings(participants, bracket)}
+            participantNames={participantNames}
+            variant="placements"
+            highlightId={highlightId}
+          />
+        </div>
+      </div>
+    );
+  }
+
+  if (format === 'round_robin') {
+    return (
+      <div className="space-y-6">
+        {(bracket.groups || []).map((group) => (
+          <div key={group.name} className="space-y-3">
+            <SectionHeading>{group.name}</SectionHeading>
+            <StandingsTable
+              rows={getGroupStandings(group.participants, group.rounds)}
+              participantNames={participantNames}
+              qualifyCount={advancePerGroup}
+              highlightId={highlightId}
+            />
+            <RoundResults rounds={group.rounds} participantNames={participantNames} highlightId={highlightId} />
+          </div>
+        ))}
+        {bracket.rounds.length > 0 && (
+          <div>
+            <SectionHeading>Playoffs</SectionHeading>
+            <BracketView
+              rounds={bracket.rounds}
+              participantNames={participantNames}
+              highlightId={highlightId}
+              getRoundLabel={getRoundName}
+            />
+          </div>
+        )}
+      </div>
+    );
+  }
+
+  if (format === 'swiss') {
+    return (
+      <div className="space-y-6">
+        <div>
+          <SectionHeading>Standings</SectionHeading>
+          <StandingsTable
+            rows={getSwissStandings(participants, bracket.rounds)}
+            participantNames={participantNames}
+            showBuchholz
+            highlightId={highlightId}
+          />
+        </div>
+        <RoundResults rounds={bracket.rounds} participantNames={participantNames} highlightId={highlightId} />
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-6">
+      <BracketView rounds={bracket.rounds} participantNames={participantNames} highlightId={highlightId} />
+      {bracket.rounds.some((round) => round.some((match) => match.winnerId && !match.isBye)) && (
+        <div>
+          <SectionHeading>Standings</SectionHeading>
+          <StandingsTable
+            rows={getSingleEliminationStandings(participants, bracket.rounds)}
+            participantNames={participantNames}
+            variant="placements"
+            highlightId={highlightId}
+          />
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,158 @@
+'use client';
+
+import { useState, useEffect } from 'react';
+import Link from 'next/link';
+import { motion } from 'framer-motion';
+import { format } from 'date-fns';
+import { PlayIcon } from '@heroicons/react/24/outline';
+import { Badge } from '@/components/ui/Badge';
+import { LoadingSpinner } from '@/components/ui/LoadingSpinner';
+import { getTournamentMatches, subscribeToMatch } from '@/lib/firebase/db';
+import { type Match, type MatchStatus } from '@/types';
+
+const statusColors: Record<MatchStatus, 'success' | 'warning' | 'info' | 'danger' | 'default'> = {
+  open: 'success',
+  scheduled: 'info',
+  in_progress: 'warning',
+  completed: 'default',
+  cancelled: 'danger',
+};
+
+const statusLabels: Record<MatchStatus, string> = {
+  open: 'Open',
+  scheduled: 'Scheduled',
+  in_progress: 'Live Now',
+  completed: 'Completed',
+  cancelled: 'Cancelled',
+};
+
+interface TournamentMatchesProps {
+  tournamentId: string;
+  highlightId?: string;
+}
+
+// Matches spawned from the tournament bracket, kept live via subscribeToMatch
+export function TournamentMatches({ tournamentId, highlightId }: TournamentMatchesProps) {
+  const [matches, setMatches] = useState<Match[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+
+  useEffect(() => {
+    let unsubscribers: (() => void)[] = [];
+    let cancelled = false;
+
+    const fetchMatches = async () => {
+      try {
+        const fetchedMatches = await getTournamentMatches(tournamentId);
+        if (cancelled) return;
+        setMatches(fetchedMatches);
+
+        unsubscribers = fetchedMatches.map((fetchedMatch) =>
+          subscribeToMatch(fetchedMatch.id, (updatedMatch) => {
+            setMatches((prev) =>
+              updatedMatch
+                ? prev.map((m) => (m.id === updatedMatch.id ? updatedMatch : m))
+                : prev.filter((m) => m.id !== fetchedMatch.id)
+            );
+          })
+        );
+      } catch (error) {
+        console.error('Error fetching tournament matches:', error);
+      } finally {
+        if (!cancelled) setIsLoading(false);
+      }
+    };
+
+    fetchMatches();
+    return () => {
+      cancelled = true;
+      unsubscribers.forEach((unsubscribe) => unsubscribe());
+    };
+  }, [tournamentId]);
+
+  if (isLoading) {
+    return (
+      <div className="flex justify-center py-8">
+        <LoadingSpinner />
+      </div>
+    );
+  }
+
+  if (matches.length === 0) {
+    return (
+      <div className="text-center py-8">
+        <PlayIcon className="w-12 h-12 mx-auto mb-3 text-dark-500" />
+        <p className="text-dark-400">No matches scheduled yet</p>
+        <p className="text-sm text-dark-500 mt-1">Matches appear here once the bracket is underway.</p>
+      </div>
+    );
+  }
+
+  // Live matches first, then upcoming, then finished
+  const statusOrder: MatchStatus[] = ['in_progress', 'scheduled', 'open', 'completed', 'cancelled'];
+  const sortedMatches = [...matches].sort(
+    (a, b) => statusOrder.indexOf(a.status) - statusOrder.indexOf(b.status)
+  );
+
+  return (
+    <div className="space-y-3">
+      {sortedMatches.map((match, index) => {
+        const [home, away] = match.participants || [];
+        const getScore = (participant?: Match['participants'][number]) => {
+          const participantId = participant?.oduserId || participant?.teamId;
+          return participantId ? match.scores?.[participantId] : undefined;
+        };
+        const isInvolved =
+          !!highlightId && match.participants?.some((p) => (p.oduserId || p.teamId) === highlightId);
+
+        return (
+          <motion.div
+            key={match.id}
+            initial={{ opacity: 0, y: 10 }}
+            animate={{ opacity: 1, y: 0 }}
+            transition={{ delay: index * 0.03 }}
+          >
+            <Link
+              href={`/matches/${match.id}`}
+              className={`block p-3 rounded-lg bg-dark-700/50 hover:bg-dark-700 transition-colors ${
+                match.status === 'in_progress' ? 'ring-1 ring-yellow-500/50' : ''
+              } ${isInvolved ? 'border-l-2 border-cyan-500' : ''}`}
+            >
+              <div className="flex items-center justify-between gap-2 mb-2">
+                <p className="text-xs text-dark-400 truncate">{match.title}</p>
+                <Badge variant={statusColors[match.status]}>
+                  {match.status === 'in_progress' && (
+                    <span className="mr-1 inline-block w-2 h-2 rounded-full bg-yellow-400 animate-pulse" />
+                  )}
+                  {statusLabels[match.status]}
+                </Badge>
+              </div>
+              <div className="flex items-center justify-between gap-3">
+                {[home, away].map((participant, i) => {
+                  const participantId = participant?.oduserId || participant?.teamId;
+                  const isWinner = !!participantId && match.winnerId === participantId;
+                  const score = getScore(participant);
+                  return (
+                    <div
+                      key={i}
+                      className={`flex items-center gap-2 flex-1 min-w-0 ${i === 1 ? 'flex-row-reverse text-right' : ''}`}
+                    >
+                      <span className={`truncate ${isWinner ? 'text-yellow-400 font-semibold' : 'text-white'}`}>
+                        {participant?.name || 'TBD'}
+                      </span>
+                      {score !== undefined && match.status !== 'scheduled' && (
+                        <span className="font-bold tabular-nums text-white">{score}</span>
+                      )}
+                    </div>
+                  );
+                })}
+              </div>
+              {match.scheduledTime && match.status === 'scheduled' && (
+                <p className="text-xs text-dark-500 mt-2">{format(match.scheduledTime, 'MMM d, h:mm a')}</p>
+              )}
+            </Link>
+          </motion.div>
+        );
+      })}
+    </div>
+  );
+}
@@ -0,0 +1,44 @@
+'use client';
+
+import { useEffect, useRef } from 'react';
+import { recordMatchViewer, removeMatchViewer } from '@/lib/firebase/db';
+import { ANONYMOUS_VIEWER_KEY, HEARTBEAT_INTERVAL_MS } from '@/lib/presence';
+import { type Match } from '@/types';
+
+const getAnonymousViewerId = (): string => {
+  let viewerId = localStorage.getItem(ANONYMOUS_VIEWER_KEY);
+  if (!viewerId) {
+    viewerId = crypto.randomUUID();
+    localStorage.setItem(ANONYMOUS_VIEWER_KEY, viewerId);
+  }
+  return viewerId;
+};
+
+// Counts the current visitor as a spectator while the match is live:
+// heartbeats until they leave the page or the match ends
+export function useMatchPresence(match: Match | null, userId?: string): void {
+  const matchId = match?.id;
+  const isLive = match?.status === 'in_progress';
+  const statsRef = useRef(match?.viewerStats);
+
+  useEffect(() => {
+    statsRef.current = match?.viewerStats;
+  }, [match?.viewerStats]);
+
+  useEffect(() => {
+    if (!matchId || !isLive) return;
+    const viewerId = userId || getAnonymousViewerId();
+
+    const heartbeat = () =>
+      recordMatchViewer(matchId, viewerId, statsRef.current).catch((error) =>
+        console.error('Error recording viewer:', error)
+      );
+    heartbeat();
+    const interval = setInterval(heartbeat, HEARTBEAT_INTERVAL_MS);
+
+    return () => {
+      clearInterval(interval);
+      removeMatchViewer(matchId, viewerId).catch((error) => console.error('Error removing viewer:', error));
+    };
+  }, [matchId, isLive, userId]);
+}
@@ -0,0 +1,33 @@
+'use client';
+
+import { useState, useEffect } from 'react';
+import { useParams, useSearchParams } from 'next/navigation';
+import { subscribeToMatch } from '@/lib/firebase/db';
+import { getOverlayTheme, type OverlayTheme } from '@/lib/overlay';
+import { type Match } from '@/types';
+
+interface UseOverlayMatchReturn {
+  match: Match | null;
+  theme: OverlayTheme;
+}
+
+// Live match for an overlay route (/overlay/matches/[id]/...), themed by
+// the ?theme= query param
+export function useOverlayMatch(): UseOverlayMatchReturn {
+  const params = useParams();
+  const searchParams = useSearchParams();
+  const matchId = params.id as string;
+  const [match, setMatch] = useState<Match | null>(null);
+
+  useEffect(() => {
+    const unsubscribe = subscribeToMatch(matchId, (updatedMatch) => {
+      setMatch(updatedMatch);
+    });
+    return () => unsubscribe();
+  }, [matchId]);
+
+  return {
+    match,
+    theme: getOverlayTheme(searchParams.get('theme')),
+  };
+}
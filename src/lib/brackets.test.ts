@@ -0,0 +1,276 @@
+import { describe, expect, it } from 'vitest';
+import {
+  advanceWinner,
+  clearBracketResult,
+  findBracketMatch,
+  generateDoubleElimination,
+  generateNextSwissRound,
+  generateRoundRobin,
+  generateSingleElimination,
+  generateSwiss,
+  getBracketChampion,
+  getBracketMatchLabel,
+  getPlayableMatches,
+  getRoundName,
+  isBracketDecided,
+  recordBracketResult,
+  type BracketStructure,
+} from '@/lib/brackets';
+
+// Record a string of results, each as [bracket match ID, winner]
+const playAll = (structure: BracketStructure, results: [string, string][]): BracketStructure =>
+  results.reduce((current, [matchId, winnerId]) => recordBracketResult(current, matchId, { winnerId }), structure);
+
+const pairings = (round: BracketStructure['rounds'][number]) =>
+  round.filter((match) => !match.isBye).map((match) => [match.participant1, match.participant2]);
+
+describe('generateSingleElimination', () => {
+  it('keeps the top seeds apart until the final', () => {
+    const structure = generateSingleElimination(['a', 'b', 'c', 'd']);
+
+    expect(structure.rounds).toHaveLength(2);
+    expect(pairings(structure.rounds[0])).toEqual([
+      ['a', 'd'],
+      ['b', 'c'],
+    ]);
+  });
+
+  it('gives the top seed a bye and advances them into round 2', () => {
+    const structure = generateSingleElimination(['a', 'b', 'c']);
+
+    expect(findBracketMatch(structure, 'r1-m1')?.isBye).toBe(true);
+    expect(findBracketMatch(structure, 'r2-m1')?.participant1).toBe('a');
+    expect(pairings(structure.rounds[0])).toEqual([['b', 'c']]);
+  });
+
+  it('needs at least two participants', () => {
+    expect(() => generateSingleElimination(['a'])).toThrow('At least 2 participants');
+  });
+});
+
+describe('advanceWinner', () => {
+  it('advances the winner without touching the original structure', () => {
+    const structure = generateSingleElimination(['a', 'b', 'c', 'd']);
+    const updated = advanceWinner(structure, 'r1-m2', 'c');
+
+    expect(findBracketMatch(updated, 'r1-m2')?.winnerId).toBe('c');
+    expect(findBracketMatch(updated, 'r2-m1')?.participant2).toBe('c');
+    expect(findBracketMatch(structure, 'r1-m2')?.winnerId).toBeUndefined();
+    expect(findBracketMatch(structure, 'r2-m1')?.participant2).toBeUndefined();
+  });
+
+  it('rejects a match that is not in the bracket', () => {
+    expect(() => advanceWinner(generateSingleElimination(['a', 'b']), 'r9-m1', 'a')).toThrow(
+      'Bracket match not found'
+    );
+  });
+});
+
+describe('recordBracketResult', () => {
+  it('records the scores and advances the winner', () => {
+    const structure = generateSingleElimination(['a', 'b', 'c', 'd']);
+    const updated = recordBracketResult(structure, 'r1-m1', { winnerId: 'a', score1: 2, score2: 1 });
+
+    expect(findBracketMatch(updated, 'r1-m1')).toMatchObject({ winnerId: 'a', score1: 2, score2: 1 });
+    expect(findBracketMatch(updated, 'r2-m1')?.participant1).toBe('a');
+    expect(findBracketMatch(structure, 'r1-m1')?.winnerId).toBeUndefined();
+  });
+
+  it('rejects a winner who is not in the match', () => {
+    const structure = generateSingleElimination(['a', 'b', 'c', 'd']);
+    expect(() => recordBracketResult(structure, 'r1-m1', { winnerId: 'b' })).toThrow('Winner is not in this bracket match');
+  });
+
+  it('lets a result be corrected until the next match is decided', () => {
+    const structure = playAll(generateSingleElimination(['a', 'b', 'c', 'd']), [
+      ['r1-m1', 'a'],
+      ['r1-m2', 'b'],
+    ]);
+
+    const corrected = recordBracketResult(structure, 'r1-m1', { winnerId: 'd' });
+    expect(findBracketMatch(corrected, 'r2-m1')?.participant1).toBe('d');
+
+    const decided = recordBracketResult(structure, 'r2-m1', { winnerId: 'a' });
+    expect(() => recordBracketResult(decided, 'r1-m1', { winnerId: 'd' })).toThrow(
+      'Later bracket matches have already been decided'
+    );
+  });
+
+  it('decides a single elimination bracket with the final and crowns its winner', () => {
+    const structure = playAll(generateSingleElimination(['a', 'b', 'c', 'd']), [
+      ['r1-m1', 'a'],
+      ['r1-m2', 'c'],
+    ]);
+    expect(isBracketDecided(structure)).toBe(false);
+    expect(getBracketChampion(structure)).toBeUndefined();
+
+    const decided = recordBracketResult(structure, 'r2-m1', { winnerId: 'c' });
+    expect(isBracketDecided(decided)).toBe(true);
+    expect(getBracketChampion(decided)).toBe('c');
+    expect(getBracketChampion(recordBracketResult(decided, 'r2-m1', { winnerId: 'a' }))).toBe('a');
+  });
+});
+
+describe('clearBracketResult', () => {
+  it('takes the winner back out of the next match', () => {
+    const structure = playAll(generateSingleElimination(['a', 'b', 'c', 'd']), [
+      ['r1-m1', 'a'],
+      ['r1-m2', 'b'],
+    ]);
+    const cleared = clearBracketResult(structure, 'r1-m1');
+
+    expect(findBracketMatch(cleared, 'r1-m1')?.winnerId).toBeUndefined();
+    expect(findBracketMatch(cleared, 'r2-m1')?.participant1).toBeUndefined();
+    expect(findBracketMatch(cleared, 'r2-m1')?.participant2).toBe('b');
+    expect(findBracketMatch(structure, 'r2-m1')?.participant1).toBe('a');
+  });
+
+  it('leaves the bracket undecided when the final is reopened', () => {
+    const decided = playAll(generateSingleElimination(['a', 'b', 'c', 'd']), [
+      ['r1-m1', 'a'],
+      ['r1-m2', 'b'],
+      ['r2-m1', 'a'],
+    ]);
+
+    expect(getBracketChampion(clearBracketResult(decided, 'r2-m1'))).toBeUndefined();
+    expect(() => clearBracketResult(decided, 'r1-m1')).toThrow('Later bracket matches have already been decided');
+  });
+});
+
+describe('generateDoubleElimination', () => {
+  const throughLosersFinal = () =>
+    playAll(generateDoubleElimination(['a', 'b', 'c', 'd']), [
+      ['w1-m1', 'a'],
+      ['w1-m2', 'b'],
+      ['w2-m1', 'a'],
+      ['l1-m1', 'd'],
+      ['l2-m1', 'b'],
+    ]);
+
+  it('drops winners bracket losers into the losers bracket', () => {
+    const structure = playAll(generateDoubleElimination(['a', 'b', 'c', 'd']), [
+      ['w1-m1', 'a'],
+      ['w1-m2', 'b'],
+    ]);
+
+    expect(findBracketMatch(structure, 'l1-m1')).toMatchObject({ participant1: 'd', participant2: 'c' });
+  });
+
+  it('sends both finalists to the grand final', () => {
+    expect(findBracketMatch(throughLosersFinal(), 'gf1-m1')).toMatchObject({ participant1: 'a', participant2: 'b' });
+  });
+
+  it('is decided when the winners bracket champion wins the grand final', () => {
+    const structure = recordBracketResult(throughLosersFinal(), 'gf1-m1', { winnerId: 'a' });
+
+    expect(isBracketDecided(structure)).toBe(true);
+    expect(getBracketChampion(structure)).toBe('a');
+    expect(findBracketMatch(structure, 'gf2-m1')?.participant1).toBeUndefined();
+  });
+
+  it('plays a reset when the losers bracket champion wins the grand final', () => {
+    const structure = recordBracketResult(throughLosersFinal(), 'gf1-m1', { winnerId: 'b' });
+
+    expect(findBracketMatch(structure, 'gf2-m1')).toMatchObject({ participant1: 'a', participant2: 'b' });
+    expect(getBracketChampion(structure)).toBeUndefined();
+    expect(getBracketChampion(recordBracketResult(structure, 'gf2-m1', { winnerId: 'a' }))).toBe('a');
+  });
+
+  it('is undecided again when a corrected grand final needs a reset', () => {
+    const decided = recordBracketResult(throughLosersFinal(), 'gf1-m1', { winnerId: 'a' });
+
+    expect(getBracketChampion(recordBracketResult(decided, 'gf1-m1', { winnerId: 'b' }))).toBeUndefined();
+  });
+});
+
+describe('generateRoundRobin', () => {
+  it('has everyone in a group play everyone else once', () => {
+    const structure = generateRoundRobin(['a', 'b', 'c', 'd']);
+    const [group] = structure.groups || [];
+    const played = group.rounds.flat().map((match) => [match.participant1, match.participant2].sort().join('-'));
+
+    expect(group.rounds).toHaveLength(3);
+    expect(new Set(played).size).toBe(6);
+  });
+
+  it('spreads seeds across groups in snake order', () => {
+    const structure = generateRoundRobin(['a', 'b', 'c', 'd', 'e', 'f', 'g', 'h'], 2);
+
+    expect(structure.groups?.map((group) => group.participants)).toEqual([
+      ['a', 'd', 'e', 'h'],
+      ['b', 'c', 'f', 'g'],
+    ]);
+  });
+});
+
+describe('Swiss', () => {
+  it('pairs the top half against the bottom half and gives the last seed a bye', () => {
+    const structure = generateSwiss(['a', 'b', 'c', 'd', 'e']);
+    const [round] = structure.rounds;
+
+    expect(pairings(round)).toEqual([
+      ['a', 'c'],
+      ['b', 'd'],
+    ]);
+    expect(round.find((match) => match.isBye)).toMatchObject({ participant1: 'e', winnerId: 'e' });
+  });
+
+  it('only pairs the next round once the current one is finished', () => {
+    const participants = ['a', 'b', 'c', 'd'];
+    const structure = generateSwiss(participants);
+    expect(() => generateNextSwissRound(structure, participants)).toThrow('Finish the current round');
+
+    const next = generateNextSwissRound(
+      playAll(structure, [
+        ['s1-m1', 'a'],
+        ['s1-m2', 'b'],
+      ]),
+      participants
+    );
+    // Winners meet winners, without rematches
+    expect(pairings(next.rounds[1])).toEqual([
+      ['a', 'b'],
+      ['c', 'd'],
+    ]);
+  });
+});
+
+describe('getPlayableMatches', () => {
+  it('lists filled slots that have no result or spawned match yet', () => {
+    const structure = recordBracketResult(generateSingleElimination(['a', 'b', 'c', 'd', 'e']), 'r1-m2', {
+      winnerId: 'd',
+    });
+    structure.rounds[1][1].matchId = 'match-1';
+
+    // Byes and the decided match are skipped, and r2-m2 already has a match
+    expect(getPlayableMatches(structure).map((match) => match.id)).toEqual(['r2-m1']);
+  });
+});
+
+describe('getRoundName', () => {
+  it('names elimination rounds from the final backwards', () => {
+    expect([0, 1, 2, 3].map((round) => getRoundName(round, 4))).toEqual([
+      'Round 1',
+      'Quarterfinals',
+      'Semifinals',
+      'Final',
+    ]);
+  });
+});
+
+describe('getBracketMatchLabel', () => {
+  it('names elimination rounds from the final backwards', () => {
+    const structure = generateSingleElimination(['a', 'b', 'c', 'd']);
+
+    expect(getBracketMatchLabel(structure, 'r1-m2')).toBe('Semifinals · Match 2');
+    expect(getBracketMatchLabel(structure, 'r2-m1')).toBe('Final · Match 1');
+  });
+
+  it('names the double elimination grand final and reset', () => {
+    const structure = generateDoubleElimination(['a', 'b', 'c', 'd']);
+
+    expect(getBracketMatchLabel(structure, 'gf1-m1')).toBe('Grand Final');
+    expect(getBracketMatchLabel(structure, 'gf2-m1')).toBe('Grand Final (Reset)');
+    expect(getBracketMatchLabel(structure, 'l1-m1')).toBe('Losers Round 1 · Match 1');
+  });
+});
@@ -0,0 +1,702 @@
+import type { Bracket, BracketGroup, BracketMatch, TournamentFormat } from '@/types';
+import { getSwissStandings } from '@/lib/standings';
+
+// The parts of a bracket that are generated (everything but IDs and timestamps)
+export type BracketStructure = Pick<
+  Bracket,
+  'format' | 'rounds' | 'losersRounds' | 'grandFinal' | 'groups'
+>;
+
+export const TOURNAMENT_FORMAT_LABELS: Record<TournamentFormat, string> = {
+  single_elimination: 'Single Elimination',
+  double_elimination: 'Double Elimination',
+  round_robin: 'Round Robin Groups',
+  swiss: 'Swiss',
+};
+
+// Smallest power of two that fits every participant (minimum 2)
+const nextPowerOfTwo = (count: number): number => {
+  let size = 2;
+  while (size < count) size *= 2;
+  return size;
+};
+
+// Standard seeding order for a bracket of the given size,
+// e.g. 8 -> [1, 8, 4, 5, 2, 7, 3, 6] so top seeds only meet in later rounds
+const getSeedOrder = (size: number): number[] => {
+  let order = [1, 2];
+  while (order.length < size) {
+    const total = order.length * 2 + 1;
+    order = order.flatMap((seed) => [seed, total - seed]);
+  }
+  return order;
+};
+
+// Randomize seeds (Fisher-Yates) for brackets without a ranking
+export const shuffleSeeds = (participants: string[]): string[] => {
+  const shuffled = [...participants];
+  for (let i = shuffled.length - 1; i > 0; i--) {
+    const j = Math.floor(Math.random() * (i + 1));
+    [shuffled[i], shuffled[j]] = [shuffled[j], shuffled[i]];
+  }
+  return shuffled;
+};
+
+export const getBracketMatchId = (round: number, matchNumber: number, prefix = 'r'): string =>
+  `${prefix}${round}-m${matchNumber}`;
+
+// Display name for an elimination round, counted from the final backwards
+export const getRoundName = (roundIndex: number, totalRounds: number): string => {
+  const fromEnd = totalRounds - roundIndex;
+  if (fromEnd === 1) return 'Final';
+  if (fromEnd === 2) return 'Semifinals';
+  if (fromEnd === 3) return 'Quarterfinals';
+  return `Round ${roundIndex + 1}`;
+};
+
+// Every list of matches in the bracket, in the order they are played
+export const getAllRounds = (structure: BracketStructure): BracketMatch[][] => [
+  ...(structure.groups || []).flatMap((group) => group.rounds),
+  ...structure.rounds,
+  ...(structure.losersRounds || []),
+  ...(structure.grandFinal ? [structure.grandFinal] : []),
+];
+
+export const findBracketMatch = (
+  structure: BracketStructure,
+  matchId: string
+): BracketMatch | undefined => {
+  for (const round of getAllRounds(structure)) {
+    const match = round.find((m) => m.id === matchId);
+    if (match) return match;
+  }
+  return undefined;
+};
+
+const cloneRounds = (rounds: BracketMatch[][]): BracketMatch[][] =>
+  rounds.map((round) => round.map((match) => ({ ...match })));
+
+export const cloneStructure = (structure: BracketStructure): BracketStructure => ({
+  ...structure,
+  rounds: cloneRounds(structure.rounds),
+  losersRounds: structure.losersRounds ? cloneRounds(structure.losersRounds) : undefined,
+  grandFinal: structure.grandFinal?.map((match) => ({ ...match })),
+  groups: structure.groups?.map((group) => ({
+    ...group,
+    participants: [...group.participants],
+    rounds: cloneRounds(group.rounds),
+  })),
+});
+
+// Put a participant into a slot; a bye match passes them straight through
+const placeParticipant = (
+  structure: BracketStructure,
+  matchId: string,
+  slot: 1 | 2,
+  participantId: string
+): void => {
+  const match = findBracketMatch(structure, matchId);
+  if (!match) return;
+  if (slot === 1) {
+    match.participant1 = participantId;
+  } else {
+    match.participant2 = participantId;
+  }
+  if (match.isBye) {
+    applyWinner(structure, match, participantId);
+  }
+};
+
+// Record a winner on a (mutable) match and route both sides onwards
+const applyWinner = (structure: BracketStructure, match: BracketMatch, winnerId: string): void => {
+  match.winnerId = winnerId;
+  const loserId = match.participant1 === winnerId ? match.participant2 : match.participant1;
+
+  // Grand final: the losers bracket champion forces a reset match
+  const [grandFinal, reset] = structure.grandFinal || [];
+  if (grandFinal && match.id === grandFinal.id) {
+    if (reset && winnerId === grandFinal.participant2 && loserId) {
+      reset.participant1 = grandFinal.participant1;
+      reset.participant2 = grandFinal.participant2;
+    } else if (reset && !reset.winnerId) {
+      // A corrected result can take the reset away again
+      delete reset.participant1;
+      delete reset.participant2;
+    }
+    return;
+  }
+
+  if (match.nextMatchId && match.nextSlot) {
+    placeParticipant(structure, match.nextMatchId, match.nextSlot, winnerId);
+  }
+  if (loserId && match.loserNextMatchId && match.loserNextSlot) {
+    placeParticipant(structure, match.loserNextMatchId, match.loserNextSlot, loserId);
+  }
+};
+
+// Set the winner of a bracket match and advance them (and, in double
+// elimination, drop the loser). Returns a new structure; the input is untouched.
+export const advanceWinner = (
+  structure: BracketStructure,
+  matchId: string,
+  winnerId: string
+): BracketStructure => {
+  const updated = cloneStructure(structure);
+  const match = findBracketMatch(updated, matchId);
+  if (!match) {
+    throw new Error('Bracket match not found');
+  }
+  applyWinner(updated, match, winnerId);
+  return updated;
+};
+
+export interface BracketResult {
+  winnerId: string;
+  score1?: number;
+  score2?: number;
+  completedAt?: Date;
+}
+
+// Whether a match the result fed into has been decided since
+const isDownstreamDecided = (structure: BracketStructure, match: BracketMatch): boolean =>
+  [match.nextMatchId, match.loserNextMatchId]
+    .map((id) => (id ? findBracketMatch(structure, id) : undefined))
+    .some((next) => !!next && !next.isBye && !!next.winnerId);
+
+// Record a played result and advance the winner. A result can be corrected
+// as long as the matches it feeds into haven't been decided yet.
+export const recordBracketResult = (
+  structure: BracketStructure,
+  matchId: string,
+  result: BracketResult
+): BracketStructure => {
+  const current = findBracketMatch(structure, matchId);
+  if (!current) {
+    throw new Error('Bracket match not found');
+  }
+  if (result.winnerId !== current.participant1 && result.winnerId !== current.participant2) {
+    throw new Error('Winner is not in this bracket match');
+  }
+  if (current.winnerId && current.winnerId !== result.winnerId && isDownstreamDecided(structure, current)) {
+    throw new Error('Later bracket matches have already been decided');
+  }
+
+  const updated = advanceWinner(structure, matchId, result.winnerId);
+  const match = findBracketMatch(updated, matchId) as BracketMatch;
+  match.score1 = result.score1;
+  match.score2 = result.score2;
+  match.completedAt = result.completedAt || new Date();
+  return updated;
+};
+
+// Take a participant back out of a slot, along with anything a bye passed
+// them on to
+const removeParticipant = (structure: BracketStructure, matchId: string, slot: 1 | 2): void => {
+  const match = findBracketMatch(structure, matchId);
+  if (!match) return;
+  if (slot === 1) {
+    delete match.participant1;
+  } else {
+    delete match.participant2;
+  }
+  if (match.isBye && match.winnerId) {
+    delete match.winnerId;
+    if (match.nextMatchId && match.nextSlot) removeParticipant(structure, match.nextMatchId, match.nextSlot);
+  }
+};
+
+// Take a result off the bracket when its match is reopened, pulling both
+// sides back out of the matches they moved on to. Like a correction, only
+// while those matches haven't been decided.
+export const clearBracketResult = (structure: BracketStructure, matchId: string): BracketStructure => {
+  const updated = cloneStructure(structure);
+  const match = findBracketMatch(updated, matchId);
+  if (!match) {
+    throw new Error('Bracket match not found');
+  }
+  if (!match.winnerId) return updated;
+
+  const [grandFinal, reset] = updated.grandFinal || [];
+  if (isDownstreamDecided(updated, match) || (match.id === grandFinal?.id && reset?.winnerId)) {
+    throw new Error('Later bracket matches have already been decided');
+  }
+
+  if (match.id === grandFinal?.id && reset) {
+    delete reset.participant1;
+    delete reset.participant2;
+  }
+  if (match.nextMatchId && match.nextSlot) {
+    removeParticipant(updated, match.nextMatchId, match.nextSlot);
+  }
+  if (match.loserNextMatchId && match.loserNextSlot) {
+    removeParticipant(updated, match.loserNextMatchId, match.loserNextSlot);
+  }
+  delete match.winnerId;
+  delete match.score1;
+  delete match.score2;
+  delete match.completedAt;
+  return updated;
+};
+
+// Matches that are ready to be played but don't have a Match document yet
+export const getPlayableMatches = (structure: BracketStructure): BracketMatch[] =>
+  getAllRounds(structure)
+    .flat()
+    .filter(
+      (match) =>
+        !!match.participant1 && !!match.participant2 && !match.isBye && !match.winnerId && !match.matchId
+    );
+
+// Human readable name for a bracket match, e.g. "Semifinals · Match 2"
+export const getBracketMatchLabel = (structure: BracketStructure, matchId: string): string => {
+  const match = findBracketMatch(structure, matchId);
+  if (!match) return 'Match';
+  const suffix = `Match ${match.matchNumber}`;
+
+  const [grandFinal, reset] = structure.grandFinal || [];
+  if (match.id === grandFinal?.id) return 'Grand Final';
+  if (match.id === reset?.id) return 'Grand Final (Reset)';
+  if (structure.losersRounds?.some((round) => round.includes(match))) {
+    return `Losers Round ${match.round} · ${suffix}`;
+  }
+  const group = structure.groups?.find((g) => g.rounds.some((round) => round.includes(match)));
+  if (group) return `${group.name} Round ${match.round} · ${suffix}`;
+  if (structure.format === 'swiss') return `Round ${match.round} · ${suffix}`;
+  if (structure.format === 'round_robin') {
+    return `Playoffs ${getRoundName(match.round - 1, structure.rounds.length)} · ${suffix}`;
+  }
+  if (structure.format === 'double_elimination') return `Winners Round ${match.round} · ${suffix}`;
+  return `${getRoundName(match.round - 1, structure.rounds.length)} · ${suffix}`;
+};
+
+// Find the undecided bracket match between two participants (either order)
+export const findBracketMatchByParticipants = (
+  structure: BracketStructure,
+  participantA: string,
+  participantB: string
+): BracketMatch | undefined =>
+  getAllRounds(structure)
+    .flat()
+    .find(
+      (match) =>
+        !match.winnerId &&
+        ((match.participant1 === participantA && match.participant2 === participantB) ||
+          (match.participant1 === participantB && match.participant2 === participantA))
+    );
+
+// Build one elimination tree. Round 1 is filled from the seeded slots;
+// later rounds are linked through nextMatchId/nextSlot.
+const buildEliminationTree = (slots: (string | undefined)[], prefix: string): BracketMatch[][] => {
+  const totalRounds = Math.log2(slots.length);
+  const rounds: BracketMatch[][] = [];
+
+  for (let r = 0; r < totalRounds; r++) {
+    const matchCount = slots.length / 2 ** (r + 1);
+    rounds.push(
+      Array.from({ length: matchCount }, (_, m) => {
+        const match: BracketMatch = {
+          id: getBracketMatchId(r + 1, m + 1, prefix),
+          round: r + 1,
+          matchNumber: m + 1,
+        };
+        if (r === 0) {
+          match.participant1 = slots[m * 2];
+          match.participant2 = slots[m * 2 + 1];
+        }
+        if (r < totalRounds - 1) {
+          match.nextMatchId = getBracketMatchId(r + 2, Math.floor(m / 2) + 1, prefix);
+          match.nextSlot = m % 2 === 0 ? 1 : 2;
+        }
+        return match;
+      })
+    );
+  }
+  return rounds;
+};
+
+// Work out which matches can only ever receive one participant (byes),
+// flag them, and push the first-round bye winners onwards
+const resolveByes = (structure: BracketStructure): BracketStructure => {
+  const allMatches = getAllRounds(structure).flat();
+  const feeds = new Map<string, { from: BracketMatch; outcome: 'winner' | 'loser' }[]>();
+
+  allMatches.forEach((match) => {
+    if (match.nextMatchId) {
+      feeds.set(match.nextMatchId, [...(feeds.get(match.nextMatchId) || []), { from: match, outcome: 'winner' }]);
+    }
+    if (match.loserNextMatchId) {
+      feeds.set(match.loserNextMatchId, [
+        ...(feeds.get(match.loserNextMatchId) || []),
+        { from: match, outcome: 'loser' },
+      ]);
+    }
+  });
+
+  // Matches are listed in play order, so every feed is resolved before it's used
+  const deadWinner = new Set<string>();
+  const deadLoser = new Set<string>();
+  allMatches.forEach((match) => {
+    const incoming = feeds.get(match.id);
+    let deadFeeds = 0;
+    if (incoming) {
+      deadFeeds =
+        2 -
+        incoming.filter(({ from, outcome }) =>
+          outcome === 'winner' ? !deadWinner.has(from.id) : !deadLoser.has(from.id)
+        ).length;
+    } else if (match.round === 1) {
+      deadFeeds = [match.participant1, match.participant2].filter((p) => !p).length;
+    }
+
+    if (deadFeeds > 0) {
+      match.isBye = true;
+      deadLoser.add(match.id);
+    }
+    if (deadFeeds > 1) {
+      deadWinner.add(match.id);
+    }
+  });
+
+  // Advance first-round bye winners
+  let resolved = structure;
+  getAllRounds(structure)
+    .flat()
+    .filter((match) => match.isBye && (match.participant1 || match.participant2) && !match.winnerId)
+    .forEach((match) => {
+      resolved = advanceWinner(resolved, match.id, (match.participant1 || match.participant2) as string);
+    });
+  return resolved;
+};
+
+const assertEnoughParticipants = (participants: string[]) => {
+  if (participants.length < 2) {
+    throw new Error('At least 2 participants are needed to generate a bracket');
+  }
+};
+
+// Build a single-elimination bracket from participants in seed order
+// (index 0 = top seed). Fields that aren't a power of two get byes for
+// the top seeds, and bye winners are advanced straight into round 2.
+export const generateSingleElimination = (seededParticipants: string[]): BracketStructure => {
+  assertEnoughParticipants(seededParticipants);
+  const size = nextPowerOfTwo(seededParticipants.length);
+  const slots = getSeedOrder(size).map((seed) => seededParticipants[seed - 1]);
+  return resolveByes({ format: 'single_elimination', rounds: buildEliminationTree(slots, 'r') });
+};
+
+// Double elimination: a winners bracket, a losers bracket that alternates
+// between "losers play each other" and "winners bracket losers drop in"
+// rounds, and a grand final with a reset if the losers champion wins it.
+export const generateDoubleElimination = (seededParticipants: string[]): BracketStructure => {
+  assertEnoughParticipants(seededParticipants);
+  const size = nextPowerOfTwo(seededParticipants.length);
+  const winnersRoundCount = Math.log2(size);
+  const slots = getSeedOrder(size).map((seed) => seededParticipants[seed - 1]);
+  const rounds = buildEliminationTree(slots, 'w');
+
+  const losersRounds: BracketMatch[][] = [];
+  for (let j = 1; j <= 2 * (winnersRoundCount - 1); j++) {
+    const matchCount = size / 2 ** (Math.ceil(j / 2) + 1);
+    losersRounds.push(
+      Array.from({ length: matchCount }, (_, m) => ({
+        id: getBracketMatchId(j, m + 1, 'l'),
+        round: j,
+        matchNumber: m + 1,
+      }))
+    );
+  }
+
+  const grandFinal: BracketMatch[] = [
+    { id: 'gf1-m1', round: 1, matchNumber: 1 },
+    { id: 'gf2-m1', round: 2, matchNumber: 1 },
+  ];
+
+  // Winners bracket losers drop into the losers bracket
+  rounds.forEach((round, r) => {
+    round.forEach((match, m) => {
+      if (losersRounds.length === 0) {
+        // Two-player field: the loser goes straight to the grand final
+        match.loserNextMatchId = grandFinal[0].id;
+        match.loserNextSlot = 2;
+      } else if (r === 0) {
+        match.loserNextMatchId = losersRounds[0][Math.floor(m / 2)].id;
+        match.loserNextSlot = m % 2 === 0 ? 1 : 2;
+      } else {
+        // Drop-in rounds are reversed to delay rematches
+        const target = losersRounds[2 * r - 1];
+        match.loserNextMatchId = target[target.length - 1 - m].id;
+        match.loserNextSlot = 2;
+      }
+    });
+  });
+  const winnersFinal = rounds[rounds.length - 1][0];
+  winnersFinal.nextMatchId = grandFinal[0].id;
+  winnersFinal.nextSlot = 1;
+
+  // Losers bracket progression
+  losersRounds.forEach((round, j) => {
+    round.forEach((match, m) => {
+      const next = losersRounds[j + 1];
+      if (!next) {
+        match.nextMatchId = grandFinal[0].id;
+        match.nextSlot = 2;
+      } else if (j % 2 === 0) {
+        // Into the drop-in round, facing a winners bracket loser
+        match.nextMatchId = next[m].id;
+        match.nextSlot = 1;
+      } else {
+        match.nextMatchId = next[Math.floor(m / 2)].id;
+        match.nextSlot = m % 2 === 0 ? 1 : 2;
+      }
+    });
+  });
+
+  return resolveByes({ format: 'double_elimination', rounds, losersRounds, grandFinal });
+};
+
+// Split seeds into groups in snake order (A B C C B A ...) so every group
+// gets a similar spread of seeds
+const splitIntoGroups = (seededParticipants: string[], groupCount: number): string[][] => {
+  const groups: string[][] = Array.from({ length: groupCount }, () => []);
+  seededParticipants.forEach((participantId, i) => {
+    const lap = Math.floor(i / groupCount);
+    const position = i % groupCount;
+    groups[lap % 2 === 0 ? position : groupCount - 1 - position].push(participantId);
+  });
+  return groups;
+};
+
+// Circle-method schedule where everyone plays everyone once
+const scheduleRoundRobin = (participants: string[], prefix: string): BracketMatch[][] => {
+  const entrants: (string | undefined)[] = [...participants];
+  if (entrants.length % 2 === 1) entrants.push(undefined);
+
+  const rounds: BracketMatch[][] = [];
+  const rotating = entrants.slice(1);
+  for (let r = 0; r < entrants.length - 1; r++) {
+    const lineup = [entrants[0], ...rotating];
+    const round: BracketMatch[] = [];
+    for (let i = 0; i < lineup.length / 2; i++) {
+      const participant1 = lineup[i];
+      const participant2 = lineup[lineup.length - 1 - i];
+      // Pairings against the padding entry are rest rounds, not matches
+      if (!participant1 || !participant2) continue;
+      round.push({
+        id: `${prefix}-${getBracketMatchId(r + 1, round.length + 1)}`,
+        round: r + 1,
+        matchNumber: round.length + 1,
+        participant1,
+        participant2,
+      });
+    }
+    rounds.push(round);
+    rotating.unshift(rotating.pop() as string | undefined);
+  }
+  return rounds;
+};
+
+export const getGroupName = (index: number): string => `Group ${String.fromCharCode(65 + index)}`;
+
+// Round robin groups. The playoff bracket (rounds) stays empty until the
+// groups are finished and generatePlayoffs is called.
+export const generateRoundRobin = (seededParticipants: string[], groupCount = 1): BracketStructure => {
+  assertEnoughParticipants(seededParticipants);
+  const count = Math.max(1, Math.min(groupCount, Math.floor(seededParticipants.length / 2)));
+  const groups: BracketGroup[] = splitIntoGroups(seededParticipants, count).map((participants, i) => ({
+    name: getGroupName(i),
+    participants,
+    rounds: scheduleRoundRobin(participants, `g${i + 1}`),
+  }));
+  return { format: 'round_robin', rounds: [], groups };
+};
+
+// Seed the playoffs from group standings: every group winner first, then
+// every runner-up, and so on, so group winners avoid each other early
+export const generatePlayoffs = (
+  structure: BracketStructure,
+  rankedGroups: string[][],
+  advancePerGroup: number
+): BracketStructure => {
+  const seeds: string[] = [];
+  for (let place = 0; place < advancePerGroup; place++) {
+    rankedGroups.forEach((ranking) => {
+      if (ranking[place]) seeds.push(ranking[place]);
+    });
+  }
+  const playoffs = generateSingleElimination(seeds);
+  return { ...cloneStructure(structure), rounds: playoffs.rounds };
+};
+
+export const isRoundComplete = (round: BracketMatch[]): boolean =>
+  round.every((match) => !!match.winnerId || !!match.completedAt);
+
+export const getDefaultSwissRounds = (participantCount: number): number =>
+  Math.max(1, Math.ceil(Math.log2(Math.max(participantCount, 2))));
+
+export const generateSwiss = (seededParticipants: string[]): BracketStructure => {
+  assertEnoughParticipants(seededParticipants);
+  return generateNextSwissRound({ format: 'swiss', rounds: [] }, seededParticipants);
+};
+
+// Pair the next Swiss round. Round 1 pairs the top half of the seeds against
+// the bottom half; later rounds pair players on the same record (then by
+// opponents' wins), avoiding rematches where possible. With an odd field the
+// lowest-ranked player who hasn't had a bye yet gets one.
+export const generateNextSwissRound = (
+  structure: BracketStructure,
+  seededParticipants: string[]
+): BracketStructure => {
+  const previous = structure.rounds;
+  if (previous.length > 0 && !isRoundComplete(previous[previous.length - 1])) {
+    throw new Error('Finish the current round before pairing the next one');
+  }
+
+  const roundNumber = previous.length + 1;
+  const played = new Map<string, Set<string>>();
+  const wins = new Map<string, number>();
+  const hadBye = new Set<string>();
+  seededParticipants.forEach((id) => {
+    played.set(id, new Set());
+    wins.set(id, 0);
+  });
+  previous.flat().forEach((match) => {
+    if (match.participant1 && match.participant2) {
+      played.get(match.participant1)?.add(match.participant2);
+      played.get(match.participant2)?.add(match.participant1);
+    } else if (match.participant1) {
+      hadBye.add(match.participant1);
+    }
+    if (match.winnerId) wins.set(match.winnerId, (wins.get(match.winnerId) || 0) + 1);
+  });
+
+  const buchholz = (id: string) =>
+    [...(played.get(id) || [])].reduce((sum, opponent) => sum + (wins.get(opponent) || 0), 0);
+
+  let ranking = [...seededParticipants];
+  if (roundNumber > 1) {
+    ranking.sort(
+      (a, b) =>
+        (wins.get(b) || 0) - (wins.get(a) || 0) ||
+        buchholz(b) - buchholz(a) ||
+        seededParticipants.indexOf(a) - seededParticipants.indexOf(b)
+    );
+  }
+
+  let byeId: string | undefined;
+  if (ranking.length % 2 === 1) {
+    byeId = [...ranking].reverse().find((id) => !hadBye.has(id)) || ranking[ranking.length - 1];
+    ranking = ranking.filter((id) => id !== byeId);
+  }
+
+  if (roundNumber === 1) {
+    const half = ranking.length / 2;
+    const bottom = ranking.slice(half);
+    ranking = ranking.slice(0, half).flatMap((id, i) => [id, bottom[i]]);
+  }
+
+  const round: BracketMatch[] = [];
+  // Search for a rematch-free pairing that stays close to the ranking;
+  // give up after a bounded number of steps and accept rematches instead
+  let steps = 0;
+  const pairWithoutRematches = (ids: string[]): [string, string][] | null => {
+    if (ids.length === 0) return [];
+    const [first, ...rest] = ids;
+    for (let i = 0; i < rest.length && steps < 10000; i++) {
+      steps++;
+      if (played.get(first)?.has(rest[i])) continue;
+      const tail = pairWithoutRematches(rest.filter((_, j) => j !== i));
+      if (tail) return [[first, rest[i]], ...tail];
+    }
+    return null;
+  };
+  const pairings =
+    pairWithoutRematches(ranking) ||
+    Array.from({ length: ranking.length / 2 }, (_, i): [string, string] => [ranking[i * 2], ranking[i * 2 + 1]]);
+
+  pairings.forEach(([participant1, participant2]) => {
+    round.push({
+      id: getBracketMatchId(roundNumber, round.length + 1, 's'),
+      round: roundNumber,
+      matchNumber: round.length + 1,
+      participant1,
+      participant2,
+    });
+  });
+  if (byeId) {
+    round.push({
+      id: getBracketMatchId(roundNumber, round.length + 1, 's'),
+      round: roundNumber,
+      matchNumber: round.length + 1,
+      participant1: byeId,
+      winnerId: byeId,
+      isBye: true,
+    });
+  }
+
+  return { ...cloneStructure(structure), rounds: [...cloneRounds(previous), round] };
+};
+
+// Generate the opening structure for any format
+export const generateBracket = (
+  format: TournamentFormat,
+  seededParticipants: string[],
+  options: { groupCount?: number } = {}
+): BracketStructure => {
+  switch (format) {
+    case 'double_elimination':
+      return generateDoubleElimination(seededParticipants);
+    case 'round_robin':
+      return generateRoundRobin(seededParticipants, options.groupCount);
+    case 'swiss':
+      return generateSwiss(seededParticipants);
+    default:
+      return generateSingleElimination(seededParticipants);
+  }
+};
+
+// Whether the deciding match of the bracket has been played. Round robin
+// needs its playoffs, Swiss needs every scheduled round.
+export const isBracketDecided = (
+  structure: BracketStructure,
+  options: { swissRounds?: number; participantCount?: number } = {}
+): boolean => {
+  switch (structure.format) {
+    case 'double_elimination': {
+      const [grandFinal, reset] = structure.grandFinal || [];
+      if (!grandFinal?.winnerId) return false;
+      // The winners bracket champion only needs to win once
+      if (grandFinal.winnerId === grandFinal.participant1) return true;
+      return !!reset?.winnerId;
+    }
+    case 'swiss': {
+      const totalRounds = options.swissRounds || getDefaultSwissRounds(options.participantCount || 0);
+      const rounds = structure.rounds;
+      return rounds.length >= totalRounds && isRoundComplete(rounds[rounds.length - 1]);
+    }
+    default:
+      return !!structure.rounds[structure.rounds.length - 1]?.[0]?.winnerId;
+  }
+};
+
+// The tournament winner once the bracket is decided. Swiss has no final,
+// so the top of the standings wins.
+export const getBracketChampion = (
+  structure: BracketStructure,
+  options: { swissRounds?: number; participantCount?: number } = {}
+): string | undefined => {
+  if (!isBracketDecided(structure, options)) return undefined;
+  switch (structure.format) {
+    case 'double_elimination': {
+      const [grandFinal, reset] = structure.grandFinal || [];
+      return reset?.winnerId || grandFinal?.winnerId;
+    }
+    case 'swiss': {
+      const participants = (structure.rounds[0] || [])
+        .flatMap((match) => [match.participant1, match.participant2])
+        .filter((id): id is string => !!id);
+      return getSwissStandings(participants, structure.rounds)[0]?.participantId;
+    }
+    default:
+      return structure.rounds[structure.rounds.length - 1]?.[0]?.winnerId;
+  }
+};
@@ -0,0 +1,49 @@
+import { describe, expect, it } from 'vitest';
+import { buildCalendar, createCalendarFeedToken, getCalendarFeedUrl } from '@/lib/calendar';
+import type { Commitment } from '@/lib/conflicts';
+
+const match: Commitment = {
+  type: 'match',
+  id: 'm1',
+  title: 'Finals; Game 1, Map 2',
+  game: 'valorant',
+  href: '/matches/m1',
+  start: new Date('2026-11-01T18:00:00Z'),
+  end: new Date('2026-11-01T19:30:00Z'),
+};
+
+describe('buildCalendar', () => {
+  const calendar = buildCalendar('Lions · Esports', [match], 'https://example.com', { valorant: 'Valorant' }, match.start);
+  const lines = calendar.split('\r\n');
+
+  it('writes one event per commitment with a stable UID', () => {
+    expect(lines[0]).toBe('BEGIN:VCALENDAR');
+    expect(lines).toContain('UID:match-m1@example.com');
+    expect(lines).toContain('DTSTART:20261101T180000Z');
+    expect(lines).toContain('DTEND:20261101T193000Z');
+    expect(calendar.endsWith('END:VCALENDAR\r\n')).toBe(true);
+  });
+
+  it('escapes text values', () => {
+    expect(lines).toContain('SUMMARY:Finals\\; Game 1\\, Map 2');
+    expect(lines).toContain('DESCRIPTION:Valorant match\\nhttps://example.com/matches/m1');
+  });
+
+  it('folds lines longer than 75 characters', () => {
+    const long = buildCalendar('Lions', [{ ...match, title: 'x'.repeat(100) }], 'https://example.com');
+    const folded = long.split('\r\n').filter((line) => line.startsWith('SUMMARY:') || line.startsWith(' '));
+
+    expect(folded.every((line) => line.length <= 75)).toBe(true);
+    expect(folded.map((line, i) => (i === 0 ? line : line.slice(1))).join('')).toBe(`SUMMARY:${'x'.repeat(100)}`);
+  });
+});
+
+describe('createCalendarFeedToken', () => {
+  it('is long, random and URL safe', () => {
+    const token = createCalendarFeedToken();
+
+    expect(token).toMatch(/^[0-9a-f]{64}$/);
+    expect(createCalendarFeedToken()).not.toBe(token);
+    expect(getCalendarFeedUrl(token)).toBe(`/api/calendar/feeds/${token}`);
+  });
+});
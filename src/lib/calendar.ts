@@ -0,0 +1,85 @@
+import type { Commitment } from '@/lib/conflicts';
+
+// iCalendar (.ics) feeds served from /api/calendar/... Calendar apps
+// subscribe to the user and school feeds and poll them for changes.
+export const CALENDAR_PRODUCT_ID = '-//Gamzic//Esports Calendar//EN';
+
+// How often subscribed calendar apps should refresh a feed
+export const CALENDAR_REFRESH_INTERVAL = 'PT1H';
+
+// Subscription feeds are keyed by a secret token, not the owner's ID
+export const getCalendarFeedUrl = (token: string): string => `/api/calendar/feeds/${token}`;
+export const getMatchCalendarUrl = (matchId: string): string => `/api/calendar/matches/${matchId}`;
+export const getTournamentCalendarUrl = (tournamentId: string): string => `/api/calendar/tournaments/${tournamentId}`;
+
+// 32 random bytes, hex encoded
+export const createCalendarFeedToken = (): string =>
+  Array.from(crypto.getRandomValues(new Uint8Array(32)), (byte) => byte.toString(16).padStart(2, '0')).join('');
+
+// 20261101T180000Z
+const formatDateTime = (date: Date): string => date.toISOString().replace(/[-:]/g, '').replace(/\.\d{3}/, '');
+
+const escapeText = (text: string): string =>
+  text.replace(/\\/g, '\\\\').replace(/\r?\n/g, '\\n').replace(/[;,]/g, (char) => `\\${char}`);
+
+// Content lines longer than 75 characters continue on lines starting with a space
+const foldLine = (line: string): string => {
+  const chunks = [line.slice(0, 75)];
+  for (let i = 75; i < line.length; i += 74) chunks.push(line.slice(i, i + 74));
+  return chunks.join('\r\n ');
+};
+
+// One VEVENT per commitment. UIDs stay the same across refreshes so calendar
+// apps update events in place; gameNames maps game IDs to display names.
+const buildEvent = (
+  commitment: Commitment,
+  origin: string,
+  gameNames: Record<string, string>,
+  now: Date
+): string[] => {
+  const url = `${origin}${commitment.href}`;
+  const gameName = gameNames[commitment.game] || commitment.game;
+  return [
+    'BEGIN:VEVENT',
+    `UID:${commitment.type}-${commitment.id}@${new URL(origin).host}`,
+    `DTSTAMP:${formatDateTime(now)}`,
+    `DTSTART:${formatDateTime(commitment.start)}`,
+    `DTEND:${formatDateTime(commitment.end)}`,
+    `SUMMARY:${escapeText(commitment.title)}`,
+    `DESCRIPTION:${escapeText(`${gameName} ${commitment.type}\n${url}`)}`,
+    `URL:${url}`,
+    'END:VEVENT',
+  ];
+};
+
+export const buildCalendar = (
+  name: string,
+  commitments: Commitment[],
+  origin: string,
+  gameNames: Record<string, string> = {},
+  now = new Date()
+): string =>
+  [
+    'BEGIN:VCALENDAR',
+    'VERSION:2.0',
+    `PRODID:${CALENDAR_PRODUCT_ID}`,
+    'CALSCALE:GREGORIAN',
+    'METHOD:PUBLISH',
+    `X-WR-CALNAME:${escapeText(name)}`,
+    `REFRESH-INTERVAL;VALUE=DURATION:${CALENDAR_REFRESH_INTERVAL}`,
+    `X-PUBLISHED-TTL:${CALENDAR_REFRESH_INTERVAL}`,
+    ...commitments.flatMap((commitment) => buildEvent(commitment, origin, gameNames, now)),
+    'END:VCALENDAR',
+  ]
+    .map(foldLine)
+    .join('\r\n') + '\r\n';
+
+// filename without the .ics extension
+export const toCalendarResponse = (calendar: string, filename: string): Response =>
+  new Response(calendar, {
+    headers: {
+      'Content-Type': 'text/calendar; charset=utf-8',
+      'Content-Disposition': `inline; filename="${filename.replace(/[^\w-]+/g, '-')}.ics"`,
+      'Cache-Control': 'no-store',
+    },
+  });
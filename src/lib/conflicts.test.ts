@@ -0,0 +1,68 @@
+import { describe, expect, it } from 'vitest';
+import {
+  describeConflicts,
+  findConflicts,
+  getMatchWindow,
+  getParticipantIds,
+  mergeCommitments,
+  overlaps,
+  type Commitment,
+} from '@/lib/conflicts';
+
+const at = (time: string) => new Date(`2026-11-01T${time}:00Z`);
+
+const commitment = (id: string, start: string, end: string, type: Commitment['type'] = 'match'): Commitment => ({
+  type,
+  id,
+  title: `Event ${id}`,
+  game: 'valorant',
+  href: `/${type}es/${id}`,
+  start: at(start),
+  end: at(end),
+});
+
+describe('getMatchWindow', () => {
+  it('takes one game duration per game the series could go to', () => {
+    const window = getMatchWindow({ scheduledTime: at('18:00'), bestOf: 3 }, { matchDurationMinutes: 40 });
+    expect(window).toEqual({ start: at('18:00'), end: at('20:00') });
+  });
+
+  it('assumes an hour when the game has no duration', () => {
+    expect(getMatchWindow({ scheduledTime: at('18:00') })?.end).toEqual(at('19:00'));
+  });
+
+  it('has no window without a start time', () => {
+    expect(getMatchWindow({})).toBeNull();
+  });
+});
+
+describe('findConflicts', () => {
+  it('treats back to back commitments as free', () => {
+    expect(overlaps(commitment('a', '18:00', '19:00'), commitment('b', '19:00', '20:00'))).toBe(false);
+  });
+
+  it('skips the commitment being booked', () => {
+    const booked = [commitment('a', '18:00', '19:00'), commitment('b', '18:30', '19:30')];
+    const conflicts = findConflicts({ start: at('18:15'), end: at('18:45') }, booked, 'a');
+
+    expect(conflicts.map((conflict) => conflict.id)).toEqual(['b']);
+    expect(describeConflicts([...booked].reverse())).toMatch(/^This overlaps Event b \(.*\) and 1 more$/);
+  });
+});
+
+describe('mergeCommitments', () => {
+  it('lists each commitment once, soonest first', () => {
+    const merged = mergeCommitments(
+      [commitment('a', '20:00', '21:00'), commitment('b', '18:00', '19:00')],
+      [commitment('a', '20:00', '21:00'), commitment('a', '12:00', '23:00', 'tournament')]
+    );
+
+    expect(merged.map((item) => `${item.type}_${item.id}`)).toEqual(['tournament_a', 'match_b', 'match_a']);
+  });
+});
+
+describe('getParticipantIds', () => {
+  it('uses the user or team behind each participant', () => {
+    expect(getParticipantIds([{ oduserId: 'u1' }, { teamId: 't1' }, {}])).toEqual(['u1', 't1']);
+  });
+});
@@ -0,0 +1,93 @@
+import { format } from 'date-fns';
+import type { Game, Match, MatchParticipant, Tournament } from '@/types';
+
+// Games without their own duration assume an hour per game
+export const DEFAULT_MATCH_DURATION_MINUTES = 60;
+
+// How far before a window to look for matches that may still be running
+export const COMMITMENT_LOOKBACK_MS = 24 * 60 * 60 * 1000;
+
+// How far ahead the schedule view and calendar feeds look
+export const SCHEDULE_HORIZON_MS = 90 * 24 * 60 * 60 * 1000;
+
+export const getScheduleHorizon = (from: Date): Date => new Date(from.getTime() + SCHEDULE_HORIZON_MS);
+
+// Stored on a match as participantIds so a player's or team's matches can be queried
+export const getParticipantIds = (participants: Pick<MatchParticipant, 'oduserId' | 'teamId'>[]): string[] =>
+  participants.flatMap((p) => {
+    const participantId = p.oduserId || p.teamId;
+    return participantId ? [participantId] : [];
+  });
+
+export interface TimeWindow {
+  start: Date;
+  end: Date;
+}
+
+// Something a player or team is booked into
+export interface Commitment extends TimeWindow {
+  type: 'match' | 'tournament';
+  id: string;
+  title: string;
+  game: string;
+  href: string;
+}
+
+// A series takes one game's duration per game it could go to
+export const getMatchDurationMinutes = (
+  game: Pick<Game, 'matchDurationMinutes'> | null | undefined,
+  bestOf = 1
+): number => (game?.matchDurationMinutes || DEFAULT_MATCH_DURATION_MINUTES) * Math.max(1, bestOf);
+
+// When a match runs, or null if it has no start time yet
+export const getMatchWindow = (
+  match: Pick<Match, 'scheduledTime' | 'bestOf'>,
+  game?: Pick<Game, 'matchDurationMinutes'> | null
+): TimeWindow | null =>
+  match.scheduledTime
+    ? {
+        start: match.scheduledTime,
+        end: new Date(match.scheduledTime.getTime() + getMatchDurationMinutes(game, match.bestOf) * 60 * 1000),
+      }
+    : null;
+
+export const getTournamentWindow = (tournament: Pick<Tournament, 'dateStart' | 'dateEnd'>): TimeWindow => ({
+  start: tournament.dateStart,
+  end: tournament.dateEnd,
+});
+
+export const toMatchCommitment = (match: Match, window: TimeWindow): Commitment => ({
+  type: 'match',
+  id: match.id,
+  title: match.title,
+  game: match.game,
+  href: `/matches/${match.id}`,
+  ...window,
+});
+
+export const toTournamentCommitment = (tournament: Tournament): Commitment => ({
+  type: 'tournament',
+  id: tournament.id,
+  title: tournament.title,
+  game: tournament.game,
+  href: `/tournaments/${tournament.id}`,
+  ...getTournamentWindow(tournament),
+});
+
+// One list, soonest first, with each match or tournament listed once
+export const mergeCommitments = (...lists: Commitment[][]): Commitment[] =>
+  [...new Map(lists.flat().map((commitment) => [`${commitment.type}_${commitment.id}`, commitment])).values()].sort(
+    (a, b) => a.start.getTime() - b.start.getTime()
+  );
+
+export const overlaps = (a: TimeWindow, b: TimeWindow): boolean => a.start < b.end && b.start < a.end;
+
+// Commitments that overlap the window, other than the one being booked
+export const findConflicts = (window: TimeWindow, commitments: Commitment[], excludeId?: string): Commitment[] =>
+  commitments.filter((commitment) => commitment.id !== excludeId && overlaps(window, commitment));
+
+export const describeConflicts = (conflicts: Commitment[]): string => {
+  const [first, ...rest] = conflicts;
+  const more = rest.length > 0 ? ` and ${rest.length} more` : '';
+  return `This overlaps ${first.title} (${format(first.start, 'MMM d, h:mm a')})${more}`;
+};
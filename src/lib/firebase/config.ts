@@ -1,6 +1,6 @@
 import { initializeApp, getApps, getApp, FirebaseApp } from 'firebase/app';
 import { getAuth, GoogleAuthProvider, Auth } from 'firebase/auth';
-import { getFirestore, Firestore } from 'firebase/firestore';
+import { getFirestore, connectFirestoreEmulator, Firestore } from 'firebase/firestore';
 import { getStorage, FirebaseStorage } from 'firebase/storage';
 
 const firebaseConfig = {
@@ -21,11 +21,20 @@ let db: Firestore | null = null;
 let storage: FirebaseStorage | null = null;
 let googleProvider: GoogleAuthProvider | null = null;
 
+// Local Firestore emulator (`firebase emulators:start`), e.g. localhost:8080
+const firestoreEmulatorHost = process.env.NEXT_PUBLIC_FIRESTORE_EMULATOR_HOST;
+
 if (isFirebaseConfigured) {
   // Initialize Firebase only if configured
-  app = getApps().length > 0 ? getApp() : initializeApp(firebaseConfig);
+  const isNewApp = getApps().length === 0;
+  app = isNewApp ? initializeApp(firebaseConfig) : getApp();
   auth = getAuth(app);
   db = getFirestore(app);
+  // Connect once; a reused app's Firestore is already connected
+  if (firestoreEmulatorHost && isNewApp) {
+    const [host, port] = firestoreEmulatorHost.split(':');
+    connectFirestoreEmulator(db, host, Number(port));
+  }
   storage = getStorage(app);
   googleProvider = new GoogleAuthProvider();
 } else if (typeof window !== 'undefined') {
@@ -3,6 +3,7 @@ import {
   doc,
   getDoc,
   getDocs,
+  getCountFromServer,
   setDoc,
   updateDoc,
   deleteDoc,
@@ -16,28 +17,119 @@ import {
   arrayRemove,
   increment,
   onSnapshot,
+  runTransaction,
+  writeBatch,
+  deleteField,
+  Transaction,
+  WriteBatch,
+  DocumentReference,
   DocumentSnapshot,
+  Query,
   QueryConstraint,
   Timestamp,
   Unsubscribe,
 } from 'firebase/firestore';
 import { db, isFirebaseConfigured } from './config';
+import {
+  cloneStructure,
+  findBracketMatch,
+  getAllRounds,
+  findBracketMatchByParticipants,
+  getBracketMatchLabel,
+  getPlayableMatches,
+  clearBracketResult,
+  getBracketChampion,
+  recordBracketResult,
+  type BracketStructure,
+} from '@/lib/brackets';
+import {
+  getNoShows,
+  getRegistrationClosedReason,
+  getTeamRegistrationIssues,
+  getWaitlistPromotions,
+  isCheckInOpen,
+  isTournamentFull,
+} from '@/lib/registration';
+import { DEFAULT_RATING, calculateRatingChanges, getRatingId } from '@/lib/ratings';
+import { ALL_GAMES, getLeaderboardEntryId, getPeriodKeys, getWinRate } from '@/lib/leaderboards';
+import { canSelfReport, getRespondingParticipant, getWinnerFromScores } from '@/lib/results';
+import { getSeriesScore, getSeriesWinner, isSeries } from '@/lib/series';
+import { getScoresFromEvents } from '@/lib/matchEvents';
+import { getEventPlayerError, getLineupError, getLineupStarterIds, isLineupLocked } from '@/lib/lineups';
+import {
+  getEventValidationError,
+  getEventValue,
+  getScoringTemplate,
+  getTemplateWinner,
+  isEventScored,
+} from '@/lib/scoring';
+import { buildMatchRecap, getRecapMode } from '@/lib/recap';
+import {
+  RECURRENCE_SHARED_FIELDS,
+  RECURRING_MATCH_TYPES,
+  getOccurrenceTimes,
+  getRecurrenceError,
+  isUpcomingOccurrence,
+} from '@/lib/recurrence';
+import { CHAT_HISTORY_LIMIT, getMessageError, getSlowModeSeconds, getSlowModeWait, isMatchParticipant } from '@/lib/matchChat';
+import {
+  COMMITMENT_LOOKBACK_MS,
+  describeConflicts,
+  findConflicts,
+  getParticipantIds,
+  getMatchWindow,
+  getTournamentWindow,
+  mergeCommitments,
+  toMatchCommitment,
+  toTournamentCommitment,
+  type Commitment,
+} from '@/lib/conflicts';
+import { createCalendarFeedToken } from '@/lib/calendar';
+import { addViewerSample, getViewerCutoff, isSampleDue } from '@/lib/presence';
+import { REMINDER_HORIZON, getDueReminders, shouldAutoStart, shouldExpire, type MatchReminder } from '@/lib/matchSchedule';
+import { createVetoSteps, getMapForGame, getMapOrder, getNextVetoStep, getRemainingMaps } from '@/lib/veto';
 import type {
   User,
   School,
+  CalendarFeed,
+  CalendarFeedOwnerType,
   Team,
   Tournament,
+  RegistrationStatus,
   Post,
   Comment,
   Notification,
   Bracket,
+  BracketMatch,
+  BracketGroup,
   Match,
   MatchParticipant,
+  MatchChallenge,
+  MatchLineup,
+  LineupPlayer,
+  ChallengeSide,
+  MatchResultReport,
+  MatchRecap,
+  MatchChatChannel,
+  MatchMessage,
+  MatchViewerStats,
+  MatchStatus,
+  RecurrenceRule,
+  MapVeto,
+  MatchEvent,
+  ScoringTemplate,
+  SeriesGame,
   Game,
   ReactionType,
   FeedStory,
   SponsoredContent,
+  Rating,
+  RatingChange,
+  RatingSubjectType,
+  LeaderboardEntry,
+  LeaderboardSort,
 } from '@/types';
+import { hasPermission } from '@/types';
 
 // Helper to check if db is available
 const getDb = () => {
@@ -272,6 +364,28 @@ export const getTeam = async (teamId: string): Promise<Team | null> => {
   } as Team;
 };
 
+export const getTeamsByIds = async (teamIds: string[]): Promise<Record<string, Team>> => {
+  if (teamIds.length === 0) return {};
+
+  const firestore = getDb();
+  const snapshots = await Promise.all(teamIds.map((id) => getDoc(doc(firestore, 'teams', id))));
+
+  const teams: Record<string, Team> = {};
+  snapshots.forEach((snapshot) => {
+    if (snapshot.exists()) {
+      const data = snapshot.data();
+      teams[snapshot.id] = {
+        id: snapshot.id,
+        ...data,
+        createdAt: convertTimestamp(data.createdAt),
+        updatedAt: convertTimestamp(data.updatedAt),
+      } as Team;
+    }
+  });
+
+  return teams;
+};
+
 export const createTeam = async (
   teamData: Omit<Team, 'id' | 'createdAt' | 'updatedAt'>
 ): Promise<string> => {
@@ -368,11 +482,8 @@ export const getTournaments = async (
   };
 };
 
-export const getTournament = async (tournamentId: string): Promise<Tournament | null> => {
-  const firestore = getDb();
-  const tournamentDoc = await getDoc(doc(firestore, 'tournaments', tournamentId));
-  if (!tournamentDoc.exists()) return null;
-  const data = tournamentDoc.data();
+const toTournament = (tournamentDoc: DocumentSnapshot): Tournament => {
+  const data = tournamentDoc.data() || {};
   return {
     id: tournamentDoc.id,
     ...data,
@@ -384,6 +495,13 @@ export const getTournament = async (tournamentId: string): Promise<Tournament |
   } as Tournament;
 };
 
+export const getTournament = async (tournamentId: string): Promise<Tournament | null> => {
+  const firestore = getDb();
+  const tournamentDoc = await getDoc(doc(firestore, 'tournaments', tournamentId));
+  if (!tournamentDoc.exists()) return null;
+  return toTournament(tournamentDoc);
+};
+
 export const createTournament = async (
   tournamentData: Omit<Tournament, 'id' | 'createdAt' | 'updatedAt'>
 ): Promise<string> => {
@@ -403,9 +521,26 @@ export const updateTournament = async (
 ): Promise<void> => {
   const firestore = getDb();
   const tournamentRef = doc(firestore, 'tournaments', tournamentId);
-  await updateDoc(tournamentRef, {
-    ...removeUndefined(data as Record<string, unknown>),
-    updatedAt: serverTimestamp(),
+
+  await runTransaction(firestore, async (transaction) => {
+    const tournamentDoc = await transaction.get(tournamentRef);
+    if (!tournamentDoc.exists()) throw new Error('Tournament not found');
+    const tournament = toTournament(tournamentDoc);
+
+    // A raised cap lets waitlisted entrants into the new spots
+    const updated = { ...tournament, ...removeUndefined(data as Record<string, unknown>) } as Tournament;
+    const promotedIds =
+      data.maxParticipants && updated.status === 'registration' ? getWaitlistPromotions(updated) : [];
+    await promoteFromWaitlist(transaction, updated, promotedIds);
+
+    transaction.update(tournamentRef, {
+      ...removeUndefined(data as Record<string, unknown>),
+      ...(promotedIds.length > 0 && {
+        participants: [...tournament.participants, ...promotedIds],
+        waitlist: arrayRemove(...promotedIds),
+      }),
+      updatedAt: serverTimestamp(),
+    });
   });
 };
 
@@ -414,7 +549,131 @@ export const deleteTournament = async (tournamentId: string): Promise<void> => {
   await deleteDoc(doc(firestore, 'tournaments', tournamentId));
 };
 
+// Registration rules shared by solo and team entries. Returns the list the
+// entrant goes on: the field, or the waitlist once the field is full.
+const getEntryList = (tournament: Tournament, participantId: string): 'participants' | 'waitlist' => {
+  const closedReason = getRegistrationClosedReason(tournament);
+  if (closedReason) throw new Error(closedReason);
+  if (tournament.participants.includes(participantId) || tournament.waitlist?.includes(participantId)) {
+    throw new Error('Already registered for this tournament');
+  }
+  return isTournamentFull(tournament) ? 'waitlist' : 'participants';
+};
+
+// Add the tournament to each promoted entrant's players and tell them (the
+// captain, for a team) they're in. The caller moves the IDs from the
+// waitlist into the field. Team reads happen before any write here, so call
+// this before the caller's own writes.
+const promoteFromWaitlist = async (
+  transaction: Transaction,
+  tournament: Tournament,
+  promotedIds: string[]
+): Promise<void> => {
+  const firestore = getDb();
+  const teams =
+    tournament.type === 'team'
+      ? await Promise.all(
+          promotedIds.map(
+            async (teamId) => (await transaction.get(doc(firestore, 'teams', teamId))).data() as Team | undefined
+          )
+        )
+      : [];
+
+  promotedIds.forEach((participantId, index) => {
+    const team = teams[index];
+    const userIds = tournament.type === 'team' ? team?.members || [] : [participantId];
+    const notifyUserId = tournament.type === 'team' ? team?.captainId : participantId;
+
+    userIds.forEach((userId) => {
+      transaction.update(doc(firestore, 'users', userId), {
+        tournamentsJoined: arrayUnion(tournament.id),
+      });
+    });
+    if (notifyUserId) {
+      transaction.set(doc(collection(firestore, 'notifications')), {
+        userId: notifyUserId,
+        type: 'tournament_registration',
+        title: 'You\'re in!',
+        message: `A spot opened up in ${tournament.title} and ${
+          tournament.type === 'team' ? 'your team has' : 'you have'
+        } been moved off the waitlist.`,
+        linkUrl: `/tournaments/${tournament.id}`,
+        relatedId: tournament.id,
+        isRead: false,
+        createdAt: serverTimestamp(),
+      });
+    }
+  });
+};
+
+// Take an entrant out of the field (or off the waitlist). A freed spot goes
+// to the first waitlisted entrant, who is told about it. All reads happen
+// before any write, as Firestore transactions require.
+const removeEntrant = async (
+  transaction: Transaction,
+  tournament: Tournament,
+  participantId: string
+): Promise<void> => {
+  const firestore = getDb();
+  const tournamentRef = doc(firestore, 'tournaments', tournament.id);
+
+  if (!tournament.participants.includes(participantId)) {
+    if (tournament.waitlist?.includes(participantId)) {
+      transaction.update(tournamentRef, { waitlist: arrayRemove(participantId) });
+      return;
+    }
+    throw new Error('Not registered for this tournament');
+  }
+
+  const promotedId = tournament.status === 'registration' ? tournament.waitlist?.[0] : undefined;
+  await promoteFromWaitlist(transaction, tournament, promotedId ? [promotedId] : []);
+
+  transaction.update(tournamentRef, {
+    participants: promotedId
+      ? [...tournament.participants.filter((id) => id !== participantId), promotedId]
+      : arrayRemove(participantId),
+    checkedIn: arrayRemove(participantId),
+    ...(promotedId && { waitlist: arrayRemove(promotedId) }),
+  });
+};
+
+// Register a player. Status, deadline and capacity are checked in a
+// transaction; a full tournament puts the player on the waitlist.
 export const registerForTournament = async (
+  tournamentId: string,
+  participantId: string,
+  userId: string,
+  allowConflicts = false
+): Promise<RegistrationStatus> => {
+  const firestore = getDb();
+  const tournamentRef = doc(firestore, 'tournaments', tournamentId);
+  const userRef = doc(firestore, 'users', userId);
+
+  if (!allowConflicts) {
+    const tournament = await getTournament(tournamentId);
+    if (tournament) assertNoConflicts(await getTournamentConflicts(tournament, { oduserId: userId }));
+  }
+
+  return runTransaction(firestore, async (transaction) => {
+    const tournamentDoc = await transaction.get(tournamentRef);
+    if (!tournamentDoc.exists()) throw new Error('Tournament not found');
+    const tournament = toTournament(tournamentDoc);
+    if (tournament.type === 'team') {
+      throw new Error('Team tournaments are entered by a team captain');
+    }
+
+    const list = getEntryList(tournament, participantId);
+    transaction.update(tournamentRef, { [list]: arrayUnion(participantId) });
+    if (list === 'waitlist') return 'waitlisted';
+
+    transaction.update(userRef, {
+      tournamentsJoined: arrayUnion(tournamentId),
+    });
+    return 'registered';
+  });
+};
+
+export const unregisterFromTournament = async (
   tournamentId: string,
   participantId: string,
   userId: string
@@ -423,45 +682,268 @@ export const registerForTournament = async (
   const tournamentRef = doc(firestore, 'tournaments', tournamentId);
   const userRef = doc(firestore, 'users', userId);
 
-  await updateDoc(tournamentRef, {
-    participants: arrayUnion(participantId),
+  await runTransaction(firestore, async (transaction) => {
+    const tournamentDoc = await transaction.get(tournamentRef);
+    if (!tournamentDoc.exists()) throw new Error('Tournament not found');
+
+    await removeEntrant(transaction, toTournament(tournamentDoc), participantId);
+    transaction.update(userRef, {
+      tournamentsJoined: arrayRemove(tournamentId),
+    });
   });
-  await updateDoc(userRef, {
-    tournamentsJoined: arrayUnion(tournamentId),
+};
+
+// Register a team (by its captain) for a team tournament. The roster and
+// every member's eligibility are checked against the latest data, along
+// with the same status, deadline and capacity rules as solo entries.
+export const registerTeamForTournament = async (
+  tournamentId: string,
+  teamId: string,
+  captainId: string,
+  allowConflicts = false
+): Promise<RegistrationStatus> => {
+  const firestore = getDb();
+  const tournamentRef = doc(firestore, 'tournaments', tournamentId);
+  const teamRef = doc(firestore, 'teams', teamId);
+
+  if (!allowConflicts) {
+    const tournament = await getTournament(tournamentId);
+    if (tournament) assertNoConflicts(await getTournamentConflicts(tournament, { teamId }));
+  }
+
+  return runTransaction(firestore, async (transaction) => {
+    const tournamentDoc = await transaction.get(tournamentRef);
+    const teamDoc = await transaction.get(teamRef);
+    if (!tournamentDoc.exists()) throw new Error('Tournament not found');
+    if (!teamDoc.exists()) throw new Error('Team not found');
+
+    const tournament = toTournament(tournamentDoc);
+    const team = { id: teamDoc.id, ...teamDoc.data() } as Team;
+    if (team.captainId !== captainId) {
+      throw new Error('Only the team captain can register the team');
+    }
+    const list = getEntryList(tournament, teamId);
+
+    const memberDocs = await Promise.all(
+      team.members.map((memberId) => transaction.get(doc(firestore, 'users', memberId)))
+    );
+    const members: Record<string, User> = {};
+    memberDocs.forEach((memberDoc) => {
+      if (memberDoc.exists()) members[memberDoc.id] = { id: memberDoc.id, ...memberDoc.data() } as User;
+    });
+
+    // Waitlisted teams count too: a player can't be queued with two teams
+    const enteredIds = [...tournament.participants, ...(tournament.waitlist || [])];
+    const registeredDocs = await Promise.all(
+      enteredIds.map((participantId) => transaction.get(doc(firestore, 'teams', participantId)))
+    );
+    const registeredTeams = registeredDocs
+      .filter((registeredDoc) => registeredDoc.exists())
+      .map((registeredDoc) => ({ id: registeredDoc.id, ...registeredDoc.data() }) as Team);
+
+    const issues = getTeamRegistrationIssues(tournament, team, members, registeredTeams);
+    if (issues.length > 0) {
+      throw new Error(issues[0]);
+    }
+
+    transaction.update(tournamentRef, { [list]: arrayUnion(teamId) });
+    if (list === 'waitlist') return 'waitlisted';
+
+    team.members.forEach((memberId) => {
+      transaction.update(doc(firestore, 'users', memberId), {
+        tournamentsJoined: arrayUnion(tournamentId),
+      });
+    });
+    return 'registered';
   });
 };
 
-export const unregisterFromTournament = async (
+export const unregisterTeamFromTournament = async (
+  tournamentId: string,
+  teamId: string,
+  captainId: string
+): Promise<void> => {
+  const firestore = getDb();
+  const tournamentRef = doc(firestore, 'tournaments', tournamentId);
+  const teamRef = doc(firestore, 'teams', teamId);
+
+  await runTransaction(firestore, async (transaction) => {
+    const tournamentDoc = await transaction.get(tournamentRef);
+    const teamDoc = await transaction.get(teamRef);
+    if (!tournamentDoc.exists()) throw new Error('Tournament not found');
+    if (!teamDoc.exists()) throw new Error('Team not found');
+
+    const team = teamDoc.data() as Team;
+    if (team.captainId !== captainId) {
+      throw new Error('Only the team captain can withdraw the team');
+    }
+
+    await removeEntrant(transaction, toTournament(tournamentDoc), teamId);
+    team.members.forEach((memberId) => {
+      transaction.update(doc(firestore, 'users', memberId), {
+        tournamentsJoined: arrayRemove(tournamentId),
+      });
+    });
+  });
+};
+
+// Confirm attendance during the check-in window. Team entries are checked
+// in by their captain.
+export const checkInForTournament = async (
   tournamentId: string,
   participantId: string,
   userId: string
 ): Promise<void> => {
   const firestore = getDb();
   const tournamentRef = doc(firestore, 'tournaments', tournamentId);
-  const userRef = doc(firestore, 'users', userId);
 
-  await updateDoc(tournamentRef, {
-    participants: arrayRemove(participantId),
+  await runTransaction(firestore, async (transaction) => {
+    const tournamentDoc = await transaction.get(tournamentRef);
+    if (!tournamentDoc.exists()) throw new Error('Tournament not found');
+    const tournament = toTournament(tournamentDoc);
+
+    if (!tournament.participants.includes(participantId)) {
+      throw new Error('Only registered participants can check in');
+    }
+    if (!isCheckInOpen(tournament)) {
+      throw new Error('Check-in is not open');
+    }
+    if (tournament.type === 'team') {
+      const teamDoc = await transaction.get(doc(firestore, 'teams', participantId));
+      if ((teamDoc.data() as Team | undefined)?.captainId !== userId) {
+        throw new Error('Only the team captain can check in the team');
+      }
+    } else if (participantId !== userId) {
+      throw new Error('You can only check yourself in');
+    }
+
+    transaction.update(tournamentRef, { checkedIn: arrayUnion(participantId) });
   });
-  await updateDoc(userRef, {
-    tournamentsJoined: arrayRemove(tournamentId),
+};
+
+// Admin override for check-in (e.g. a player who confirmed in person)
+export const setParticipantCheckIn = async (
+  tournamentId: string,
+  participantId: string,
+  checkedIn: boolean
+): Promise<void> => {
+  const firestore = getDb();
+  await updateDoc(doc(firestore, 'tournaments', tournamentId), {
+    checkedIn: checkedIn ? arrayUnion(participantId) : arrayRemove(participantId),
+    updatedAt: serverTimestamp(),
   });
 };
 
-// ============ BRACKETS ============
-export const getBracket = async (bracketId: string): Promise<Bracket | null> => {
+// Drop every entrant who didn't check in, ahead of bracket generation. The
+// freed spots go to waitlisted entrants, who are told about it; they take
+// their spot as the bracket is drawn, so count as checked in. Returns the
+// remaining field.
+export const dropNoShows = async (tournamentId: string): Promise<string[]> => {
   const firestore = getDb();
-  const bracketDoc = await getDoc(doc(firestore, 'brackets', bracketId));
-  if (!bracketDoc.exists()) return null;
-  const data = bracketDoc.data();
+  const tournamentRef = doc(firestore, 'tournaments', tournamentId);
+
+  return runTransaction(firestore, async (transaction) => {
+    const tournamentDoc = await transaction.get(tournamentRef);
+    if (!tournamentDoc.exists()) throw new Error('Tournament not found');
+    const tournament = toTournament(tournamentDoc);
+
+    const noShows = getNoShows(tournament);
+    if (noShows.length === 0) return tournament.participants;
+
+    // Team no-shows free up every member's tournament slot
+    const teamDocs =
+      tournament.type === 'team'
+        ? await Promise.all(noShows.map((teamId) => transaction.get(doc(firestore, 'teams', teamId))))
+        : [];
+    const droppedUserIds =
+      tournament.type === 'team'
+        ? teamDocs.flatMap((teamDoc) => (teamDoc.data() as Team | undefined)?.members || [])
+        : noShows;
+
+    const checkedInField = tournament.participants.filter((id) => !noShows.includes(id));
+    const promotedIds = getWaitlistPromotions({ ...tournament, participants: checkedInField });
+    await promoteFromWaitlist(transaction, tournament, promotedIds);
+
+    const remaining = [...checkedInField, ...promotedIds];
+    transaction.update(tournamentRef, {
+      participants: remaining,
+      ...(promotedIds.length > 0 && {
+        waitlist: arrayRemove(...promotedIds),
+        checkedIn: arrayUnion(...promotedIds),
+      }),
+      updatedAt: serverTimestamp(),
+    });
+    droppedUserIds.forEach((userId) => {
+      transaction.update(doc(firestore, 'users', userId), {
+        tournamentsJoined: arrayRemove(tournamentId),
+      });
+    });
+    return remaining;
+  });
+};
+
+// ============ BRACKETS ============
+// Firestore doesn't support nested arrays, so each round is stored
+// as { matches: BracketMatch[] } and unwrapped again on read
+type StoredRound = { matches: BracketMatch[] };
+type StoredGroup = Omit<BracketGroup, 'rounds'> & { rounds: StoredRound[] };
+
+const serializeMatch = (match: BracketMatch) =>
+  removeUndefined(match as unknown as Record<string, unknown>);
+
+const serializeRounds = (rounds: BracketMatch[][]) =>
+  rounds.map((round) => ({ matches: round.map(serializeMatch) }));
+
+const deserializeMatch = (match: BracketMatch): BracketMatch => ({
+  ...match,
+  scheduledTime: match.scheduledTime ? convertTimestamp(match.scheduledTime) : undefined,
+  completedAt: match.completedAt ? convertTimestamp(match.completedAt) : undefined,
+});
+
+const deserializeRounds = (rounds: StoredRound[] | undefined): BracketMatch[][] =>
+  (rounds || []).map((round) => (round.matches || []).map(deserializeMatch));
+
+// Convert every match list on a bracket into its stored shape
+const serializeBracketStructure = (data: Partial<Bracket>): Record<string, unknown> => {
+  const stored: Record<string, unknown> = {};
+  if (data.rounds) stored.rounds = serializeRounds(data.rounds);
+  if (data.losersRounds) stored.losersRounds = serializeRounds(data.losersRounds);
+  if (data.grandFinal) stored.grandFinal = data.grandFinal.map(serializeMatch);
+  if (data.groups) {
+    stored.groups = data.groups.map((group) => ({
+      ...group,
+      rounds: serializeRounds(group.rounds),
+    }));
+  }
+  return stored;
+};
+
+const toBracket = (bracketDoc: DocumentSnapshot): Bracket => {
+  const data = bracketDoc.data() || {};
   return {
     id: bracketDoc.id,
     ...data,
+    rounds: deserializeRounds(data.rounds),
+    losersRounds: data.losersRounds ? deserializeRounds(data.losersRounds) : undefined,
+    grandFinal: data.grandFinal ? (data.grandFinal as BracketMatch[]).map(deserializeMatch) : undefined,
+    groups: data.groups
+      ? (data.groups as StoredGroup[]).map((group) => ({
+          ...group,
+          rounds: deserializeRounds(group.rounds),
+        }))
+      : undefined,
     createdAt: convertTimestamp(data.createdAt),
     updatedAt: convertTimestamp(data.updatedAt),
   } as Bracket;
 };
 
+export const getBracket = async (bracketId: string): Promise<Bracket | null> => {
+  const firestore = getDb();
+  const bracketDoc = await getDoc(doc(firestore, 'brackets', bracketId));
+  if (!bracketDoc.exists()) return null;
+  return toBracket(bracketDoc);
+};
+
 export const createBracket = async (
   bracketData: Omit<Bracket, 'id' | 'createdAt' | 'updatedAt'>
 ): Promise<string> => {
@@ -469,6 +951,7 @@ export const createBracket = async (
   const bracketRef = doc(collection(firestore, 'brackets'));
   await setDoc(bracketRef, {
     ...removeUndefined(bracketData),
+    ...serializeBracketStructure(bracketData),
     createdAt: serverTimestamp(),
     updatedAt: serverTimestamp(),
   });
@@ -481,15 +964,113 @@ export const createBracket = async (
   return bracketRef.id;
 };
 
+// Structure fields only some formats use
+const OPTIONAL_STRUCTURE_FIELDS = ['format', 'losersRounds', 'grandFinal', 'groups'] as const;
+
+// Writing new rounds replaces the whole structure: fields the new format
+// doesn't use are deleted, so a regenerated bracket doesn't keep the old
+// format's losers rounds, grand final or groups
 export const updateBracket = async (bracketId: string, data: Partial<Bracket>): Promise<void> => {
   const firestore = getDb();
   const bracketRef = doc(firestore, 'brackets', bracketId);
+  const clearedFields = data.rounds ? OPTIONAL_STRUCTURE_FIELDS.filter((field) => data[field] === undefined) : [];
   await updateDoc(bracketRef, {
-    ...data,
+    ...removeUndefined(data),
+    ...serializeBracketStructure(data),
+    ...Object.fromEntries(clearedFields.map((field) => [field, deleteField()])),
     updatedAt: serverTimestamp(),
   });
 };
 
+// Spawn a Match document for every bracket slot that is ready to play, so
+// tournament games can use the regular live scoring and match pages. Slots
+// are claimed in the same transaction that creates their matches, so a
+// second run (a double click, another admin) finds nothing left to spawn.
+export const createBracketMatches = async (
+  tournament: Tournament,
+  bracket: Bracket,
+  participantNames: Record<string, string>,
+  createdBy: string
+): Promise<{ bracket: Bracket; created: number }> => {
+  const firestore = getDb();
+  const bracketRef = doc(firestore, 'brackets', bracket.id);
+
+  return runTransaction(firestore, async (transaction) => {
+    const bracketDoc = await transaction.get(bracketRef);
+    if (!bracketDoc.exists()) throw new Error('Bracket not found');
+    const current = toBracket(bracketDoc);
+    const structure = cloneStructure(current);
+    const playable = getPlayableMatches(structure);
+    if (playable.length === 0) return { bracket: current, created: 0 };
+
+    playable.forEach((bracketMatch) => {
+      const participants: MatchParticipant[] = [bracketMatch.participant1, bracketMatch.participant2].map(
+        (participantId) => ({
+          ...(tournament.type === 'team' ? { teamId: participantId } : { oduserId: participantId }),
+          name: participantNames[participantId as string] || 'Unknown',
+          joinedAt: new Date(),
+        })
+      );
+
+      const matchRef = doc(collection(firestore, 'matches'));
+      bracketMatch.matchId = matchRef.id;
+      transaction.set(
+        matchRef,
+        toNewMatchDoc({
+          title: `${tournament.title} · ${getBracketMatchLabel(structure, bracketMatch.id)}`,
+          game: tournament.game,
+          type: 'ranked',
+          status: 'scheduled',
+          isTeamMatch: tournament.type === 'team',
+          maxParticipants: 2,
+          participants,
+          rules: tournament.rules,
+          bannerImage: tournament.bannerImage,
+          tournamentId: tournament.id,
+          bracketMatchId: bracketMatch.id,
+          scheduledTime: bracketMatch.scheduledTime || tournament.dateStart,
+          isPublic: true,
+          createdBy,
+        })
+      );
+    });
+
+    transaction.update(bracketRef, {
+      ...serializeBracketStructure(structure),
+      updatedAt: serverTimestamp(),
+    });
+    return { bracket: { ...current, ...structure, updatedAt: new Date() }, created: playable.length };
+  });
+};
+
+// After a bracket is regenerated, cancel the unfinished matches spawned for
+// slots that are no longer in it. Returns how many were cancelled.
+export const cancelDetachedBracketMatches = async (
+  tournamentId: string,
+  structure: BracketStructure
+): Promise<number> => {
+  const firestore = getDb();
+  const attachedIds = new Set(
+    getAllRounds(structure)
+      .flat()
+      .flatMap((bracketMatch) => (bracketMatch.matchId ? [bracketMatch.matchId] : []))
+  );
+  const detached = (await getTournamentMatches(tournamentId)).filter(
+    (match) => !attachedIds.has(match.id) && match.status !== 'completed' && match.status !== 'cancelled'
+  );
+  if (detached.length === 0) return 0;
+
+  const batch = writeBatch(firestore);
+  detached.forEach((match) => {
+    batch.update(doc(firestore, 'matches', match.id), {
+      status: 'cancelled',
+      updatedAt: serverTimestamp(),
+    });
+  });
+  await batch.commit();
+  return detached.length;
+};
+
 // ============ GAMES ============
 export const getGames = async (activeOnly = true): Promise<Game[]> => {
   const firestore = getDb();
@@ -575,6 +1156,80 @@ export const seedDefaultGames = async (): Promise<void> => {
 };
 
 // ============ MATCHES (Standalone) ============
+const toResultReport = (report: Record<string, unknown> | undefined): MatchResultReport | undefined => {
+  if (!report) return undefined;
+  const dispute = report.dispute as Record<string, unknown> | undefined;
+  return {
+    ...report,
+    reportedAt: convertTimestamp(report.reportedAt as Timestamp),
+    confirmedAt: report.confirmedAt ? convertTimestamp(report.confirmedAt as Timestamp) : undefined,
+    resolvedAt: report.resolvedAt ? convertTimestamp(report.resolvedAt as Timestamp) : undefined,
+    dispute: dispute && { ...dispute, openedAt: convertTimestamp(dispute.openedAt as Timestamp) },
+  } as MatchResultReport;
+};
+
+const toMapVeto = (veto: Record<string, unknown> | undefined): MapVeto | undefined => {
+  if (!veto) return undefined;
+  return {
+    ...veto,
+    steps: ((veto.steps as Record<string, unknown>[]) || []).map((step) => ({
+      ...step,
+      actedAt: step.actedAt ? convertTimestamp(step.actedAt as Timestamp) : undefined,
+    })),
+    startedAt: convertTimestamp(veto.startedAt as Timestamp),
+    completedAt: veto.completedAt ? convertTimestamp(veto.completedAt as Timestamp) : undefined,
+  } as MapVeto;
+};
+
+const toMatch = (matchDoc: DocumentSnapshot): Match => {
+  const data = matchDoc.data() || {};
+  return {
+    id: matchDoc.id,
+    ...data,
+    scheduledTime: data.scheduledTime ? convertTimestamp(data.scheduledTime) : undefined,
+    completedAt: data.completedAt ? convertTimestamp(data.completedAt) : undefined,
+    registrationDeadline: data.registrationDeadline
+      ? convertTimestamp(data.registrationDeadline)
+      : undefined,
+    resultReport: toResultReport(data.resultReport),
+    series: data.series?.map((game: Record<string, unknown>) => ({
+      ...game,
+      completedAt: game.completedAt ? convertTimestamp(game.completedAt as Timestamp) : undefined,
+    })),
+    mapVeto: toMapVeto(data.mapVeto),
+    viewerStats: data.viewerStats
+      ? {
+          ...data.viewerStats,
+          peakAt: convertTimestamp(data.viewerStats.peakAt),
+          firstSampledAt: convertTimestamp(data.viewerStats.firstSampledAt),
+          lastSampledAt: convertTimestamp(data.viewerStats.lastSampledAt),
+        }
+      : undefined,
+    recurrence: data.recurrence ? { ...data.recurrence, until: convertTimestamp(data.recurrence.until) } : undefined,
+    recap: data.recap
+      ? {
+          ...data.recap,
+          generatedAt: convertTimestamp(data.recap.generatedAt),
+          reviewedAt: data.recap.reviewedAt ? convertTimestamp(data.recap.reviewedAt) : undefined,
+        }
+      : undefined,
+    lineups: data.lineups
+      ? Object.fromEntries(
+          Object.entries(data.lineups as Record<string, Record<string, unknown>>).map(([teamId, lineup]) => [
+            teamId,
+            { ...lineup, updatedAt: convertTimestamp(lineup.updatedAt as Timestamp) },
+          ])
+        )
+      : undefined,
+    events: data.events?.map((event: Record<string, unknown>) => ({
+      ...event,
+      timestamp: convertTimestamp(event.timestamp as Timestamp),
+    })),
+    createdAt: convertTimestamp(data.createdAt),
+    updatedAt: convertTimestamp(data.updatedAt),
+  } as Match;
+};
+
 export const getMatches = async (
   status?: string,
   game?: string,
@@ -599,220 +1254,2461 @@ export const getMatches = async (
   const matchesQuery = query(collection(firestore, 'matches'), ...constraints);
   const snapshot = await getDocs(matchesQuery);
 
-  const matches = snapshot.docs.map((doc) => {
-    const data = doc.data();
+  const matches = snapshot.docs.map(toMatch);
+
+  return {
+    matches,
+    lastDoc: snapshot.docs[snapshot.docs.length - 1] || null,
+  };
+};
+
+// All matches spawned for a tournament, in schedule order
+export const getTournamentMatches = async (tournamentId: string): Promise<Match[]> => {
+  const firestore = getDb();
+  const matchesQuery = query(collection(firestore, 'matches'), where('tournamentId', '==', tournamentId));
+  const snapshot = await getDocs(matchesQuery);
+
+  return snapshot.docs
+    .map(toMatch)
+    .sort((a, b) => (a.scheduledTime?.getTime() || 0) - (b.scheduledTime?.getTime() || 0));
+};
+
+export const getMatch = async (matchId: string): Promise<Match | null> => {
+  const firestore = getDb();
+  const matchDoc = await getDoc(doc(firestore, 'matches', matchId));
+  if (!matchDoc.exists()) return null;
+  return toMatch(matchDoc);
+};
+
+// Stored fields of a new match
+const toNewMatchDoc = (matchData: Omit<Match, 'id' | 'createdAt' | 'updatedAt'>) => ({
+  ...removeUndefined(matchData),
+  participantIds: getParticipantIds(matchData.participants || []),
+  createdAt: serverTimestamp(),
+  updatedAt: serverTimestamp(),
+});
+
+export const createMatch = async (
+  matchData: Omit<Match, 'id' | 'createdAt' | 'updatedAt'>
+): Promise<string> => {
+  const firestore = getDb();
+  const matchRef = doc(collection(firestore, 'matches'));
+  await setDoc(matchRef, toNewMatchDoc(matchData));
+  return matchRef.id;
+};
+
+type CountedResult = NonNullable<Match['countedResult']>;
+
+// Apply a counted result to participant stats, or roll it back (direction -1).
+// stats.lastMatchId names the match, which the Firestore rules check the
+// change against.
+const writeResultStats = (
+  transaction: Transaction,
+  matchId: string,
+  result: CountedResult,
+  direction: 1 | -1
+): void => {
+  const firestore = getDb();
+  result.userIds.forEach((userId) => {
+    transaction.update(doc(firestore, 'users', userId), {
+      'stats.matches': increment(direction),
+      'stats.lastMatchId': matchId,
+      ...(result.winnerId && {
+        [result.winnerId === userId ? 'stats.wins' : 'stats.losses']: increment(direction),
+      }),
+    });
+  });
+  // Players in team lineups get the team's result
+  Object.entries(result.lineupPlayers || {}).forEach(([teamId, playerIds]) => {
+    playerIds.forEach((userId) => {
+      transaction.update(doc(firestore, 'users', userId), {
+        'stats.matches': increment(direction),
+        'stats.lastMatchId': matchId,
+        ...(result.winnerId && {
+          [result.winnerId === teamId ? 'stats.wins' : 'stats.losses']: increment(direction),
+        }),
+      });
+    });
+  });
+  // Team stats only track wins and losses, so draws leave them alone
+  if (!result.winnerId) return;
+  result.teamIds.forEach((teamId) => {
+    transaction.update(doc(firestore, 'teams', teamId), {
+      [result.winnerId === teamId ? 'stats.wins' : 'stats.losses']: increment(direction),
+      'stats.lastMatchId': matchId,
+    });
+  });
+};
+
+type ResultSubject = { id: string; subjectType: RatingSubjectType };
+
+const getResultSubjects = (result: CountedResult): ResultSubject[] => [
+  ...result.userIds.map((id) => ({ id, subjectType: 'user' as const })),
+  ...result.teamIds.map((id) => ({ id, subjectType: 'team' as const })),
+];
+
+const getOutcome = (result: CountedResult, participantId: string): RatingChange['result'] =>
+  !result.winnerId ? 'draw' : result.winnerId === participantId ? 'win' : 'loss';
+
+// Leaderboard entries a counted result adds to: every participant, for the
+// match's game and for all games, in each period the result falls in
+const getLeaderboardKeys = (game: string, result: CountedResult, countedAt: Date) =>
+  getResultSubjects(result).flatMap((subject) =>
+    [...(game ? [game] : []), ALL_GAMES].flatMap((entryGame) =>
+      getPeriodKeys(countedAt).map((period) => ({
+        ...subject,
+        game: entryGame,
+        period,
+        entryId: getLeaderboardEntryId(subject.subjectType, subject.id, entryGame, period),
+      }))
+    )
+  );
+
+type LeaderboardTotals = Pick<LeaderboardEntry, 'matches' | 'wins' | 'losses' | 'draws'>;
+
+type LeaderboardChange = ResultSubject & {
+  game: string;
+  period: string;
+  entryId: string;
+  result: CountedResult;
+  direction: 1 | -1;
+};
+
+// What a result change does to the leaderboards, applied once the result's
+// own transaction has committed (see applyLeaderboardUpdate)
+type LeaderboardUpdate = {
+  matchId: string;
+  game: string;
+  changes: LeaderboardChange[];
+  // Ratings for the game's all-time entries: new ones, and changes taken back
+  ratings: Record<string, number>;
+  revokedRatings: Record<string, number>;
+};
+
+const tallyOutcome = (totals: LeaderboardTotals, outcome: RatingChange['result'], direction: 1 | -1): void => {
+  totals.matches += direction;
+  totals[outcome === 'win' ? 'wins' : outcome === 'loss' ? 'losses' : 'draws'] += direction;
+};
+
+type RatingSnapshot = ResultSubject & { ref: DocumentReference; snapshot: DocumentSnapshot };
+
+// Move ratings for a ranked result (rolling back the previously counted one
+// first) and log each change to the rating's history. Returns the new
+// rating per participant.
+const writeRatingChanges = (
+  transaction: Transaction,
+  matchId: string,
+  match: Match,
+  ratingDocs: RatingSnapshot[],
+  counted: CountedResult,
+  previous?: CountedResult
+): Record<string, number> => {
+  const previousChanges = previous?.ratingChanges || {};
+  // Rate from where everyone stood before this match was first counted
+  const entrants = ratingDocs.map(({ id, snapshot }) => {
+    const current = snapshot.data() as Rating | undefined;
     return {
-      id: doc.id,
-      ...data,
-      scheduledTime: data.scheduledTime ? convertTimestamp(data.scheduledTime) : undefined,
-      completedAt: data.completedAt ? convertTimestamp(data.completedAt) : undefined,
-      registrationDeadline: data.registrationDeadline
-        ? convertTimestamp(data.registrationDeadline)
-        : undefined,
-      createdAt: convertTimestamp(data.createdAt),
-      updatedAt: convertTimestamp(data.updatedAt),
-    } as Match;
+      id,
+      rating: (current?.rating ?? DEFAULT_RATING) - (previousChanges[id] || 0),
+      gamesPlayed: Math.max(0, (current?.gamesPlayed || 0) - (id in previousChanges ? 1 : 0)),
+    };
+  });
+  const changes = calculateRatingChanges(entrants, counted.winnerId);
+
+  ratingDocs.forEach(({ id, subjectType, ref, snapshot }, index) => {
+    const current = snapshot.data() as Rating | undefined;
+    const before = entrants[index].rating;
+    const after = before + changes[id];
+    const outcome = getOutcome(counted, id);
+    const previousOutcome = previous && id in previousChanges ? getOutcome(previous, id) : undefined;
+    const tally = (counts: 'win' | 'loss', total = 0) =>
+      Math.max(0, total - (previousOutcome === counts ? 1 : 0) + (outcome === counts ? 1 : 0));
+
+    transaction.set(ref, {
+      subjectId: id,
+      subjectType,
+      game: match.game,
+      rating: after,
+      peakRating: Math.max(current?.peakRating ?? DEFAULT_RATING, after),
+      gamesPlayed: entrants[index].gamesPlayed + 1,
+      wins: tally('win', current?.wins),
+      losses: tally('loss', current?.losses),
+      updatedAt: serverTimestamp(),
+    });
+    transaction.set(doc(ref, 'history', matchId), {
+      matchId,
+      before,
+      after,
+      delta: changes[id],
+      result: outcome,
+      opponentIds: ratingDocs.filter((other) => other.id !== id).map((other) => other.id),
+      createdAt: serverTimestamp(),
+    });
+  });
+  counted.ratingChanges = changes;
+
+  return Object.fromEntries(ratingDocs.map(({ id }, index) => [id, entrants[index].rating + changes[id]]));
+};
+
+// Keep participant stats and ratings in step with a match's result: count it
+// when the match completes, roll it back when the match is reopened or the
+// winner changes. Does its own reads first, so call it after the
+// transaction's other reads; returns the match fields to write alongside and
+// the leaderboard update to apply after the transaction commits.
+const syncMatchResult = async (
+  transaction: Transaction,
+  matchId: string,
+  match: Match,
+  next: { status: MatchStatus; winnerId?: string }
+): Promise<{ resultFields: Record<string, unknown>; leaderboardUpdate: LeaderboardUpdate | null }> => {
+  const firestore = getDb();
+  const previous = match.countedResult;
+  const counted: CountedResult | undefined =
+    next.status === 'completed'
+      ? {
+          winnerId: next.winnerId,
+          userIds: (match.participants || []).flatMap((p) => (p.oduserId ? [p.oduserId] : [])),
+          teamIds: (match.participants || []).flatMap((p) => (!p.oduserId && p.teamId ? [p.teamId] : [])),
+          ...(match.lineups && { lineupPlayers: getLineupStarterIds(match.lineups) }),
+        }
+      : undefined;
+
+  if (previous && counted && previous.winnerId === counted.winnerId) return { resultFields: {}, leaderboardUpdate: null };
+
+  // A corrected result stays in the periods it was first counted in
+  const previousAt = previous?.countedAt ? convertTimestamp(previous.countedAt) : undefined;
+  if (counted) counted.countedAt = previousAt || new Date();
+
+  // Reads: ratings (ranked only)
+  const getRatingRef = (subject: ResultSubject) =>
+    doc(firestore, 'ratings', getRatingId(subject.subjectType, subject.id, match.game));
+  const ratingDocs: RatingSnapshot[] =
+    counted && match.type === 'ranked' && match.game
+      ? await Promise.all(
+          getResultSubjects(counted).map(async (subject) => {
+            const ref = getRatingRef(subject);
+            return { ...subject, ref, snapshot: await transaction.get(ref) };
+          })
+        )
+      : [];
+  const entryChanges: LeaderboardChange[] = [
+    ...(previous && previousAt
+      ? getLeaderboardKeys(match.game, previous, previousAt).map((key) => ({ ...key, result: previous, direction: -1 as const }))
+      : []),
+    ...(counted && counted.countedAt
+      ? getLeaderboardKeys(match.game, counted, counted.countedAt).map((key) => ({ ...key, result: counted, direction: 1 as const }))
+      : []),
+  ];
+
+  if (previous) writeResultStats(transaction, matchId, previous, -1);
+  if (counted) writeResultStats(transaction, matchId, counted, 1);
+
+  // Anyone rated last time but not this time gets their change taken back
+  // (peak rating is left alone)
+  const previousChanges = previous?.ratingChanges || {};
+  const revokedRatings: Record<string, number> = {};
+  getResultSubjects(previous || { userIds: [], teamIds: [] })
+    .filter((subject) => subject.id in previousChanges && !ratingDocs.some((r) => r.id === subject.id))
+    .forEach((subject) => {
+      const ref = getRatingRef(subject);
+      const outcome = getOutcome(previous as CountedResult, subject.id);
+      revokedRatings[subject.id] = previousChanges[subject.id];
+      transaction.update(ref, {
+        rating: increment(-previousChanges[subject.id]),
+        gamesPlayed: increment(-1),
+        ...(outcome !== 'draw' && { [outcome === 'win' ? 'wins' : 'losses']: increment(-1) }),
+        updatedAt: serverTimestamp(),
+      });
+      transaction.delete(doc(ref, 'history', matchId));
+    });
+
+  const newRatings =
+    counted && ratingDocs.length > 1
+      ? writeRatingChanges(transaction, matchId, match, ratingDocs, counted, previous)
+      : {};
+
+  return {
+    resultFields: {
+      countedResult: counted ? removeUndefined(counted as unknown as Record<string, unknown>) : deleteField(),
+    },
+    leaderboardUpdate: { matchId, game: match.game, changes: entryChanges, ratings: newRatings, revokedRatings },
+  };
+};
+
+// Leaderboard entries rewritten per transaction, well inside the 500 write cap
+const LEADERBOARD_CHUNK_SIZE = 450;
+
+// Apply a result change to the leaderboards. This runs after the result's
+// own transaction, in chunks with a transaction each, so matches with many
+// participants stay under the write limit. If a chunk fails,
+// rebuildLeaderboards repairs the entries it missed.
+const applyLeaderboardUpdate = async (update: LeaderboardUpdate | null): Promise<void> => {
+  if (!update) return;
+  const firestore = getDb();
+  const entryIds = [...new Set(update.changes.map((change) => change.entryId))];
+
+  for (let i = 0; i < entryIds.length; i += LEADERBOARD_CHUNK_SIZE) {
+    const chunk = entryIds.slice(i, i + LEADERBOARD_CHUNK_SIZE);
+    await runTransaction(firestore, async (transaction) => {
+      // Reads: the entries and their participants (for their school)
+      const entrySnapshots = await Promise.all(
+        chunk.map((entryId) => transaction.get(doc(firestore, 'leaderboardEntries', entryId)))
+      );
+      const subjects = new Map(
+        update.changes.filter((change) => chunk.includes(change.entryId)).map((change) => [change.id, change])
+      );
+      const subjectDocs = await Promise.all(
+        [...subjects.values()].map(async (subject) => ({
+          id: subject.id,
+          snapshot: await transaction.get(doc(firestore, subject.subjectType === 'team' ? 'teams' : 'users', subject.id)),
+        }))
+      );
+
+      // Entries hold running totals, rewritten whole so win rate stays in
+      // step with them
+      chunk.forEach((entryId, index) => {
+        const current = entrySnapshots[index].data() as LeaderboardEntry | undefined;
+        const changes = update.changes.filter((change) => change.entryId === entryId);
+        const { id: subjectId, subjectType, game, period } = changes[0];
+        const totals: LeaderboardTotals = {
+          matches: current?.matches || 0,
+          wins: current?.wins || 0,
+          losses: current?.losses || 0,
+          draws: current?.draws || 0,
+        };
+        changes.forEach((change) => tallyOutcome(totals, getOutcome(change.result, subjectId), change.direction));
+
+        const entryRef = doc(firestore, 'leaderboardEntries', entryId);
+        if (totals.matches <= 0) {
+          transaction.delete(entryRef);
+          return;
+        }
+        const subject = subjectDocs.find((s) => s.id === subjectId)?.snapshot.data();
+        const rating =
+          game === update.game && period === 'all'
+            ? update.ratings[subjectId] ??
+              (current?.rating !== undefined ? current.rating - (update.revokedRatings[subjectId] || 0) : undefined)
+            : undefined;
+        transaction.set(
+          entryRef,
+          removeUndefined({
+            subjectId,
+            subjectType,
+            game,
+            period,
+            schoolId: subject?.schoolId || current?.schoolId,
+            ...totals,
+            winRate: getWinRate(totals.wins, totals.matches),
+            rating,
+            lastMatchId: update.matchId,
+            updatedAt: serverTimestamp(),
+          })
+        );
+      });
+    });
+  }
+};
+
+export const updateMatch = async (matchId: string, data: Partial<Match>): Promise<void> => {
+  const firestore = getDb();
+  const matchRef = doc(firestore, 'matches', matchId);
+  const updateData = {
+    ...removeUndefined(data as Record<string, unknown>),
+    ...(data.participants && { participantIds: getParticipantIds(data.participants) }),
+    updatedAt: serverTimestamp(),
+  };
+
+  if (data.status === undefined && data.winnerId === undefined) {
+    await updateDoc(matchRef, updateData);
+    return;
+  }
+
+  // Status and result changes also update participant stats
+  const leaderboardUpdate = await runTransaction(firestore, async (transaction) => {
+    const matchDoc = await transaction.get(matchRef);
+    if (!matchDoc.exists()) throw new Error('Match not found');
+    const match = matchDoc.data() as Match;
+    const status = data.status ?? match.status;
+
+    // A reopened tournament match gives its bracket slot back
+    const bracketUpdate =
+      match.tournamentId && match.status === 'completed' && status !== 'completed'
+        ? await getBracketReversal(transaction, { ...match, id: matchId })
+        : null;
+
+    const { resultFields, leaderboardUpdate } = await syncMatchResult(transaction, matchId, match, {
+      status,
+      winnerId: data.winnerId ?? match.winnerId,
+    });
+    transaction.update(matchRef, { ...updateData, ...resultFields });
+    if (bracketUpdate) writeBracketChampion(transaction, match.tournamentId as string, bracketUpdate);
+    return leaderboardUpdate;
+  });
+  await applyLeaderboardUpdate(leaderboardUpdate);
+  await recapCompletedMatch(matchId);
+};
+
+// Subcollections a match owns, deleted along with it
+const MATCH_SUBCOLLECTIONS = ['events', 'messages', 'viewers', 'chatSenders'] as const;
+
+// The bracket with the slot this match was spawned for let go of it, so a
+// new match can be spawned there. Null if no slot points at the match.
+const getReleasedBracketSlot = async (transaction: Transaction, matchId: string, match: Match) => {
+  const firestore = getDb();
+  if (!match.tournamentId || !match.bracketMatchId) return null;
+  const tournamentDoc = await transaction.get(doc(firestore, 'tournaments', match.tournamentId));
+  const bracketId = (tournamentDoc.data() as Tournament | undefined)?.bracketId;
+  if (!bracketId) return null;
+
+  const bracketRef = doc(firestore, 'brackets', bracketId);
+  const bracketDoc = await transaction.get(bracketRef);
+  if (!bracketDoc.exists()) return null;
+  const structure = cloneStructure(toBracket(bracketDoc));
+  const slot = findBracketMatch(structure, match.bracketMatchId);
+  if (slot?.matchId !== matchId) return null;
+  delete slot.matchId;
+  return { bracketRef, structure };
+};
+
+export const deleteMatch = async (matchId: string): Promise<void> => {
+  const firestore = getDb();
+  const matchRef = doc(firestore, 'matches', matchId);
+
+  // Deleting a completed match takes its result back out of stats and
+  // ratings, and a bracket match frees up its slot
+  const leaderboardUpdate = await runTransaction(firestore, async (transaction) => {
+    const matchDoc = await transaction.get(matchRef);
+    const match = matchDoc.data() as Match | undefined;
+    const released = match ? await getReleasedBracketSlot(transaction, matchId, match) : null;
+    const synced = match?.countedResult
+      ? await syncMatchResult(transaction, matchId, match, { status: 'cancelled' })
+      : null;
+    if (released) {
+      transaction.update(released.bracketRef, {
+        ...serializeBracketStructure(released.structure),
+        updatedAt: serverTimestamp(),
+      });
+    }
+    transaction.delete(matchRef);
+    return synced?.leaderboardUpdate || null;
+  });
+  await applyLeaderboardUpdate(leaderboardUpdate);
+
+  const snapshots = await Promise.all(
+    MATCH_SUBCOLLECTIONS.map((name) => getDocs(collection(firestore, 'matches', matchId, name)))
+  );
+  const refs = snapshots.flatMap((snapshot) => snapshot.docs.map((subDoc) => subDoc.ref));
+  // Batches are capped at 500 writes
+  for (let i = 0; i < refs.length; i += 450) {
+    const batch = writeBatch(firestore);
+    refs.slice(i, i + 450).forEach((ref) => batch.delete(ref));
+    await batch.commit();
+  }
+};
+
+export const joinMatch = async (
+  matchId: string,
+  participant: MatchParticipant,
+  allowConflicts = false
+): Promise<void> => {
+  const firestore = getDb();
+  const matchRef = doc(firestore, 'matches', matchId);
+  const matchDoc = await getDoc(matchRef);
+
+  if (!matchDoc.exists()) {
+    throw new Error('Match not found');
+  }
+
+  const matchData = matchDoc.data();
+  const participants = matchData.participants || [];
+
+  // Check if already joined
+  const alreadyJoined = participants.some(
+    (p: MatchParticipant) =>
+      (p.oduserId && p.oduserId === participant.oduserId) ||
+      (p.teamId && p.teamId === participant.teamId)
+  );
+
+  if (alreadyJoined) {
+    throw new Error('Already joined this match');
+  }
+
+  // Check max participants
+  if (participants.length >= matchData.maxParticipants) {
+    throw new Error('Match is full');
+  }
+
+  if (!allowConflicts) {
+    assertNoConflicts(await getMatchConflicts(toMatch(matchDoc), participant));
+  }
+
+  await updateDoc(matchRef, {
+    participants: arrayUnion({
+      ...participant,
+      joinedAt: new Date(),
+    }),
+    participantIds: arrayUnion(...getParticipantIds([participant])),
+    updatedAt: serverTimestamp(),
+  });
+
+  // If match is full, update status to scheduled
+  if (participants.length + 1 >= matchData.maxParticipants) {
+    await updateDoc(matchRef, {
+      status: 'scheduled',
+    });
+  }
+};
+
+export const leaveMatch = async (
+  matchId: string,
+  oduserId?: string,
+  teamId?: string
+): Promise<void> => {
+  const firestore = getDb();
+  const matchRef = doc(firestore, 'matches', matchId);
+  const matchDoc = await getDoc(matchRef);
+
+  if (!matchDoc.exists()) {
+    throw new Error('Match not found');
+  }
+
+  const matchData = matchDoc.data();
+  const participants = matchData.participants || [];
+
+  // Find the participant to remove
+  const updatedParticipants = participants.filter((p: MatchParticipant) => {
+    if (oduserId) return p.oduserId !== oduserId;
+    if (teamId) return p.teamId !== teamId;
+    return true;
+  });
+
+  await updateDoc(matchRef, {
+    participants: updatedParticipants,
+    participantIds: getParticipantIds(updatedParticipants),
+    status: 'open', // Reopen the match if someone leaves
+    updatedAt: serverTimestamp(),
+  });
+};
+
+export const updateMatchScores = async (
+  matchId: string,
+  scores: Record<string, number>,
+  winnerId?: string,
+  seriesUpdate?: { series: SeriesGame[]; currentMap?: string }
+): Promise<void> => {
+  const firestore = getDb();
+  const matchRef = doc(firestore, 'matches', matchId);
+
+  const updateData: Record<string, unknown> = {
+    scores,
+    updatedAt: serverTimestamp(),
+  };
+  if (seriesUpdate) {
+    updateData.series = seriesUpdate.series.map((game) => removeUndefined({ ...game }));
+    if (seriesUpdate.currentMap) updateData.currentMap = seriesUpdate.currentMap;
+  }
+
+  if (!winnerId) {
+    await updateDoc(matchRef, updateData);
+    return;
+  }
+
+  updateData.winnerId = winnerId;
+  updateData.status = 'completed';
+  updateData.completedAt = serverTimestamp();
+
+  // Tournament matches also settle their bracket slot, and every result
+  // lands in participant stats (and ratings, if ranked), all in the same
+  // transaction
+  const leaderboardUpdate = await runTransaction(firestore, async (transaction) => {
+    const matchDoc = await transaction.get(matchRef);
+    if (!matchDoc.exists()) throw new Error('Match not found');
+    const match = matchDoc.data() as Match;
+
+    const bracketUpdate = match.tournamentId
+      ? await getBracketAdvancement(transaction, { ...match, id: matchId }, scores, winnerId)
+      : null;
+
+    const { resultFields, leaderboardUpdate } = await syncMatchResult(transaction, matchId, match, {
+      status: 'completed',
+      winnerId,
+    });
+    // An admin-entered result settles any self-reported one still open
+    const openReport = match.resultReport?.status === 'pending' || match.resultReport?.status === 'disputed';
+    transaction.update(matchRef, {
+      ...updateData,
+      ...resultFields,
+      ...(openReport && { 'resultReport.status': 'resolved', 'resultReport.resolvedAt': serverTimestamp() }),
+    });
+    if (bracketUpdate) writeBracketChampion(transaction, match.tournamentId as string, bracketUpdate);
+    return leaderboardUpdate;
+  });
+  await applyLeaderboardUpdate(leaderboardUpdate);
+  await recapCompletedMatch(matchId);
+};
+
+// Record a best-of-N series. Match scores become game wins, and the match
+// completes as soon as someone reaches the wins required.
+export const updateMatchSeries = async (match: Match, series: SeriesGame[]): Promise<void> => {
+  const bestOf = match.bestOf || 1;
+  const participantIds = (match.participants || []).map((p) => p.oduserId || p.teamId || '');
+  const numbered = series.map((game, index) => ({ ...game, number: index + 1 }));
+  await updateMatchScores(
+    match.id,
+    getSeriesScore(numbered, participantIds),
+    getSeriesWinner(numbered, bestOf),
+    // The veto's map order moves on to the next game
+    { series: numbered, currentMap: getMapForGame(match.mapVeto, numbered.length) }
+  );
+};
+
+type BracketSlot = {
+  tournament: Tournament;
+  bracketRef: DocumentReference;
+  bracket: Bracket;
+  bracketMatch: BracketMatch;
+};
+
+type BracketUpdate = {
+  bracketRef: DocumentReference;
+  structure: BracketStructure;
+  championId?: string;
+  previousChampionId?: string;
+  isTeamEvent: boolean;
+};
+
+// The tournament, bracket and bracket slot a tournament match decides
+// (reads only). Null if the match isn't part of a generated bracket.
+const getBracketSlot = async (transaction: Transaction, match: Match): Promise<BracketSlot | null> => {
+  const firestore = getDb();
+  const tournamentDoc = await transaction.get(doc(firestore, 'tournaments', match.tournamentId as string));
+  const tournament = tournamentDoc.data() as Tournament | undefined;
+  if (!tournament?.bracketId) return null;
+
+  const bracketRef = doc(firestore, 'brackets', tournament.bracketId);
+  const bracketDoc = await transaction.get(bracketRef);
+  if (!bracketDoc.exists()) return null;
+  const bracket = toBracket(bracketDoc);
+
+  // Matches spawned from the bracket know their slot; older ones are
+  // matched up by their two participants
+  const [participantA, participantB] = (match.participants || []).map((p) => p.oduserId || p.teamId);
+  const bracketMatch = match.bracketMatchId
+    ? findBracketMatch(bracket, match.bracketMatchId)
+    : participantA && participantB
+      ? findBracketMatchByParticipants(bracket, participantA, participantB)
+      : undefined;
+  // A regenerated bracket no longer points at matches spawned from the old one
+  if (!bracketMatch || (match.bracketMatchId && bracketMatch.matchId !== match.id)) return null;
+  return { tournament, bracketRef, bracket, bracketMatch };
+};
+
+// The bracket after a change to one of its results, with the champion worked
+// out again: a corrected or reopened result can change the champion or leave
+// the bracket undecided
+const toBracketUpdate = (
+  { tournament, bracketRef, bracket }: BracketSlot,
+  structure: BracketStructure
+): BracketUpdate => {
+  const championOptions = {
+    swissRounds: tournament.swissRounds,
+    participantCount: tournament.participants?.length,
+  };
+  return {
+    bracketRef,
+    structure,
+    championId: getBracketChampion(structure, championOptions),
+    // Tournaments completed before the champion was stored crowned the
+    // winner of the bracket as it stood
+    previousChampionId:
+      tournament.status === 'completed'
+        ? tournament.championId || getBracketChampion(bracket, championOptions)
+        : undefined,
+    isTeamEvent: tournament.type === 'team',
+  };
+};
+
+// Work out the bracket after a tournament match result (reads only, so it
+// can run before the transaction's writes). Returns null if the match isn't
+// part of a generated bracket.
+const getBracketAdvancement = async (
+  transaction: Transaction,
+  match: Match,
+  scores: Record<string, number>,
+  winnerId: string
+): Promise<BracketUpdate | null> => {
+  const slot = await getBracketSlot(transaction, match);
+  if (!slot) return null;
+  const { bracketMatch } = slot;
+  return toBracketUpdate(
+    slot,
+    recordBracketResult(slot.bracket, bracketMatch.id, {
+      winnerId,
+      score1: bracketMatch.participant1 ? scores[bracketMatch.participant1] : undefined,
+      score2: bracketMatch.participant2 ? scores[bracketMatch.participant2] : undefined,
+    })
+  );
+};
+
+// Take a reopened tournament match's result back off the bracket (reads only)
+const getBracketReversal = async (transaction: Transaction, match: Match): Promise<BracketUpdate | null> => {
+  const slot = await getBracketSlot(transaction, match);
+  return slot ? toBracketUpdate(slot, clearBracketResult(slot.bracket, slot.bracketMatch.id)) : null;
+};
+
+// Save the updated bracket and keep the tournament's champion in step: the
+// tournament completes once the bracket is decided and reopens if it no
+// longer is, and the title (with its tournament win) moves to whoever holds it
+const writeBracketChampion = (transaction: Transaction, tournamentId: string, update: BracketUpdate): void => {
+  const firestore = getDb();
+  const { championId, previousChampionId } = update;
+  const championRef = (participantId: string) =>
+    doc(firestore, update.isTeamEvent ? 'teams' : 'users', participantId);
+
+  transaction.update(update.bracketRef, {
+    ...serializeBracketStructure(update.structure),
+    updatedAt: serverTimestamp(),
+  });
+  if (championId || previousChampionId) {
+    transaction.update(doc(firestore, 'tournaments', tournamentId), {
+      status: championId ? 'completed' : 'in_progress',
+      championId: championId || deleteField(),
+      updatedAt: serverTimestamp(),
+    });
+  }
+  if (championId === previousChampionId) return;
+  if (previousChampionId) {
+    transaction.update(championRef(previousChampionId), { 'stats.tournamentWins': increment(-1) });
+  }
+  if (championId) {
+    transaction.update(championRef(championId), { 'stats.tournamentWins': increment(1) });
+  }
+};
+
+// ============ MATCH EVENTS ============
+// The event log lives in matches/{id}/events. Every change refreshes the
+// copy on the match and, for event-scored games, recomputes the match
+// scores from the live events.
+type MatchEventInput = Pick<
+  MatchEvent,
+  'type' | 'participantId' | 'participantName' | 'description' | 'value' | 'period' | 'playerId' | 'playerName'
+>;
+
+// Latest events mirrored onto the match document
+const RECENT_EVENTS_LIMIT = 20;
+
+const toMatchEvent = (eventDoc: DocumentSnapshot): MatchEvent => {
+  const data = eventDoc.data() || {};
+  return {
+    id: eventDoc.id,
+    ...data,
+    timestamp: convertTimestamp(data.timestamp),
+    editedAt: data.editedAt ? convertTimestamp(data.editedAt) : undefined,
+    deletedAt: data.deletedAt ? convertTimestamp(data.deletedAt) : undefined,
+  } as MatchEvent;
+};
+
+// Full log, oldest first, including deleted events
+const getAllMatchEvents = async (matchId: string): Promise<MatchEvent[]> => {
+  const firestore = getDb();
+  const snapshot = await getDocs(
+    query(collection(firestore, 'matches', matchId, 'events'), orderBy('timestamp', 'asc'))
+  );
+  return snapshot.docs.map(toMatchEvent);
+};
+
+export const getMatchEvents = async (matchId: string): Promise<MatchEvent[]> =>
+  (await getAllMatchEvents(matchId)).filter((event) => !event.deletedAt);
+
+// Recompute scores from the live events. Series scores are game wins and
+// games without a scoring template are scored by hand, so they're left
+// alone there. Returns the match as it now stands.
+const syncMatchEvents = async (matchId: string): Promise<Match> => {
+  const firestore = getDb();
+  const matchRef = doc(firestore, 'matches', matchId);
+  const [matchDoc, events] = await Promise.all([getDoc(matchRef), getMatchEvents(matchId)]);
+  if (!matchDoc.exists()) throw new Error('Match not found');
+  const match = toMatch(matchDoc);
+
+  const updateData: Record<string, unknown> = {
+    events: events.slice(-RECENT_EVENTS_LIMIT).map((event) => removeUndefined({ ...event })),
+    updatedAt: serverTimestamp(),
+  };
+  if (!isSeries(match) && isEventScored(await getGame(match.game))) {
+    match.scores = getScoresFromEvents(
+      events,
+      (match.participants || []).map((p) => p.oduserId || p.teamId || '')
+    );
+    updateData.scores = match.scores;
+  }
+  await updateDoc(matchRef, updateData);
+  return match;
+};
+
+// Events have to fit the scoring template of the match's game
+const getMatchScoringTemplate = async (matchId: string): Promise<{ match: Match; template: ScoringTemplate }> => {
+  const firestore = getDb();
+  const matchDoc = await getDoc(doc(firestore, 'matches', matchId));
+  if (!matchDoc.exists()) throw new Error('Match not found');
+  const match = toMatch(matchDoc);
+  return { match, template: getScoringTemplate(await getGame(match.game)) };
+};
+
+const validateMatchEvent = (
+  match: Match,
+  template: ScoringTemplate,
+  event: Pick<MatchEvent, 'type' | 'value' | 'period' | 'participantId' | 'playerId'>
+): void => {
+  if (!(match.participants || []).some((p) => (p.oduserId || p.teamId) === event.participantId)) {
+    throw new Error("That participant isn't in this match");
+  }
+  const error = getEventValidationError(template, event) || getEventPlayerError(match, event);
+  if (error) throw new Error(error);
+};
+
+// Add a scoring event to a match (goal, kill, round win, etc.)
+export const addMatchEvent = async (
+  matchId: string,
+  event: MatchEventInput,
+  createdBy?: string
+): Promise<string> => {
+  const firestore = getDb();
+  const { match, template } = await getMatchScoringTemplate(matchId);
+  const period = event.period ?? match.currentRound;
+  validateMatchEvent(match, template, { ...event, period });
+
+  const eventRef = doc(collection(firestore, 'matches', matchId, 'events'));
+  await setDoc(eventRef, {
+    ...removeUndefined({ ...event, value: getEventValue(template, event), period, createdBy }),
+    timestamp: serverTimestamp(),
+  });
+  const synced = await syncMatchEvents(matchId);
+
+  // Matches played to a target end as soon as someone reaches it
+  const winnerId =
+    synced.status === 'in_progress' && !isSeries(synced) && template.winCondition.type === 'first_to'
+      ? getTemplateWinner(template, synced.scores || {})
+      : undefined;
+  if (winnerId) await updateMatchScores(matchId, synced.scores || {}, winnerId);
+  return eventRef.id;
+};
+
+export const updateMatchEvent = async (
+  matchId: string,
+  eventId: string,
+  data: Partial<MatchEventInput>
+): Promise<void> => {
+  const firestore = getDb();
+  const eventRef = doc(firestore, 'matches', matchId, 'events', eventId);
+  const [{ match, template }, eventDoc] = await Promise.all([getMatchScoringTemplate(matchId), getDoc(eventRef)]);
+  if (!eventDoc.exists()) throw new Error('Event not found');
+  const merged = { ...toMatchEvent(eventDoc), ...removeUndefined(data) };
+  validateMatchEvent(match, template, merged);
+
+  const { playerId, playerName, ...fields } = data;
+  await updateDoc(eventRef, {
+    ...removeUndefined({ ...fields, value: getEventValue(template, merged) }),
+    // An emptied description is removed rather than stored blank
+    ...(data.description === '' && { description: deleteField() }),
+    // Likewise an emptied player, when the event is no longer credited to one
+    ...(playerId !== undefined &&
+      (playerId
+        ? removeUndefined({ playerId, playerName })
+        : { playerId: deleteField(), playerName: deleteField() })),
+    editedAt: serverTimestamp(),
+  });
+  await syncMatchEvents(matchId);
+};
+
+// Deleting only flags the event, so it can be restored
+export const deleteMatchEvent = async (matchId: string, eventId: string): Promise<void> => {
+  const firestore = getDb();
+  await updateDoc(doc(firestore, 'matches', matchId, 'events', eventId), { deletedAt: serverTimestamp() });
+  await syncMatchEvents(matchId);
+};
+
+export const restoreMatchEvent = async (matchId: string, eventId: string): Promise<void> => {
+  const firestore = getDb();
+  await updateDoc(doc(firestore, 'matches', matchId, 'events', eventId), { deletedAt: deleteField() });
+  await syncMatchEvents(matchId);
+};
+
+// Matches from before the subcollection keep their events in an array on
+// the match; copy them over once so they can be edited
+export const migrateLegacyMatchEvents = async (matchId: string): Promise<void> => {
+  const firestore = getDb();
+  const matchDoc = await getDoc(doc(firestore, 'matches', matchId));
+  const legacyEvents = matchDoc.exists() ? toMatch(matchDoc).events || [] : [];
+  if (legacyEvents.length === 0 || (await getAllMatchEvents(matchId)).length > 0) return;
+
+  const batch = writeBatch(firestore);
+  legacyEvents.forEach(({ id, ...event }) => {
+    batch.set(doc(firestore, 'matches', matchId, 'events', id), removeUndefined({ ...event }));
+  });
+  await batch.commit();
+  await syncMatchEvents(matchId);
+};
+
+// Update match round/map info
+export const updateMatchGameState = async (
+  matchId: string,
+  gameState: {
+    currentRound?: number;
+    currentMap?: string;
+  }
+): Promise<void> => {
+  const firestore = getDb();
+  const matchRef = doc(firestore, 'matches', matchId);
+
+  await updateDoc(matchRef, {
+    ...removeUndefined(gameState as Record<string, unknown>),
+    updatedAt: serverTimestamp(),
+  });
+};
+
+// Clear match events (for reset)
+export const clearMatchEvents = async (matchId: string): Promise<void> => {
+  const firestore = getDb();
+  const snapshot = await getDocs(collection(firestore, 'matches', matchId, 'events'));
+
+  const batch = writeBatch(firestore);
+  snapshot.docs.forEach((eventDoc) => batch.delete(eventDoc.ref));
+  await batch.commit();
+  await syncMatchEvents(matchId);
+};
+
+// ============ MATCH RESULT REPORTS ============
+// Who speaks for each participant: the user, or the team captain
+const getParticipantContacts = async (
+  transaction: Transaction,
+  match: Match
+): Promise<Record<string, string>> => {
+  const firestore = getDb();
+  const contacts: Record<string, string> = {};
+  await Promise.all(
+    (match.participants || []).map(async (participant) => {
+      if (participant.oduserId) {
+        contacts[participant.oduserId] = participant.oduserId;
+      } else if (participant.teamId) {
+        const teamDoc = await transaction.get(doc(firestore, 'teams', participant.teamId));
+        const captainId = (teamDoc.data() as Team | undefined)?.captainId;
+        if (captainId) contacts[participant.teamId] = captainId;
+      }
+    })
+  );
+  return contacts;
+};
+
+const notifyResultContacts = (
+  transaction: Transaction,
+  match: Match & { id: string },
+  userIds: string[],
+  title: string,
+  message: string
+): void => {
+  const firestore = getDb();
+  [...new Set(userIds)].forEach((userId) => {
+    transaction.set(doc(collection(firestore, 'notifications')), {
+      userId,
+      type: 'match_result',
+      title,
+      message,
+      linkUrl: `/matches/${match.id}`,
+      relatedId: match.id,
+      isRead: false,
+      createdAt: serverTimestamp(),
+    });
+  });
+};
+
+// Settle a match with a reported (or admin-decided) result. Does the
+// transaction's stat/rating reads, so call it after the other reads; returns
+// the leaderboard update to apply once the transaction commits.
+const completeWithReportedResult = async (
+  transaction: Transaction,
+  match: Match & { id: string },
+  result: { scores: Record<string, number>; winnerId?: string },
+  reportFields: Record<string, unknown>
+): Promise<LeaderboardUpdate | null> => {
+  const firestore = getDb();
+  const { resultFields, leaderboardUpdate } = await syncMatchResult(transaction, match.id, match, {
+    status: 'completed',
+    winnerId: result.winnerId,
+  });
+  transaction.update(doc(firestore, 'matches', match.id), {
+    scores: result.scores,
+    winnerId: result.winnerId ?? deleteField(),
+    status: 'completed',
+    completedAt: serverTimestamp(),
+    updatedAt: serverTimestamp(),
+    ...reportFields,
+    ...resultFields,
+  });
+  return leaderboardUpdate;
+};
+
+// A participant (team captain for team matches) submits the final score;
+// the other side then confirms or disputes it
+export const submitMatchResult = async (
+  matchId: string,
+  userId: string,
+  scores: Record<string, number>
+): Promise<void> => {
+  const firestore = getDb();
+  const matchRef = doc(firestore, 'matches', matchId);
+
+  await runTransaction(firestore, async (transaction) => {
+    const matchDoc = await transaction.get(matchRef);
+    if (!matchDoc.exists()) throw new Error('Match not found');
+    const match = toMatch(matchDoc);
+    if (!canSelfReport(match)) throw new Error('Results for this match are entered by admins');
+    if (match.resultReport?.status === 'disputed') {
+      throw new Error('This result is disputed and waiting on an admin');
+    }
+
+    const contacts = await getParticipantContacts(transaction, match);
+    const reportedFor = Object.keys(contacts).find((participantId) => contacts[participantId] === userId);
+    if (!reportedFor) {
+      throw new Error(match.isTeamMatch ? 'Only team captains can report results' : 'Only participants can report results');
+    }
+    const participantIds = match.participants.map((p) => p.oduserId || p.teamId || '');
+    if (participantIds.some((id) => !Number.isInteger(scores[id]) || scores[id] < 0)) {
+      throw new Error('Enter a score of 0 or more for every participant');
+    }
+
+    const winnerId = getWinnerFromScores(scores);
+    transaction.update(matchRef, {
+      resultReport: removeUndefined({
+        status: 'pending',
+        scores: Object.fromEntries(participantIds.map((id) => [id, scores[id]])),
+        winnerId,
+        reportedBy: userId,
+        reportedFor,
+        reportedAt: serverTimestamp(),
+      }),
+      updatedAt: serverTimestamp(),
+    });
+    notifyResultContacts(
+      transaction,
+      match,
+      Object.entries(contacts).filter(([id]) => id !== reportedFor).map(([, contactId]) => contactId),
+      'Confirm match result',
+      `A result was reported for ${match.title}. Confirm it or open a dispute.`
+    );
+  });
+};
+
+export const confirmMatchResult = async (matchId: string, userId: string): Promise<void> => {
+  const firestore = getDb();
+  const matchRef = doc(firestore, 'matches', matchId);
+
+  const leaderboardUpdate = await runTransaction(firestore, async (transaction) => {
+    const matchDoc = await transaction.get(matchRef);
+    if (!matchDoc.exists()) throw new Error('Match not found');
+    const match = toMatch(matchDoc);
+    const contacts = await getParticipantContacts(transaction, match);
+    const confirmedFor = getRespondingParticipant(match, contacts, userId);
+    const report = match.resultReport as MatchResultReport;
+
+    const update = await completeWithReportedResult(transaction, match, report, {
+      'resultReport.status': 'confirmed',
+      'resultReport.confirmedBy': userId,
+      'resultReport.confirmedFor': confirmedFor,
+      'resultReport.confirmedAt': serverTimestamp(),
+    });
+    notifyResultContacts(
+      transaction,
+      match,
+      [report.reportedBy],
+      'Result confirmed',
+      `Your result for ${match.title} was confirmed.`
+    );
+    return update;
+  });
+  await applyLeaderboardUpdate(leaderboardUpdate);
+  await recapCompletedMatch(matchId);
+};
+
+export const disputeMatchResult = async (
+  matchId: string,
+  userId: string,
+  reason: string,
+  evidenceUrls: string[] = []
+): Promise<void> => {
+  const firestore = getDb();
+  const matchRef = doc(firestore, 'matches', matchId);
+
+  if (!reason.trim()) throw new Error('Explain what is wrong with the reported result');
+
+  await runTransaction(firestore, async (transaction) => {
+    const matchDoc = await transaction.get(matchRef);
+    if (!matchDoc.exists()) throw new Error('Match not found');
+    const match = toMatch(matchDoc);
+    const contacts = await getParticipantContacts(transaction, match);
+    const openedFor = getRespondingParticipant(match, contacts, userId);
+    const report = match.resultReport as MatchResultReport;
+
+    transaction.update(matchRef, {
+      'resultReport.status': 'disputed',
+      'resultReport.dispute': {
+        openedBy: userId,
+        openedFor,
+        reason: reason.trim(),
+        evidenceUrls,
+        openedAt: serverTimestamp(),
+      },
+      updatedAt: serverTimestamp(),
+    });
+    notifyResultContacts(
+      transaction,
+      match,
+      [report.reportedBy],
+      'Result disputed',
+      `Your result for ${match.title} was disputed and sent to an admin.`
+    );
+  });
+};
+
+// Admin queue: disputed reports, oldest first
+export const getDisputedMatches = async (): Promise<Match[]> => {
+  const firestore = getDb();
+  const snapshot = await getDocs(
+    query(collection(firestore, 'matches'), where('resultReport.status', '==', 'disputed'))
+  );
+  return snapshot.docs
+    .map(toMatch)
+    .sort(
+      (a, b) =>
+        (a.resultReport?.dispute?.openedAt.getTime() || 0) - (b.resultReport?.dispute?.openedAt.getTime() || 0)
+    );
+};
+
+// Admin settles a dispute with the final result (the reported one, or a
+// corrected one)
+export const resolveMatchDispute = async (
+  matchId: string,
+  adminId: string,
+  scores: Record<string, number>
+): Promise<void> => {
+  const firestore = getDb();
+  const matchRef = doc(firestore, 'matches', matchId);
+
+  const leaderboardUpdate = await runTransaction(firestore, async (transaction) => {
+    const matchDoc = await transaction.get(matchRef);
+    if (!matchDoc.exists()) throw new Error('Match not found');
+    const match = toMatch(matchDoc);
+    if (match.resultReport?.status !== 'disputed') throw new Error('This match has no open dispute');
+    const contacts = await getParticipantContacts(transaction, match);
+
+    const update = await completeWithReportedResult(
+      transaction,
+      match,
+      { scores, winnerId: getWinnerFromScores(scores) },
+      {
+        'resultReport.status': 'resolved',
+        'resultReport.resolvedBy': adminId,
+        'resultReport.resolvedAt': serverTimestamp(),
+      }
+    );
+    notifyResultContacts(
+      transaction,
+      match,
+      Object.values(contacts),
+      'Dispute resolved',
+      `An admin has settled the result for ${match.title}.`
+    );
+    return update;
+  });
+  await applyLeaderboardUpdate(leaderboardUpdate);
+  await recapCompletedMatch(matchId);
+};
+
+// Admin throws out a disputed report so the participants can report again
+export const dismissMatchResultReport = async (matchId: string): Promise<void> => {
+  const firestore = getDb();
+  const matchRef = doc(firestore, 'matches', matchId);
+
+  await runTransaction(firestore, async (transaction) => {
+    const matchDoc = await transaction.get(matchRef);
+    if (!matchDoc.exists()) throw new Error('Match not found');
+    const match = toMatch(matchDoc);
+    const contacts = await getParticipantContacts(transaction, match);
+
+    transaction.update(matchRef, { resultReport: deleteField(), updatedAt: serverTimestamp() });
+    notifyResultContacts(
+      transaction,
+      match,
+      Object.values(contacts),
+      'Result report cleared',
+      `The disputed result for ${match.title} was cleared. Please report the result again.`
+    );
+  });
+};
+
+// ============ MAP VETO ============
+// Start the ban/pick veto from the match game's map pool. Both captains
+// take turns from the match page.
+export const startMapVeto = async (matchId: string): Promise<void> => {
+  const firestore = getDb();
+  const matchRef = doc(firestore, 'matches', matchId);
+
+  await runTransaction(firestore, async (transaction) => {
+    const matchDoc = await transaction.get(matchRef);
+    if (!matchDoc.exists()) throw new Error('Match not found');
+    const match = toMatch(matchDoc);
+    if (match.mapVeto?.status === 'in_progress') throw new Error('A map veto is already under way');
+    if (match.status !== 'open' && match.status !== 'scheduled') {
+      throw new Error('The map veto has to happen before the match starts');
+    }
+    if ((match.participants || []).length !== 2) throw new Error('A map veto needs exactly two participants');
+
+    const gameDoc = await transaction.get(doc(firestore, 'games', match.game));
+    const pool = (gameDoc.data() as Game | undefined)?.mapPool || [];
+    const bestOf = match.bestOf || 1;
+    if (pool.length < bestOf) {
+      throw new Error(`This game's map pool needs at least ${bestOf} map${bestOf === 1 ? '' : 's'}`);
+    }
+
+    const [first, second] = match.participants.map((p) => p.oduserId || p.teamId || '');
+    transaction.update(matchRef, {
+      mapVeto: {
+        status: 'in_progress',
+        pool,
+        steps: createVetoSteps(pool.length, bestOf, [first, second]),
+        mapOrder: [],
+        startedAt: serverTimestamp(),
+      },
+      updatedAt: serverTimestamp(),
+    });
+  });
+};
+
+// Ban or pick a map for the participant whose turn it is. The last step
+// settles the map order and the first map becomes the current one.
+export const submitVetoAction = async (matchId: string, userId: string, map: string): Promise<void> => {
+  const firestore = getDb();
+  const matchRef = doc(firestore, 'matches', matchId);
+
+  await runTransaction(firestore, async (transaction) => {
+    const matchDoc = await transaction.get(matchRef);
+    if (!matchDoc.exists()) throw new Error('Match not found');
+    const match = toMatch(matchDoc);
+    const veto = match.mapVeto;
+    const step = veto && getNextVetoStep(veto);
+    if (!veto || veto.status !== 'in_progress' || !step) throw new Error('There is no map veto in progress');
+
+    const contacts = await getParticipantContacts(transaction, match);
+    if (contacts[step.participantId] !== userId) {
+      throw new Error(match.isTeamMatch ? "It's the other captain's turn" : "It's your opponent's turn");
+    }
+    if (!getRemainingMaps(veto).includes(map)) throw new Error(`${map} is no longer available`);
+
+    // serverTimestamp() isn't allowed inside arrays
+    const steps = veto.steps.map((vetoStep) =>
+      vetoStep === step ? { ...vetoStep, map, actedBy: userId, actedAt: new Date() } : vetoStep
+    );
+    const next: MapVeto = { ...veto, steps };
+    const isDone = !getNextVetoStep(next);
+    const mapOrder = getMapOrder(next);
+
+    transaction.update(matchRef, {
+      'mapVeto.steps': steps.map((vetoStep) => removeUndefined({ ...vetoStep })),
+      'mapVeto.mapOrder': mapOrder,
+      ...(isDone && {
+        'mapVeto.status': 'completed',
+        'mapVeto.completedAt': serverTimestamp(),
+        currentMap: mapOrder[0],
+      }),
+      updatedAt: serverTimestamp(),
+    });
+  });
+};
+
+// Admins can throw a veto away and start over
+export const resetMapVeto = async (matchId: string): Promise<void> => {
+  const firestore = getDb();
+  await updateDoc(doc(firestore, 'matches', matchId), {
+    mapVeto: deleteField(),
+    currentMap: deleteField(),
+    updatedAt: serverTimestamp(),
+  });
+};
+
+// ============ LINEUPS ============
+// A team captain picks the starters and substitutes for a team match.
+// Lineups lock once the match starts.
+export const setMatchLineup = async (
+  matchId: string,
+  teamId: string,
+  userId: string,
+  lineup: Pick<MatchLineup, 'starters' | 'substitutes'>
+): Promise<void> => {
+  const firestore = getDb();
+  const matchRef = doc(firestore, 'matches', matchId);
+
+  await runTransaction(firestore, async (transaction) => {
+    const matchDoc = await transaction.get(matchRef);
+    if (!matchDoc.exists()) throw new Error('Match not found');
+    const match = toMatch(matchDoc);
+    if (!match.isTeamMatch) throw new Error('Lineups are only for team matches');
+    if (!match.participants.some((p) => !p.oduserId && p.teamId === teamId)) {
+      throw new Error("That team isn't in this match");
+    }
+    if (isLineupLocked(match)) throw new Error('Lineups are locked once the match starts');
+
+    const teamDoc = await transaction.get(doc(firestore, 'teams', teamId));
+    const team = teamDoc.data() as Team | undefined;
+    if (!team) throw new Error('Team not found');
+    if (team.captainId !== userId) throw new Error('Only the team captain can set the lineup');
+    // Tournament matches are played at the tournament's team sizes
+    const tournament = match.tournamentId
+      ? ((await transaction.get(doc(firestore, 'tournaments', match.tournamentId))).data() as Tournament | undefined)
+      : undefined;
+    const error = getLineupError(lineup, team.members, {
+      minStarters: tournament?.minTeamSize,
+      maxPlayers: tournament?.maxTeamSize,
+    });
+    if (error) throw new Error(error);
+
+    const toPlayer = ({ userId: playerId, name }: LineupPlayer) => ({ userId: playerId, name });
+    transaction.update(matchRef, {
+      [`lineups.${teamId}`]: {
+        starters: lineup.starters.map(toPlayer),
+        substitutes: lineup.substitutes.map(toPlayer),
+        updatedBy: userId,
+        updatedAt: serverTimestamp(),
+      },
+      updatedAt: serverTimestamp(),
+    });
+  });
+};
+
+// ============ MATCH RECAPS ============
+// A recap post is written when a match completes. In 'review' mode it waits
+// on the match for an admin; in 'publish' mode it goes straight to the feed.
+
+// The match's school, or else the one all its participants share, so the
+// recap shows up under the feed's school filter
+const getRecapSchoolId = async (match: Match): Promise<string | undefined> => {
+  if (match.schoolId) return match.schoolId;
+  const participants = match.participants || [];
+  const [users, teams] = await Promise.all([
+    getUsersByIds(participants.flatMap((p) => (p.oduserId ? [p.oduserId] : []))),
+    getTeamsByIds(participants.flatMap((p) => (!p.oduserId && p.teamId ? [p.teamId] : []))),
+  ]);
+  const schoolIds = new Set(
+    participants.map((p) => (p.oduserId ? users[p.oduserId]?.schoolId : teams[p.teamId || '']?.schoolId))
+  );
+  const [schoolId] = [...schoolIds];
+  return (schoolIds.size === 1 && schoolId) || undefined;
+};
+
+const getRecapContent = async (match: Match): Promise<string> => {
+  const [events, game] = await Promise.all([getMatchEvents(match.id), getGame(match.game)]);
+  return buildMatchRecap(match, events, getScoringTemplate(game), game?.name);
+};
+
+const setRecapPost = (
+  transaction: Transaction,
+  match: Match,
+  recap: Pick<MatchRecap, 'content' | 'schoolId'>,
+  createdBy: string
+): string => {
+  const postRef = doc(collection(getDb(), 'posts'));
+  transaction.set(
+    postRef,
+    removeUndefined({
+      content: recap.content,
+      createdBy,
+      schoolId: recap.schoolId,
+      game: match.game,
+      matchId: match.id,
+      reactions: [],
+      commentCount: 0,
+      isPinned: false,
+      createdAt: serverTimestamp(),
+      updatedAt: serverTimestamp(),
+    })
+  );
+  return postRef.id;
+};
+
+// Write the recap for a match that has just completed. A match only ever
+// gets one; a failed recap is logged rather than failing the result save.
+const recapCompletedMatch = async (matchId: string): Promise<void> => {
+  const firestore = getDb();
+  const matchRef = doc(firestore, 'matches', matchId);
+
+  try {
+    const match = await getMatch(matchId);
+    const mode = match ? getRecapMode(match) : 'off';
+    if (!match || match.status !== 'completed' || match.recap || mode === 'off') return;
+    const [content, schoolId] = await Promise.all([getRecapContent(match), getRecapSchoolId(match)]);
+
+    await runTransaction(firestore, async (transaction) => {
+      const matchDoc = await transaction.get(matchRef);
+      if (!matchDoc.exists() || matchDoc.data().recap) return;
+
+      const postId =
+        mode === 'publish' ? setRecapPost(transaction, match, { content, schoolId }, match.createdBy) : undefined;
+      transaction.update(matchRef, {
+        recap: removeUndefined({
+          status: postId ? 'published' : 'pending',
+          content,
+          schoolId,
+          postId,
+          generatedAt: serverTimestamp(),
+        }),
+        updatedAt: serverTimestamp(),
+      });
+    });
+  } catch (error) {
+    console.error('Error writing match recap:', error);
+  }
+};
+
+// Recaps waiting for review, oldest first
+export const getPendingMatchRecaps = async (): Promise<Match[]> => {
+  const firestore = getDb();
+  const snapshot = await getDocs(
+    query(collection(firestore, 'matches'), where('recap.status', '==', 'pending'))
+  );
+  return snapshot.docs
+    .map(toMatch)
+    .sort((a, b) => (a.recap?.generatedAt.getTime() || 0) - (b.recap?.generatedAt.getTime() || 0));
+};
+
+// Rebuild a pending recap from the match as it stands now, e.g. after its
+// result or events were corrected
+export const regenerateMatchRecap = async (matchId: string): Promise<string> => {
+  const firestore = getDb();
+  const match = await getMatch(matchId);
+  if (!match) throw new Error('Match not found');
+  if (match.recap?.status !== 'pending') throw new Error('This recap has already been reviewed');
+
+  const [content, schoolId] = await Promise.all([getRecapContent(match), getRecapSchoolId(match)]);
+  await updateDoc(doc(firestore, 'matches', matchId), {
+    'recap.content': content,
+    'recap.schoolId': schoolId ?? deleteField(),
+    'recap.generatedAt': serverTimestamp(),
+    updatedAt: serverTimestamp(),
+  });
+  return content;
+};
+
+// An admin publishes a pending recap (with any edits) as a post by them
+export const publishMatchRecap = async (matchId: string, adminId: string, content: string): Promise<string> => {
+  const firestore = getDb();
+  const matchRef = doc(firestore, 'matches', matchId);
+  if (!content.trim()) throw new Error('The recap is empty');
+
+  return runTransaction(firestore, async (transaction) => {
+    const matchDoc = await transaction.get(matchRef);
+    if (!matchDoc.exists()) throw new Error('Match not found');
+    const match = toMatch(matchDoc);
+    if (match.recap?.status !== 'pending') throw new Error('This recap has already been reviewed');
+
+    const recap = { content: content.trim(), schoolId: match.recap.schoolId };
+    const postId = setRecapPost(transaction, match, recap, adminId);
+    transaction.update(matchRef, {
+      'recap.status': 'published',
+      'recap.content': recap.content,
+      'recap.postId': postId,
+      'recap.reviewedBy': adminId,
+      'recap.reviewedAt': serverTimestamp(),
+      updatedAt: serverTimestamp(),
+    });
+    return postId;
+  });
+};
+
+// An admin throws out a pending recap; the match won't get another
+export const discardMatchRecap = async (matchId: string, adminId: string): Promise<void> => {
+  const firestore = getDb();
+  const matchRef = doc(firestore, 'matches', matchId);
+
+  await runTransaction(firestore, async (transaction) => {
+    const matchDoc = await transaction.get(matchRef);
+    if (!matchDoc.exists()) throw new Error('Match not found');
+    if (matchDoc.data().recap?.status !== 'pending') throw new Error('This recap has already been reviewed');
+    transaction.update(matchRef, {
+      'recap.status': 'discarded',
+      'recap.reviewedBy': adminId,
+      'recap.reviewedAt': serverTimestamp(),
+      updatedAt: serverTimestamp(),
+    });
+  });
+};
+
+// ============ RECURRING MATCHES ============
+// A recurring scrimmage is a series of ordinary matches sharing a
+// recurrenceId (the first match's ID). Each occurrence can be edited or
+// cancelled on its own, or the upcoming ones all at once.
+
+// Repeat an existing scrimmage: copies its participants, rules and stream
+// settings into a match for every later date of the rule. Returns the new
+// matches' IDs.
+export const createMatchRecurrence = async (
+  matchId: string,
+  rule: RecurrenceRule,
+  allowConflicts = false
+): Promise<string[]> => {
+  const firestore = getDb();
+  const match = await getMatch(matchId);
+  if (!match) throw new Error('Match not found');
+  if (!RECURRING_MATCH_TYPES.includes(match.type)) throw new Error('Only scrimmages can repeat');
+  if (match.recurrenceId) throw new Error('This match already repeats');
+  const recurrenceError = getRecurrenceError(match.scheduledTime, rule);
+  if (recurrenceError) throw new Error(recurrenceError);
+  if (!allowConflicts) assertNoConflicts(await getRecurrenceConflicts(match, rule, match.participants));
+
+  const firstStart = match.scheduledTime as Date;
+  const deadlineOffset = match.registrationDeadline
+    ? firstStart.getTime() - match.registrationDeadline.getTime()
+    : undefined;
+  const recurrence = { daysOfWeek: [...rule.daysOfWeek].sort((a, b) => a - b), until: rule.until };
+
+  const batch = writeBatch(firestore);
+  const occurrenceIds = getOccurrenceTimes(firstStart, rule).map((scheduledTime) => {
+    const occurrenceRef = doc(collection(firestore, 'matches'));
+    batch.set(occurrenceRef, {
+      ...removeUndefined({
+        title: match.title,
+        description: match.description,
+        game: match.game,
+        type: match.type,
+        status: isUpcomingOccurrence(match) ? match.status : 'scheduled',
+        isTeamMatch: match.isTeamMatch,
+        maxParticipants: match.maxParticipants,
+        participants: match.participants.map((p) => removeUndefined({ ...p })),
+        participantIds: getParticipantIds(match.participants),
+        bestOf: match.bestOf,
+        rules: match.rules,
+        prizeDescription: match.prizeDescription,
+        bannerImage: match.bannerImage,
+        schoolId: match.schoolId,
+        streamUrl: match.streamUrl,
+        isPublic: match.isPublic,
+        recapMode: match.recapMode,
+        sponsors: match.sponsors,
+        scheduledTime,
+        registrationDeadline:
+          deadlineOffset !== undefined ? new Date(scheduledTime.getTime() - deadlineOffset) : undefined,
+        recurrenceId: matchId,
+        recurrence,
+        challengeId: match.challengeId,
+        createdBy: match.createdBy,
+      }),
+      createdAt: serverTimestamp(),
+      updatedAt: serverTimestamp(),
+    });
+    return occurrenceRef.id;
+  });
+  batch.update(doc(firestore, 'matches', matchId), {
+    recurrenceId: matchId,
+    recurrence,
+    updatedAt: serverTimestamp(),
+  });
+  await batch.commit();
+  return occurrenceIds;
+};
+
+// Every occurrence of a series, earliest first
+export const getMatchOccurrences = async (recurrenceId: string): Promise<Match[]> => {
+  const firestore = getDb();
+  const snapshot = await getDocs(
+    query(collection(firestore, 'matches'), where('recurrenceId', '==', recurrenceId))
+  );
+  return snapshot.docs
+    .map(toMatch)
+    .sort((a, b) => (a.scheduledTime?.getTime() || 0) - (b.scheduledTime?.getTime() || 0));
+};
+
+// Copy a whole-series edit from one occurrence to the series' other upcoming
+// ones. A moved start time moves theirs by the same amount.
+export const updateUpcomingOccurrences = async (
+  recurrenceId: string,
+  editedMatchId: string,
+  data: Partial<Match>,
+  timeShiftMs = 0
+): Promise<number> => {
+  const firestore = getDb();
+  const occurrences = (await getMatchOccurrences(recurrenceId)).filter(
+    (occurrence) => occurrence.id !== editedMatchId && isUpcomingOccurrence(occurrence)
+  );
+  const shared = Object.fromEntries(
+    RECURRENCE_SHARED_FIELDS.filter((field) => field in data).map((field) => [field, data[field] ?? deleteField()])
+  );
+
+  const batch = writeBatch(firestore);
+  occurrences.forEach((occurrence) => {
+    const shift = (date?: Date) => (date ? new Date(date.getTime() + timeShiftMs) : undefined);
+    batch.update(doc(firestore, 'matches', occurrence.id), {
+      ...shared,
+      ...(timeShiftMs !== 0 &&
+        removeUndefined({
+          scheduledTime: shift(occurrence.scheduledTime),
+          registrationDeadline: shift(occurrence.registrationDeadline),
+        })),
+      updatedAt: serverTimestamp(),
+    });
+  });
+  await batch.commit();
+  return occurrences.length;
+};
+
+// Cancel every occurrence that hasn't started yet. Returns how many.
+export const cancelUpcomingOccurrences = async (recurrenceId: string): Promise<number> => {
+  const firestore = getDb();
+  const occurrences = (await getMatchOccurrences(recurrenceId)).filter(isUpcomingOccurrence);
+
+  const batch = writeBatch(firestore);
+  occurrences.forEach((occurrence) => {
+    batch.update(doc(firestore, 'matches', occurrence.id), {
+      status: 'cancelled',
+      updatedAt: serverTimestamp(),
+    });
+  });
+  await batch.commit();
+  return occurrences.length;
+};
+
+// ============ SCHEDULE CONFLICTS ============
+// A player is booked into the matches they joined, their teams' matches and
+// the tournaments they entered; a team into its matches and tournaments.
+// Joining or registering checks these for overlaps unless the caller has
+// already warned about them and passes allowConflicts.
+type ScheduleOwner = Pick<MatchParticipant, 'oduserId' | 'teamId'>;
+
+const SCHEDULED_MATCH_STATUSES: MatchStatus[] = ['open', 'scheduled', 'in_progress'];
+const SCHEDULED_TOURNAMENT_STATUSES: Tournament['status'][] = ['registration', 'in_progress'];
+
+// array-contains-any takes at most this many values per query
+const PARTICIPANT_QUERY_LIMIT = 30;
+
+const chunkIds = (ids: string[]): string[][] => {
+  const chunks: string[][] = [];
+  for (let i = 0; i < ids.length; i += PARTICIPANT_QUERY_LIMIT) {
+    chunks.push(ids.slice(i, i + PARTICIPANT_QUERY_LIMIT));
+  }
+  return chunks;
+};
+
+// Matches starting before `to` that may still be running at `from`
+const getScheduledMatchQuery = (constraint: QueryConstraint, from: Date, to: Date): Query =>
+  query(
+    collection(getDb(), 'matches'),
+    constraint,
+    where('scheduledTime', '>=', new Date(from.getTime() - COMMITMENT_LOOKBACK_MS)),
+    where('scheduledTime', '<', to)
+  );
+
+const getParticipantMatchQueries = (participantIds: string[], from: Date, to: Date): Query[] =>
+  chunkIds(participantIds).map((chunk) =>
+    getScheduledMatchQuery(where('participantIds', 'array-contains-any', chunk), from, to)
+  );
+
+// Scheduled matches from `matchQueries` and active tournaments among
+// `tournaments`, running past `from` and starting before `to`, soonest first
+const collectCommitments = async (
+  matchQueries: Query[],
+  tournaments: Promise<Tournament[]>,
+  from: Date,
+  to: Date
+): Promise<Commitment[]> => {
+  const [matchSnapshots, bookedTournaments, games] = await Promise.all([
+    Promise.all(matchQueries.map((matchQuery) => getDocs(matchQuery))),
+    tournaments,
+    getGames(false),
+  ]);
+  const gamesById = Object.fromEntries(games.map((game) => [game.id, game]));
+
+  const matchCommitments = matchSnapshots
+    .flatMap((snapshot) => snapshot.docs.map(toMatch))
+    .filter((match) => SCHEDULED_MATCH_STATUSES.includes(match.status))
+    .flatMap((match) => {
+      const window = getMatchWindow(match, gamesById[match.game]);
+      return window ? [toMatchCommitment(match, window)] : [];
+    });
+  const tournamentCommitments = bookedTournaments
+    .filter((tournament) => SCHEDULED_TOURNAMENT_STATUSES.includes(tournament.status))
+    .map(toTournamentCommitment);
+
+  // A match or tournament can turn up in more than one query
+  return mergeCommitments(matchCommitments, tournamentCommitments).filter(
+    (commitment) => commitment.end > from && commitment.start < to
+  );
+};
+
+// Everything the player or team is booked into between `from` and `to`
+export const getScheduleCommitments = async (
+  owner: ScheduleOwner,
+  from: Date,
+  to: Date
+): Promise<Commitment[]> => {
+  const firestore = getDb();
+  const user = owner.oduserId ? await getUser(owner.oduserId) : null;
+  const participantIds = owner.teamId
+    ? [owner.teamId]
+    : owner.oduserId
+      ? [owner.oduserId, ...(user?.teamsJoined || [])]
+      : [];
+
+  const tournaments = owner.teamId
+    ? getDocs(
+        query(collection(firestore, 'tournaments'), where('participants', 'array-contains', owner.teamId))
+      ).then((snapshot) => snapshot.docs.map(toTournament))
+    : Promise.all(
+        (user?.tournamentsJoined || []).map((tournamentId) => getDoc(doc(firestore, 'tournaments', tournamentId)))
+      ).then((docs) => docs.filter((tournamentDoc) => tournamentDoc.exists()).map(toTournament));
+
+  return collectCommitments(getParticipantMatchQueries(participantIds, from, to), tournaments, from, to);
+};
+
+// Matches and tournaments the school hosts or its teams are in, for the
+// school calendar
+export const getSchoolCommitments = async (school: School, from: Date, to: Date): Promise<Commitment[]> => {
+  const firestore = getDb();
+  const tournamentsRef = collection(firestore, 'tournaments');
+
+  const tournaments = Promise.all([
+    getDocs(query(tournamentsRef, where('schoolId', '==', school.id))),
+    ...chunkIds(school.teams).map((chunk) =>
+      getDocs(query(tournamentsRef, where('participants', 'array-contains-any', chunk)))
+    ),
+  ]).then((snapshots) => snapshots.flatMap((snapshot) => snapshot.docs.map(toTournament)));
+
+  return collectCommitments(
+    [
+      getScheduledMatchQuery(where('schoolId', '==', school.id), from, to),
+      ...getParticipantMatchQueries(school.teams, from, to),
+    ],
+    tournaments,
+    from,
+    to
+  );
+};
+
+// What the player or team is already booked into while the match runs. A
+// match that doesn't exist yet (a challenge) has no ID.
+export const getMatchConflicts = async (
+  match: Pick<Match, 'game' | 'scheduledTime' | 'bestOf'> & { id?: string },
+  owner: ScheduleOwner
+): Promise<Commitment[]> => {
+  const window = getMatchWindow(match, await getGame(match.game));
+  if (!window) return [];
+  return findConflicts(window, await getScheduleCommitments(owner, window.start, window.end), match.id);
+};
+
+export const getTournamentConflicts = async (
+  tournament: Tournament,
+  owner: ScheduleOwner
+): Promise<Commitment[]> => {
+  const window = getTournamentWindow(tournament);
+  return findConflicts(window, await getScheduleCommitments(owner, window.start, window.end), tournament.id);
+};
+
+// What the players or teams are already booked into while the later matches
+// of a series run. Each schedule is looked up once for the whole series.
+export const getRecurrenceConflicts = async (
+  match: Pick<Match, 'game' | 'scheduledTime' | 'bestOf'> & { id?: string },
+  rule: RecurrenceRule,
+  owners: ScheduleOwner[]
+): Promise<Commitment[]> => {
+  if (!match.scheduledTime || owners.length === 0) return [];
+  const game = await getGame(match.game);
+  const windows = getOccurrenceTimes(match.scheduledTime, rule).flatMap((scheduledTime) => {
+    const window = getMatchWindow({ ...match, scheduledTime }, game);
+    return window ? [window] : [];
+  });
+  if (windows.length === 0) return [];
+
+  const schedules = await Promise.all(
+    owners.map((owner) => getScheduleCommitments(owner, windows[0].start, windows[windows.length - 1].end))
+  );
+  return mergeCommitments(
+    ...schedules.flatMap((commitments) => windows.map((window) => findConflicts(window, commitments, match.id)))
+  );
+};
+
+const assertNoConflicts = (conflicts: Commitment[]): void => {
+  if (conflicts.length > 0) throw new Error(describeConflicts(conflicts));
+};
+
+// ============ CALENDAR FEEDS ============
+const toCalendarFeed = (feedDoc: DocumentSnapshot): CalendarFeed => {
+  const data = feedDoc.data() || {};
+  return {
+    id: feedDoc.id,
+    ...data,
+    createdAt: convertTimestamp(data.createdAt),
+  } as CalendarFeed;
+};
+
+export const getCalendarFeed = async (token: string): Promise<CalendarFeed | null> => {
+  const feedDoc = await getDoc(doc(getDb(), 'calendarFeeds', token));
+  return feedDoc.exists() ? toCalendarFeed(feedDoc) : null;
+};
+
+// The owner's feed token, created the first time it's asked for
+export const getCalendarFeedToken = async (ownerType: CalendarFeedOwnerType, ownerId: string): Promise<string> => {
+  const firestore = getDb();
+  const snapshot = await getDocs(
+    query(
+      collection(firestore, 'calendarFeeds'),
+      where('ownerType', '==', ownerType),
+      where('ownerId', '==', ownerId),
+      limit(1)
+    )
+  );
+  if (!snapshot.empty) return snapshot.docs[0].id;
+
+  const token = createCalendarFeedToken();
+  await setDoc(doc(firestore, 'calendarFeeds', token), { ownerType, ownerId, createdAt: serverTimestamp() });
+  return token;
+};
+
+// ============ MATCH CHAT ============
+// Messages live in matches/{id}/messages. The lobby channel is for
+// participants; moderators can post anywhere and skip slow mode.
+const toMatchMessage = (messageDoc: DocumentSnapshot): MatchMessage => {
+  const data = messageDoc.data() || {};
+  return {
+    id: messageDoc.id,
+    ...data,
+    createdAt: convertTimestamp(data.createdAt),
+  } as MatchMessage;
+};
+
+export const sendMatchMessage = async (
+  matchId: string,
+  channel: MatchChatChannel,
+  user: User,
+  content: string
+): Promise<void> => {
+  const messageError = getMessageError(content);
+  if (messageError) throw new Error(messageError);
+
+  const firestore = getDb();
+  const matchRef = doc(firestore, 'matches', matchId);
+  // When each user last posted in each channel, for slow mode
+  const senderRef = doc(firestore, 'matches', matchId, 'chatSenders', user.id);
+  const isModerator = hasPermission(user.role, 'moderator');
+
+  await runTransaction(firestore, async (transaction) => {
+    const [matchDoc, senderDoc] = await Promise.all([transaction.get(matchRef), transaction.get(senderRef)]);
+    if (!matchDoc.exists()) throw new Error('Match not found');
+    const match = toMatch(matchDoc);
+    if (channel === 'lobby' && !isModerator && !isMatchParticipant(match, user)) {
+      throw new Error('Only participants can chat in the lobby');
+    }
+
+    const lastSentAt = senderDoc.data()?.[channel];
+    const wait = isModerator
+      ? 0
+      : getSlowModeWait(lastSentAt ? convertTimestamp(lastSentAt) : undefined, getSlowModeSeconds(match, channel));
+    if (wait > 0) throw new Error(`Slow mode is on. You can post again in ${Math.ceil(wait / 1000)}s.`);
+
+    transaction.set(doc(collection(firestore, 'matches', matchId, 'messages')), {
+      channel,
+      userId: user.id,
+      content: content.trim(),
+      isReported: false,
+      createdAt: serverTimestamp(),
+    });
+    transaction.set(senderRef, { [channel]: serverTimestamp() }, { merge: true });
   });
+};
 
-  return {
-    matches,
-    lastDoc: snapshot.docs[snapshot.docs.length - 1] || null,
-  };
+export const deleteMatchMessage = async (matchId: string, messageId: string): Promise<void> => {
+  const firestore = getDb();
+  await deleteDoc(doc(firestore, 'matches', matchId, 'messages', messageId));
 };
 
-export const getMatch = async (matchId: string): Promise<Match | null> => {
+export const reportMatchMessage = async (matchId: string, messageId: string): Promise<void> => {
   const firestore = getDb();
-  const matchDoc = await getDoc(doc(firestore, 'matches', matchId));
-  if (!matchDoc.exists()) return null;
-  const data = matchDoc.data();
-  return {
-    id: matchDoc.id,
-    ...data,
-    scheduledTime: data.scheduledTime ? convertTimestamp(data.scheduledTime) : undefined,
-    completedAt: data.completedAt ? convertTimestamp(data.completedAt) : undefined,
-    registrationDeadline: data.registrationDeadline
-      ? convertTimestamp(data.registrationDeadline)
-      : undefined,
-    createdAt: convertTimestamp(data.createdAt),
-    updatedAt: convertTimestamp(data.updatedAt),
-  } as Match;
+  await updateDoc(doc(firestore, 'matches', matchId, 'messages', messageId), {
+    isReported: true,
+  });
 };
 
-export const createMatch = async (
-  matchData: Omit<Match, 'id' | 'createdAt' | 'updatedAt'>
-): Promise<string> => {
+// 0 turns slow mode off
+export const setMatchChatSlowMode = async (
+  matchId: string,
+  channel: MatchChatChannel,
+  seconds: number
+): Promise<void> => {
   const firestore = getDb();
-  const matchRef = doc(collection(firestore, 'matches'));
-  await setDoc(matchRef, {
-    ...removeUndefined(matchData),
-    createdAt: serverTimestamp(),
+  await updateDoc(doc(firestore, 'matches', matchId), {
+    [`chatSlowMode.${channel}`]: seconds > 0 ? seconds : deleteField(),
     updatedAt: serverTimestamp(),
   });
-  return matchRef.id;
 };
 
-export const updateMatch = async (matchId: string, data: Partial<Match>): Promise<void> => {
+// ============ MATCH VIEWERS ============
+// Viewers of a live match keep a heartbeat in matches/{id}/viewers, keyed by
+// user ID (or an anonymous ID when signed out). Heartbeats and the scheduled
+// job sample how many are active onto match.viewerStats.
+
+// Count the active viewers and record the sample, unless someone else took
+// one recently. Returns whether a sample was recorded.
+export const sampleMatchViewers = async (matchId: string, now = new Date()): Promise<boolean> => {
   const firestore = getDb();
   const matchRef = doc(firestore, 'matches', matchId);
-  await updateDoc(matchRef, {
-    ...removeUndefined(data as Record<string, unknown>),
-    updatedAt: serverTimestamp(),
+  const countSnapshot = await getCountFromServer(
+    query(collection(firestore, 'matches', matchId, 'viewers'), where('lastSeenAt', '>=', getViewerCutoff(now)))
+  );
+
+  return runTransaction(firestore, async (transaction) => {
+    const matchDoc = await transaction.get(matchRef);
+    if (!matchDoc.exists()) throw new Error('Match not found');
+    const match = toMatch(matchDoc);
+    if (match.status !== 'in_progress' || !isSampleDue(match.viewerStats, now)) return false;
+
+    transaction.update(matchRef, {
+      viewerStats: addViewerSample(match.viewerStats, countSnapshot.data().count, now),
+    });
+    return true;
   });
 };
 
-export const deleteMatch = async (matchId: string): Promise<void> => {
+// Heartbeat from someone watching a live match. stats is the viewer's copy
+// of match.viewerStats, so most heartbeats can skip sampling.
+export const recordMatchViewer = async (
+  matchId: string,
+  viewerId: string,
+  stats?: MatchViewerStats
+): Promise<void> => {
   const firestore = getDb();
-  await deleteDoc(doc(firestore, 'matches', matchId));
+  await setDoc(doc(firestore, 'matches', matchId, 'viewers', viewerId), {
+    lastSeenAt: serverTimestamp(),
+  });
+  if (isSampleDue(stats, new Date())) await sampleMatchViewers(matchId);
 };
 
-export const joinMatch = async (matchId: string, participant: MatchParticipant): Promise<void> => {
+export const removeMatchViewer = async (matchId: string, viewerId: string): Promise<void> => {
   const firestore = getDb();
-  const matchRef = doc(firestore, 'matches', matchId);
-  const matchDoc = await getDoc(matchRef);
+  await deleteDoc(doc(firestore, 'matches', matchId, 'viewers', viewerId));
+};
 
-  if (!matchDoc.exists()) {
-    throw new Error('Match not found');
-  }
+// Delete heartbeats from viewers who left without saying so. Returns how many.
+export const expireMatchViewers = async (matchId: string, now = new Date()): Promise<number> => {
+  const firestore = getDb();
+  const snapshot = await getDocs(
+    query(collection(firestore, 'matches', matchId, 'viewers'), where('lastSeenAt', '<', getViewerCutoff(now)))
+  );
+  if (snapshot.empty) return 0;
 
-  const matchData = matchDoc.data();
-  const participants = matchData.participants || [];
+  const batch = writeBatch(firestore);
+  snapshot.docs.forEach((viewerDoc) => batch.delete(viewerDoc.ref));
+  await batch.commit();
+  return snapshot.size;
+};
 
-  // Check if already joined
-  const alreadyJoined = participants.some(
-    (p: MatchParticipant) =>
-      (p.oduserId && p.oduserId === participant.oduserId) ||
-      (p.teamId && p.teamId === participant.teamId)
-  );
+// ============ CHALLENGES ============
+const toChallenge = (challengeDoc: DocumentSnapshot): MatchChallenge => {
+  const data = challengeDoc.data() || {};
+  return {
+    id: challengeDoc.id,
+    ...data,
+    scheduledTime: convertTimestamp(data.scheduledTime),
+    recurrence: data.recurrence ? { ...data.recurrence, until: convertTimestamp(data.recurrence.until) } : undefined,
+    respondedAt: data.respondedAt ? convertTimestamp(data.respondedAt) : undefined,
+    createdAt: convertTimestamp(data.createdAt),
+    updatedAt: convertTimestamp(data.updatedAt),
+  } as MatchChallenge;
+};
 
-  if (alreadyJoined) {
-    throw new Error('Already joined this match');
+// Who answers a challenge: the opponent, or their team's current captain
+const getChallengeContactId = async (
+  transaction: Transaction,
+  opponent: ChallengeSide
+): Promise<string | undefined> => {
+  if (!opponent.teamId) return opponent.oduserId;
+  const teamDoc = await transaction.get(doc(getDb(), 'teams', opponent.teamId));
+  return (teamDoc.data() as Team | undefined)?.captainId;
+};
+
+// A player challenges another player, or a team captain another team
+export const createChallenge = async (
+  challengeData: Omit<
+    MatchChallenge,
+    'id' | 'opponentContactId' | 'status' | 'matchId' | 'respondedAt' | 'createdAt' | 'updatedAt'
+  >,
+  allowConflicts = false
+): Promise<string> => {
+  const firestore = getDb();
+  const { challenger, opponent, createdBy } = challengeData;
+  const isTeamChallenge = !!opponent.teamId;
+  if (!!challenger.teamId !== isTeamChallenge) {
+    throw new Error(isTeamChallenge ? 'Teams can only be challenged by teams' : 'Players can only be challenged by players');
+  }
+  if (challengeData.scheduledTime.getTime() <= Date.now()) {
+    throw new Error('Pick a match time in the future');
+  }
+  if (challengeData.recurrence) {
+    if (!RECURRING_MATCH_TYPES.includes(challengeData.type)) throw new Error('Only scrimmages can repeat');
+    const recurrenceError = getRecurrenceError(challengeData.scheduledTime, challengeData.recurrence);
+    if (recurrenceError) throw new Error(recurrenceError);
   }
 
-  // Check max participants
-  if (participants.length >= matchData.maxParticipants) {
-    throw new Error('Match is full');
+  let opponentContactId: string;
+  if (isTeamChallenge) {
+    if (challenger.teamId === opponent.teamId) throw new Error("A team can't challenge itself");
+    const teams = await getTeamsByIds([challenger.teamId as string, opponent.teamId as string]);
+    const challengerTeam = teams[challenger.teamId as string];
+    const opponentTeam = teams[opponent.teamId as string];
+    if (!challengerTeam || !opponentTeam) throw new Error('Team not found');
+    if (challengerTeam.captainId !== createdBy) throw new Error('Only team captains can send challenges');
+    opponentContactId = opponentTeam.captainId;
+  } else {
+    if (challenger.oduserId !== createdBy) throw new Error('You can only send challenges as yourself');
+    if (opponent.oduserId === createdBy) throw new Error("You can't challenge yourself");
+    opponentContactId = opponent.oduserId as string;
+  }
+  if (!allowConflicts) {
+    assertNoConflicts(await getMatchConflicts(challengeData, challenger));
   }
 
-  await updateDoc(matchRef, {
-    participants: arrayUnion({
-      ...participant,
-      joinedAt: new Date(),
-    }),
+  const challengeRef = doc(collection(firestore, 'challenges'));
+  await setDoc(challengeRef, {
+    ...removeUndefined({ ...challengeData }),
+    challenger: removeUndefined({ ...challenger }),
+    opponent: removeUndefined({ ...opponent }),
+    opponentContactId,
+    status: 'pending',
+    createdAt: serverTimestamp(),
     updatedAt: serverTimestamp(),
   });
 
-  // If match is full, update status to scheduled
-  if (participants.length + 1 >= matchData.maxParticipants) {
-    await updateDoc(matchRef, {
-      status: 'scheduled',
-    });
-  }
+  await createNotification({
+    userId: opponentContactId,
+    type: 'match_challenge',
+    title: 'New challenge',
+    message: `${challenger.name} challenged ${isTeamChallenge ? opponent.name : 'you'} to a match`,
+    linkUrl: '/profile',
+    relatedId: challengeRef.id,
+    isRead: false,
+  });
+  return challengeRef.id;
 };
 
-export const leaveMatch = async (
-  matchId: string,
-  oduserId?: string,
-  teamId?: string
-): Promise<void> => {
+// Challenges a user has received (as a player or captain) and sent, newest first
+export const getChallengesForUser = async (
+  userId: string
+): Promise<{ incoming: MatchChallenge[]; outgoing: MatchChallenge[] }> => {
   const firestore = getDb();
-  const matchRef = doc(firestore, 'matches', matchId);
-  const matchDoc = await getDoc(matchRef);
+  const [incomingSnapshot, outgoingSnapshot] = await Promise.all([
+    getDocs(query(collection(firestore, 'challenges'), where('opponentContactId', '==', userId))),
+    getDocs(query(collection(firestore, 'challenges'), where('createdBy', '==', userId))),
+  ]);
+  const newestFirst = (a: MatchChallenge, b: MatchChallenge) => b.createdAt.getTime() - a.createdAt.getTime();
 
-  if (!matchDoc.exists()) {
-    throw new Error('Match not found');
+  return {
+    incoming: incomingSnapshot.docs.map(toChallenge).sort(newestFirst),
+    outgoing: outgoingSnapshot.docs.map(toChallenge).sort(newestFirst),
+  };
+};
+
+// Accept (creating the scheduled match with both sides joined) or decline a
+// challenge. Returns the new match's ID when accepted.
+export const respondToChallenge = async (
+  challengeId: string,
+  userId: string,
+  accept: boolean,
+  allowConflicts = false
+): Promise<string | undefined> => {
+  const firestore = getDb();
+  const challengeRef = doc(firestore, 'challenges', challengeId);
+
+  const challenge = await runTransaction(firestore, async (transaction) => {
+    const challengeDoc = await transaction.get(challengeRef);
+    if (!challengeDoc.exists()) throw new Error('Challenge not found');
+    const current = toChallenge(challengeDoc);
+    if (current.status !== 'pending') throw new Error('This challenge has already been answered');
+    const contactId = await getChallengeContactId(transaction, current.opponent);
+    if (contactId !== userId) {
+      throw new Error(current.opponent.teamId ? 'Only the team captain can answer this challenge' : 'This challenge is for someone else');
+    }
+    // Both sides may have booked something else since the challenge was sent
+    if (accept && !allowConflicts) {
+      const { game, scheduledTime, bestOf, recurrence } = current;
+      const sides = [current.challenger, current.opponent];
+      const conflicts = await Promise.all([
+        ...sides.map((side) => getMatchConflicts({ game, scheduledTime, bestOf }, side)),
+        recurrence ? getRecurrenceConflicts({ game, scheduledTime, bestOf }, recurrence, sides) : [],
+      ]);
+      assertNoConflicts(conflicts.flat());
+    }
+
+    let matchId: string | undefined;
+    if (accept) {
+      const matchRef = doc(collection(firestore, 'matches'));
+      matchId = matchRef.id;
+      transaction.set(matchRef, {
+        ...removeUndefined({
+          title: `${current.challenger.name} vs ${current.opponent.name}`,
+          game: current.game,
+          type: current.type,
+          status: 'scheduled',
+          isTeamMatch: !!current.opponent.teamId,
+          maxParticipants: 2,
+          participants: [current.challenger, current.opponent].map((side) => ({
+            ...removeUndefined({ ...side }),
+            joinedAt: new Date(),
+          })),
+          participantIds: getParticipantIds([current.challenger, current.opponent]),
+          bestOf: current.bestOf,
+          rules: current.rules,
+          scheduledTime: current.scheduledTime,
+          isPublic: true,
+          challengeId,
+          createdBy: current.createdBy,
+        }),
+        createdAt: serverTimestamp(),
+        updatedAt: serverTimestamp(),
+      });
+    }
+
+    transaction.update(challengeRef, {
+      status: accept ? 'accepted' : 'declined',
+      ...(matchId && { matchId }),
+      respondedAt: serverTimestamp(),
+      updatedAt: serverTimestamp(),
+    });
+    return { ...current, matchId };
+  });
+
+  const { challenger, opponent, matchId } = challenge;
+  // The first match stands even if the rest of the series can't be made
+  // (say the repeat end date has passed by now). Conflicts were checked above.
+  if (matchId && challenge.recurrence) {
+    await createMatchRecurrence(matchId, challenge.recurrence, true).catch((error) =>
+      console.error('Error repeating challenge match:', error)
+    );
+  }
+  if (matchId) {
+    await Promise.all([
+      createNotification({
+        userId: challenge.createdBy,
+        type: 'match_challenge',
+        title: 'Challenge accepted',
+        message: `${opponent.name} accepted your challenge. The match is scheduled.`,
+        linkUrl: `/matches/${matchId}`,
+        relatedId: matchId,
+        isRead: false,
+      }),
+      createNotification({
+        userId,
+        type: 'match_challenge',
+        title: 'Match scheduled',
+        message: `Your match against ${challenger.name} is scheduled.`,
+        linkUrl: `/matches/${matchId}`,
+        relatedId: matchId,
+        isRead: false,
+      }),
+    ]);
+  } else {
+    await createNotification({
+      userId: challenge.createdBy,
+      type: 'match_challenge',
+      title: 'Challenge declined',
+      message: `${opponent.name} declined your challenge.`,
+      linkUrl: '/profile',
+      relatedId: challengeId,
+      isRead: false,
+    });
   }
+  return matchId;
+};
 
-  const matchData = matchDoc.data();
-  const participants = matchData.participants || [];
+// The challenger can withdraw a challenge until it's answered
+export const cancelChallenge = async (challengeId: string, userId: string): Promise<void> => {
+  const firestore = getDb();
+  const challengeRef = doc(firestore, 'challenges', challengeId);
+
+  const challenge = await runTransaction(firestore, async (transaction) => {
+    const challengeDoc = await transaction.get(challengeRef);
+    if (!challengeDoc.exists()) throw new Error('Challenge not found');
+    const current = toChallenge(challengeDoc);
+    if (current.createdBy !== userId) throw new Error('Only the challenger can withdraw a challenge');
+    if (current.status !== 'pending') throw new Error('This challenge has already been answered');
+
+    transaction.update(challengeRef, {
+      status: 'cancelled',
+      respondedAt: serverTimestamp(),
+      updatedAt: serverTimestamp(),
+    });
+    return current;
+  });
 
-  // Find the participant to remove
-  const updatedParticipants = participants.filter((p: MatchParticipant) => {
-    if (oduserId) return p.oduserId !== oduserId;
-    if (teamId) return p.teamId !== teamId;
-    return true;
+  await createNotification({
+    userId: challenge.opponentContactId,
+    type: 'match_challenge',
+    title: 'Challenge withdrawn',
+    message: `${challenge.challenger.name} withdrew their challenge.`,
+    linkUrl: '/profile',
+    relatedId: challengeId,
+    isRead: false,
   });
+};
 
-  await updateDoc(matchRef, {
-    participants: updatedParticipants,
-    status: 'open', // Reopen the match if someone leaves
-    updatedAt: serverTimestamp(),
+// ============ MATCH AUTOMATION ============
+// Who gets reminded about a match: players, and every member of a team
+const getMatchRecipientIds = async (match: Match): Promise<string[]> => {
+  const participants = match.participants || [];
+  const teams = await getTeamsByIds(participants.flatMap((p) => (!p.oduserId && p.teamId ? [p.teamId] : [])));
+  return [
+    ...new Set(participants.flatMap((p) => (p.oduserId ? [p.oduserId] : teams[p.teamId || '']?.members || []))),
+  ];
+};
+
+const sendMatchReminder = async (match: Match, reminder: MatchReminder, markSent: string[]): Promise<void> => {
+  const firestore = getDb();
+  const batch = writeBatch(firestore);
+  (await getMatchRecipientIds(match)).forEach((userId) => {
+    batch.set(doc(collection(firestore, 'notifications')), {
+      userId,
+      type: 'match_reminder',
+      title: 'Match starting soon',
+      message: `${match.title} starts ${reminder.label}.`,
+      linkUrl: `/matches/${match.id}`,
+      relatedId: match.id,
+      isRead: false,
+      createdAt: serverTimestamp(),
+    });
   });
+  batch.update(doc(firestore, 'matches', match.id), { remindersSent: arrayUnion(...markSent) });
+  await batch.commit();
 };
 
-export const updateMatchScores = async (
-  matchId: string,
-  scores: Record<string, number>,
-  winnerId?: string
-): Promise<void> => {
+// One pass of the scheduled job (/api/cron/matches): expire open matches
+// past their registration deadline, start scheduled matches whose time has
+// come, send the 24h/15min reminders, and keep live matches' viewer counts
+// current even when nobody is left watching
+export const runMatchAutomation = async (
+  now = new Date()
+): Promise<{ expired: number; started: number; reminded: number; viewersExpired: number }> => {
   const firestore = getDb();
-  const matchRef = doc(firestore, 'matches', matchId);
+  const matchesRef = collection(firestore, 'matches');
+  const horizon = new Date(now.getTime() + REMINDER_HORIZON);
+  const [expiringSnapshot, scheduledSnapshot, openSnapshot, liveSnapshot] = await Promise.all([
+    getDocs(query(matchesRef, where('status', '==', 'open'), where('registrationDeadline', '<=', now))),
+    getDocs(query(matchesRef, where('status', '==', 'scheduled'), where('scheduledTime', '<=', horizon))),
+    getDocs(
+      query(
+        matchesRef,
+        where('status', '==', 'open'),
+        where('scheduledTime', '>', now),
+        where('scheduledTime', '<=', horizon)
+      )
+    ),
+    getDocs(query(matchesRef, where('status', '==', 'in_progress'))),
+  ]);
+  const summary = { expired: 0, started: 0, reminded: 0, viewersExpired: 0 };
+
+  const expiring = expiringSnapshot.docs.map(toMatch).filter((match) => shouldExpire(match, now));
+  for (const match of expiring) {
+    await updateMatch(match.id, { status: 'cancelled' });
+    summary.expired++;
+  }
 
-  const updateData: Record<string, unknown> = {
-    scores,
-    updatedAt: serverTimestamp(),
-  };
+  const expiredIds = new Set(expiring.map((match) => match.id));
+  const upcoming = [...scheduledSnapshot.docs, ...openSnapshot.docs]
+    .map(toMatch)
+    .filter((match) => !expiredIds.has(match.id));
+  for (const match of upcoming) {
+    if (shouldAutoStart(match, now)) {
+      await updateMatch(match.id, { status: 'in_progress' });
+      summary.started++;
+      continue;
+    }
+    const { send, markSent } = getDueReminders(match, now);
+    if (!send || (match.participants || []).length === 0) continue;
+    await sendMatchReminder(match, send, markSent);
+    summary.reminded++;
+  }
 
-  if (winnerId) {
-    updateData.winnerId = winnerId;
-    updateData.status = 'completed';
-    updateData.completedAt = serverTimestamp();
+  for (const match of liveSnapshot.docs.map(toMatch)) {
+    summary.viewersExpired += await expireMatchViewers(match.id, now);
+    if (isSampleDue(match.viewerStats, now)) await sampleMatchViewers(match.id, now);
   }
 
-  await updateDoc(matchRef, updateData);
+  return summary;
 };
 
-// Add a scoring event to a match (goal, kill, round win, etc.)
-export const addMatchEvent = async (
-  matchId: string,
-  event: {
-    type: 'goal' | 'assist' | 'kill' | 'round_win' | 'point' | 'save' | 'penalty' | 'other';
-    participantId: string;
-    participantName: string;
-    description?: string;
-    value?: number;
-  }
-): Promise<void> => {
-  const firestore = getDb();
-  const matchRef = doc(firestore, 'matches', matchId);
+// ============ RATINGS ============
+const toRating = (ratingDoc: DocumentSnapshot): Rating => {
+  const data = ratingDoc.data() as Record<string, unknown>;
+  return {
+    id: ratingDoc.id,
+    ...data,
+    updatedAt: convertTimestamp(data.updatedAt as Timestamp),
+  } as Rating;
+};
 
-  const newEvent = {
-    id: `event-${Date.now()}`,
-    ...event,
-    timestamp: new Date(),
-  };
+// Every game a user or team has a rating in, best first
+export const getRatingsForSubject = async (
+  subjectType: RatingSubjectType,
+  subjectId: string
+): Promise<Rating[]> => {
+  const firestore = getDb();
+  const snapshot = await getDocs(
+    query(
+      collection(firestore, 'ratings'),
+      where('subjectType', '==', subjectType),
+      where('subjectId', '==', subjectId)
+    )
+  );
+  return snapshot.docs.map(toRating).sort((a, b) => b.rating - a.rating);
+};
 
-  await updateDoc(matchRef, {
-    events: arrayUnion(newEvent),
-    updatedAt: serverTimestamp(),
+export const getRatingHistory = async (ratingId: string, limitCount = 20): Promise<RatingChange[]> => {
+  const firestore = getDb();
+  const snapshot = await getDocs(
+    query(
+      collection(firestore, 'ratings', ratingId, 'history'),
+      orderBy('createdAt', 'desc'),
+      limit(limitCount)
+    )
+  );
+  return snapshot.docs.map((historyDoc) => {
+    const data = historyDoc.data();
+    return {
+      id: historyDoc.id,
+      ...data,
+      createdAt: convertTimestamp(data.createdAt),
+    } as RatingChange;
   });
 };
 
-// Update match round/map info
-export const updateMatchGameState = async (
-  matchId: string,
-  gameState: {
-    currentRound?: number;
-    currentMap?: string;
-  }
-): Promise<void> => {
+export const getRatingLeaderboard = async (
+  game: string,
+  subjectType: RatingSubjectType,
+  limitCount = 50
+): Promise<Rating[]> => {
   const firestore = getDb();
-  const matchRef = doc(firestore, 'matches', matchId);
+  const snapshot = await getDocs(
+    query(
+      collection(firestore, 'ratings'),
+      where('game', '==', game),
+      where('subjectType', '==', subjectType),
+      orderBy('rating', 'desc'),
+      limit(limitCount)
+    )
+  );
+  return snapshot.docs.map(toRating);
+};
 
-  await updateDoc(matchRef, {
-    ...removeUndefined(gameState as Record<string, unknown>),
-    updatedAt: serverTimestamp(),
+// ============ LEADERBOARDS ============
+export const getLeaderboard = async (options: {
+  subjectType: RatingSubjectType;
+  game?: string;
+  period?: string;
+  schoolId?: string;
+  sortBy?: LeaderboardSort;
+  limitCount?: number;
+}): Promise<LeaderboardEntry[]> => {
+  const firestore = getDb();
+  const { subjectType, game = ALL_GAMES, period = 'all', schoolId, sortBy = 'wins', limitCount = 50 } = options;
+
+  const constraints: QueryConstraint[] = [
+    where('subjectType', '==', subjectType),
+    where('game', '==', game),
+    where('period', '==', period),
+  ];
+  if (schoolId) constraints.push(where('schoolId', '==', schoolId));
+  // Entries without the sort field (win rate below the match minimum, or
+  // no rating) drop out of the query, which is what we want
+  constraints.push(orderBy(sortBy, 'desc'), limit(limitCount));
+
+  const snapshot = await getDocs(query(collection(firestore, 'leaderboardEntries'), ...constraints));
+  return snapshot.docs.map((entryDoc) => {
+    const data = entryDoc.data();
+    return {
+      id: entryDoc.id,
+      ...data,
+      updatedAt: convertTimestamp(data.updatedAt),
+    } as LeaderboardEntry;
   });
 };
 
-// Clear match events (for reset)
-export const clearMatchEvents = async (matchId: string): Promise<void> => {
+// Recount every leaderboard entry from completed matches. Results are
+// tallied as they're counted; this backfills matches counted before
+// leaderboards existed and repairs any drift. Returns the number of entries.
+export const rebuildLeaderboards = async (): Promise<number> => {
   const firestore = getDb();
-  const matchRef = doc(firestore, 'matches', matchId);
+  const [matchesSnapshot, ratingsSnapshot, existingSnapshot] = await Promise.all([
+    getDocs(query(collection(firestore, 'matches'), where('status', '==', 'completed'))),
+    getDocs(collection(firestore, 'ratings')),
+    getDocs(collection(firestore, 'leaderboardEntries')),
+  ]);
+
+  const entries = new Map<string, Omit<LeaderboardEntry, 'id' | 'updatedAt'>>();
+  const writes: ((batch: WriteBatch) => void)[] = [];
+
+  matchesSnapshot.docs.forEach((matchDoc) => {
+    const match = matchDoc.data() as Match;
+    const result = match.countedResult;
+    if (!result) return;
+    // Results counted before leaderboards existed get dated by completion
+    const countedAt = convertTimestamp(result.countedAt || match.completedAt);
+    if (!result.countedAt) {
+      writes.push((batch) => batch.update(matchDoc.ref, { 'countedResult.countedAt': countedAt }));
+    }
+    getLeaderboardKeys(match.game, result, countedAt).forEach((key) => {
+      const entry = entries.get(key.entryId) || {
+        subjectId: key.id,
+        subjectType: key.subjectType,
+        game: key.game,
+        period: key.period,
+        matches: 0,
+        wins: 0,
+        losses: 0,
+        draws: 0,
+      };
+      tallyOutcome(entry, getOutcome(result, key.id), 1);
+      entries.set(key.entryId, entry);
+    });
+  });
 
-  await updateDoc(matchRef, {
-    events: [],
-    updatedAt: serverTimestamp(),
+  ratingsSnapshot.docs.forEach((ratingDoc) => {
+    const rating = ratingDoc.data() as Rating;
+    const entry = entries.get(getLeaderboardEntryId(rating.subjectType, rating.subjectId, rating.game, 'all'));
+    if (entry) entry.rating = rating.rating;
+  });
+
+  const allEntries = [...entries.values()];
+  const [users, teams] = await Promise.all([
+    getUsersByIds([...new Set(allEntries.filter((e) => e.subjectType === 'user').map((e) => e.subjectId))]),
+    getTeamsByIds([...new Set(allEntries.filter((e) => e.subjectType === 'team').map((e) => e.subjectId))]),
+  ]);
+
+  existingSnapshot.docs
+    .filter((entryDoc) => !entries.has(entryDoc.id))
+    .forEach((entryDoc) => writes.push((batch) => batch.delete(entryDoc.ref)));
+  entries.forEach((entry, entryId) => {
+    const subject = entry.subjectType === 'team' ? teams[entry.subjectId] : users[entry.subjectId];
+    writes.push((batch) =>
+      batch.set(
+        doc(firestore, 'leaderboardEntries', entryId),
+        removeUndefined({
+          ...entry,
+          schoolId: subject?.schoolId || undefined,
+          winRate: getWinRate(entry.wins, entry.matches),
+          updatedAt: serverTimestamp(),
+        })
+      )
+    );
   });
+
+  // Batches are capped at 500 writes
+  for (let i = 0; i < writes.length; i += 450) {
+    const batch = writeBatch(firestore);
+    writes.slice(i, i + 450).forEach((write) => write(batch));
+    await batch.commit();
+  }
+  return entries.size;
 };
 
 // ============ POSTS ============
@@ -1237,18 +4133,39 @@ export const subscribeToMatch = (
       callback(null);
       return;
     }
-    const data = snapshot.data();
-    callback({
-      id: snapshot.id,
-      ...data,
-      scheduledTime: data.scheduledTime ? convertTimestamp(data.scheduledTime) : undefined,
-      completedAt: data.completedAt ? convertTimestamp(data.completedAt) : undefined,
-      registrationDeadline: data.registrationDeadline
-        ? convertTimestamp(data.registrationDeadline)
-        : undefined,
-      createdAt: convertTimestamp(data.createdAt),
-      updatedAt: convertTimestamp(data.updatedAt),
-    } as Match);
+    callback(toMatch(snapshot));
+  });
+};
+
+// Subscribe to a match's event log (oldest first, deleted events included)
+export const subscribeToMatchEvents = (
+  matchId: string,
+  callback: (events: MatchEvent[]) => void
+): Unsubscribe => {
+  const firestore = getDb();
+  const eventsQuery = query(collection(firestore, 'matches', matchId, 'events'), orderBy('timestamp', 'asc'));
+
+  return onSnapshot(eventsQuery, (snapshot) => {
+    callback(snapshot.docs.map(toMatchEvent));
+  });
+};
+
+// Subscribe to a chat channel's latest messages (oldest first)
+export const subscribeToMatchMessages = (
+  matchId: string,
+  channel: MatchChatChannel,
+  callback: (messages: MatchMessage[]) => void
+): Unsubscribe => {
+  const firestore = getDb();
+  const messagesQuery = query(
+    collection(firestore, 'matches', matchId, 'messages'),
+    where('channel', '==', channel),
+    orderBy('createdAt', 'desc'),
+    limit(CHAT_HISTORY_LIMIT)
+  );
+
+  return onSnapshot(messagesQuery, (snapshot) => {
+    callback(snapshot.docs.map(toMatchMessage).reverse());
   });
 };
 
@@ -1541,28 +4458,15 @@ export const getPlatformStats = async (): Promise<{
 
 // ============ TOP PLAYERS ============
 export const getTopPlayers = async (limitCount = 10): Promise<User[]> => {
-  const firestore = getDb();
-
   try {
-    // Get all users and sort by wins client-side
-    // (Firestore doesn't support ordering by nested fields easily)
-    const usersQuery = query(collection(firestore, 'users'), limit(100));
-    const snapshot = await getDocs(usersQuery);
-
-    const users = snapshot.docs.map((doc) => {
-      const data = doc.data();
-      return {
-        id: doc.id,
-        ...data,
-        createdAt: convertTimestamp(data.createdAt),
-        updatedAt: convertTimestamp(data.updatedAt),
-      } as User;
-    });
-
-    // Sort by wins and return top players
-    return users
-      .filter((u) => u.accountType === 'player' && u.stats && u.stats.wins > 0)
-      .sort((a, b) => (b.stats?.wins || 0) - (a.stats?.wins || 0))
+    // All-time, all-games leaderboard entries are kept up to date as matches
+    // complete. Extra are fetched since sponsor accounts and players without
+    // a win are left out.
+    const entries = await getLeaderboard({ subjectType: 'user', sortBy: 'wins', limitCount: limitCount * 3 });
+    const users = await getUsersByIds(entries.map((entry) => entry.subjectId));
+    return entries
+      .flatMap((entry) => (users[entry.subjectId] ? [users[entry.subjectId]] : []))
+      .filter((user) => user.accountType === 'player' && user.stats?.wins > 0)
       .slice(0, limitCount);
   } catch (error) {
     console.error('Error fetching top players:', error);
@@ -79,6 +79,17 @@ export const uploadMatchBanner = async (
   return uploadImage(file, path);
 };
 
+export const uploadMatchEvidence = async (
+  matchId: string,
+  userId: string,
+  file: File
+): Promise<string> => {
+  const ext = file.name.split('.').pop();
+  const timestamp = Date.now();
+  const path = `matches/${matchId}/evidence/${userId}-${timestamp}.${ext}`;
+  return uploadImage(file, path);
+};
+
 export const deleteImage = async (url: string): Promise<void> => {
   try {
     const storageInstance = getStorage();
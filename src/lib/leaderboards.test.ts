@@ -0,0 +1,41 @@
+import { describe, expect, it } from 'vitest';
+import {
+  MIN_MATCHES_FOR_WIN_RATE,
+  getLeaderboardEntryId,
+  getPeriodKeys,
+  getRecentSeasons,
+  getSeason,
+  getWinRate,
+} from '@/lib/leaderboards';
+
+describe('getSeason', () => {
+  it('splits the school year into fall and spring', () => {
+    expect(getSeason(new Date(2026, 7, 1))).toEqual({ id: '2026-fall', name: 'Fall 2026' });
+    expect(getSeason(new Date(2027, 6, 31))).toEqual({ id: '2027-spring', name: 'Spring 2027' });
+  });
+
+  it('lists recent seasons newest first', () => {
+    expect(getRecentSeasons(3, new Date(2026, 9, 19)).map((season) => season.id)).toEqual([
+      '2026-fall',
+      '2026-spring',
+      '2025-fall',
+    ]);
+  });
+});
+
+describe('getPeriodKeys', () => {
+  it('counts a result towards all time, its season, month and ISO week', () => {
+    expect(getPeriodKeys(new Date(2027, 0, 1))).toEqual(['all', 'season-2027-spring', 'month-2027-01', 'week-2026-W53']);
+  });
+
+  it('keys entries by subject, game and period', () => {
+    expect(getLeaderboardEntryId('team', 't1', 'all', 'month-2026-10')).toBe('team_t1_all_month-2026-10');
+  });
+});
+
+describe('getWinRate', () => {
+  it('needs a minimum number of matches', () => {
+    expect(getWinRate(3, MIN_MATCHES_FOR_WIN_RATE - 1)).toBeUndefined();
+    expect(getWinRate(2, 3 * MIN_MATCHES_FOR_WIN_RATE)).toBe(13.3);
+  });
+});
@@ -0,0 +1,60 @@
+import { format } from 'date-fns';
+import type { LeaderboardWindow, RatingSubjectType } from '@/types';
+
+// Entries with game set to this count every game
+export const ALL_GAMES = 'all';
+
+// Win rate rankings ignore anyone with fewer matches than this
+export const MIN_MATCHES_FOR_WIN_RATE = 5;
+
+export interface Season {
+  id: string; // e.g. '2026-fall'
+  name: string; // e.g. 'Fall 2026'
+}
+
+// School-year seasons: Fall runs August to December, Spring January to July
+export const getSeason = (date: Date): Season => {
+  const year = date.getFullYear();
+  return date.getMonth() >= 7
+    ? { id: `${year}-fall`, name: `Fall ${year}` }
+    : { id: `${year}-spring`, name: `Spring ${year}` };
+};
+
+// The current season and the ones before it, newest first
+export const getRecentSeasons = (count: number, now: Date = new Date()): Season[] => {
+  const seasons: Season[] = [];
+  let { id } = getSeason(now);
+  for (let i = 0; i < count; i++) {
+    const [year, half] = id.split('-');
+    seasons.push({ id, name: `${half === 'fall' ? 'Fall' : 'Spring'} ${year}` });
+    id = half === 'fall' ? `${year}-spring` : `${Number(year) - 1}-fall`;
+  }
+  return seasons;
+};
+
+export const getPeriodKey = (window: LeaderboardWindow, date: Date, seasonId?: string): string => {
+  switch (window) {
+    case 'season':
+      return `season-${seasonId || getSeason(date).id}`;
+    case 'month':
+      return `month-${format(date, 'yyyy-MM')}`;
+    case 'week':
+      return `week-${format(date, "RRRR-'W'II")}`;
+    default:
+      return 'all';
+  }
+};
+
+// Every period a result completed at `date` counts towards
+export const getPeriodKeys = (date: Date): string[] =>
+  (['all', 'season', 'month', 'week'] as LeaderboardWindow[]).map((window) => getPeriodKey(window, date));
+
+export const getLeaderboardEntryId = (
+  subjectType: RatingSubjectType,
+  subjectId: string,
+  game: string,
+  period: string
+): string => `${subjectType}_${subjectId}_${game}_${period}`;
+
+export const getWinRate = (wins: number, matches: number): number | undefined =>
+  matches >= MIN_MATCHES_FOR_WIN_RATE ? Math.round((wins / matches) * 1000) / 10 : undefined;
@@ -0,0 +1,61 @@
+import { describe, expect, it } from 'vitest';
+import type { MatchLineup } from '@/types';
+import { getEventPlayerError, getLineupError, getLineupStarterIds, isLineupLocked } from '@/lib/lineups';
+
+const players = (...ids: string[]) => ids.map((userId) => ({ userId, name: userId }));
+
+const lineup = (starters: string[], substitutes: string[] = []): MatchLineup => ({
+  starters: players(...starters),
+  substitutes: players(...substitutes),
+  updatedBy: 'captain',
+  updatedAt: new Date('2026-11-01T17:00:00Z'),
+});
+
+const members = ['u1', 'u2', 'u3', 'u4', 'u5', 'u6'];
+
+describe('getLineupError', () => {
+  it('accepts starters and substitutes from the team', () => {
+    expect(getLineupError(lineup(['u1', 'u2'], ['u3']), members)).toBeNull();
+  });
+
+  it('needs a starter, team members only, each listed once', () => {
+    expect(getLineupError(lineup([], ['u1']), members)).toBe('Pick at least one starter');
+    expect(getLineupError(lineup(['u1', 'x9']), members)).toBe('Lineups can only include team members');
+    expect(getLineupError(lineup(['u1'], ['u1']), members)).toBe('A player can only be listed once');
+  });
+
+  it('holds the lineup to the size limits', () => {
+    const limits = { minStarters: 3, maxPlayers: 4 };
+
+    expect(getLineupError(lineup(['u1', 'u2'], ['u3']), members, limits)).toBe('Pick at least 3 starters');
+    expect(getLineupError(lineup(['u1', 'u2', 'u3'], ['u4', 'u5']), members, limits)).toBe(
+      'Lineups can have at most 4 players'
+    );
+    expect(getLineupError(lineup(['u1', 'u2', 'u3'], ['u4']), members, limits)).toBeNull();
+  });
+});
+
+describe('isLineupLocked', () => {
+  it('locks lineups once the match starts', () => {
+    expect(isLineupLocked({ status: 'scheduled' })).toBe(false);
+    expect(isLineupLocked({ status: 'in_progress' })).toBe(true);
+  });
+});
+
+describe('getEventPlayerError', () => {
+  const lineups = { t1: lineup(['u1'], ['u2']) };
+
+  it('credits events to players in the team lineup', () => {
+    expect(getEventPlayerError({ lineups }, { participantId: 't1', playerId: 'u2' })).toBeNull();
+    expect(getEventPlayerError({ lineups }, { participantId: 't1', playerId: 'u3' })).toBe(
+      "That player isn't in the team's lineup"
+    );
+    expect(getEventPlayerError({ lineups }, { participantId: 't2', playerId: 'u3' })).toBe(
+      "This team hasn't set a lineup"
+    );
+  });
+
+  it('counts starters as having played', () => {
+    expect(getLineupStarterIds(lineups)).toEqual({ t1: ['u1'] });
+  });
+});
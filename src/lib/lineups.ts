@@ -0,0 +1,53 @@
+import type { LineupPlayer, Match, MatchEvent, MatchLineup } from '@/types';
+
+// Captains can change lineups until the match starts
+export const isLineupLocked = (match: Pick<Match, 'status'>): boolean =>
+  match.status !== 'open' && match.status !== 'scheduled';
+
+export const getLineupPlayers = (lineup?: Pick<MatchLineup, 'starters' | 'substitutes'>): LineupPlayer[] =>
+  lineup ? [...lineup.starters, ...lineup.substitutes] : [];
+
+// Size limits a lineup has to fit, e.g. a tournament's team sizes
+export interface LineupLimits {
+  minStarters?: number;
+  maxPlayers?: number;
+}
+
+// Why a lineup can't be used for a team, or null if it can
+export const getLineupError = (
+  lineup: Pick<MatchLineup, 'starters' | 'substitutes'>,
+  memberIds: string[],
+  limits: LineupLimits = {}
+): string | null => {
+  if (lineup.starters.length === 0) return 'Pick at least one starter';
+  if (limits.minStarters && lineup.starters.length < limits.minStarters) {
+    return `Pick at least ${limits.minStarters} starters`;
+  }
+  const playerIds = getLineupPlayers(lineup).map((player) => player.userId);
+  if (limits.maxPlayers && playerIds.length > limits.maxPlayers) {
+    return `Lineups can have at most ${limits.maxPlayers} players`;
+  }
+  if (new Set(playerIds).size !== playerIds.length) return 'A player can only be listed once';
+  if (playerIds.some((id) => !memberIds.includes(id))) return 'Lineups can only include team members';
+  return null;
+};
+
+// Players an event can be credited to must be in the team's lineup
+export const getEventPlayerError = (
+  match: Pick<Match, 'lineups'>,
+  event: Pick<MatchEvent, 'participantId' | 'playerId'>
+): string | null => {
+  if (!event.playerId) return null;
+  const lineup = match.lineups?.[event.participantId];
+  if (!lineup) return "This team hasn't set a lineup";
+  if (!getLineupPlayers(lineup).some((player) => player.userId === event.playerId)) {
+    return "That player isn't in the team's lineup";
+  }
+  return null;
+};
+
+// Starters count as having played; the result goes into their stats
+export const getLineupStarterIds = (lineups: Match['lineups']): Record<string, string[]> =>
+  Object.fromEntries(
+    Object.entries(lineups || {}).map(([teamId, lineup]) => [teamId, lineup.starters.map((player) => player.userId)])
+  );
@@ -0,0 +1,39 @@
+import type { Match, MatchChatChannel, User } from '@/types';
+
+export const MATCH_CHAT_CHANNELS: { value: MatchChatChannel; label: string; description: string }[] = [
+  { value: 'lobby', label: 'Lobby', description: 'Participants only: lobby codes, server info, check-ins' },
+  { value: 'spectators', label: 'Spectators', description: 'Open to everyone watching' },
+];
+
+export const MAX_MESSAGE_LENGTH = 500;
+
+// How many of the latest messages a channel shows
+export const CHAT_HISTORY_LIMIT = 100;
+
+// Seconds each user has to wait between messages in a channel
+export const SLOW_MODE_OPTIONS = [0, 5, 15, 30, 60];
+
+// Players in the match, or members of a team in it
+export const isMatchParticipant = (
+  match: Pick<Match, 'participants'>,
+  user: Pick<User, 'id' | 'teamsJoined'>
+): boolean =>
+  (match.participants || []).some((p) =>
+    p.oduserId ? p.oduserId === user.id : !!p.teamId && user.teamsJoined.includes(p.teamId)
+  );
+
+export const getSlowModeSeconds = (match: Pick<Match, 'chatSlowMode'>, channel: MatchChatChannel): number =>
+  match.chatSlowMode?.[channel] || 0;
+
+// Milliseconds until a user may post again under slow mode (0 if they can now)
+export const getSlowModeWait = (lastSentAt: Date | undefined, slowModeSeconds: number, now = new Date()): number =>
+  lastSentAt && slowModeSeconds > 0
+    ? Math.max(0, lastSentAt.getTime() + slowModeSeconds * 1000 - now.getTime())
+    : 0;
+
+// Why a message can't be sent, or null if it can
+export const getMessageError = (content: string): string | null => {
+  if (!content.trim()) return 'Write a message first';
+  if (content.length > MAX_MESSAGE_LENGTH) return `Messages are limited to ${MAX_MESSAGE_LENGTH} characters`;
+  return null;
+};
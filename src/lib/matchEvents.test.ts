@@ -0,0 +1,30 @@
+import { describe, expect, it } from 'vitest';
+import type { MatchEvent } from '@/types';
+import { getScoresFromEvents } from '@/lib/matchEvents';
+
+const event = (id: string, participantId: string, overrides: Partial<MatchEvent> = {}): MatchEvent => ({
+  id,
+  type: 'goal',
+  participantId,
+  participantName: participantId,
+  timestamp: new Date('2026-11-01T18:00:00Z'),
+  ...overrides,
+});
+
+describe('getScoresFromEvents', () => {
+  it('adds up the event values for each participant, counting one point without a value', () => {
+    const scores = getScoresFromEvents([event('e1', 'a'), event('e2', 'a', { value: 3 }), event('e3', 'b')], ['a', 'b']);
+
+    expect(scores).toEqual({ a: 4, b: 1 });
+  });
+
+  it('leaves deleted events out, so undoing a delete brings the points back', () => {
+    const deleted = event('e2', 'b', { deletedAt: new Date('2026-11-01T18:05:00Z') });
+
+    expect(getScoresFromEvents([event('e1', 'a'), deleted], ['a', 'b'])).toEqual({ a: 1, b: 0 });
+    expect(getScoresFromEvents([event('e1', 'a'), { ...deleted, deletedAt: undefined }], ['a', 'b'])).toEqual({
+      a: 1,
+      b: 1,
+    });
+  });
+});
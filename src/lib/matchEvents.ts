@@ -0,0 +1,15 @@
+import type { MatchEvent } from '@/types';
+
+// Events without a value count as one point
+export const getEventPoints = (event: MatchEvent): number => event.value ?? 1;
+
+// Scores as the sum of each participant's live (not deleted) events
+export const getScoresFromEvents = (events: MatchEvent[], participantIds: string[]): Record<string, number> => {
+  const scores: Record<string, number> = Object.fromEntries(participantIds.map((id) => [id, 0]));
+  events
+    .filter((event) => !event.deletedAt)
+    .forEach((event) => {
+      scores[event.participantId] = (scores[event.participantId] || 0) + getEventPoints(event);
+    });
+  return scores;
+};
@@ -0,0 +1,56 @@
+import { describe, expect, it } from 'vitest';
+import { getDueReminders, shouldAutoStart, shouldExpire } from '@/lib/matchSchedule';
+
+const start = new Date('2026-11-02T18:00:00Z');
+const hoursBefore = (hours: number) => new Date(start.getTime() - hours * 60 * 60 * 1000);
+
+describe('getDueReminders', () => {
+  it('sends nothing until the first reminder is due', () => {
+    expect(getDueReminders({ scheduledTime: start }, hoursBefore(25))).toEqual({ markSent: [] });
+  });
+
+  it('sends the 24 hour reminder, then the 15 minute one', () => {
+    const dayBefore = getDueReminders({ scheduledTime: start }, hoursBefore(23));
+    expect(dayBefore.send?.id).toBe('24h');
+
+    const soon = getDueReminders({ scheduledTime: start, remindersSent: dayBefore.markSent }, hoursBefore(0.2));
+    expect(soon).toEqual({ send: expect.objectContaining({ id: '15m' }), markSent: [`15m@${start.getTime()}`] });
+  });
+
+  it('only sends the latest reminder when the job ran late', () => {
+    const due = getDueReminders({ scheduledTime: start }, hoursBefore(0.1));
+
+    expect(due.send?.id).toBe('15m');
+    expect(due.markSent).toHaveLength(2);
+  });
+
+  it('arms the reminders again when the match is moved', () => {
+    const { markSent } = getDueReminders({ scheduledTime: start }, hoursBefore(23));
+    const moved = new Date(start.getTime() + 60 * 60 * 1000);
+
+    expect(getDueReminders({ scheduledTime: moved, remindersSent: markSent }, hoursBefore(23)).send?.id).toBe('24h');
+  });
+
+  it('sends nothing once the match has started', () => {
+    expect(getDueReminders({ scheduledTime: start }, start)).toEqual({ markSent: [] });
+  });
+});
+
+describe('shouldAutoStart', () => {
+  it('starts scheduled matches at their start time', () => {
+    expect(shouldAutoStart({ status: 'scheduled', scheduledTime: start }, hoursBefore(0.01))).toBe(false);
+    expect(shouldAutoStart({ status: 'scheduled', scheduledTime: start }, start)).toBe(true);
+    expect(shouldAutoStart({ status: 'open', scheduledTime: start }, start)).toBe(false);
+  });
+});
+
+describe('shouldExpire', () => {
+  it('expires open matches once registration has closed', () => {
+    const deadline = hoursBefore(2);
+
+    expect(shouldExpire({ status: 'open', registrationDeadline: deadline }, hoursBefore(3))).toBe(false);
+    expect(shouldExpire({ status: 'open', registrationDeadline: deadline }, deadline)).toBe(true);
+    expect(shouldExpire({ status: 'scheduled', registrationDeadline: deadline }, deadline)).toBe(false);
+    expect(shouldExpire({ status: 'open' }, deadline)).toBe(false);
+  });
+});
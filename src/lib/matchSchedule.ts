@@ -0,0 +1,44 @@
+import type { Match } from '@/types';
+
+const MINUTE = 60 * 1000;
+const HOUR = 60 * MINUTE;
+
+// Reminders sent before a match's scheduledTime, furthest out first
+export const MATCH_REMINDERS = [
+  { id: '24h', before: 24 * HOUR, label: 'in 24 hours' },
+  { id: '15m', before: 15 * MINUTE, label: 'in 15 minutes' },
+] as const;
+
+export type MatchReminder = (typeof MATCH_REMINDERS)[number];
+
+// How far ahead the job needs to look for matches with reminders due
+export const REMINDER_HORIZON = MATCH_REMINDERS[0].before;
+
+// Sent reminders are keyed by the start time they were for, so moving a
+// match re-arms its reminders
+const getReminderKey = (reminder: MatchReminder, startsAt: number): string => `${reminder.id}@${startsAt}`;
+
+// Reminders whose time has come but haven't been sent. If the job ran late
+// and several are due, only the last one is worth sending; the rest are
+// just marked as sent.
+export const getDueReminders = (
+  match: Pick<Match, 'scheduledTime' | 'remindersSent'>,
+  now: Date
+): { send?: MatchReminder; markSent: string[] } => {
+  const startsAt = match.scheduledTime?.getTime();
+  if (!startsAt || startsAt <= now.getTime()) return { markSent: [] };
+  const due = MATCH_REMINDERS.filter(
+    (reminder) =>
+      startsAt - reminder.before <= now.getTime() &&
+      !match.remindersSent?.includes(getReminderKey(reminder, startsAt))
+  );
+  return { send: due[due.length - 1], markSent: due.map((reminder) => getReminderKey(reminder, startsAt)) };
+};
+
+// Scheduled matches go live on their own at start time
+export const shouldAutoStart = (match: Pick<Match, 'status' | 'scheduledTime'>, now: Date): boolean =>
+  match.status === 'scheduled' && !!match.scheduledTime && match.scheduledTime.getTime() <= now.getTime();
+
+// Open matches that didn't fill before registration closed
+export const shouldExpire = (match: Pick<Match, 'status' | 'registrationDeadline'>, now: Date): boolean =>
+  match.status === 'open' && !!match.registrationDeadline && match.registrationDeadline.getTime() <= now.getTime();
@@ -0,0 +1,55 @@
+// Broadcast overlays (/overlay/...) are added to OBS as browser sources.
+// The page background is always transparent; the theme styles the panels.
+export type OverlayThemeId = 'dark' | 'light' | 'neon';
+
+export interface OverlayTheme {
+  panel: string;
+  text: string;
+  muted: string;
+  home: string; // first participant's accent
+  away: string; // second participant's accent
+  highlight: string;
+}
+
+export const OVERLAY_THEMES: Record<OverlayThemeId, OverlayTheme> = {
+  dark: {
+    panel: 'bg-dark-900/90 border border-dark-700',
+    text: 'text-white',
+    muted: 'text-dark-400',
+    home: 'bg-cyan-500',
+    away: 'bg-purple-500',
+    highlight: 'text-cyan-400',
+  },
+  light: {
+    panel: 'bg-white/95 border border-dark-200',
+    text: 'text-dark-900',
+    muted: 'text-dark-500',
+    home: 'bg-blue-600',
+    away: 'bg-red-600',
+    highlight: 'text-blue-600',
+  },
+  neon: {
+    panel: 'bg-dark-950/85 border border-cyan-400/60 shadow-[0_0_20px_rgba(0,212,255,0.35)]',
+    text: 'text-white',
+    muted: 'text-cyan-200/70',
+    home: 'bg-cyber-blue',
+    away: 'bg-cyber-pink',
+    highlight: 'text-cyber-green',
+  },
+};
+
+// ?theme=light etc.; anything unknown falls back to dark
+export const getOverlayTheme = (themeId?: string | null): OverlayTheme =>
+  OVERLAY_THEMES[(themeId as OverlayThemeId) in OVERLAY_THEMES ? (themeId as OverlayThemeId) : 'dark'];
+
+// How long the lower-third stays up after a new event
+export const LOWER_THIRD_DURATION_MS = 8000;
+
+export const OVERLAY_ROUTES = [
+  { id: 'scoreboard', name: 'Scoreboard' },
+  { id: 'ticker', name: 'Ticker' },
+  { id: 'lower-third', name: 'Lower Third' },
+] as const;
+
+export const getOverlayUrl = (matchId: string, route: string, themeId: OverlayThemeId = 'dark'): string =>
+  `/overlay/matches/${matchId}/${route}${themeId === 'dark' ? '' : `?theme=${themeId}`}`;
@@ -0,0 +1,55 @@
+import { describe, expect, it } from 'vitest';
+import {
+  SAMPLE_INTERVAL_MS,
+  addViewerSample,
+  getAverageViewers,
+  getLiveViewerCount,
+  getViewerCutoff,
+  isSampleDue,
+} from '@/lib/presence';
+
+const start = new Date('2026-11-02T18:00:00Z');
+const minutesIn = (minutes: number) => new Date(start.getTime() + minutes * 60 * 1000);
+
+describe('addViewerSample', () => {
+  it('keeps the peak and when it happened', () => {
+    const first = addViewerSample(undefined, 4, start);
+    const second = addViewerSample(first, 9, minutesIn(1));
+    const third = addViewerSample(second, 6, minutesIn(2));
+
+    expect(third).toMatchObject({ current: 6, peak: 9, peakAt: minutesIn(1), firstSampledAt: start });
+  });
+
+  it('averages the samples to one decimal place', () => {
+    const stats = [4, 9, 6].reduce(
+      (sampled, count, i) => addViewerSample(sampled, count, minutesIn(i)),
+      addViewerSample(undefined, 0, minutesIn(-1))
+    );
+
+    expect(stats.sampleCount).toBe(4);
+    expect(getAverageViewers(stats)).toBe(4.8);
+  });
+});
+
+describe('isSampleDue', () => {
+  it('samples at most once per interval', () => {
+    const stats = addViewerSample(undefined, 3, start);
+
+    expect(isSampleDue(undefined, start)).toBe(true);
+    expect(isSampleDue(stats, minutesIn(0.5))).toBe(false);
+    expect(isSampleDue(stats, new Date(start.getTime() + SAMPLE_INTERVAL_MS))).toBe(true);
+  });
+});
+
+describe('viewers', () => {
+  it('drops viewers whose heartbeat is too old', () => {
+    expect(getViewerCutoff(start).getTime()).toBeLessThan(start.getTime());
+  });
+
+  it('only counts an audience while the match is live', () => {
+    const viewerStats = addViewerSample(undefined, 5, start);
+
+    expect(getLiveViewerCount({ status: 'in_progress', viewerStats })).toBe(5);
+    expect(getLiveViewerCount({ status: 'completed', viewerStats })).toBe(0);
+  });
+});
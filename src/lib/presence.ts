@@ -0,0 +1,42 @@
+import type { Match, MatchViewerStats } from '@/types';
+
+const SECOND = 1000;
+
+// Viewers of a live match check in this often
+export const HEARTBEAT_INTERVAL_MS = 30 * SECOND;
+
+// A viewer who hasn't checked in for this long has left
+export const VIEWER_TIMEOUT_MS = 75 * SECOND;
+
+// The viewer count is sampled onto the match at most this often
+export const SAMPLE_INTERVAL_MS = 60 * SECOND;
+
+// Signed-out viewers are counted by an ID kept in local storage
+export const ANONYMOUS_VIEWER_KEY = 'anonymousViewerId';
+
+// Heartbeats older than this don't count
+export const getViewerCutoff = (now: Date): Date => new Date(now.getTime() - VIEWER_TIMEOUT_MS);
+
+export const isSampleDue = (stats: Pick<MatchViewerStats, 'lastSampledAt'> | undefined, now: Date): boolean =>
+  !stats || now.getTime() - stats.lastSampledAt.getTime() >= SAMPLE_INTERVAL_MS;
+
+export const addViewerSample = (stats: MatchViewerStats | undefined, count: number, now: Date): MatchViewerStats => {
+  const isPeak = !stats || count > stats.peak;
+  return {
+    current: count,
+    peak: isPeak ? count : stats.peak,
+    peakAt: isPeak ? now : stats.peakAt,
+    sampleCount: (stats?.sampleCount || 0) + 1,
+    viewerTotal: (stats?.viewerTotal || 0) + count,
+    firstSampledAt: stats?.firstSampledAt || now,
+    lastSampledAt: now,
+  };
+};
+
+// Rounded to one decimal place
+export const getAverageViewers = (stats: MatchViewerStats): number =>
+  stats.sampleCount > 0 ? Math.round((stats.viewerTotal / stats.sampleCount) * 10) / 10 : 0;
+
+// How many are watching right now; only live matches have an audience
+export const getLiveViewerCount = (match: Pick<Match, 'status' | 'viewerStats'>): number =>
+  match.status === 'in_progress' ? match.viewerStats?.current || 0 : 0;
@@ -0,0 +1,69 @@
+import { describe, expect, it } from 'vitest';
+import {
+  calculateRatingChanges,
+  getExpectedScore,
+  getKFactor,
+  getRatingId,
+  isProvisional,
+  type RatedEntrant,
+} from '@/lib/ratings';
+
+const entrant = (id: string, rating = 1200, gamesPlayed = 20): RatedEntrant => ({ id, rating, gamesPlayed });
+
+describe('getExpectedScore', () => {
+  it('gives evenly rated players an even chance', () => {
+    expect(getExpectedScore(1500, 1500)).toBe(0.5);
+  });
+
+  it('favours the higher rated player, and both sides add up to one', () => {
+    const favourite = getExpectedScore(1600, 1200);
+
+    expect(favourite).toBeCloseTo(0.909, 3);
+    expect(favourite + getExpectedScore(1200, 1600)).toBeCloseTo(1);
+  });
+});
+
+describe('getKFactor', () => {
+  it('moves provisional ratings faster until ten games are played', () => {
+    expect(isProvisional(9)).toBe(true);
+    expect(getKFactor(9)).toBe(40);
+    expect(isProvisional(10)).toBe(false);
+    expect(getKFactor(10)).toBe(24);
+  });
+});
+
+describe('calculateRatingChanges', () => {
+  it('moves evenly rated players by half of K', () => {
+    expect(calculateRatingChanges([entrant('a'), entrant('b')], 'a')).toEqual({ a: 12, b: -12 });
+    expect(calculateRatingChanges([entrant('a', 1200, 0), entrant('b', 1200, 0)], 'b')).toEqual({ a: -20, b: 20 });
+  });
+
+  it('leaves evenly rated players alone after a draw', () => {
+    expect(calculateRatingChanges([entrant('a'), entrant('b')])).toEqual({ a: 0, b: 0 });
+  });
+
+  it('rewards an upset more than an expected win', () => {
+    const upset = calculateRatingChanges([entrant('a', 1200), entrant('b', 1600)], 'a');
+    const expected = calculateRatingChanges([entrant('a', 1200), entrant('b', 1600)], 'b');
+
+    expect(upset.a).toBeGreaterThan(expected.b);
+    expect(upset).toEqual({ a: 22, b: -22 });
+  });
+
+  it('scores a free-for-all as the winner beating each other entrant', () => {
+    const changes = calculateRatingChanges([entrant('a'), entrant('b'), entrant('c'), entrant('d')], 'a');
+
+    // K is split across the three opponents, so winning the lobby is worth a 1v1 win
+    expect(changes).toEqual({ a: 12, b: -4, c: -4, d: -4 });
+  });
+
+  it('changes nothing without an opponent', () => {
+    expect(calculateRatingChanges([entrant('a')], 'a')).toEqual({ a: 0 });
+  });
+});
+
+describe('getRatingId', () => {
+  it('is unique per subject and game', () => {
+    expect(getRatingId('team', 't1', 'valorant')).toBe('team_t1_valorant');
+  });
+});
@@ -0,0 +1,53 @@
+import type { RatingSubjectType } from '@/types';
+
+// Everyone starts here for each game
+export const DEFAULT_RATING = 1200;
+
+// New players move faster until their rating settles
+const PROVISIONAL_GAMES = 10;
+const PROVISIONAL_K = 40;
+const ESTABLISHED_K = 24;
+
+export const getRatingId = (subjectType: RatingSubjectType, subjectId: string, game: string): string =>
+  `${subjectType}_${subjectId}_${game}`;
+
+export const getKFactor = (gamesPlayed: number): number =>
+  gamesPlayed < PROVISIONAL_GAMES ? PROVISIONAL_K : ESTABLISHED_K;
+
+// Probability that a player rated `rating` beats one rated `opponentRating`
+export const getExpectedScore = (rating: number, opponentRating: number): number =>
+  1 / (1 + 10 ** ((opponentRating - rating) / 400));
+
+export const isProvisional = (gamesPlayed: number): boolean => gamesPlayed < PROVISIONAL_GAMES;
+
+export interface RatedEntrant {
+  id: string;
+  rating: number;
+  gamesPlayed: number;
+}
+
+// Rating change for every entrant in a finished match. Head-to-head matches
+// are plain Elo. Free-for-alls are scored as the winner beating each other
+// entrant (or everyone drawing with everyone when there's no winner), with
+// K divided by the number of opponents so a big lobby isn't worth more than a 1v1.
+export const calculateRatingChanges = (
+  entrants: RatedEntrant[],
+  winnerId?: string
+): Record<string, number> => {
+  const totals: Record<string, number> = Object.fromEntries(entrants.map((e) => [e.id, 0]));
+  if (entrants.length < 2) return totals;
+
+  const share = 1 / (entrants.length - 1);
+
+  entrants.forEach((a, i) => {
+    entrants.slice(i + 1).forEach((b) => {
+      if (winnerId && a.id !== winnerId && b.id !== winnerId) return;
+      const scoreA = !winnerId ? 0.5 : a.id === winnerId ? 1 : 0;
+      const expectedA = getExpectedScore(a.rating, b.rating);
+      totals[a.id] += getKFactor(a.gamesPlayed) * share * (scoreA - expectedA);
+      totals[b.id] += getKFactor(b.gamesPlayed) * share * (1 - scoreA - (1 - expectedA));
+    });
+  });
+
+  return Object.fromEntries(Object.entries(totals).map(([id, delta]) => [id, Math.round(delta)]));
+};
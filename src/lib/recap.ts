@@ -0,0 +1,109 @@
+import type { Match, MatchEvent, MatchEventType, RecapMode, ScoringTemplate } from '@/types';
+import { getEventTypeInfo, getEventValue } from '@/lib/scoring';
+import { isSeries } from '@/lib/series';
+
+export const RECAP_MODES: { value: RecapMode; label: string }[] = [
+  { value: 'review', label: '📝 Draft for admin review' },
+  { value: 'publish', label: '📣 Publish automatically' },
+  { value: 'off', label: '🚫 No recap' },
+];
+
+export const DEFAULT_RECAP_MODE: RecapMode = 'review';
+
+export const getRecapMode = (match: Pick<Match, 'recapMode'>): RecapMode => match.recapMode || DEFAULT_RECAP_MODE;
+
+// How many players a recap calls out
+export const TOP_PERFORMERS_LIMIT = 3;
+
+// Penalties don't make anyone a top performer
+const UNCREDITED_EVENT_TYPES: MatchEventType[] = ['penalty'];
+
+export interface TopPerformer {
+  id: string; // player's userId, or participant ID without lineups
+  name: string;
+  teamName?: string;
+  points: number;
+  counts: Partial<Record<MatchEventType, number>>;
+}
+
+const getEventTotal = (performer: TopPerformer): number =>
+  Object.values(performer.counts).reduce((sum, count) => sum + (count || 0), 0);
+
+// Players ranked by the points their events were worth, then by how many
+// events they had. Team matches with lineup players only rank players;
+// otherwise the participants themselves are ranked.
+export const getTopPerformers = (
+  events: MatchEvent[],
+  template: ScoringTemplate,
+  limitCount = TOP_PERFORMERS_LIMIT
+): TopPerformer[] => {
+  const credited = events.filter((event) => !event.deletedAt && !UNCREDITED_EVENT_TYPES.includes(event.type));
+  const hasPlayers = credited.some((event) => event.playerId);
+  const performers = new Map<string, TopPerformer>();
+
+  credited
+    .filter((event) => !hasPlayers || event.playerId)
+    .forEach((event) => {
+      const id = event.playerId || event.participantId;
+      const performer = performers.get(id) || {
+        id,
+        name: event.playerName || event.participantName,
+        ...(event.playerId && { teamName: event.participantName }),
+        points: 0,
+        counts: {},
+      };
+      performer.points += getEventValue(template, event);
+      performer.counts[event.type] = (performer.counts[event.type] || 0) + 1;
+      performers.set(id, performer);
+    });
+
+  return [...performers.values()]
+    .sort((a, b) => b.points - a.points || getEventTotal(b) - getEventTotal(a))
+    .slice(0, limitCount);
+};
+
+const describePerformer = (performer: TopPerformer): string => {
+  const counts = (Object.entries(performer.counts) as [MatchEventType, number][])
+    .sort(([, a], [, b]) => b - a)
+    .map(([type, count]) => {
+      const label = getEventTypeInfo(type).label.toLowerCase();
+      return `${count} ${label}${count === 1 ? '' : 's'}`;
+    });
+  const name = performer.teamName ? `${performer.name} (${performer.teamName})` : performer.name;
+  return `• ${name}: ${counts.join(', ')}`;
+};
+
+// Post text for a finished match: final score, winner and top performers.
+// The post itself links back to the match.
+export const buildMatchRecap = (
+  match: Pick<Match, 'title' | 'participants' | 'scores' | 'winnerId' | 'bestOf'>,
+  events: MatchEvent[],
+  template: ScoringTemplate,
+  gameName?: string
+): string => {
+  const participants = (match.participants || []).map((p) => ({
+    id: p.oduserId || p.teamId || '',
+    name: p.name,
+    score: match.scores?.[p.oduserId || p.teamId || ''] ?? 0,
+  }));
+  const winner = participants.find((p) => p.id === match.winnerId);
+  const series = isSeries(match) ? ` (best of ${match.bestOf})` : '';
+
+  const lines = [`🏁 Final${gameName ? ` · ${gameName}` : ''}: ${match.title}`, ''];
+  if (participants.length === 2) {
+    const [home, away] = participants;
+    lines.push(`${home.name} ${home.score} - ${away.score} ${away.name}${series}`);
+  } else {
+    [...participants]
+      .sort((a, b) => b.score - a.score)
+      .forEach((p) => lines.push(`${p.name}: ${p.score}`));
+  }
+  lines.push(winner ? `🏆 ${winner.name} ${series ? 'wins the series' : 'wins'}!` : '🤝 It ends in a draw.');
+
+  const performers = getTopPerformers(events, template);
+  if (performers.length > 0) {
+    lines.push('', '⭐ Top performers', ...performers.map(describePerformer));
+  }
+
+  return lines.join('\n');
+};
@@ -0,0 +1,58 @@
+import { describe, expect, it } from 'vitest';
+import {
+  MAX_OCCURRENCES,
+  describeRecurrence,
+  getOccurrenceTimes,
+  getRecurrenceError,
+  isUpcomingOccurrence,
+} from '@/lib/recurrence';
+
+// Monday 2 November 2026, 6pm local time
+const firstStart = new Date(2026, 10, 2, 18, 0);
+
+describe('getOccurrenceTimes', () => {
+  it('repeats on the chosen weekdays at the same time, up to and including the last day', () => {
+    const times = getOccurrenceTimes(firstStart, { daysOfWeek: [1, 3], until: new Date(2026, 10, 16) });
+
+    expect(times).toEqual([
+      new Date(2026, 10, 4, 18, 0),
+      new Date(2026, 10, 9, 18, 0),
+      new Date(2026, 10, 11, 18, 0),
+      new Date(2026, 10, 16, 18, 0),
+    ]);
+  });
+
+  it(`stops at ${MAX_OCCURRENCES} matches, the first one included`, () => {
+    const times = getOccurrenceTimes(firstStart, { daysOfWeek: [0, 1, 2, 3, 4, 5, 6], until: new Date(2027, 10, 2) });
+
+    expect(times).toHaveLength(MAX_OCCURRENCES - 1);
+    expect(times[times.length - 1]).toEqual(new Date(2026, 11, 23, 18, 0));
+  });
+});
+
+describe('getRecurrenceError', () => {
+  const rule = { daysOfWeek: [1], until: new Date(2026, 10, 30) };
+
+  it('accepts a rule with matches after the first one', () => {
+    expect(getRecurrenceError(firstStart, rule)).toBeNull();
+    expect(describeRecurrence({ daysOfWeek: [3, 1], until: rule.until })).toBe('Weekly on Mon, Wed until Nov 30, 2026');
+  });
+
+  it('explains what is missing', () => {
+    expect(getRecurrenceError(undefined, rule)).toBe('Recurring matches need a start time');
+    expect(getRecurrenceError(firstStart, { ...rule, daysOfWeek: [] })).toBe('Pick at least one day of the week');
+    expect(getRecurrenceError(firstStart, { ...rule, until: new Date(2026, 10, 1) })).toBe(
+      'The repeat end date must be after the first match'
+    );
+    expect(getRecurrenceError(firstStart, { daysOfWeek: [1], until: new Date(2026, 10, 8) })).toBe(
+      'No matches fall between the first match and the end date'
+    );
+  });
+});
+
+describe('isUpcomingOccurrence', () => {
+  it('only lets occurrences that have not started be edited', () => {
+    expect(isUpcomingOccurrence({ status: 'scheduled' })).toBe(true);
+    expect(isUpcomingOccurrence({ status: 'completed' })).toBe(false);
+  });
+});
@@ -0,0 +1,61 @@
+import { addDays, endOfDay, format } from 'date-fns';
+import type { Match, MatchType, RecurrenceRule } from '@/types';
+
+export const WEEKDAYS = [
+  { value: 0, label: 'Sun' },
+  { value: 1, label: 'Mon' },
+  { value: 2, label: 'Tue' },
+  { value: 3, label: 'Wed' },
+  { value: 4, label: 'Thu' },
+  { value: 5, label: 'Fri' },
+  { value: 6, label: 'Sat' },
+];
+
+// Only scrimmages repeat
+export const RECURRING_MATCH_TYPES: MatchType[] = ['scrimmage'];
+
+// A series covers at most this many matches, the first one included
+export const MAX_OCCURRENCES = 52;
+
+// Settings a whole-series edit copies to the other upcoming occurrences
+export const RECURRENCE_SHARED_FIELDS = [
+  'title',
+  'description',
+  'rules',
+  'prizeDescription',
+  'streamUrl',
+  'isPublic',
+  'bestOf',
+  'maxParticipants',
+  'recapMode',
+  'schoolId',
+] as const satisfies readonly (keyof Match)[];
+
+// Occurrences that haven't started can still be edited or cancelled
+export const isUpcomingOccurrence = (match: Pick<Match, 'status'>): boolean =>
+  match.status === 'open' || match.status === 'scheduled';
+
+// Start times after the first match, at the same time of day, on the
+// rule's weekdays up to and including its last day
+export const getOccurrenceTimes = (firstStart: Date, rule: RecurrenceRule): Date[] => {
+  const lastDay = endOfDay(rule.until);
+  const times: Date[] = [];
+  for (let day = addDays(firstStart, 1); day <= lastDay && times.length < MAX_OCCURRENCES - 1; day = addDays(day, 1)) {
+    if (rule.daysOfWeek.includes(day.getDay())) times.push(day);
+  }
+  return times;
+};
+
+// Why a rule can't be used for a match starting at firstStart, or null if it can
+export const getRecurrenceError = (firstStart: Date | undefined, rule: RecurrenceRule): string | null => {
+  if (!firstStart) return 'Recurring matches need a start time';
+  if (rule.daysOfWeek.length === 0) return 'Pick at least one day of the week';
+  if (endOfDay(rule.until) <= firstStart) return 'The repeat end date must be after the first match';
+  if (getOccurrenceTimes(firstStart, rule).length === 0) return 'No matches fall between the first match and the end date';
+  return null;
+};
+
+export const describeRecurrence = (rule: RecurrenceRule): string => {
+  const days = WEEKDAYS.filter((day) => rule.daysOfWeek.includes(day.value)).map((day) => day.label);
+  return `Weekly on ${days.join(', ')} until ${format(rule.until, 'MMM d, yyyy')}`;
+};
@@ -0,0 +1,123 @@
+import { describe, expect, it } from 'vitest';
+import type { Team, User } from '@/types';
+import {
+  getCheckInWindow,
+  getNoShows,
+  getRegistrationClosedReason,
+  getTeamRegistrationIssues,
+  getWaitlistPromotions,
+  isCheckInOpen,
+  isTournamentFull,
+} from '@/lib/registration';
+
+const deadline = new Date('2026-11-01T12:00:00Z');
+
+const player = (id: string, gameTags: User['gameTags'] = { valorant: `${id}#001` }) =>
+  ({ id, displayName: id, accountType: 'player', gameTags }) as User;
+
+const team = (id: string, members: string[]) =>
+  ({ id, name: `Team ${id}`, game: 'valorant', members, captainId: members[0] }) as Team;
+
+const teamTournament = { type: 'team' as const, game: 'valorant', minTeamSize: 2, maxTeamSize: 3 };
+
+describe('getRegistrationClosedReason', () => {
+  it('takes entries while registration is open and before the deadline', () => {
+    const tournament = { status: 'registration' as const, registrationDeadline: deadline };
+
+    expect(getRegistrationClosedReason(tournament, new Date('2026-11-01T11:59:00Z'))).toBeNull();
+    expect(getRegistrationClosedReason(tournament, new Date('2026-11-01T12:01:00Z'))).toBe(
+      'The registration deadline has passed'
+    );
+  });
+
+  it('turns entries away once the tournament has moved on', () => {
+    expect(
+      getRegistrationClosedReason({ status: 'in_progress', registrationDeadline: deadline }, new Date('2026-10-01'))
+    ).toBe('Registration is not open for this tournament');
+  });
+});
+
+describe('isTournamentFull', () => {
+  it('sends entrants to the waitlist once every spot is taken', () => {
+    expect(isTournamentFull({ participants: ['a'], maxParticipants: 2 })).toBe(false);
+    expect(isTournamentFull({ participants: ['a', 'b'], maxParticipants: 2 })).toBe(true);
+  });
+
+  it('never fills up without a cap', () => {
+    expect(isTournamentFull({ participants: ['a', 'b', 'c'] })).toBe(false);
+  });
+});
+
+describe('getWaitlistPromotions', () => {
+  it('fills the open spots from the front of the waitlist', () => {
+    expect(getWaitlistPromotions({ participants: ['a'], maxParticipants: 3, waitlist: ['w1', 'w2', 'w3'] })).toEqual([
+      'w1',
+      'w2',
+    ]);
+    expect(getWaitlistPromotions({ participants: ['a', 'b'], maxParticipants: 2, waitlist: ['w1'] })).toEqual([]);
+  });
+
+  it('lets everyone in once the cap is gone', () => {
+    expect(getWaitlistPromotions({ participants: ['a'], waitlist: ['w1', 'w2'] })).toEqual(['w1', 'w2']);
+  });
+});
+
+describe('getTeamRegistrationIssues', () => {
+  const members = Object.fromEntries(['u1', 'u2', 'u3'].map((id) => [id, player(id)]));
+
+  it('accepts a full roster of eligible players', () => {
+    expect(getTeamRegistrationIssues(teamTournament, team('t1', ['u1', 'u2']), members, [])).toEqual([]);
+  });
+
+  it('checks the roster size against the tournament limits', () => {
+    expect(getTeamRegistrationIssues(teamTournament, team('t1', ['u1']), members, [])).toEqual([
+      'Teams need at least 2 members (Team t1 has 1)',
+    ]);
+  });
+
+  it('flags members without an in-game ID or already entered with another team', () => {
+    const issues = getTeamRegistrationIssues(
+      teamTournament,
+      team('t1', ['u1', 'u2']),
+      { ...members, u2: player('u2', {}) },
+      [team('t2', ['u1', 'u3'])]
+    );
+
+    expect(issues).toEqual([
+      'u1 is already registered with Team t2',
+      "u2 hasn't added an in-game ID for this game",
+    ]);
+  });
+});
+
+describe('check-in', () => {
+  const tournament = {
+    status: 'registration' as const,
+    dateStart: new Date('2026-11-01T18:00:00Z'),
+    checkInMinutes: 30,
+    participants: ['a', 'b', 'c'],
+    checkedIn: ['b'],
+  };
+
+  it('opens the window the set number of minutes before the start', () => {
+    expect(getCheckInWindow(tournament)).toEqual({
+      opensAt: new Date('2026-11-01T17:30:00Z'),
+      closesAt: tournament.dateStart,
+    });
+    expect(isCheckInOpen(tournament, new Date('2026-11-01T17:29:00Z'))).toBe(false);
+    expect(isCheckInOpen(tournament, new Date('2026-11-01T17:45:00Z'))).toBe(true);
+    expect(isCheckInOpen(tournament, tournament.dateStart)).toBe(false);
+  });
+
+  it('counts entrants who have not checked in as no-shows', () => {
+    expect(getNoShows(tournament)).toEqual(['a', 'c']);
+  });
+
+  it('does nothing for tournaments without check-in', () => {
+    const withoutCheckIn = { ...tournament, checkInMinutes: undefined };
+
+    expect(getCheckInWindow(withoutCheckIn)).toBeNull();
+    expect(isCheckInOpen(withoutCheckIn, new Date('2026-11-01T17:45:00Z'))).toBe(false);
+    expect(getNoShows(withoutCheckIn)).toEqual([]);
+  });
+});
@@ -0,0 +1,102 @@
+import type { Team, Tournament, User } from '@/types';
+
+// Why a tournament isn't taking entries right now (null when it is)
+export const getRegistrationClosedReason = (
+  tournament: Pick<Tournament, 'status' | 'registrationDeadline'>,
+  now = new Date()
+): string | null => {
+  if (tournament.status !== 'registration') return 'Registration is not open for this tournament';
+  if (now > tournament.registrationDeadline) return 'The registration deadline has passed';
+  return null;
+};
+
+// Full tournaments still take entries, but onto the waitlist
+export const isTournamentFull = (tournament: Pick<Tournament, 'participants' | 'maxParticipants'>): boolean =>
+  !!tournament.maxParticipants && tournament.participants.length >= tournament.maxParticipants;
+
+// Waitlisted entrants who fit into the field's open spots, first come first served
+export const getWaitlistPromotions = (
+  tournament: Pick<Tournament, 'participants' | 'maxParticipants' | 'waitlist'>
+): string[] => {
+  const waitlist = tournament.waitlist || [];
+  if (!tournament.maxParticipants) return waitlist;
+  return waitlist.slice(0, Math.max(tournament.maxParticipants - tournament.participants.length, 0));
+};
+
+// Check-in runs for `checkInMinutes` up to the start of the tournament.
+// Returns null when the tournament doesn't use check-in.
+export const getCheckInWindow = (
+  tournament: Pick<Tournament, 'dateStart' | 'checkInMinutes'>
+): { opensAt: Date; closesAt: Date } | null => {
+  if (!tournament.checkInMinutes) return null;
+  const closesAt = tournament.dateStart;
+  return { opensAt: new Date(closesAt.getTime() - tournament.checkInMinutes * 60 * 1000), closesAt };
+};
+
+export const isCheckInOpen = (
+  tournament: Pick<Tournament, 'dateStart' | 'checkInMinutes' | 'status'>,
+  now = new Date()
+): boolean => {
+  const checkInWindow = getCheckInWindow(tournament);
+  if (!checkInWindow || (tournament.status !== 'registration' && tournament.status !== 'in_progress')) {
+    return false;
+  }
+  return now >= checkInWindow.opensAt && now < checkInWindow.closesAt;
+};
+
+// Registered entrants who haven't checked in (always empty without check-in)
+export const getNoShows = (
+  tournament: Pick<Tournament, 'participants' | 'checkedIn' | 'checkInMinutes'>
+): string[] =>
+  tournament.checkInMinutes
+    ? tournament.participants.filter((id) => !tournament.checkedIn?.includes(id))
+    : [];
+
+// Reasons a team can't enter a tournament (empty when it can).
+// `members` holds the team's member profiles keyed by user ID and
+// `registeredTeams` the teams already entered.
+export const getTeamRegistrationIssues = (
+  tournament: Pick<Tournament, 'type' | 'game' | 'minTeamSize' | 'maxTeamSize'>,
+  team: Team,
+  members: Record<string, User>,
+  registeredTeams: Team[]
+): string[] => {
+  const issues: string[] = [];
+
+  if (tournament.type !== 'team') {
+    issues.push('This tournament is for solo players');
+    return issues;
+  }
+  if (team.game !== tournament.game) {
+    issues.push(`${team.name} doesn't play this tournament's game`);
+  }
+
+  const rosterSize = team.members.length;
+  if (tournament.minTeamSize && rosterSize < tournament.minTeamSize) {
+    issues.push(`Teams need at least ${tournament.minTeamSize} members (${team.name} has ${rosterSize})`);
+  }
+  if (tournament.maxTeamSize && rosterSize > tournament.maxTeamSize) {
+    issues.push(`Teams can have at most ${tournament.maxTeamSize} members (${team.name} has ${rosterSize})`);
+  }
+
+  // Every member must be a player with an in-game ID, on only one entered team
+  team.members.forEach((memberId) => {
+    const member = members[memberId];
+    if (!member) {
+      issues.push('A team member\'s profile could not be found');
+      return;
+    }
+    if (member.accountType && member.accountType !== 'player') {
+      issues.push(`${member.displayName} isn't a player account`);
+    }
+    if (!member.gameTags?.[tournament.game]) {
+      issues.push(`${member.displayName} hasn't added an in-game ID for this game`);
+    }
+    const otherTeam = registeredTeams.find((t) => t.id !== team.id && t.members.includes(memberId));
+    if (otherTeam) {
+      issues.push(`${member.displayName} is already registered with ${otherTeam.name}`);
+    }
+  });
+
+  return issues;
+};
@@ -0,0 +1,72 @@
+import { describe, expect, it } from 'vitest';
+import type { Match, MatchResultReport } from '@/types';
+import { canSelfReport, getRespondingParticipant, getWinnerFromScores } from '@/lib/results';
+
+const report = (status: MatchResultReport['status']): MatchResultReport => ({
+  status,
+  scores: { u1: 13, u2: 9 },
+  winnerId: 'u1',
+  reportedBy: 'u1',
+  reportedFor: 'u1',
+  reportedAt: new Date('2026-11-01T19:00:00Z'),
+});
+
+const match = (overrides: Partial<Match> = {}) =>
+  ({
+    id: 'm1',
+    type: 'casual',
+    status: 'in_progress',
+    participants: [{ oduserId: 'u1' }, { oduserId: 'u2' }],
+    ...overrides,
+  }) as Match;
+
+// Who speaks for each participant
+const contacts = { u1: 'u1', u2: 'u2' };
+
+describe('canSelfReport', () => {
+  it('lets participants report casual matches that are underway', () => {
+    expect(canSelfReport(match())).toBe(true);
+  });
+
+  it('leaves ranked, tournament and finished matches to admins', () => {
+    expect(canSelfReport(match({ type: 'ranked' }))).toBe(false);
+    expect(canSelfReport(match({ tournamentId: 't1' }))).toBe(false);
+    expect(canSelfReport(match({ status: 'completed' }))).toBe(false);
+  });
+});
+
+describe('getWinnerFromScores', () => {
+  it('picks the highest score and treats a tie at the top as a draw', () => {
+    expect(getWinnerFromScores({ u1: 13, u2: 9 })).toBe('u1');
+    expect(getWinnerFromScores({ u1: 2, u2: 2, u3: 1 })).toBeUndefined();
+  });
+});
+
+describe('getRespondingParticipant', () => {
+  it('lets the opponent confirm or dispute a pending report', () => {
+    expect(getRespondingParticipant(match({ resultReport: report('pending') }), contacts, 'u2')).toBe('u2');
+  });
+
+  it('does not let the reporting side confirm its own result', () => {
+    expect(() => getRespondingParticipant(match({ resultReport: report('pending') }), contacts, 'u1')).toThrow(
+      'Only an opponent can confirm or dispute this result'
+    );
+  });
+
+  it('answers for a team through its captain', () => {
+    const teamMatch = match({
+      isTeamMatch: true,
+      resultReport: { ...report('pending'), reportedBy: 'captain1', reportedFor: 't1' },
+    });
+
+    expect(getRespondingParticipant(teamMatch, { t1: 'captain1', t2: 'captain2' }, 'captain2')).toBe('t2');
+  });
+
+  it('has nothing to respond to once a report is confirmed or disputed', () => {
+    (['confirmed', 'disputed'] as const).forEach((status) => {
+      expect(() => getRespondingParticipant(match({ resultReport: report(status) }), contacts, 'u2')).toThrow(
+        'There is no result waiting for confirmation'
+      );
+    });
+  });
+});
@@ -0,0 +1,32 @@
+import type { Match, MatchType } from '@/types';
+
+// Match types participants report themselves; ranked results stay with admins
+export const SELF_REPORT_MATCH_TYPES: MatchType[] = ['friendly', 'casual', 'scrimmage'];
+
+// Evidence screenshots per dispute
+export const MAX_DISPUTE_EVIDENCE = 4;
+
+export const canSelfReport = (match: Match): boolean =>
+  SELF_REPORT_MATCH_TYPES.includes(match.type) &&
+  !match.tournamentId &&
+  (match.status === 'scheduled' || match.status === 'in_progress') &&
+  (match.participants || []).length >= 2;
+
+// Highest score wins; a tie at the top is a draw (undefined)
+export const getWinnerFromScores = (scores: Record<string, number>): string | undefined => {
+  const ranked = Object.entries(scores).sort(([, a], [, b]) => b - a);
+  if (ranked.length === 0 || (ranked.length > 1 && ranked[0][1] === ranked[1][1])) return undefined;
+  return ranked[0][0];
+};
+
+// Work out which opponent a user is acting for on a pending report.
+// `contacts` maps each participant to the user who speaks for them.
+export const getRespondingParticipant = (match: Match, contacts: Record<string, string>, userId: string): string => {
+  const report = match.resultReport;
+  if (!report || report.status !== 'pending') throw new Error('There is no result waiting for confirmation');
+  const participantId = Object.keys(contacts).find(
+    (id) => contacts[id] === userId && id !== report.reportedFor
+  );
+  if (!participantId) throw new Error('Only an opponent can confirm or dispute this result');
+  return participantId;
+};
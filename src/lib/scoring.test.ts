@@ -0,0 +1,76 @@
+import { describe, expect, it } from 'vitest';
+import {
+  DEFAULT_SCORING_TEMPLATE,
+  SCORING_PRESETS,
+  describeWinCondition,
+  getEventValidationError,
+  getEventValue,
+  getScoringTemplate,
+  getTemplateWinner,
+  isEventScored,
+  toStoredScoringTemplate,
+} from '@/lib/scoring';
+
+const preset = (id: string) => SCORING_PRESETS.find((scoringPreset) => scoringPreset.id === id)!.template;
+const rounds = preset('rounds');
+const halves = preset('halves');
+
+describe('getEventValidationError', () => {
+  it('accepts the event types the template scores', () => {
+    expect(getEventValidationError(rounds, { type: 'round_win' })).toBeNull();
+    expect(getEventValidationError(rounds, { type: 'goal' })).toBe("Goal events aren't scored in this game");
+  });
+
+  it('keeps events inside the periods the game is played over', () => {
+    expect(getEventValidationError(halves, { type: 'goal', period: 2 })).toBeNull();
+    expect(getEventValidationError(halves, { type: 'goal', period: 3 })).toBe('This game is played over 2 halves');
+  });
+
+  it('only takes whole numbers for values the scorer enters', () => {
+    expect(getEventValidationError(DEFAULT_SCORING_TEMPLATE, { type: 'point', value: 2.5 })).toBe(
+      'Event values must be whole numbers'
+    );
+    expect(getEventValidationError(DEFAULT_SCORING_TEMPLATE, { type: 'point', value: 3 })).toBeNull();
+  });
+});
+
+describe('getEventValue', () => {
+  it('uses the template points over the entered value', () => {
+    expect(getEventValue(rounds, { type: 'round_win', value: 5 })).toBe(1);
+    expect(getEventValue(rounds, { type: 'kill' })).toBe(0);
+    expect(getEventValue(DEFAULT_SCORING_TEMPLATE, { type: 'point', value: 3 })).toBe(3);
+  });
+});
+
+describe('getTemplateWinner', () => {
+  it('ends a first-to match as soon as the target is reached', () => {
+    expect(describeWinCondition(rounds)).toBe('First to 13');
+    expect(getTemplateWinner(rounds, { a: 12, b: 11 })).toBeUndefined();
+    expect(getTemplateWinner(rounds, { a: 12, b: 13 })).toBe('b');
+  });
+
+  it('only settles a highest score match once it is over', () => {
+    expect(describeWinCondition(halves)).toBe('Highest score after 2 halves');
+    expect(getTemplateWinner(halves, { a: 2, b: 1 })).toBeUndefined();
+    expect(getTemplateWinner(halves, { a: 2, b: 1 }, true)).toBe('a');
+    expect(getTemplateWinner(halves, { a: 1, b: 1 }, true)).toBeUndefined();
+  });
+});
+
+describe('game templates', () => {
+  it('falls back to the default template and scores those games by hand', () => {
+    expect(getScoringTemplate({})).toBe(DEFAULT_SCORING_TEMPLATE);
+    expect(isEventScored({})).toBe(false);
+    expect(isEventScored({ scoringTemplate: rounds })).toBe(true);
+  });
+
+  it('drops undefined fields before storing a template', () => {
+    expect(
+      toStoredScoringTemplate({
+        eventRules: [{ type: 'point', points: undefined }],
+        periodLabel: undefined,
+        winCondition: { type: 'highest_score' },
+      })
+    ).toEqual({ eventRules: [{ type: 'point' }], winCondition: { type: 'highest_score' } });
+  });
+});
@@ -0,0 +1,128 @@
+import type { Game, MatchEvent, MatchEventType, ScoringEventRule, ScoringTemplate } from '@/types';
+import { getWinnerFromScores } from '@/lib/results';
+
+export const EVENT_TYPES: { value: MatchEventType; label: string; icon: string }[] = [
+  { value: 'goal', label: 'Goal', icon: '⚽' },
+  { value: 'assist', label: 'Assist', icon: '🎯' },
+  { value: 'kill', label: 'Kill', icon: '💀' },
+  { value: 'round_win', label: 'Round Win', icon: '🏆' },
+  { value: 'point', label: 'Point', icon: '📍' },
+  { value: 'save', label: 'Save', icon: '🧤' },
+  { value: 'penalty', label: 'Penalty', icon: '🔴' },
+  { value: 'other', label: 'Other', icon: '📌' },
+];
+
+export const getEventTypeInfo = (type: MatchEventType) =>
+  EVENT_TYPES.find((eventType) => eventType.value === type) || { value: type, label: type, icon: '📌' };
+
+// Games without a template: any event, the scorer enters its value, and the
+// highest score wins
+export const DEFAULT_SCORING_TEMPLATE: ScoringTemplate = {
+  eventRules: EVENT_TYPES.map(({ value }) => ({ type: value })),
+  winCondition: { type: 'highest_score' },
+};
+
+// Starting points for the game editor
+export const SCORING_PRESETS: { id: string; name: string; template: ScoringTemplate }[] = [
+  {
+    id: 'rounds',
+    name: 'Rounds (first to 13)',
+    template: {
+      eventRules: [
+        { type: 'round_win', points: 1 },
+        { type: 'kill', points: 0 },
+        { type: 'assist', points: 0 },
+      ],
+      periodLabel: 'Round',
+      winCondition: { type: 'first_to', target: 13 },
+    },
+  },
+  {
+    id: 'halves',
+    name: 'Two halves (most goals)',
+    template: {
+      eventRules: [
+        { type: 'goal', points: 1 },
+        { type: 'assist', points: 0 },
+        { type: 'save', points: 0 },
+        { type: 'penalty', points: 0 },
+      ],
+      periodLabel: 'Half',
+      periods: 2,
+      winCondition: { type: 'highest_score' },
+    },
+  },
+  {
+    id: 'points',
+    name: 'Points (highest score)',
+    template: {
+      eventRules: [{ type: 'point' }, { type: 'other', points: 0 }],
+      winCondition: { type: 'highest_score' },
+    },
+  },
+];
+
+export const getScoringTemplate = (game?: Pick<Game, 'scoringTemplate'> | null): ScoringTemplate =>
+  game?.scoringTemplate || DEFAULT_SCORING_TEMPLATE;
+
+// Games with a scoring template are scored from their event log. The rest
+// are scored by hand, and their events are only a play-by-play.
+export const isEventScored = (game?: Pick<Game, 'scoringTemplate'> | null): boolean => !!game?.scoringTemplate;
+
+export const getEventRule = (template: ScoringTemplate, type: MatchEventType): ScoringEventRule | undefined =>
+  template.eventRules.find((rule) => rule.type === type);
+
+const getPeriodName = (template: ScoringTemplate, count = 1): string => {
+  const label = (template.periodLabel || 'Period').toLowerCase();
+  if (count === 1) return label;
+  return label.endsWith('f') ? `${label.slice(0, -1)}ves` : `${label}s`;
+};
+
+// Why an event doesn't fit the template, or null if it does
+export const getEventValidationError = (
+  template: ScoringTemplate,
+  event: Pick<MatchEvent, 'type' | 'value' | 'period'>
+): string | null => {
+  const rule = getEventRule(template, event.type);
+  if (!rule) return `${getEventTypeInfo(event.type).label} events aren't scored in this game`;
+  if (rule.points === undefined && event.value !== undefined && !Number.isInteger(event.value)) {
+    return 'Event values must be whole numbers';
+  }
+  if (template.periods && event.period !== undefined && (event.period < 1 || event.period > template.periods)) {
+    return `This game is played over ${template.periods} ${getPeriodName(template, template.periods)}`;
+  }
+  return null;
+};
+
+// Points an event is worth: fixed by the template, or entered by the scorer
+export const getEventValue = (template: ScoringTemplate, event: Pick<MatchEvent, 'type' | 'value'>): number =>
+  getEventRule(template, event.type)?.points ?? event.value ?? 1;
+
+export const describeWinCondition = (template: ScoringTemplate): string => {
+  const { winCondition, periods } = template;
+  if (winCondition.type === 'first_to') return `First to ${winCondition.target}`;
+  return periods ? `Highest score after ${periods} ${getPeriodName(template, periods)}` : 'Highest score';
+};
+
+// Winner under the template's win condition. A target is won as soon as
+// it's reached; highest score only counts once the match is over (isFinal).
+export const getTemplateWinner = (
+  template: ScoringTemplate,
+  scores: Record<string, number>,
+  isFinal = false
+): string | undefined => {
+  const { winCondition } = template;
+  if (winCondition.type === 'first_to') {
+    const [leaderId, leaderScore] = Object.entries(scores).sort(([, a], [, b]) => b - a)[0] || [];
+    return leaderId && leaderScore >= winCondition.target ? leaderId : undefined;
+  }
+  return isFinal ? getWinnerFromScores(scores) : undefined;
+};
+
+// Firestore won't store undefined fields, including nested ones
+export const toStoredScoringTemplate = (template: ScoringTemplate): ScoringTemplate => ({
+  eventRules: template.eventRules.map((rule) => (rule.points === undefined ? { type: rule.type } : rule)),
+  ...(template.periodLabel && { periodLabel: template.periodLabel }),
+  ...(template.periods && { periods: template.periods }),
+  winCondition: template.winCondition,
+});
@@ -0,0 +1,37 @@
+import { describe, expect, it } from 'vitest';
+import type { SeriesGame } from '@/types';
+import { getSeriesScore, getSeriesWinner, getWinsRequired, isSeries } from '@/lib/series';
+
+// Games in the order they were played, each won by the given participant
+const played = (...winners: (string | undefined)[]): SeriesGame[] =>
+  winners.map((winnerId, i) => ({ number: i + 1, scores: {}, winnerId }));
+
+describe('getWinsRequired', () => {
+  it('takes a majority of the games', () => {
+    expect([1, 3, 5].map(getWinsRequired)).toEqual([1, 2, 3]);
+  });
+
+  it('only treats best of 3 and up as a series', () => {
+    expect(isSeries({ bestOf: 1 })).toBe(false);
+    expect(isSeries({})).toBe(false);
+    expect(isSeries({ bestOf: 3 })).toBe(true);
+  });
+});
+
+describe('getSeriesScore', () => {
+  it('counts game wins, leaving drawn games out', () => {
+    expect(getSeriesScore(played('a', undefined, 'b', 'a'), ['a', 'b'])).toEqual({ a: 2, b: 1 });
+  });
+});
+
+describe('getSeriesWinner', () => {
+  it('is undecided until someone reaches the required wins', () => {
+    expect(getSeriesWinner(played('a', 'b'), 3)).toBeUndefined();
+    expect(getSeriesWinner(played('a', 'b', 'b'), 3)).toBe('b');
+  });
+
+  it('needs three wins in a best of 5', () => {
+    expect(getSeriesWinner(played('a', 'a', 'b', 'b'), 5)).toBeUndefined();
+    expect(getSeriesWinner(played('a', 'a', 'b', 'b', 'a'), 5)).toBe('a');
+  });
+});
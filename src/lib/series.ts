@@ -0,0 +1,30 @@
+import type { Match, SeriesGame } from '@/types';
+
+// Series lengths admins can pick; best of 1 is a single game
+export const BEST_OF_OPTIONS = [1, 3, 5];
+
+// Game wins needed to take the series (2 in a best of 3)
+export const getWinsRequired = (bestOf: number): number => Math.floor(bestOf / 2) + 1;
+
+export const isSeries = (match: Pick<Match, 'bestOf'>): boolean => (match.bestOf || 1) > 1;
+
+// Game wins per participant; drawn games count for nobody
+export const getSeriesScore = (series: SeriesGame[], participantIds: string[]): Record<string, number> => {
+  const score: Record<string, number> = Object.fromEntries(participantIds.map((id) => [id, 0]));
+  series.forEach((game) => {
+    if (game.winnerId) score[game.winnerId] = (score[game.winnerId] || 0) + 1;
+  });
+  return score;
+};
+
+// Whoever reaches the required game wins first takes the series
+export const getSeriesWinner = (series: SeriesGame[], bestOf: number): string | undefined => {
+  const required = getWinsRequired(bestOf);
+  const wins: Record<string, number> = {};
+  for (const game of series) {
+    if (!game.winnerId) continue;
+    wins[game.winnerId] = (wins[game.winnerId] || 0) + 1;
+    if (wins[game.winnerId] >= required) return game.winnerId;
+  }
+  return undefined;
+};
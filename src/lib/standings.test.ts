@@ -0,0 +1,106 @@
+import { describe, expect, it } from 'vitest';
+import type { BracketMatch } from '@/types';
+import { generateSingleElimination, recordBracketResult } from '@/lib/brackets';
+import {
+  POINTS_FOR_DRAW,
+  POINTS_FOR_WIN,
+  getGroupStandings,
+  getSingleEliminationStandings,
+  getSwissStandings,
+} from '@/lib/standings';
+
+const played = (
+  id: string,
+  participant1: string,
+  participant2: string,
+  score1: number,
+  score2: number
+): BracketMatch => ({
+  id,
+  round: 1,
+  matchNumber: 1,
+  participant1,
+  participant2,
+  score1,
+  score2,
+  winnerId: score1 > score2 ? participant1 : score2 > score1 ? participant2 : undefined,
+  completedAt: new Date('2026-01-01T00:00:00Z'),
+});
+
+describe('getGroupStandings', () => {
+  it('awards points for wins and draws and tallies scores', () => {
+    const standings = getGroupStandings(
+      ['a', 'b', 'c'],
+      [[played('m1', 'a', 'b', 2, 1), played('m2', 'b', 'c', 3, 0), played('m3', 'a', 'c', 1, 1)]]
+    );
+
+    expect(standings.map((row) => row.participantId)).toEqual(['a', 'b', 'c']);
+    expect(standings[0]).toMatchObject({
+      played: 2,
+      wins: 1,
+      draws: 1,
+      losses: 0,
+      scoreFor: 3,
+      scoreAgainst: 2,
+      points: POINTS_FOR_WIN + POINTS_FOR_DRAW,
+    });
+    expect(standings[2]).toMatchObject({ played: 2, losses: 1, points: POINTS_FOR_DRAW });
+  });
+
+  it('breaks ties on points by score difference', () => {
+    const standings = getGroupStandings(
+      ['a', 'b', 'c'],
+      [[played('m1', 'a', 'c', 1, 0), played('m2', 'b', 'c', 5, 0)]]
+    );
+
+    expect(standings.map((row) => row.participantId)).toEqual(['b', 'a', 'c']);
+  });
+
+  it('ignores matches that have not been played', () => {
+    const unplayed: BracketMatch = { id: 'm1', round: 1, matchNumber: 1, participant1: 'a', participant2: 'b' };
+    const standings = getGroupStandings(['a', 'b'], [[unplayed]]);
+
+    expect(standings.every((row) => row.played === 0 && row.points === 0)).toBe(true);
+  });
+});
+
+describe('getSwissStandings', () => {
+  it('counts a bye as a win and breaks ties by opponents wins', () => {
+    const bye: BracketMatch = { id: 'm3', round: 1, matchNumber: 3, participant1: 'e', winnerId: 'e', isBye: true };
+    const standings = getSwissStandings(
+      ['a', 'b', 'c', 'd', 'e'],
+      [
+        [played('m1', 'a', 'c', 2, 0), played('m2', 'b', 'd', 2, 0), bye],
+        [played('m4', 'a', 'b', 2, 0), played('m5', 'c', 'e', 0, 2), played('m6', 'd', 'c', 2, 0)],
+      ]
+    );
+    const byId = Object.fromEntries(standings.map((row) => [row.participantId, row]));
+
+    expect(byId.e).toMatchObject({ wins: 2, played: 1, points: 2 * POINTS_FOR_WIN });
+    expect(standings[0].participantId).toBe('a');
+    // b and d both have one win; b lost to a (2 wins), d beat c (0 wins)
+    expect(byId.b.buchholz).toBeGreaterThan(byId.d.buchholz as number);
+    expect(standings.findIndex((row) => row.participantId === 'b')).toBeLessThan(
+      standings.findIndex((row) => row.participantId === 'd')
+    );
+  });
+});
+
+describe('getSingleEliminationStandings', () => {
+  it('places the champion first and shares placements by round knocked out', () => {
+    const structure = [
+      ['r1-m1', 'a'],
+      ['r1-m2', 'b'],
+      ['r2-m1', 'b'],
+    ].reduce(
+      (current, [matchId, winnerId]) => recordBracketResult(current, matchId, { winnerId }),
+      generateSingleElimination(['a', 'b', 'c', 'd'])
+    );
+    const standings = getSingleEliminationStandings(['a', 'b', 'c', 'd'], structure.rounds);
+    const placements = Object.fromEntries(standings.map((row) => [row.participantId, row.placement]));
+
+    expect(standings[0].participantId).toBe('b');
+    expect(placements).toEqual({ b: 1, a: 2, c: 3, d: 3 });
+    expect(standings.find((row) => row.participantId === 'a')?.isEliminated).toBe(true);
+  });
+});
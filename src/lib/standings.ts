@@ -0,0 +1,198 @@
+import type { BracketMatch } from '@/types';
+import type { BracketStructure } from '@/lib/brackets';
+
+export interface StandingRow {
+  participantId: string;
+  played: number;
+  wins: number;
+  draws: number;
+  losses: number;
+  scoreFor: number;
+  scoreAgainst: number;
+  points: number;
+  // Swiss tiebreak: total wins of everyone this participant has played
+  buchholz?: number;
+  // Elimination formats: final (or current best possible) placement
+  placement?: number;
+  isEliminated?: boolean;
+}
+
+// Points for league-style tables
+export const POINTS_FOR_WIN = 3;
+export const POINTS_FOR_DRAW = 1;
+
+const emptyRow = (participantId: string): StandingRow => ({
+  participantId,
+  played: 0,
+  wins: 0,
+  draws: 0,
+  losses: 0,
+  scoreFor: 0,
+  scoreAgainst: 0,
+  points: 0,
+});
+
+// A match with a completion time but no winner was drawn
+const isDraw = (match: BracketMatch): boolean => !match.winnerId && !!match.completedAt;
+
+// Tally results for the given matches. Byes count as a win for Swiss
+// (standard practice) but are ignored everywhere else.
+const tally = (
+  participants: string[],
+  matches: BracketMatch[],
+  options: { countByes?: boolean } = {}
+): Map<string, StandingRow> => {
+  const rows = new Map(participants.map((id) => [id, emptyRow(id)]));
+
+  matches.forEach((match) => {
+    const { participant1, participant2, winnerId } = match;
+
+    if (match.isBye || !participant1 || !participant2) {
+      const row = winnerId ? rows.get(winnerId) : undefined;
+      if (row && options.countByes) {
+        row.wins++;
+        row.points += POINTS_FOR_WIN;
+      }
+      return;
+    }
+    if (!winnerId && !isDraw(match)) return;
+
+    const row1 = rows.get(participant1);
+    const row2 = rows.get(participant2);
+    [
+      [row1, match.score1, match.score2, participant1],
+      [row2, match.score2, match.score1, participant2],
+    ].forEach(([row, scored, conceded, id]) => {
+      const standing = row as StandingRow | undefined;
+      if (!standing) return;
+      standing.played++;
+      standing.scoreFor += (scored as number | undefined) || 0;
+      standing.scoreAgainst += (conceded as number | undefined) || 0;
+      if (!winnerId) {
+        standing.draws++;
+        standing.points += POINTS_FOR_DRAW;
+      } else if (winnerId === id) {
+        standing.wins++;
+        standing.points += POINTS_FOR_WIN;
+      } else {
+        standing.losses++;
+      }
+    });
+  });
+
+  return rows;
+};
+
+const byTable = (a: StandingRow, b: StandingRow) =>
+  b.points - a.points ||
+  b.scoreFor - b.scoreAgainst - (a.scoreFor - a.scoreAgainst) ||
+  b.scoreFor - a.scoreFor;
+
+// League table for one round robin group
+export const getGroupStandings = (participants: string[], rounds: BracketMatch[][]): StandingRow[] =>
+  [...tally(participants, rounds.flat()).values()].sort(
+    (a, b) => byTable(a, b) || participants.indexOf(a.participantId) - participants.indexOf(b.participantId)
+  );
+
+// Swiss table: points first, then Buchholz
+export const getSwissStandings = (participants: string[], rounds: BracketMatch[][]): StandingRow[] => {
+  const matches = rounds.flat();
+  const rows = tally(participants, matches, { countByes: true });
+
+  rows.forEach((row) => {
+    row.buchholz = matches
+      .filter(
+        (m) => m.participant1 && m.participant2 && [m.participant1, m.participant2].includes(row.participantId)
+      )
+      .map((m) => (m.participant1 === row.participantId ? m.participant2 : m.participant1) as string)
+      .reduce((sum, opponent) => sum + (rows.get(opponent)?.wins || 0), 0);
+  });
+
+  return [...rows.values()].sort(
+    (a, b) =>
+      b.points - a.points ||
+      (b.buchholz || 0) - (a.buchholz || 0) ||
+      participants.indexOf(a.participantId) - participants.indexOf(b.participantId)
+  );
+};
+
+// Elimination placement: the later you go out, the better you place, and
+// everyone knocked out at the same stage shares a placement.
+// `stages` lists the rounds where a loss eliminates, earliest first.
+const getPlacements = (
+  participants: string[],
+  stages: BracketMatch[][],
+  finalMatch: BracketMatch | undefined
+): StandingRow[] => {
+  const rows = tally(participants, stages.flat());
+  const eliminatedAt = new Map<string, number>();
+
+  stages.forEach((stage, stageIndex) => {
+    stage.forEach((match) => {
+      if (!match.winnerId || !match.participant1 || !match.participant2) return;
+      const loserId = match.winnerId === match.participant1 ? match.participant2 : match.participant1;
+      eliminatedAt.set(loserId, stageIndex);
+    });
+  });
+
+  const champion = finalMatch?.winnerId;
+  const alive = participants.filter((id) => !eliminatedAt.has(id));
+
+  // Walk stages from the last one back, handing out placements
+  let nextPlacement = alive.length + 1;
+  for (let stageIndex = stages.length - 1; stageIndex >= 0; stageIndex--) {
+    const outHere = participants.filter((id) => eliminatedAt.get(id) === stageIndex);
+    outHere.forEach((id) => {
+      const row = rows.get(id);
+      if (row) {
+        row.placement = nextPlacement;
+        row.isEliminated = true;
+      }
+    });
+    nextPlacement += outHere.length;
+  }
+  if (champion) {
+    const row = rows.get(champion);
+    if (row) row.placement = 1;
+  }
+
+  return [...rows.values()].sort(
+    (a, b) =>
+      (a.placement || 0) - (b.placement || 0) ||
+      b.wins - a.wins ||
+      participants.indexOf(a.participantId) - participants.indexOf(b.participantId)
+  );
+};
+
+export const getSingleEliminationStandings = (
+  participants: string[],
+  rounds: BracketMatch[][]
+): StandingRow[] => getPlacements(participants, rounds, rounds[rounds.length - 1]?.[0]);
+
+// In double elimination only losers bracket and grand final losses knock
+// you out; winners bracket results still count towards W/L
+export const getDoubleEliminationStandings = (
+  participants: string[],
+  structure: BracketStructure
+): StandingRow[] => {
+  const [grandFinal, reset] = structure.grandFinal || [];
+  const decidingFinal = reset?.participant1 ? reset : grandFinal;
+  const stages = [
+    ...(structure.losersRounds || []),
+    ...(decidingFinal ? [[decidingFinal]] : []),
+  ];
+
+  const rows = getPlacements(participants, stages, decidingFinal);
+  const winnersTally = tally(participants, [...structure.rounds.flat(), ...(reset?.participant1 ? [grandFinal] : [])]);
+  rows.forEach((row) => {
+    const extra = winnersTally.get(row.participantId);
+    if (!extra) return;
+    row.played += extra.played;
+    row.wins += extra.wins;
+    row.losses += extra.losses;
+    row.scoreFor += extra.scoreFor;
+    row.scoreAgainst += extra.scoreAgainst;
+    row.points += extra.points;
+  });
+  return rows;
+};
@@ -0,0 +1,75 @@
+import { describe, expect, it } from 'vitest';
+import type { MapVeto } from '@/types';
+import {
+  createVetoSteps,
+  getMapForGame,
+  getMapOrder,
+  getNextVetoStep,
+  getRemainingMaps,
+  getVetoActions,
+  parseMapPool,
+} from '@/lib/veto';
+
+const POOL = ['Ascent', 'Bind', 'Haven', 'Lotus', 'Pearl', 'Split', 'Sunset'];
+
+// A best of 3 veto with the given maps taken, in step order
+const vetoWith = (...maps: string[]): MapVeto => ({
+  status: 'in_progress',
+  pool: POOL,
+  steps: createVetoSteps(POOL.length, 3, ['a', 'b']).map((step, i) => ({ ...step, map: maps[i] })),
+  mapOrder: [],
+  startedAt: new Date('2026-11-01T18:00:00Z'),
+});
+
+describe('getVetoActions', () => {
+  it('bans down to the picks and a decider', () => {
+    expect(getVetoActions(7, 3)).toEqual(['ban', 'ban', 'pick', 'pick', 'ban', 'ban']);
+    expect(getVetoActions(7, 1)).toEqual(['ban', 'ban', 'ban', 'ban', 'ban', 'ban']);
+  });
+
+  it('has nothing left to ban when the pool is only as big as the series', () => {
+    expect(getVetoActions(3, 3)).toEqual(['pick', 'pick']);
+  });
+});
+
+describe('createVetoSteps', () => {
+  it('alternates turns, first participant first', () => {
+    expect(createVetoSteps(7, 3, ['a', 'b']).map((step) => step.participantId)).toEqual([
+      'a',
+      'b',
+      'a',
+      'b',
+      'a',
+      'b',
+    ]);
+  });
+
+  it('moves on to whoever acts next', () => {
+    expect(getNextVetoStep(vetoWith('Ascent', 'Bind'))).toMatchObject({ action: 'pick', participantId: 'a' });
+    expect(getRemainingMaps(vetoWith('Ascent', 'Bind'))).toEqual(['Haven', 'Lotus', 'Pearl', 'Split', 'Sunset']);
+  });
+});
+
+describe('getMapOrder', () => {
+  it('plays the picks in order, then the decider once the veto is done', () => {
+    expect(getMapOrder(vetoWith('Ascent', 'Bind', 'Haven', 'Lotus'))).toEqual(['Haven', 'Lotus']);
+    expect(getMapOrder(vetoWith('Ascent', 'Bind', 'Haven', 'Lotus', 'Pearl', 'Split'))).toEqual([
+      'Haven',
+      'Lotus',
+      'Sunset',
+    ]);
+  });
+
+  it('only assigns maps to games once the veto is completed', () => {
+    const veto = { ...vetoWith(), mapOrder: ['Haven', 'Lotus', 'Sunset'] };
+
+    expect(getMapForGame(veto, 2)).toBeUndefined();
+    expect(getMapForGame({ ...veto, status: 'completed' }, 2)).toBe('Sunset');
+  });
+});
+
+describe('parseMapPool', () => {
+  it('takes one map per line, skipping blanks and repeats', () => {
+    expect(parseMapPool(' Ascent\n\nBind\nAscent \n')).toEqual(['Ascent', 'Bind']);
+  });
+});
@@ -0,0 +1,57 @@
+import type { MapVeto, MapVetoStep, VetoAction } from '@/types';
+
+// Bans before the first pick; the rest come after the picks
+const OPENING_BANS = 2;
+
+// Ban/pick order for a pool and series length. Everything is banned down to
+// the maps being played: one pick per game except the last, which is the
+// decider left over. Bo3 from 7 maps: ban ban pick pick ban ban (decider).
+export const getVetoActions = (poolSize: number, bestOf: number): VetoAction[] => {
+  const picks = Math.max(0, bestOf - 1);
+  const bans = Math.max(0, poolSize - bestOf);
+  const openingBans = Math.min(OPENING_BANS, bans);
+  return [
+    ...Array<VetoAction>(openingBans).fill('ban'),
+    ...Array<VetoAction>(picks).fill('pick'),
+    ...Array<VetoAction>(bans - openingBans).fill('ban'),
+  ];
+};
+
+// Captains take turns, first participant first
+export const createVetoSteps = (
+  poolSize: number,
+  bestOf: number,
+  participantIds: [string, string]
+): MapVetoStep[] =>
+  getVetoActions(poolSize, bestOf).map((action, index) => ({
+    action,
+    participantId: participantIds[index % 2],
+  }));
+
+export const getNextVetoStep = (veto: MapVeto): MapVetoStep | undefined => veto.steps.find((step) => !step.map);
+
+export const getRemainingMaps = (veto: MapVeto): string[] => {
+  const used = new Set(veto.steps.flatMap((step) => (step.map ? [step.map] : [])));
+  return veto.pool.filter((map) => !used.has(map));
+};
+
+// Picked maps in pick order, then the decider once every step is done
+export const getMapOrder = (veto: MapVeto): string[] => {
+  const picks = veto.steps.flatMap((step) => (step.action === 'pick' && step.map ? [step.map] : []));
+  const remaining = getRemainingMaps(veto);
+  return getNextVetoStep(veto) || remaining.length !== 1 ? picks : [...picks, remaining[0]];
+};
+
+// Map for the given game of the series (0-based), if the veto decided one
+export const getMapForGame = (veto: MapVeto | undefined, gameIndex: number): string | undefined =>
+  veto?.status === 'completed' ? veto.mapOrder[gameIndex] : undefined;
+
+// Map pool as entered by admins, one map per line
+export const parseMapPool = (text: string): string[] => [
+  ...new Set(
+    text
+      .split('\n')
+      .map((map) => map.trim())
+      .filter(Boolean)
+  ),
+];
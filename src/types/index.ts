@@ -48,6 +48,7 @@ export interface UserStats {
   losses: number;
   matches: number;
   tournamentWins: number;
+  lastMatchId?: string; // match whose result last changed these stats
 }
 
 export interface User {
@@ -93,6 +94,18 @@ export interface School {
   updatedAt: Date;
 }
 
+// Calendar Feed Types
+// Subscription feeds are looked up by a secret token (the doc ID), never
+// by the owner's ID, so only people given the link can read them
+export type CalendarFeedOwnerType = 'user' | 'school';
+
+export interface CalendarFeed {
+  id: string;
+  ownerType: CalendarFeedOwnerType;
+  ownerId: string;
+  createdAt: Date;
+}
+
 // Team Types
 export interface Team {
   id: string;
@@ -107,6 +120,7 @@ export interface Team {
     wins: number;
     losses: number;
     tournamentWins: number;
+    lastMatchId?: string;
   };
   createdAt: Date;
   updatedAt: Date;
@@ -114,7 +128,9 @@ export interface Team {
 
 // Tournament Types
 export type TournamentType = 'solo' | 'team';
+export type TournamentFormat = 'single_elimination' | 'double_elimination' | 'round_robin' | 'swiss';
 export type TournamentStatus = 'draft' | 'registration' | 'in_progress' | 'completed' | 'cancelled';
+export type RegistrationStatus = 'registered' | 'waitlisted';
 
 export interface Tournament {
   id: string;
@@ -128,9 +144,27 @@ export interface Tournament {
   dateEnd: Date;
   registrationDeadline: Date;
   type: TournamentType;
+  // Hosting school, whose calendar the tournament appears on
+  schoolId?: string | null;
+  // Competition format (defaults to single elimination for older tournaments)
+  format?: TournamentFormat;
+  // Round robin: number of groups and how many per group advance to the playoffs
+  groupCount?: number;
+  advancePerGroup?: number;
+  // Swiss: number of rounds to play (defaults to log2 of the field)
+  swissRounds?: number;
   maxParticipants?: number;
+  // Team events: roster size limits for registering teams
+  minTeamSize?: number;
+  maxTeamSize?: number;
   participants: string[]; // userId or teamId
+  waitlist?: string[]; // userId or teamId, in the order they joined once the event was full
+  // Check-in: entrants confirm during the window before dateStart; no-shows are dropped
+  checkInMinutes?: number;
+  checkedIn?: string[];
   bracketId?: string;
+  // Winner (userId or teamId), set while the bracket is decided
+  championId?: string;
   createdBy: string;
   status: TournamentStatus;
   // Sponsor support
@@ -151,12 +185,32 @@ export interface BracketMatch {
   winnerId?: string;
   scheduledTime?: Date;
   completedAt?: Date;
+  // Progression (set by the bracket generator)
+  nextMatchId?: string;
+  nextSlot?: 1 | 2;
+  loserNextMatchId?: string; // double elimination: where the loser drops to
+  loserNextSlot?: 1 | 2;
+  isBye?: boolean; // only one participant will ever reach this match
+  matchId?: string; // Match document spawned to play this slot
+}
+
+export interface BracketGroup {
+  name: string;
+  participants: string[];
+  rounds: BracketMatch[][];
 }
 
 export interface Bracket {
   id: string;
   tournamentId: string;
+  format?: TournamentFormat; // defaults to single elimination
+  // Single elimination, winners bracket, Swiss rounds or round robin playoffs
   rounds: BracketMatch[][];
+  // Double elimination
+  losersRounds?: BracketMatch[][];
+  grandFinal?: BracketMatch[]; // [final, reset]
+  // Round robin
+  groups?: BracketGroup[];
   createdAt: Date;
   updatedAt: Date;
 }
@@ -172,6 +226,58 @@ export interface MatchParticipant {
   joinedAt: Date;
 }
 
+// Skill ratings (Elo), one per user or team per game, updated by ranked matches
+export type RatingSubjectType = 'user' | 'team';
+
+export interface Rating {
+  id: string; // `${subjectType}_${subjectId}_${game}`
+  subjectId: string;
+  subjectType: RatingSubjectType;
+  game: string;
+  rating: number;
+  peakRating: number;
+  gamesPlayed: number;
+  wins: number;
+  losses: number;
+  updatedAt: Date;
+}
+
+// One entry per rated match, stored under ratings/{id}/history/{matchId}
+export interface RatingChange {
+  id: string; // matchId
+  matchId: string;
+  before: number;
+  after: number;
+  delta: number;
+  result: 'win' | 'loss' | 'draw';
+  opponentIds: string[];
+  createdAt: Date;
+}
+
+// Leaderboards: running totals per user or team, per game ('all' for every
+// game) and per period ('all', or a season, month or week key)
+export type LeaderboardWindow = 'all' | 'season' | 'month' | 'week';
+export type LeaderboardSort = 'wins' | 'winRate' | 'rating';
+
+export interface LeaderboardEntry {
+  id: string; // `${subjectType}_${subjectId}_${game}_${period}`
+  subjectId: string;
+  subjectType: RatingSubjectType;
+  game: string;
+  period: string;
+  schoolId?: string;
+  matches: number;
+  wins: number;
+  losses: number;
+  draws: number;
+  // Only set once there are enough matches for it to mean something
+  winRate?: number;
+  // All-time, per-game entries only: current ranked rating
+  rating?: number;
+  lastMatchId?: string; // match whose result was counted in last
+  updatedAt: Date;
+}
+
 // Match Event Types (for tracking goals, kills, rounds, etc.)
 export type MatchEventType =
   | 'goal'
@@ -183,6 +289,24 @@ export type MatchEventType =
   | 'penalty'
   | 'other';
 
+// Per-game scoring: which events can be logged, what they're worth, how
+// the match is split up and how it's won
+export interface ScoringEventRule {
+  type: MatchEventType;
+  points?: number; // fixed points; absent lets the scorer enter a value
+}
+
+export type WinCondition =
+  | { type: 'first_to'; target: number } // e.g. first to 13 rounds
+  | { type: 'highest_score' }; // highest score once all periods are played
+
+export interface ScoringTemplate {
+  eventRules: ScoringEventRule[];
+  periodLabel?: string; // 'Round', 'Half', ...
+  periods?: number; // fixed number of periods; absent means open-ended
+  winCondition: WinCondition;
+}
+
 export interface MatchEvent {
   id: string;
   type: MatchEventType;
@@ -190,7 +314,108 @@ export interface MatchEvent {
   participantName: string;
   description?: string;
   value?: number; // e.g., points scored
+  period?: number; // round/half the event happened in
+  // Team matches: the player within the team, from its lineup
+  playerId?: string;
+  playerName?: string;
   timestamp: Date;
+  createdBy?: string;
+  editedAt?: Date;
+  // Deleted events stay in the log so a delete can be undone
+  deletedAt?: Date;
+}
+
+// One game (or map) of a best-of-N series
+export interface SeriesGame {
+  number: number; // 1-based
+  map?: string;
+  scores: Record<string, number>; // indexed by oduserId or teamId
+  winnerId?: string; // absent for a drawn game
+  completedAt?: Date;
+}
+
+// Map veto before a match: captains alternately ban and pick from the
+// game's map pool, and the last map left is the decider
+export type VetoAction = 'ban' | 'pick';
+
+export interface MapVetoStep {
+  action: VetoAction;
+  participantId: string; // oduserId or teamId whose turn it is
+  map?: string; // set once acted
+  actedBy?: string; // user who acted (the player or team captain)
+  actedAt?: Date;
+}
+
+export interface MapVeto {
+  status: 'in_progress' | 'completed';
+  pool: string[];
+  steps: MapVetoStep[];
+  // Maps to play, in order (picks, then the decider)
+  mapOrder: string[];
+  startedAt: Date;
+  completedAt?: Date;
+}
+
+// Team match lineups: the captain picks starters and substitutes from the
+// team's members before the match; lineups lock once it starts
+export interface LineupPlayer {
+  userId: string;
+  name: string;
+}
+
+export interface MatchLineup {
+  starters: LineupPlayer[];
+  substitutes: LineupPlayer[];
+  updatedBy: string;
+  updatedAt: Date;
+}
+
+// Self-reported results: one participant submits, an opponent confirms or
+// disputes, and disputes go to admins
+export type ResultReportStatus = 'pending' | 'confirmed' | 'disputed' | 'resolved';
+
+export interface MatchResultReport {
+  status: ResultReportStatus;
+  scores: Record<string, number>;
+  winnerId?: string; // absent for a draw
+  reportedBy: string; // userId
+  reportedFor: string; // participant ID (userId or teamId) that submitted
+  reportedAt: Date;
+  confirmedBy?: string;
+  confirmedFor?: string; // participant ID the confirming user spoke for
+  confirmedAt?: Date;
+  dispute?: {
+    openedBy: string;
+    openedFor: string;
+    reason: string;
+    evidenceUrls: string[];
+    openedAt: Date;
+  };
+  resolvedBy?: string;
+  resolvedAt?: Date;
+}
+
+// Recurring scrimmages: weekly on the given days until a date. Every
+// occurrence is its own match, linked by recurrenceId.
+export interface RecurrenceRule {
+  daysOfWeek: number[]; // 0 = Sunday
+  until: Date;
+}
+
+// Recap post for a finished match: off, drafted for an admin to review, or
+// published straight to the feed
+export type RecapMode = 'off' | 'review' | 'publish';
+
+export type RecapStatus = 'pending' | 'published' | 'discarded';
+
+export interface MatchRecap {
+  status: RecapStatus;
+  content: string;
+  schoolId?: string;
+  postId?: string; // once published
+  generatedAt: Date;
+  reviewedBy?: string;
+  reviewedAt?: Date;
 }
 
 export interface Match {
@@ -204,11 +429,39 @@ export interface Match {
   isTeamMatch: boolean;
   maxParticipants: number; // Any number - flexible like tournaments
   participants: MatchParticipant[];
-  // Scores (indexed by oduserId or teamId)
+  // oduserId or teamId of every participant, for looking up a player's or team's matches
+  participantIds?: string[];
+  // Scores (indexed by oduserId or teamId). For a series these are game wins.
   scores?: Record<string, number>;
   winnerId?: string;
-  // Match events/scoring log (goals, kills, rounds won, etc.)
+  // Best-of-N series: games played so far, in order
+  bestOf?: number;
+  series?: SeriesGame[];
+  mapVeto?: MapVeto;
+  // Team matches: lineup per teamId
+  lineups?: Record<string, MatchLineup>;
+  // The result currently counted in participants' stats, so it can be rolled back
+  countedResult?: {
+    winnerId?: string; // absent for a draw
+    userIds: string[];
+    teamIds: string[];
+    // Ranked matches: rating change per participant ID
+    ratingChanges?: Record<string, number>;
+    // Team matches: starters per teamId, whose player stats the result counts in
+    lineupPlayers?: Record<string, string[]>;
+    // When the result was counted, which decides its leaderboard periods
+    countedAt?: Date;
+  };
+  // Participant-submitted result awaiting confirmation (casual matches)
+  resultReport?: MatchResultReport;
+  // Latest events (goals, kills, rounds won, etc.), mirrored from the
+  // matches/{id}/events subcollection for cards and feeds
   events?: MatchEvent[];
+  // Recap post settings (defaults to 'review') and the generated recap
+  recapMode?: RecapMode;
+  recap?: MatchRecap;
+  // Match chat: seconds between each user's messages, per channel
+  chatSlowMode?: Partial<Record<MatchChatChannel, number>>;
   // Current game state (for live updates)
   currentRound?: number;
   currentMap?: string;
@@ -220,12 +473,21 @@ export interface Match {
   // Optional associations
   schoolId?: string;
   tournamentId?: string; // If part of a tournament
+  bracketMatchId?: string; // Bracket slot this match decides
   // Scheduling
   scheduledTime?: Date;
   completedAt?: Date;
+  // Reminders already sent, keyed by reminder and start time (see lib/matchSchedule)
+  remindersSent?: string[];
+  // Recurring scrimmages: the series' first match ID, shared by every occurrence
+  recurrenceId?: string;
+  recurrence?: RecurrenceRule;
+  challengeId?: string; // Challenge this match was scheduled from
   // Stream/spectate info
   streamUrl?: string;
   isPublic: boolean;
+  // Spectator counts sampled while the match is live (see lib/presence)
+  viewerStats?: MatchViewerStats;
   // Feature on feed (admin can select matches to feature prominently)
   isFeatured?: boolean;
   // Sponsor support
@@ -236,6 +498,60 @@ export interface Match {
   updatedAt: Date;
 }
 
+// Match chat: a participants-only lobby and a public spectator channel,
+// stored in matches/{id}/messages
+export type MatchChatChannel = 'lobby' | 'spectators';
+
+export interface MatchMessage {
+  id: string;
+  channel: MatchChatChannel;
+  userId: string;
+  content: string;
+  isReported: boolean;
+  createdAt: Date;
+}
+
+// Spectator presence: viewers heartbeat into matches/{id}/viewers while a
+// match is live, and the count of active viewers is sampled onto the match
+export interface MatchViewerStats {
+  current: number;
+  peak: number;
+  peakAt: Date;
+  // Average concurrent viewers is viewerTotal / sampleCount
+  sampleCount: number;
+  viewerTotal: number;
+  firstSampledAt: Date;
+  lastSampledAt: Date;
+}
+
+// Challenges: a player (or team captain) proposes a match to another player
+// or team. Accepting creates the match with both sides already joined.
+export type ChallengeStatus = 'pending' | 'accepted' | 'declined' | 'cancelled';
+
+export type ChallengeSide = Omit<MatchParticipant, 'joinedAt'>;
+
+export interface MatchChallenge {
+  id: string;
+  challenger: ChallengeSide;
+  opponent: ChallengeSide;
+  // Who can accept: the opponent user, or the opponent team's captain
+  opponentContactId: string;
+  game: string;
+  type: MatchType;
+  scheduledTime: Date;
+  bestOf?: number;
+  rules?: string;
+  message?: string;
+  // Scrimmages can repeat weekly once accepted
+  recurrence?: RecurrenceRule;
+  status: ChallengeStatus;
+  matchId?: string; // set once accepted
+  respondedAt?: Date;
+  createdBy: string;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
 // Post Types
 export type ReactionType = 'like' | 'gg' | 'fire' | 'wow';
 
@@ -261,6 +577,7 @@ export interface Post {
   authorType?: AccountType;
   schoolId?: string;
   tournamentId?: string;
+  matchId?: string; // Match recaps link back to their match
   game?: string;
   reactions: Reaction[];
   commentCount: number;
@@ -291,7 +608,9 @@ export type NotificationType =
   | 'follow'
   | 'mention'
   | 'tournament_registration'
-  | 'tournament_result';
+  | 'tournament_result'
+  | 'match_result'
+  | 'match_challenge';
 
 export interface Notification {
   id: string;
@@ -311,6 +630,11 @@ export interface Game {
   name: string;
   icon: string;
   description?: string;
+  // Maps available for the pre-match veto
+  mapPool?: string[];
+  scoringTemplate?: ScoringTemplate;
+  // How long one game usually takes, for scheduling conflict checks
+  matchDurationMinutes?: number;
   isActive: boolean;
   createdAt: Date;
   updatedAt: Date;